@@ -4,6 +4,10 @@ export { TimeAgent } from '@/agents/modules/time'
 export { WeatherAgent } from '@/agents/modules/weather'
 export { YouTubeAgent } from '@/agents/modules/youtube'
 export { MathAgent } from '@/agents/modules/math'
+export { CodeRunnerAgent } from '@/agents/modules/code-runner'
+
+// Registry the orchestrator reads its agents from
+export { AgentRegistry, agentRegistry, createBuiltinAgents, getAgentMention } from '@/agents/registry'
 
 // Re-export types for convenience
-export type { Agent, AgentResponse } from '@/types'
+export type { Agent, AgentInfo, AgentResponse } from '@/types'
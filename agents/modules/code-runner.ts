@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid'
+import { Agent, AgentResponse, AgentRunOptions, ToolDefinition } from '@/types'
+import { detectLanguage, getSandbox, SandboxFile, SandboxLanguage } from '@/lib/sandbox'
+import { getStorage } from '@/lib/storage'
+import config from '@/lib/config'
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', svg: 'image/svg+xml', webp: 'image/webp',
+  txt: 'text/plain', csv: 'text/csv', json: 'application/json', md: 'text/markdown', html: 'text/html', pdf: 'application/pdf',
+}
+
+// Text files up to this size are shown inline in the execution panel
+const PREVIEW_BYTES = 4096
+
+export class CodeRunnerAgent implements Agent {
+  name = 'Code Runner'
+  description = 'Run JavaScript or Python in an isolated sandbox with no network access and return its output and files'
+  trigger = /@run\b|\b(?:run|execute) (?:this|the|my|that) (?:code|script|snippet|program)|what (?:does|will) this (?:code |script |program )?(?:print|output|return)/i
+  mention = 'run'
+  requiredConfig = ['codeRunner.enabled']
+  tool: ToolDefinition = {
+    name: 'run_code',
+    description: 'Run a short JavaScript (Node.js) or Python 3 program and get its stdout, stderr and any files it writes to the working directory. ' +
+      'No network access and only the standard library; runs are limited in CPU time, memory and wall-clock time. Print the values you need.',
+    parameters: {
+      type: 'object',
+      properties: {
+        language: { type: 'string', enum: ['javascript', 'python'], description: 'Language of the program' },
+        code: { type: 'string', description: 'Complete program source, e.g. "print(sum(range(10)))"' }
+      },
+      required: ['language', 'code']
+    }
+  }
+
+  async run(request: string | { language: SandboxLanguage; code: string }, options?: AgentRunOptions): Promise<AgentResponse> {
+    const snippet = typeof request === 'string' ? this.extractCode(request) : request
+    const { timeoutMs, cpuSeconds, memoryMb } = config.codeRunner
+    try {
+      if (!snippet?.language || !snippet.code.trim()) {
+        throw new Error('Put the code in a ```js or ```python block so it can be run')
+      }
+
+      const result = await getSandbox().run(snippet.language, snippet.code, { signal: options?.signal })
+      console.log(`🛠️ Ran ${result.language} snippet: ${result.status} in ${result.durationMs}ms`)
+
+      return {
+        id: `code-${Date.now()}`,
+        data: {
+          language: result.language,
+          code: snippet.code,
+          status: result.status,
+          exitCode: result.exitCode,
+          stdout: result.stdout,
+          stderr: result.stderr,
+          truncated: result.truncated,
+          durationMs: result.durationMs,
+          files: await Promise.all(result.files.map(file => this.storeFile(file))),
+          skippedFiles: result.skippedFiles,
+          limits: { timeoutMs, cpuSeconds, memoryMb },
+        },
+        type: 'json',
+        metadata: {
+          source: 'code_runner',
+          timestamp: Date.now(),
+        }
+      }
+    } catch (error) {
+      console.error('Code runner error:', error)
+
+      return {
+        id: `code-${Date.now()}`,
+        data: {
+          language: snippet?.language,
+          code: snippet?.code,
+          error: 'Cannot run this code',
+          message: error instanceof Error ? error.message : 'The sandbox is unavailable',
+        },
+        type: 'json',
+        metadata: {
+          source: 'code_runner_fallback',
+          timestamp: Date.now(),
+          error: true,
+        }
+      }
+    }
+  }
+
+  // First fenced block in a chat message; the fence tag names the language, otherwise it is guessed from the syntax
+  private extractCode(input: string): { language: SandboxLanguage | null; code: string } | null {
+    const fence = input.match(/```([\w+-]*)[^\n]*\n([\s\S]*?)```/)
+    if (fence) return { language: detectLanguage(fence[2], fence[1]), code: fence[2] }
+    const code = input.replace(/@run\s*/i, '').trim()
+    return code ? { language: detectLanguage(code), code } : null
+  }
+
+  // Produced files are kept in upload storage so the links in the chat outlive the sandbox
+  private async storeFile(file: SandboxFile) {
+    const extension = (file.path.match(/\.([^./]+)$/)?.[1] || '').toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 16)
+    const mimeType = MIME_TYPES[extension] || 'application/octet-stream'
+    const key = extension ? `${uuidv4()}.${extension}` : uuidv4()
+    const storage = getStorage()
+    await storage.put(key, file.data, mimeType)
+
+    const isText = mimeType.startsWith('text/') || mimeType === 'application/json'
+    return {
+      name: file.path,
+      size: file.size,
+      mimeType,
+      url: storage.url(key),
+      ...(isText && file.size <= PREVIEW_BYTES ? { preview: file.data.toString('utf8') } : {}),
+    }
+  }
+}
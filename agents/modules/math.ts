@@ -1,33 +1,53 @@
-import { Agent, AgentResponse } from '@/types'
+import { Agent, AgentResponse, ToolDefinition } from '@/types'
+import { MathOperation, MathSolution, solveMath } from '@/lib/math-engine'
 
 export class MathAgent implements Agent {
   name = 'Math Calculator'
   description = 'Perform mathematical calculations and solve equations'
-  trigger = /@math|calculate|math|solve|equation|formula|compute|sum|multiply|divide|percentage/i
+  trigger = /@math|calculate|math|solve|equation|formula|compute|sum|multiply|divide|percentage|derivative|differentiate|integral|integrate/i
+  mention = 'math'
+  tool: ToolDefinition = {
+    name: 'calculate',
+    description: 'Evaluate, simplify, differentiate, integrate or solve math exactly, with step-by-step working. Supports variables ("x^2 + y where x = 3, y = 4"), ' +
+      'units ("5 km + 300 m to m"), matrices ("[1, 2; 3, 4] * [5; 6]", det, inv), percentages ("15% of 200"), derivatives ("derivative of sin(x) * x^2"), ' +
+      'integrals ("integral of x^2 from 0 to 3"), linear, quadratic and polynomial equations ("solve x^3 - 6x^2 + 11x - 6 = 0") and linear systems ("2x + y = 5, x - y = 1"). ' +
+      'Trig functions use radians unless a unit is given, e.g. sin(30 deg).',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'Expression, equation or request, e.g. "(1250 * 0.18) + 40" or "solve x^2 - 5x + 6 = 0"' },
+        operation: {
+          type: 'string',
+          enum: ['evaluate', 'simplify', 'solve', 'derivative', 'integral'],
+          description: 'What to do with the expression; worked out from the wording when omitted'
+        },
+        variable: { type: 'string', description: 'Variable to solve for, differentiate or integrate by (default x)' }
+      },
+      required: ['expression']
+    }
+  }
 
-  async run(input: string): Promise<AgentResponse> {
+  async run(request: string | { expression: string; operation?: MathOperation; variable?: string }): Promise<AgentResponse> {
+    const input = typeof request === 'string' ? request : request.expression
+    const options = typeof request === 'string' ? {} : { operation: request.operation, variable: request.variable }
     try {
       // Extract mathematical expression from input
-      let expression = input.replace(/@math\s*/i, '').trim()
-      
-      // Basic math expression cleaning and validation
-      expression = this.cleanExpression(expression)
-      
-      // Validate expression (only allow safe characters)
-      if (!this.isValidExpression(expression)) {
-        throw new Error('Invalid mathematical expression')
-      }
+      const expression = this.cleanExpression(input.replace(/@math\s*/i, '').trim())
+
+      // Parsed into an expression tree and worked through symbolically (lib/math-engine.ts)
+      const solution = solveMath(expression, options)
 
-      // Calculate result using eval (in a controlled way)
-      const result = this.safeEval(expression)
-      
       return {
         id: `math-${Date.now()}`,
         data: {
-          expression: expression,
-          result: result,
-          formatted: this.formatResult(result),
-          steps: this.generateSteps(expression, result),
+          expression: solution.expression,
+          operation: solution.operation,
+          ...(solution.variable ? { variable: solution.variable } : {}),
+          result: solution.value ?? solution.result,
+          formatted: this.formatResult(solution),
+          latex: solution.latex,
+          ...(solution.solutions ? { solutions: solution.solutions } : {}),
+          steps: this.generateSteps(solution),
         },
         type: 'json',
         metadata: {
@@ -37,18 +57,20 @@ export class MathAgent implements Agent {
       }
     } catch (error) {
       console.error('Math agent error:', error)
-      
+
       return {
         id: `math-${Date.now()}`,
         data: {
           expression: input,
           error: 'Cannot calculate this expression',
-          message: 'Please provide a valid mathematical expression (e.g., "2 + 2", "15% of 200", "sqrt(25)")',
+          message: error instanceof Error ? error.message : 'Please provide a valid mathematical expression (e.g., "2 + 2", "15% of 200", "sqrt(25)")',
           examples: [
             'Basic: 2 + 2, 10 - 3, 5 * 4, 15 / 3',
             'Percentages: 15% of 200, 25% increase of 100',
-            'Powers: 2^3, 5 to the power of 2',
-            'Functions: sqrt(25), sin(30), cos(60)'
+            'Variables: x^2 + y where x = 3, y = 4',
+            'Equations: solve x^2 - 5x + 6 = 0, 2x + y = 5, x - y = 1',
+            'Calculus: derivative of sin(x) * x^2, integral of x^2 from 0 to 3',
+            'Units and matrices: 10 km/h to m/s, det([1, 2; 3, 4])'
           ]
         },
         type: 'json',
@@ -70,60 +92,38 @@ export class MathAgent implements Agent {
     expr = expr.replace(/\bdivided by\b/gi, '/')
     expr = expr.replace(/\bplus\b/gi, '+')
     expr = expr.replace(/\bminus\b/gi, '-')
-    
+
     // Handle percentage calculations
     if (expr.includes('% of')) {
       const match = expr.match(/(\d+(?:\.\d+)?)%\s*of\s*(\d+(?:\.\d+)?)/i)
       if (match) {
         const percent = parseFloat(match[1])
         const number = parseFloat(match[2])
-        expr = `(${percent} / 100) * ${number}`
+        expr = expr.replace(match[0], `(${percent} / 100) * ${number}`)
       }
     }
-    
-    return expr.trim()
-  }
-
-  private isValidExpression(expr: string): boolean {
-    // Only allow safe mathematical characters and functions
-    const safePattern = /^[0-9+\-*/.()^\s%sqrtsincostan]+$/i
-    return safePattern.test(expr) && !expr.includes('__') && !expr.includes('eval')
-  }
-
-  private safeEval(expr: string): number {
-    // Replace ^ with ** for JavaScript exponentiation
-    expr = expr.replace(/\^/g, '**')
-    
-    // Handle basic math functions
-    expr = expr.replace(/sqrt\(([^)]+)\)/g, 'Math.sqrt($1)')
-    expr = expr.replace(/sin\(([^)]+)\)/g, 'Math.sin($1 * Math.PI / 180)')
-    expr = expr.replace(/cos\(([^)]+)\)/g, 'Math.cos($1 * Math.PI / 180)')
-    expr = expr.replace(/tan\(([^)]+)\)/g, 'Math.tan($1 * Math.PI / 180)')
-    
-    // Use Function constructor instead of eval for better security
-    const result = new Function('return ' + expr)()
-    
-    if (typeof result !== 'number' || !isFinite(result)) {
-      throw new Error('Invalid calculation result')
+    const change = expr.match(/(\d+(?:\.\d+)?)%\s*(increase|decrease)\s*(?:of|on|from)\s*(\d+(?:\.\d+)?)/i)
+    if (change) {
+      const factor = `(1 ${change[2].toLowerCase() === 'increase' ? '+' : '-'} ${parseFloat(change[1])} / 100)`
+      expr = expr.replace(change[0], `${parseFloat(change[3])} * ${factor}`)
     }
-    
-    return result
+
+    return expr.trim()
   }
 
-  private formatResult(result: number): string {
+  private formatResult(solution: MathSolution): string {
     // Format result with appropriate precision
-    if (Number.isInteger(result)) {
-      return result.toString()
+    const { value, result } = solution
+    if (value === undefined) return result
+    if (Number.isInteger(value)) {
+      return value.toString()
     } else {
-      return result.toFixed(6).replace(/\.?0+$/, '')
+      return value.toFixed(6).replace(/\.?0+$/, '')
     }
   }
 
-  private generateSteps(expression: string, result: number): string[] {
-    // Simple step generation for basic operations
-    return [
-      `Expression: ${expression}`,
-      `Result: ${this.formatResult(result)}`
-    ]
+  // One entry per step: the description, then the working as display math for TextRender (remark-math + KaTeX)
+  private generateSteps(solution: MathSolution): string[] {
+    return solution.steps.map(step => step.latex ? `${step.description}:\n$$${step.latex}$$` : step.description)
   }
 }
@@ -1,13 +1,27 @@
 import axios from 'axios'
-import { Agent, AgentResponse } from '@/types'
+import { Agent, AgentResponse, AgentRunOptions, ToolDefinition } from '@/types'
 import config from '@/lib/config'
 
 export class SearchAgent implements Agent {
   name = 'Internet Search'
   description = 'Search the internet for current information, real-time data, news, facts, prices, and any information that benefits from up-to-date sources'
   trigger = /@search|search for|find information|what\'s happening|latest news|current events|what time|current time|time in|what\'s the time|today\'s date|current date|weather today|stock price|latest|recent|now|currently|real-time|live|what\'s new|happening now|today|price|cost|value|worth|market|bitcoin|crypto|currency|company|business|news|update|status|available|trending|popular|best|top|who is|what is|where is|when did|how much|how many/i
+  mention = 'search'
+  requiredConfig = ['serper.apiKey']
+  tool: ToolDefinition = {
+    name: 'web_search',
+    description: 'Search the web for current or fast-changing information: news, prices, recent events, people, companies and products. Not needed for general knowledge, definitions or coding questions.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query, e.g. "Nvidia Q2 2025 revenue"' }
+      },
+      required: ['query']
+    }
+  }
 
-  async run(input: string): Promise<AgentResponse> {
+  async run(request: string | { query: string }, options?: AgentRunOptions): Promise<AgentResponse> {
+    const input = typeof request === 'string' ? request : request.query
     try {
       if (!config.serper.apiKey) {
         throw new Error('Serper API key not configured')
@@ -57,6 +71,7 @@ export class SearchAgent implements Agent {
             'Content-Type': 'application/json',
           },
           timeout: 10000,
+          signal: options?.signal,
         }
       )
 
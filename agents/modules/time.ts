@@ -1,12 +1,26 @@
 import axios from 'axios'
-import { Agent, AgentResponse } from '@/types'
+import { Agent, AgentResponse, AgentRunOptions, ToolDefinition } from '@/types'
 
 export class TimeAgent implements Agent {
   name = 'World Time'
   description = 'Get current time, date, and timezone information for any location using WorldTimeAPI'
   trigger = /what time|current time|time in|what\'s the time|what time is it|clock|timezone|date today|today\'s date|current date/i
+  mention = 'time'
 
-  async run(input: string): Promise<AgentResponse> {
+  tool: ToolDefinition = {
+    name: 'get_current_time',
+    description: 'Get the current local time and date for a location. Omit both arguments for the server location.',
+    parameters: {
+      type: 'object',
+      properties: {
+        location: { type: 'string', description: 'City or country, e.g. "Tokyo"' },
+        timezone: { type: 'string', description: 'IANA timezone for the location, e.g. "Asia/Tokyo"' }
+      }
+    }
+  }
+
+  async run(request: string | { location?: string; timezone?: string }, options?: AgentRunOptions): Promise<AgentResponse> {
+    const input = typeof request === 'string' ? request : request.location ? `time in ${request.location}` : ''
     try {
       // Extract location from input if mentioned
       const locationMatch = input.match(/time in ([^?]+)|time for ([^?]+)|in ([^?]+)/i)
@@ -37,7 +51,11 @@ export class TimeAgent implements Agent {
       }
 
       let timezone = 'UTC'
-      if (location) {
+      if (typeof request !== 'string' && request.timezone) {
+        // Tool calls can name the IANA zone directly, which covers places missing from the map
+        timezone = request.timezone
+        location = location || request.timezone
+      } else if (location) {
         const normalizedLocation = location.toLowerCase()
         timezone = timezoneMap[normalizedLocation] || `America/New_York` // fallback
       }
@@ -47,7 +65,7 @@ export class TimeAgent implements Agent {
         ? `http://worldtimeapi.org/api/timezone/${timezone}`
         : `http://worldtimeapi.org/api/ip` // Get time based on IP location
 
-      const response = await axios.get(timeUrl, { timeout: 8000 })
+      const response = await axios.get(timeUrl, { timeout: 8000, signal: options?.signal })
       const timeData = response.data
 
       const datetime = new Date(timeData.datetime)
@@ -1,12 +1,26 @@
 import axios from 'axios'
-import { Agent, AgentResponse } from '@/types'
+import { Agent, AgentResponse, AgentRunOptions, ToolDefinition } from '@/types'
 
 export class WeatherAgent implements Agent {
   name = 'Weather'
   description = 'Get current weather and forecasts for any location using real weather APIs'
   trigger = /@weather|weather in|temperature|forecast|climate|how\'s the weather/i
+  mention = 'weather'
+  tool: ToolDefinition = {
+    name: 'get_weather',
+    description: 'Get current weather conditions and a 3-day forecast for a location.',
+    parameters: {
+      type: 'object',
+      properties: {
+        location: { type: 'string', description: 'City or place name, e.g. "Tokyo" or "Austin, TX"' }
+      },
+      required: ['location']
+    }
+  }
 
-  async run(input: string): Promise<AgentResponse> {
+  async run(request: string | { location: string }, options?: AgentRunOptions): Promise<AgentResponse> {
+    // Tool calls name the location; raw messages are phrased like "weather in Paris"
+    const input = typeof request === 'string' ? request : `weather in ${request.location}`
     try {
       // Extract location from input
       const locationMatch = input.match(/(?:weather in|weather for|temperature in)\s*([^,.\n?]+)/i) ||
@@ -19,6 +33,7 @@ export class WeatherAgent implements Agent {
       
       const response = await axios.get(weatherUrl, { 
         timeout: 8000,
+        signal: options?.signal,
         headers: {
           'User-Agent': 'LayerChat/1.0'
         }
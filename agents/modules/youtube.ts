@@ -1,13 +1,27 @@
 import axios from 'axios'
-import { Agent, AgentResponse } from '@/types'
+import { Agent, AgentResponse, AgentRunOptions, ToolDefinition } from '@/types'
 import config from '@/lib/config'
 
 export class YouTubeAgent implements Agent {
   name = 'YouTube'
   description = 'Search and get information from YouTube videos'
   trigger = /@youtube|youtube|video about|find videos|watch.*video/i
+  mention = 'youtube'
+  requiredConfig = ['youtube.apiKey']
+  tool: ToolDefinition = {
+    name: 'youtube_search',
+    description: 'Find YouTube videos on a topic. Use when the user asks for videos, tutorials to watch or YouTube content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Video search query' }
+      },
+      required: ['query']
+    }
+  }
 
-  async run(input: string): Promise<AgentResponse> {
+  async run(request: string | { query: string }, options?: AgentRunOptions): Promise<AgentResponse> {
+    const input = typeof request === 'string' ? request : request.query
     try {
       if (!config.youtube.apiKey) {
         throw new Error('YouTube API key not configured')
@@ -25,6 +39,7 @@ export class YouTubeAgent implements Agent {
           key: config.youtube.apiKey,
         },
         timeout: 10000,
+        signal: options?.signal,
       })
 
       const videos = response.data.items || []
@@ -0,0 +1,98 @@
+import { Agent, AgentInfo } from '@/types'
+import { SearchAgent } from '@/agents/modules/search'
+import { TimeAgent } from '@/agents/modules/time'
+import { WeatherAgent } from '@/agents/modules/weather'
+import { YouTubeAgent } from '@/agents/modules/youtube'
+import { MathAgent } from '@/agents/modules/math'
+import { CodeRunnerAgent } from '@/agents/modules/code-runner'
+import appConfig from '@/lib/config'
+
+// Agents shipped with the app; internal agents are added with agentRegistry.register()
+export function createBuiltinAgents(): Agent[] {
+  return [
+    new SearchAgent(),
+    new TimeAgent(),
+    new YouTubeAgent(),
+    new MathAgent(),
+    new WeatherAgent(),
+    new CodeRunnerAgent()
+  ]
+}
+
+// Handle used for explicit calls, e.g. @search
+export function getAgentMention(agent: Agent): string {
+  return (agent.mention || agent.name.replace(/\s+/g, '')).toLowerCase()
+}
+
+function readConfigPath(config: unknown, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), config)
+}
+
+export class AgentRegistry {
+  private agents: Map<string, Agent> = new Map()
+  private config: unknown
+
+  // Config is injectable so required keys can be checked against any settings object
+  constructor(agents: Agent[] = [], config: unknown = appConfig) {
+    this.config = config
+    agents.forEach(agent => this.register(agent))
+  }
+
+  // Add an agent, replacing any agent registered under the same name
+  register(agent: Agent) {
+    const missing = this.getMissingConfig(agent)
+    if (missing.length) {
+      console.warn(`⚠️ Agent "${agent.name}" disabled until configured: ${missing.join(', ')}`)
+    }
+    this.agents.set(agent.name, agent)
+  }
+
+  unregister(name: string): boolean {
+    return this.agents.delete(name)
+  }
+
+  get(name: string): Agent | undefined {
+    return this.agents.get(name)
+  }
+
+  // Every registered agent, including disabled ones
+  getAll(): Agent[] {
+    return Array.from(this.agents.values())
+  }
+
+  // Agents whose required config is present; the orchestrator only runs these
+  getEnabled(): Agent[] {
+    return this.getAll().filter(agent => this.isEnabled(agent))
+  }
+
+  getMissingConfig(agent: Agent): string[] {
+    return (agent.requiredConfig || []).filter(path => !readConfigPath(this.config, path))
+  }
+
+  isEnabled(agent: Agent): boolean {
+    return this.getMissingConfig(agent).length === 0
+  }
+
+  // First enabled agent whose @handle appears in the message
+  findByMention(content: string): Agent | undefined {
+    return this.getEnabled().find(agent => new RegExp(`@${getAgentMention(agent)}\\b`, 'i').test(content))
+  }
+
+  describe(): AgentInfo[] {
+    return this.getAll().map(agent => {
+      const missingConfig = this.getMissingConfig(agent)
+      return {
+        name: agent.name,
+        description: agent.description,
+        mention: getAgentMention(agent),
+        trigger: typeof agent.trigger === 'string' ? agent.trigger : agent.trigger.source,
+        ...(agent.tool ? { tool: agent.tool.name } : {}),
+        requiredConfig: agent.requiredConfig || [],
+        missingConfig,
+        enabled: missingConfig.length === 0
+      }
+    })
+  }
+}
+
+export const agentRegistry = new AgentRegistry(createBuiltinAgents())
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { agentRegistry } from '@/agents/registry'
+
+export async function GET() {
+  // Disabled agents are listed too, with the config keys they are missing
+  const agents = agentRegistry.describe()
+
+  return NextResponse.json({
+    agents,
+    count: agents.length
+  })
+}
@@ -2,13 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { v4 as uuidv4 } from 'uuid'
 import { ChatService } from '@/lib/chat-service'
 import type { SupabaseMessage } from '@/lib/supabase'
+import { linkMessages } from '@/lib/message-tree'
 
 // POST - Add a new message to the chat
 export async function POST(request: NextRequest, context: any) {
   try {
     const { id: chatId } = await context.params
     const body = await request.json()
-    const { id: messageId, role, content, type = 'text', metadata = {}, attachments = [] } = body
+    const { id: messageId, role, content, type = 'text', parentId, metadata = {}, attachments = [] } = body
 
     console.log('📥 POST /api/chat/[id]/messages - Received:', {
       chatId,
@@ -39,6 +40,8 @@ export async function POST(request: NextRequest, context: any) {
       content,
       type,
       timestamp: new Date().toISOString(),
+      // Omitted by older clients; the message is then read as following the one before it
+      ...(parentId !== undefined ? { parentId } : {}),
       metadata,
       attachments: attachments || []
     }
@@ -63,6 +66,7 @@ export async function POST(request: NextRequest, context: any) {
         content,
         type,
         timestamp: message.timestamp,
+        parentId,
         metadata,
         attachments
       }
@@ -93,13 +97,15 @@ export async function GET(request: NextRequest, context: any) {
     }
 
     return NextResponse.json({
-      messages: conversation.messages.map((msg: any) => ({
+      // Soft-deleted rows stay in the messages table but are not sent to the client
+      messages: linkMessages(conversation.messages).filter((msg: any) => !msg.deleted).map((msg: any) => ({
         id: msg.id,
         chatId: chatId,
         role: msg.role,
         content: msg.content,
         type: msg.type,
         timestamp: msg.timestamp,
+        parentId: msg.parentId,
         metadata: msg.metadata,
         attachments: msg.attachments
       }))
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { OptimizedChatService } from '@/lib/optimized-chat-service'
+import { ChatService } from '@/lib/chat-service'
+import { linkMessages } from '@/lib/message-tree'
 
 // GET - Retrieve a chat and its messages
 export async function GET(request: NextRequest, context: any) {
@@ -24,12 +26,14 @@ export async function GET(request: NextRequest, context: any) {
         createdAt: conversation.created_at,
         updatedAt: conversation.updated_at,
         metadata: conversation.metadata,
-        messages: conversation.messages.map((msg: any) => ({
+        // Soft-deleted rows stay in the messages table but are not sent to the client
+        messages: linkMessages(conversation.messages).filter((msg: any) => !msg.deleted).map((msg: any) => ({
           id: msg.id,
           role: msg.role,
           content: msg.content,
           type: msg.type,
           timestamp: msg.timestamp,
+          parentId: msg.parentId,
           metadata: msg.metadata,
           attachments: msg.attachments
         }))
@@ -77,6 +81,44 @@ export async function PUT(request: NextRequest, context: any) {
   }
 }
 
+// PATCH - Per-chat state: which branch is open (so a reload shows the same thread) and whether long-term memory is used
+export async function PATCH(request: NextRequest, context: any) {
+  try {
+    const { id } = await context.params
+    const { activeLeafId, memoryEnabled } = await request.json()
+
+    const patch: Record<string, any> = {}
+    if (typeof activeLeafId === 'string') patch.activeLeafId = activeLeafId
+    if (typeof memoryEnabled === 'boolean') patch.memoryEnabled = memoryEnabled
+
+    if (!Object.keys(patch).length) {
+      return NextResponse.json(
+        { error: 'activeLeafId or memoryEnabled is required' },
+        { status: 400 }
+      )
+    }
+
+    // Merged into the metadata so the rolling context summary is kept
+    const success = await ChatService.updateConversationMetadata(id, patch)
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Chat not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error updating chat state:', error)
+    return NextResponse.json(
+      { error: 'Failed to update chat' },
+      { status: 500 }
+    )
+  }
+}
+
 // DELETE - Delete a chat and all its messages
 export async function DELETE(request: NextRequest, context: any) {
   try {
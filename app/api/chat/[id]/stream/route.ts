@@ -2,15 +2,21 @@ import { NextRequest, NextResponse } from 'next/server'
 import { Orchestrator } from '@/app/orchestrator'
 import { ChatMessage } from '@/types'
 import { ChatService } from '@/lib/chat-service'
+import { MemoryService } from '@/lib/memory'
+import { DocumentService } from '@/lib/documents'
+import { getImageInputError } from '@/lib/providers'
+import { getRequestUserId } from '@/lib/auth'
 import type { SupabaseMessage } from '@/lib/supabase'
 import { v4 as uuidv4 } from 'uuid'
+import { StreamSession, cancelStreamSession, resumeStreamSession } from '@/lib/stream-session'
 
 // Create a global orchestrator instance
 const orchestrator = new Orchestrator({
   defaultModel: 'GPT-4',
   enableAutoAgents: true,
   maxChainDepth: 3,
-  timeout: 30000
+  timeout: 30000,
+  agentTimeout: 10000
 })
 
 export async function POST(request: NextRequest, context: any) {
@@ -26,6 +32,15 @@ export async function POST(request: NextRequest, context: any) {
       )
     }
 
+    // Policies can target users, so the id comes from the verified access token, never from the client
+    const userId = await getRequestUserId(request)
+    if (userId === null) {
+      return NextResponse.json(
+        { error: 'Invalid or expired access token' },
+        { status: 401 }
+      )
+    }
+
     // Verify chat exists using OptimizedChatService
     const conversation = await ChatService.getConversation(chatId)
     
@@ -36,13 +51,8 @@ export async function POST(request: NextRequest, context: any) {
       )
     }
 
-    // Update governance settings if provided
-    if (settings?.governance) {
-      orchestrator.updateGovernanceConfig({
-        defaultMode: settings.governance.mode || 'smart',
-        enableGovernance: settings.governance.enabled !== false
-      })
-    }
+    // Governance for this request only; the orchestrator is shared, so the user's mode must not be written to it
+    const governance = orchestrator.createGovernanceContext(settings, userId)
 
     // Create message for processing (user message is already saved separately)
     const chatMessage: ChatMessage = {
@@ -50,62 +60,98 @@ export async function POST(request: NextRequest, context: any) {
       role: 'user',
       content: message.content,
       type: 'text',
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      // Uploaded files; images among them are shown to vision models
+      attachments: Array.isArray(message.attachments) ? message.attachments : undefined
     }
 
-    // Process with orchestrator - this will handle streaming
-    const response = await orchestrator.processMessage(chatMessage, model, settings)
-
-    // Save assistant response using OptimizedChatService
-    const assistantMessageId = uuidv4()
-    const assistantMessage = {
-      id: assistantMessageId,
-      role: 'assistant' as const,
-      content: response.content,
-      type: (response.type === 'code' || response.type === 'video') ? 'text' as const : (response.type || 'text') as 'text' | 'file' | 'image',
-      timestamp: new Date().toISOString(),
-      metadata: response.metadata || {}
+    // Images need a vision model; say so instead of sending them to one that would ignore or reject them
+    const imageError = getImageInputError(model || 'GPT-4', chatMessage.attachments)
+    if (imageError) {
+      return NextResponse.json({ error: imageError }, { status: 400 })
     }
 
-    // Add message using new ChatService with AI title generation
-    await ChatService.addMessages(chatId, [assistantMessage])
+    // Earlier turns of this branch give the model context for follow-up questions
+    // Long-term memories of the verified user join them unless memory is switched off for this chat
+    const withMemories = await MemoryService.attachToContext(
+      await ChatService.getConversationContext(chatId, chatMessage.id, message.parentId),
+      chatMessage,
+      userId
+    )
+    // Excerpts of files uploaded to this chat that match the message
+    const conversationContext = await DocumentService.attachToContext(withMemories, chatMessage)
+
+    // Numbered, Redis-buffered events let a client that drops mid-answer reconnect with Last-Event-ID
+    const session = await StreamSession.create({ chatId, model: model || 'GPT-4' })
+    const assistantMessageId = uuidv4()
 
     // Return streaming response format that matches the original chat endpoint
-    const encoder = new TextEncoder()
     const stream = new ReadableStream({
-      start(controller) {
-        // Send start event
-        const startData = JSON.stringify({ 
-          type: 'start', 
-          model: model || 'GPT-4',
-          assistantMessageId 
-        })
-        controller.enqueue(encoder.encode(`data: ${startData}\n\n`))
-
-        // Send content
-        const contentData = JSON.stringify({
-          type: 'content',
-          content: response.content,
-          metadata: response.metadata
-        })
-        controller.enqueue(encoder.encode(`data: ${contentData}\n\n`))
-
-        // Send done event with assistant message details
-        const doneData = JSON.stringify({ 
-          type: 'done',
-          assistantMessage: {
+      async start(controller) {
+        session.attach(controller)
+        try {
+          // Send start event
+          session.send({ 
+            type: 'start', 
+            model: model || 'GPT-4',
+            assistantMessageId,
+            sessionId: session.id
+          })
+
+          // Process with orchestrator - this will handle streaming
+          const response = await orchestrator.processMessage(chatMessage, model, settings, conversationContext, session.signal, governance)
+
+          // Save assistant response using OptimizedChatService
+          const assistantMessage = {
             id: assistantMessageId,
-            chatId,
-            role: 'assistant',
+            role: 'assistant' as const,
+            content: response.content,
+            parentId: chatMessage.id,
+            type: (response.type === 'code' || response.type === 'video') ? 'text' as const : (response.type || 'text') as 'text' | 'file' | 'image',
+            timestamp: new Date().toISOString(),
+            metadata: response.metadata || {}
+          }
+
+          // Add message using new ChatService with AI title generation
+          await ChatService.addMessages(chatId, [assistantMessage])
+
+          // Send content
+          session.send({
+            type: 'content',
             content: response.content,
-            type: response.type || 'text',
-            timestamp: Date.now(),
             metadata: response.metadata
+          })
+
+          // Send done event with assistant message details
+          session.send({ 
+            type: 'done',
+            assistantMessage: {
+              id: assistantMessageId,
+              chatId,
+              role: 'assistant',
+              content: response.content,
+              type: response.type || 'text',
+              timestamp: Date.now(),
+              metadata: response.metadata
+            }
+          })
+
+          await session.complete()
+        } catch (error) {
+          // Nothing was generated yet, so there is no partial answer to save
+          if (session.stopped) {
+            session.send({ type: 'stopped', timestamp: Date.now() })
+            await session.complete('stopped')
+            return
           }
-        })
-        controller.enqueue(encoder.encode(`data: ${doneData}\n\n`))
-        
-        controller.close()
+          console.error('Chat stream processing error:', error)
+          session.send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' })
+          await session.complete('error')
+        }
+      },
+      cancel() {
+        // The answer is still generated and saved; a reconnecting client can replay it
+        session.detach()
       }
     })
 
@@ -114,6 +160,7 @@ export async function POST(request: NextRequest, context: any) {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
+        'X-Stream-Session': session.id,
       },
     })
 
@@ -125,3 +172,29 @@ export async function POST(request: NextRequest, context: any) {
     )
   }
 }
+
+// Reconnect to a response: replays events after Last-Event-ID (or ?lastEventId=) and follows it until it finishes
+export async function GET(request: NextRequest) {
+  try {
+    return await resumeStreamSession(request)
+  } catch (error) {
+    console.error('Chat stream resume API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Stop button: abort the generation behind ?session=<id> before it is saved
+export async function DELETE(request: NextRequest) {
+  try {
+    return await cancelStreamSession(request)
+  } catch (error) {
+    console.error('Chat stream cancel API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,20 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { Orchestrator } from '@/app/orchestrator'
 import { ChatMessage } from '@/types'
-import { AIGovernance } from '@/lib/governance'
+import { ChatService } from '@/lib/chat-service'
+import { MemoryService } from '@/lib/memory'
+import { DocumentService } from '@/lib/documents'
+import { getImageInputError } from '@/lib/providers'
+import { getRequestUserId } from '@/lib/auth'
 
 // Create a global orchestrator instance
 const orchestrator = new Orchestrator({
   defaultModel: 'GPT-4',
   enableAutoAgents: true,
   maxChainDepth: 3,
-  timeout: 30000
+  timeout: 30000,
+  agentTimeout: 10000
 })
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { message, model, settings } = body
+    const { message, model, settings, chatId } = body
 
     if (!message || !message.content) {
       return NextResponse.json(
@@ -23,27 +28,52 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Update governance settings if provided
-    if (settings?.governance) {
-      orchestrator.updateGovernanceConfig({
-        defaultMode: settings.governance.mode || 'smart',
-        enableGovernance: settings.governance.enabled !== false
-      })
+    // Policies can target users, so the id comes from the verified access token, never from the client
+    const userId = await getRequestUserId(request)
+    if (userId === null) {
+      return NextResponse.json(
+        { error: 'Invalid or expired access token' },
+        { status: 401 }
+      )
     }
 
+    // Governance for this request only; the orchestrator is shared, so the user's mode must not be written to it
+    const governance = orchestrator.createGovernanceContext(settings, userId)
+
     const chatMessage: ChatMessage = {
       id: message.id || `msg-${Date.now()}`,
       role: 'user',
       content: message.content,
       type: 'text',
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      // Uploaded files; images among them are shown to vision models
+      attachments: Array.isArray(message.attachments) ? message.attachments : undefined
     }
 
-    const response = await orchestrator.processMessage(chatMessage, model, settings)
+    // Images need a vision model; say so instead of sending them to one that would ignore or reject them
+    const imageError = getImageInputError(model || 'GPT-4', chatMessage.attachments)
+    if (imageError) {
+      return NextResponse.json({ error: imageError }, { status: 400 })
+    }
+
+    // Load earlier turns (and their rolling summary) so the model can follow up on them
+    const history = chatId ? await ChatService.getConversationContext(chatId, chatMessage.id, message.parentId) : { turns: [] }
+    // Remember or forget what the message asks, and recall what is relevant to it (unless off for this chat).
+    // Memories belong to the verified user; requests without a token share the default user's.
+    const withMemories = await MemoryService.attachToContext(history, chatMessage, userId)
+    // Excerpts of files uploaded to this chat that match the message, cited by file and page in the answer
+    const context = await DocumentService.attachToContext(withMemories, chatMessage)
+
+    // Nothing is buffered for this endpoint, so a client that goes away cancels the generation
+    const response = await orchestrator.processMessage(chatMessage, model, settings, context, request.signal, governance)
 
     return NextResponse.json({ response })
 
   } catch (error) {
+    if (request.signal.aborted) {
+      console.log('🛑 Chat request cancelled by the client')
+      return new NextResponse(null, { status: 499 })
+    }
     console.error('Chat API error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -2,22 +2,46 @@ import { NextRequest } from 'next/server'
 import { Orchestrator } from '@/app/orchestrator'
 import { ChatMessage } from '@/types'
 import { validateConfig } from '@/lib/config'
-import { AIGovernance } from '@/lib/governance'
+import { ChatService } from '@/lib/chat-service'
+import { MemoryService } from '@/lib/memory'
+import { DocumentService } from '@/lib/documents'
+import { getImageInputError } from '@/lib/providers'
+import { getRequestUserId } from '@/lib/auth'
+import { StreamSession, cancelStreamSession, readSSEEvents, resumeStreamSession } from '@/lib/stream-session'
 
 const orchestrator = new Orchestrator({
   defaultModel: 'GPT-4',
   enableAutoAgents: true,
   maxChainDepth: 3,
-  timeout: 30000
+  timeout: 30000,
+  agentTimeout: 10000
 })
 
+// The client may be gone by the time the user stops, so the partial answer is stored here.
+// Ids match the client's own save, which the message upsert then ignores.
+async function saveStoppedExchange(
+  chatId: string,
+  question: ChatMessage,
+  answer: Pick<ChatMessage, 'id' | 'content' | 'metadata'>
+): Promise<void> {
+  try {
+    await ChatService.addMessages(chatId, [
+      { ...question, type: question.attachments?.length ? 'file' : 'text', metadata: { model: answer.metadata?.model } },
+      { ...answer, role: 'assistant', type: 'text', timestamp: Date.now(), parentId: question.id }
+    ])
+    console.log(`🛑 Saved ${answer.content.length} characters of stopped answer to chat ${chatId}`)
+  } catch (error) {
+    console.error('❌ Error saving stopped answer:', error)
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Validate configuration
     validateConfig()
     
     const body = await request.json()
-    const { message, model, settings } = body
+    const { message, model, settings, chatId, assistantMessageId } = body
 
     if (!message || !message.content) {
       return new Response(
@@ -29,93 +53,138 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Policies can target users, so the id comes from the verified access token, never from the client
+    const userId = await getRequestUserId(request)
+    if (userId === null) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired access token' }),
+        { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     const chatMessage: ChatMessage = {
       id: message.id || `msg-${Date.now()}`,
       role: 'user',
       content: message.content,
       type: 'text',
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      // Uploaded files; images among them are shown to vision models
+      attachments: Array.isArray(message.attachments) ? message.attachments : undefined
     }
 
-    // Update governance settings if provided
-    if (settings?.governance) {
-      orchestrator.updateGovernanceConfig({
-        defaultMode: settings.governance.mode || 'smart',
-        enableGovernance: settings.governance.enabled !== false
-      })
+    // Images need a vision model; say so instead of sending them to one that would ignore or reject them
+    const imageError = getImageInputError(model || 'GPT-4', chatMessage.attachments)
+    if (imageError) {
+      return new Response(
+        JSON.stringify({ error: imageError }),
+        { 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
     }
 
+    // Load earlier turns (and their rolling summary) so the model can follow up on them
+    const history = chatId ? await ChatService.getConversationContext(chatId, chatMessage.id, message.parentId) : { turns: [] }
+    // Remember or forget what the message asks, and recall what is relevant to it (unless off for this chat).
+    // Memories belong to the verified user; requests without a token share the default user's.
+    const withMemories = await MemoryService.attachToContext(history, chatMessage, userId)
+    // Excerpts of files uploaded to this chat that match the message, cited by file and page in the answer
+    const context = await DocumentService.attachToContext(withMemories, chatMessage)
+
+    // Governance for this request only; the orchestrator is shared, so the user's mode must not be written to it
+    const governance = orchestrator.createGovernanceContext(settings, userId)
+
+    // Each response is a resumable session: events are numbered and buffered so a dropped client can replay them
+    const session = await StreamSession.create({ chatId, model: model || 'GPT-4' })
+
+    // What has streamed so far, kept for the save when the user stops
+    let partial = ''
+    let agentMetadata: Record<string, any> = {}
+
     // Create a streaming response
     const stream = new ReadableStream({
       async start(controller) {
+        session.attach(controller)
         try {
           // Send initial response
-          controller.enqueue(
-            new TextEncoder().encode(
-              `data: ${JSON.stringify({ 
-                type: 'start',
-                timestamp: Date.now(),
-                model: model || 'GPT-4'
-              })}\n\n`
-            )
-          )
+          session.send({ 
+            type: 'start',
+            timestamp: Date.now(),
+            model: model || 'GPT-4',
+            sessionId: session.id
+          })
 
           // Process with orchestrator
           const response = await orchestrator.processMessageStream(
             chatMessage, 
             model,
-            settings
+            settings,
+            context,
+            session.signal,
+            governance
           )
 
           // Stream the response
           if (response.stream) {
-            const reader = response.stream.getReader()
-            
-            while (true) {
-              const { done, value } = await reader.read()
-              
-              if (done) break
-              
-              controller.enqueue(value)
+            for await (const event of readSSEEvents(response.stream)) {
+              // Providers that ignore the abort signal are cut off here
+              if (session.stopped) break
+              if (event.type === 'content' && event.content) partial += event.content
+              if (event.type === 'agents') agentMetadata = { ...agentMetadata, ...event.metadata }
+              session.send(event)
             }
           } else {
             // Non-streaming response
-            controller.enqueue(
-              new TextEncoder().encode(
-                `data: ${JSON.stringify({ 
-                  type: 'content',
-                  content: response.content,
-                  metadata: response.metadata
-                })}\n\n`
-              )
-            )
+            partial = response.content || ''
+            session.send({ 
+              type: 'content',
+              content: response.content,
+              metadata: response.metadata
+            })
           }
 
+          session.signal.throwIfAborted()
+
           // Send completion signal
-          controller.enqueue(
-            new TextEncoder().encode(
-              `data: ${JSON.stringify({ 
-                type: 'done',
-                timestamp: Date.now()
-              })}\n\n`
-            )
-          )
+          session.send({ 
+            type: 'done',
+            timestamp: Date.now()
+          })
 
-          controller.close()
+          await session.complete()
         } catch (error) {
+          // Stopped by the user: the answer so far is saved as stopped, resuming clients see it end here
+          if (session.stopped) {
+            session.send({ type: 'stopped', timestamp: Date.now() })
+            if (chatId && partial.trim()) {
+              // parentId is left out for older clients, as in POST /api/chat/[id]/messages
+              const question = message.parentId !== undefined ? { ...chatMessage, parentId: message.parentId } : chatMessage
+              await saveStoppedExchange(chatId, question, {
+                id: assistantMessageId || `assistant-${Date.now()}`,
+                content: partial,
+                metadata: { ...agentMetadata, model: model || 'GPT-4', streaming: false, stopped: true }
+              })
+            }
+            await session.complete('stopped')
+            return
+          }
           console.error('Streaming error:', error)
           
-          controller.enqueue(
-            new TextEncoder().encode(
-              `data: ${JSON.stringify({ 
-                type: 'error',
-                error: error instanceof Error ? error.message : 'Unknown error'
-              })}\n\n`
-            )
-          )
+          session.send({ 
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          })
           
-          controller.close()
+          await session.complete('error')
         }
+      },
+      cancel() {
+        // Generation carries on so the answer can be replayed after a reconnect
+        session.detach()
       }
     })
 
@@ -125,8 +194,10 @@ export async function POST(request: NextRequest) {
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, DELETE',
+        'Access-Control-Allow-Headers': 'Content-Type, Last-Event-ID',
+        'Access-Control-Expose-Headers': 'X-Stream-Session',
+        'X-Stream-Session': session.id,
       },
     })
 
@@ -141,3 +212,35 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+// Reconnect to a response: replays events after Last-Event-ID (or ?lastEventId=) and follows it until it finishes
+export async function GET(request: NextRequest) {
+  try {
+    return await resumeStreamSession(request)
+  } catch (error) {
+    console.error('Stream resume API error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { 
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+  }
+}
+
+// Stop button: abort the provider request and agent calls behind ?session=<id>
+export async function DELETE(request: NextRequest) {
+  try {
+    return await cancelStreamSession(request)
+  } catch (error) {
+    console.error('Stream cancel API error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { 
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EmbeddingJob } from '@/lib/embedding-job'
+import { getEmbeddingProvider } from '@/lib/embeddings'
+import { checkGovernanceAdmin } from '@/lib/auth'
+
+// GET - Which embedding model new and edited messages are embedded with
+export async function GET() {
+  const provider = getEmbeddingProvider()
+  return NextResponse.json({
+    enabled: !!provider,
+    model: provider?.id || null
+  })
+}
+
+// POST - Backfill: embed stored messages that have no vector for the current model.
+// Body: { conversationId?: string, limit?: number }; call again while `embedded` equals the limit.
+// Reads every conversation and spends provider quota, so it needs `Authorization: Bearer <GOVERNANCE_ADMIN_TOKEN>`.
+export async function POST(request: NextRequest) {
+  const denied = checkGovernanceAdmin(request)
+  if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status })
+
+  const provider = getEmbeddingProvider()
+  if (!provider) {
+    return NextResponse.json(
+      { error: 'Embeddings are disabled (EMBEDDING_PROVIDER=none)' },
+      { status: 400 }
+    )
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const limit = Math.max(Number(body.limit) || 500, 1)
+
+  try {
+    const embedded = await EmbeddingJob.run({
+      conversationId: typeof body.conversationId === 'string' ? body.conversationId : undefined,
+      limit,
+      provider
+    })
+
+    return NextResponse.json({ model: provider.id, embedded, done: embedded < limit })
+  } catch (error) {
+    console.error('Error backfilling embeddings:', error)
+    return NextResponse.json(
+      { error: 'Failed to backfill embeddings' },
+      { status: 500 }
+    )
+  }
+}
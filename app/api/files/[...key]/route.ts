@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage, getStorageKey } from '@/lib/storage'
+
+// GET - Open an uploaded file. Attachment URLs point here and are redirected to a short-lived signed URL,
+// so links saved on messages keep working while the bucket itself stays private.
+// There is no access check: anyone with a link can open the file. Conversations have no owner to check against, and a
+// file is linked before the message carrying it is saved, so the only protection is that keys are random UUIDs.
+// Put the app behind authentication if uploads must stay private to their uploader.
+export async function GET(request: NextRequest, context: any) {
+  try {
+    const { key: segments } = await context.params
+    const key = getStorageKey(`/api/files/${(segments as string[]).join('/')}`)
+
+    if (!key) {
+      return NextResponse.json(
+        { error: 'Invalid file key' },
+        { status: 400 }
+      )
+    }
+
+    const url = await getStorage().signedUrl(key)
+    const response = NextResponse.redirect(new URL(url, request.url))
+    // The signed URL expires, so the redirect must not be cached for longer than it lives
+    response.headers.set('Cache-Control', 'private, no-store')
+    return response
+
+  } catch (error) {
+    console.error('Error signing file URL:', error)
+    return NextResponse.json(
+      { error: 'Failed to open file' },
+      { status: 500 }
+    )
+  }
+}
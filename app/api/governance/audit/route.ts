@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { GovernanceAudit } from '@/lib/governance-audit'
+import { checkGovernanceAdmin } from '@/lib/auth'
+
+// GET - Recent governance decisions of every user, newest first. Query: ?limit=50&userId=...
+// Needs `Authorization: Bearer <GOVERNANCE_ADMIN_TOKEN>`.
+export async function GET(request: NextRequest) {
+  try {
+    const denied = checkGovernanceAdmin(request)
+    if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status })
+
+    const { searchParams } = new URL(request.url)
+    const entries = await GovernanceAudit.list({
+      limit: parseInt(searchParams.get('limit') || '50') || 50,
+      userId: searchParams.get('userId') || undefined,
+    })
+    return NextResponse.json({ entries })
+  } catch (error) {
+    console.error('Error listing governance audit entries:', error)
+    return NextResponse.json(
+      { error: 'Failed to list governance audit entries' },
+      { status: 500 }
+    )
+  }
+}
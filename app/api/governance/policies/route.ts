@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { defaultGovernance } from '@/lib/governance'
+import { MAX_POLICY_FILE_BYTES, parsePolicies } from '@/lib/governance-policy'
+import { checkGovernanceAdmin } from '@/lib/auth'
+
+// Both endpoints need `Authorization: Bearer <GOVERNANCE_ADMIN_TOKEN>`
+
+// GET - Policies in force, the file they came from and the last load error, if the latest edit was rejected
+export async function GET(request: NextRequest) {
+  try {
+    const denied = checkGovernanceAdmin(request)
+    if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status })
+
+    return NextResponse.json(defaultGovernance.getPolicyStatus())
+  } catch (error) {
+    console.error('Error reading governance policies:', error)
+    return NextResponse.json(
+      { error: 'Failed to read governance policies' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Dry run: what governance would decide for a message, without recording it or running anything.
+// Body: { message: string, userId?: string, settings?: { governance?: { mode, allowedAgents } }, policies?: string, format?: 'yaml' | 'json' }
+// Pass `policies` (the text of a policy file) to try changes before saving them; the policies in force are used otherwise.
+export async function POST(request: NextRequest) {
+  try {
+    const denied = checkGovernanceAdmin(request)
+    if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status })
+
+    const { message, userId, settings, policies, format } = await request.json()
+
+    if (typeof message !== 'string' || !message.trim()) {
+      return NextResponse.json(
+        { error: 'Message is required' },
+        { status: 400 }
+      )
+    }
+
+    let context = defaultGovernance.createContext(settings || {}, typeof userId === 'string' && userId ? userId : undefined)
+    if (typeof policies === 'string') {
+      if (Buffer.byteLength(policies) > MAX_POLICY_FILE_BYTES) {
+        return NextResponse.json(
+          { error: `Policy file is over ${MAX_POLICY_FILE_BYTES} bytes` },
+          { status: 413 }
+        )
+      }
+      try {
+        context = Object.freeze({ ...context, policies: parsePolicies(policies, format === 'json' ? 'json' : 'yaml') })
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid policy file' },
+          { status: 400 }
+        )
+      }
+    }
+
+    return NextResponse.json({ decision: defaultGovernance.evaluate(message, context) })
+  } catch (error) {
+    console.error('Error evaluating governance policies:', error)
+    return NextResponse.json(
+      { error: 'Failed to evaluate governance policies' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MemoryService } from '@/lib/memory'
+import { getRequestUserId } from '@/lib/auth'
+
+const MEMORY_KINDS = ['fact', 'preference']
+
+// Only the owner's memories can be changed; a memory of another user reads as not found
+function invalidToken() {
+  return NextResponse.json(
+    { error: 'Invalid or expired access token' },
+    { status: 401 }
+  )
+}
+
+// PATCH - Edit a memory. Body: { content?: string, kind?: 'fact' | 'preference' }
+export async function PATCH(request: NextRequest, context: any) {
+  try {
+    const { id } = await context.params
+    const userId = await getRequestUserId(request)
+    if (userId === null) return invalidToken()
+
+    const { content, kind } = await request.json()
+
+    if (content === undefined && kind === undefined) {
+      return NextResponse.json(
+        { error: 'content or kind is required' },
+        { status: 400 }
+      )
+    }
+    if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+      return NextResponse.json(
+        { error: 'Memory content cannot be empty' },
+        { status: 400 }
+      )
+    }
+    if (kind !== undefined && !MEMORY_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `kind must be one of: ${MEMORY_KINDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const memory = await MemoryService.update(id, { content, kind }, userId)
+
+    if (!memory) {
+      return NextResponse.json(
+        { error: 'Memory not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ memory })
+  } catch (error) {
+    console.error('Error updating memory:', error)
+    return NextResponse.json(
+      { error: 'Failed to update memory' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Forget a memory
+export async function DELETE(request: NextRequest, context: any) {
+  try {
+    const { id } = await context.params
+    const userId = await getRequestUserId(request)
+    if (userId === null) return invalidToken()
+
+    const success = await MemoryService.remove(id, userId)
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Memory not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting memory:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete memory' },
+      { status: 500 }
+    )
+  }
+}
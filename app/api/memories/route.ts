@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MemoryService } from '@/lib/memory'
+import { getRequestUserId } from '@/lib/auth'
+
+const MEMORY_KINDS = ['fact', 'preference']
+
+// Memories belong to the user of the access token; without one, to the shared default user
+function invalidToken() {
+  return NextResponse.json(
+    { error: 'Invalid or expired access token' },
+    { status: 401 }
+  )
+}
+
+// GET - Every long-term memory of the user, newest first, with the conversation and message it came from
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (userId === null) return invalidToken()
+
+    const memories = await MemoryService.list(userId)
+    return NextResponse.json({ memories })
+  } catch (error) {
+    console.error('Error listing memories:', error)
+    return NextResponse.json(
+      { error: 'Failed to list memories' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Add a memory by hand. Body: { content: string, kind?: 'fact' | 'preference' }
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request)
+    if (userId === null) return invalidToken()
+
+    const { content, kind } = await request.json()
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { error: 'Memory content is required' },
+        { status: 400 }
+      )
+    }
+
+    const memory = await MemoryService.create({
+      content,
+      kind: MEMORY_KINDS.includes(kind) ? kind : 'fact',
+      source: 'manual'
+    }, userId)
+    return NextResponse.json({ memory }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating memory:', error)
+    return NextResponse.json(
+      { error: 'Failed to create memory' },
+      { status: 500 }
+    )
+  }
+}
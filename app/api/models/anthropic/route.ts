@@ -1,29 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { providerRegistry } from '@/models/registry'
 
 export async function GET(request: NextRequest) {
-  try {
-    // Anthropic doesn't have a public models API endpoint like OpenAI
-    // So we'll return the known available models
-    const models = [
-      { name: 'claude-3-opus-20240229', provider: 'Anthropic' },
-      { name: 'claude-3-sonnet-20240229', provider: 'Anthropic' },
-      { name: 'claude-3-haiku-20240307', provider: 'Anthropic' },
-      { name: 'claude-2.1', provider: 'Anthropic' },
-      { name: 'claude-2.0', provider: 'Anthropic' },
-      { name: 'claude-instant-1.2', provider: 'Anthropic' }
-    ]
+  // The registry falls back to the provider's default catalogue if the live listing fails
+  const models = await providerRegistry.listModels('anthropic')
 
-    return NextResponse.json({ models })
-
-  } catch (error) {
-    console.error('Anthropic models API error:', error)
-    
-    // Return fallback models
-    const fallbackModels = [
-      { name: 'claude-3-sonnet-20240229', provider: 'Anthropic' },
-      { name: 'claude-3-haiku-20240307', provider: 'Anthropic' }
-    ]
-    
-    return NextResponse.json({ models: fallbackModels })
-  }
+  return NextResponse.json({
+    models,
+    count: models.length,
+    provider: 'Anthropic'
+  })
 }
@@ -1,26 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { providerRegistry } from '@/models/registry'
 
 export async function GET(request: NextRequest) {
-  try {
-    // Google AI available models based on their official documentation
-    const models = [
-      { name: 'gemini-2.5-flash', provider: 'Google' },
-      { name: 'gemini-1.5-pro', provider: 'Google' },
-      { name: 'gemini-1.5-flash', provider: 'Google' },
-      { name: 'gemini-pro', provider: 'Google' },
-    ]
+  // The registry falls back to the provider's default catalogue if the live listing fails
+  const models = await providerRegistry.listModels('google')
 
-    return NextResponse.json({ models })
-
-  } catch (error) {
-    console.error('Google models API error:', error)
-    
-    // Return fallback models
-    const fallbackModels = [
-      { name: 'gemini-2.5-flash', provider: 'Google' },
-      { name: 'gemini-1.5-pro', provider: 'Google' }
-    ]
-    
-    return NextResponse.json({ models: fallbackModels })
-  }
+  return NextResponse.json({
+    models,
+    count: models.length,
+    provider: 'Google'
+  })
 }
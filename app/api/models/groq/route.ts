@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { providerRegistry } from '@/models/registry'
+
+export async function GET(request: NextRequest) {
+  // The registry falls back to the provider's default catalogue if the live listing fails
+  const models = await providerRegistry.listModels('groq')
+
+  return NextResponse.json({
+    models,
+    count: models.length,
+    provider: 'Groq'
+  })
+}
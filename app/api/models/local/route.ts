@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { providerRegistry } from '@/models/registry'
+
+export async function GET(request: NextRequest) {
+  // Discovered from the server's /v1/models; falls back to LOCAL_LLM_MODELS when it can't be reached
+  const models = await providerRegistry.listModels('local')
+
+  return NextResponse.json({
+    models,
+    count: models.length,
+    provider: 'Local'
+  })
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseChatStorage } from '@/lib/supabase'
+import { getEmbeddingProvider } from '@/lib/embeddings'
+
+const MAX_RESULTS = 50
+
+async function search(query: string, embedding?: number[], limit?: number) {
+  if (!query.trim() && !embedding?.length) {
+    return NextResponse.json(
+      { error: 'A search query or embedding is required' },
+      { status: 400 }
+    )
+  }
+
+  // Without a caller-supplied vector, embed the query with the model the messages were embedded with
+  const provider = getEmbeddingProvider()
+  if (!embedding?.length && provider && query.trim()) {
+    try {
+      [embedding] = await provider.embed([query.trim()])
+    } catch (error) {
+      console.error('Failed to embed search query, using full-text search only:', error)
+    }
+  }
+
+  try {
+    const results = await SupabaseChatStorage.searchMessages(query.trim(), {
+      embedding,
+      limit: Math.min(Math.max(limit || 20, 1), MAX_RESULTS)
+    })
+
+    console.log(`🔎 Message search "${query}" returned ${results.length} results${embedding?.length ? ' (hybrid)' : ''}`)
+    return NextResponse.json({ results, count: results.length })
+  } catch (error) {
+    console.error('Error searching messages:', error)
+    return NextResponse.json(
+      { error: 'Failed to search messages' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET - Search across all conversations: /api/search?q=...&limit=...
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  return search(params.get('q') || '', undefined, Number(params.get('limit')) || undefined)
+}
+
+// POST - Same search; an `embedding` in the body replaces the server-side query embedding
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const embedding = Array.isArray(body.embedding) && body.embedding.every((value: unknown) => typeof value === 'number')
+    ? body.embedding as number[]
+    : undefined
+  return search(typeof body.query === 'string' ? body.query : '', embedding, Number(body.limit) || undefined)
+}
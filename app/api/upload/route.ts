@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { writeFile, mkdir } from 'fs/promises'
-import { join } from 'path'
 import { v4 as uuidv4 } from 'uuid'
 import config from '@/lib/config'
+import { getStorage } from '@/lib/storage'
+import { DocumentService } from '@/lib/documents'
+import { getDocumentFormat } from '@/lib/document-extract'
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData()
     const files = formData.getAll('files') as File[]
+    // With a conversation id, documents are indexed so the chat can answer questions about them
+    const conversationId = formData.get('conversationId')?.toString() || undefined
+    const messageId = formData.get('messageId')?.toString() || undefined
 
     if (!files || files.length === 0) {
       return NextResponse.json(
@@ -35,29 +39,49 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      // Generate unique filename
-      const fileExtension = file.name.split('.').pop()
-      const uniqueFilename = `${uuidv4()}.${fileExtension}`
-      
-      // Create upload directory if it doesn't exist
-      const uploadDir = join(process.cwd(), 'public', 'uploads')
-      await mkdir(uploadDir, { recursive: true })
+      // Generate unique filename; the extension is kept (minus anything unsafe) so the file opens with the right app
+      const fileExtension = (file.name.includes('.') ? file.name.split('.').pop() || '' : '').replace(/[^a-z0-9]/gi, '').slice(0, 16)
+      const uniqueFilename = fileExtension ? `${uuidv4()}.${fileExtension}` : uuidv4()
 
-      // Save file
-      const filePath = join(uploadDir, uniqueFilename)
+      // Save file to the configured storage backend (local disk, S3-compatible bucket or Cloudinary)
       const bytes = await file.arrayBuffer()
       const buffer = Buffer.from(bytes)
-      
-      await writeFile(filePath, buffer)
+      const storage = getStorage()
+      await storage.put(uniqueFilename, buffer, file.type || undefined)
+
+      const id = uuidv4()
+      const path = storage.url(uniqueFilename)
+
+      // A file that can't be read is still uploaded; it just isn't searchable
+      let chunks: number | undefined
+      let indexError: string | undefined
+      if (conversationId && getDocumentFormat(file.name, file.type)) {
+        try {
+          chunks = await DocumentService.ingest({
+            conversationId,
+            attachmentId: id,
+            messageId,
+            name: file.name,
+            url: path,
+            type: file.type,
+            data: buffer
+          })
+        } catch (error) {
+          console.error(`Failed to index ${file.name}:`, error)
+          indexError = error instanceof Error ? error.message : 'Indexing failed'
+        }
+      }
 
       uploadedFiles.push({
-        id: uuidv4(),
+        id,
         originalName: file.name,
         filename: uniqueFilename,
-        path: `/uploads/${uniqueFilename}`,
+        path,
         size: file.size,
         type: file.type,
         uploadedAt: new Date().toISOString(),
+        ...(chunks !== undefined ? { chunks } : {}),
+        ...(indexError ? { indexError } : {}),
       })
     }
 
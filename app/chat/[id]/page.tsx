@@ -3,6 +3,8 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useChatStore } from '@/lib/store'
+import { getActivePath } from '@/lib/message-tree'
+import { getMessageAnchor } from '@/lib/search'
 import Sidebar from '@/components/sidebar'
 import Header from '@/components/header'
 import Chat from '@/components/chat/chat'
@@ -30,6 +32,8 @@ function ChatPageContent({ params }: { params: ChatPageProps['params'] }) {
     setCurrentSession,
     currentSession,
     messages,
+    activeLeafId,
+    switchBranch,
     setLoading: setChatLoading
   } = useChatStore()
 
@@ -98,6 +102,35 @@ function ChatPageContent({ params }: { params: ChatPageProps['params'] }) {
     }
   }, [chatId, setCurrentSession])
 
+  // Search results link to /chat/<id>#message-<messageId>: show that message's branch and scroll to it
+  useEffect(() => {
+    const jumpToMessage = () => {
+      const anchor = window.location.hash.slice(1)
+      if (!anchor.startsWith(getMessageAnchor('')) || !chatId || currentSession?.id !== chatId) return
+
+      const messageId = anchor.slice(getMessageAnchor('').length)
+      if (!messages.some(message => message.id === messageId)) return
+      if (!getActivePath(messages, activeLeafId).some(message => message.id === messageId)) {
+        switchBranch(messageId)
+      }
+
+      // Drop the hash so new messages don't jump back here
+      window.history.replaceState(null, '', window.location.pathname)
+      // Wait for the branch to render and the chat's own scroll-to-bottom to run first
+      setTimeout(() => {
+        const element = document.getElementById(anchor)
+        if (!element) return
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        element.classList.add('ring-2', 'ring-yellow-500/60', 'rounded-lg')
+        setTimeout(() => element.classList.remove('ring-2', 'ring-yellow-500/60', 'rounded-lg'), 2000)
+      }, 300)
+    }
+
+    jumpToMessage()
+    window.addEventListener('hashchange', jumpToMessage)
+    return () => window.removeEventListener('hashchange', jumpToMessage)
+  }, [chatId, currentSession?.id, messages, activeLeafId, switchBranch])
+
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen)
   }
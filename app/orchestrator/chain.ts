@@ -0,0 +1,142 @@
+// Agent chain bookkeeping: runs agents as chain steps under a shared deadline and records each step for the assistant message.
+import { Agent, AgentChain, AgentChainStep, AgentResponse, ToolCall } from '@/types'
+
+// An agent invocation, whether picked by @mention, by keyword fallback or by a model tool call
+export interface AgentRun {
+  agent: Agent
+  response: AgentResponse
+  call?: ToolCall
+}
+
+export interface AgentChainResult {
+  runs: AgentRun[] // Steps that produced data for the answer
+  chain: AgentChain
+}
+
+export interface ChainEntry {
+  agent: Agent
+  input: any
+  call?: ToolCall
+}
+
+export interface ChainCallbacks {
+  onAgentStart?: (agent: Agent) => Promise<void> | void
+  onStep?: (step: AgentChainStep) => void
+  onResponse?: (agent: Agent, response: AgentResponse) => AgentResponse // Rewrite a response before anything reads it
+}
+
+export const TIMED_OUT = Symbol('timed out')
+
+// Resolve with the promise's value, or with TIMED_OUT once the deadline passes
+export function raceDeadline<T>(promise: Promise<T>, deadline: number): Promise<T | typeof TIMED_OUT> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+    timer = setTimeout(() => resolve(TIMED_OUT), Math.max(deadline - Date.now(), 0))
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+export class ChainRecorder {
+  readonly deadline: number
+  readonly runs: AgentRun[] = []
+  private steps: AgentChainStep[] = []
+  private startedAt = Date.now()
+  private callbacks: ChainCallbacks
+  private agentTimeoutMs: number
+  readonly signal?: AbortSignal
+
+  // The signal is the request's: stopping generation cancels the agents' HTTP calls and any steps not yet started
+  constructor(timeoutMs: number, callbacks: ChainCallbacks = {}, agentTimeoutMs: number = timeoutMs, signal?: AbortSignal) {
+    this.deadline = this.startedAt + timeoutMs
+    this.callbacks = callbacks
+    this.agentTimeoutMs = agentTimeoutMs
+    this.signal = signal
+  }
+
+  get timedOut(): boolean {
+    return Date.now() >= this.deadline
+  }
+
+  get cancelled(): boolean {
+    return !!this.signal?.aborted
+  }
+
+  // Steps that failed, timed out or only produced fallback data
+  get failures(): AgentChainStep[] {
+    return this.steps.filter(step => step.status !== 'success')
+  }
+
+  // Run one agent as a chain step; failures and timeouts are recorded on the step instead of thrown
+  async run(agent: Agent, input: any, depth: number, call?: ToolCall): Promise<AgentChainStep> {
+    const started = Date.now()
+    const step: AgentChainStep = {
+      depth,
+      agent: agent.name,
+      ...(call ? { tool: call.name } : {}),
+      input,
+      status: 'success',
+      durationMs: 0
+    }
+
+    if (this.cancelled) {
+      step.status = 'cancelled'
+      step.error = 'Generation was stopped before this step ran'
+    } else if (this.timedOut) {
+      step.status = 'timeout'
+      step.error = 'Chain timed out before this step ran'
+    } else {
+      try {
+        await this.callbacks.onAgentStart?.(agent)
+        // Each agent gets its own budget, cut short by the chain deadline
+        const deadline = Math.min(Date.now() + this.agentTimeoutMs, this.deadline)
+        const result = await raceDeadline(agent.run(input, { signal: this.signal }), deadline)
+        const response = result === TIMED_OUT || !this.callbacks.onResponse ? result : this.callbacks.onResponse(agent, result)
+        if (this.cancelled) {
+          // Whatever the agent returned after an abort is fallback data nobody will read
+          step.status = 'cancelled'
+          step.error = `${agent.name} was stopped`
+        } else if (response === TIMED_OUT) {
+          step.status = 'timeout'
+          step.error = deadline === this.deadline
+            ? `${agent.name} did not finish before the chain timeout`
+            : `${agent.name} did not finish within ${this.agentTimeoutMs}ms`
+        } else {
+          this.runs.push({ agent, response, call })
+          // Agents report upstream failures as fallback data flagged with metadata.error
+          if (response.metadata?.error) {
+            step.status = 'error'
+            step.error = response.data?.error || `${agent.name} returned fallback data`
+          }
+        }
+      } catch (error) {
+        step.status = this.cancelled ? 'cancelled' : 'error'
+        step.error = error instanceof Error ? error.message : `${agent.name} failed`
+      }
+    }
+
+    step.durationMs = Date.now() - started
+    this.steps.push(step)
+    this.callbacks.onStep?.(step)
+    return step
+  }
+
+  // Run several agents side by side at the same depth; steps come back in entry order
+  runAll(entries: ChainEntry[], depth: number): Promise<AgentChainStep[]> {
+    return Promise.all(entries.map(entry => this.run(entry.agent, entry.input, depth, entry.call)))
+  }
+
+  finish(stopReason: AgentChain['stopReason']): AgentChainResult {
+    if (stopReason !== 'complete') {
+      console.log(`⛓️ Agent chain stopped (${stopReason}) after ${this.steps.length} steps`)
+    }
+    return {
+      runs: this.runs,
+      chain: {
+        steps: this.steps,
+        depth: this.steps.reduce((max, step) => Math.max(max, step.depth), 0),
+        stopReason,
+        durationMs: Date.now() - this.startedAt
+      }
+    }
+  }
+}
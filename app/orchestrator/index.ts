@@ -1,357 +1,368 @@
-import { AIModel, Agent, ChatMessage, OrchestratorConfig } from '@/types'
-import { GPT4Model, ClaudeModel, DallE3Model, GeminiModel, DynamicOpenAIModel, DynamicMistralModel, DynamicGoogleModel } from '@/models'
-import { SearchAgent, TimeAgent, YouTubeAgent, MathAgent, WeatherAgent } from '@/agents'
-import { AIGovernance, defaultGovernance } from '@/lib/governance'
+import { AIModel, Agent, AgentChain, AgentInfo, ChatMessage, ConversationContext, ConversationTurn, ModelPrompt, OrchestratorConfig, ToolResult, UserMemory, DocumentChunkMatch, DocumentCitation, PromptImage, RedactionReport } from '@/types'
+import { ProviderRegistry, providerRegistry } from '@/models/registry'
+import { AgentRegistry, agentRegistry } from '@/agents/registry'
+import { AIGovernance, GovernanceContext, GovernanceDecision, GovernanceSettings, defaultGovernance } from '@/lib/governance'
+import { removeBlockedDomains } from '@/lib/governance-policy'
+import { PiiRedactor } from '@/lib/pii'
+import { readSSEEvents } from '@/lib/stream-session'
 import { buildPersonaSystemPrompt, GLOBAL_FORMATTING_RULES, FEW_SHOT_EXAMPLES } from '@/lib/systemPrompt'
 import { classifyPrompt, generateGreetingVariant, getConversationContext, generateResponseHints } from '@/lib/styleAdaptive'
+import { countTokens, normalizeTurns } from '@/lib/context-window'
+import { ContextManager } from '@/lib/context-manager'
+import { MemoryService } from '@/lib/memory'
+import { DocumentService } from '@/lib/documents'
+import { getImageInputError } from '@/lib/providers'
+import { loadPromptImages } from '@/lib/image-input'
+import { AgentChainResult, AgentRun, ChainCallbacks, ChainRecorder, TIMED_OUT, raceDeadline } from '@/app/orchestrator/chain'
+
+// Search is the catch-all agent; it only joins specialised agents when the rest of the message still asks for a lookup
+const SEARCH_AGENT_NAME = 'Internet Search'
+
+// Prompt for the tool-selection rounds; the answer itself is written afterwards with the full style prompt
+const TOOL_PLANNER_PROMPT = `You decide which tools, if any, are needed to answer the user's latest message.
+- Call a tool only when the answer depends on live or external data (news, prices, weather, local time, videos), on an exact calculation or on actually running code.
+- Use run_code when the user asks to run code or what a program prints, or when executing a short program is the reliable way to get the answer.
+- General knowledge, definitions, explanations, and coding and writing requests that need no execution need no tools.
+- You may call several tools at once, and call more after seeing their results.
+- Once you have what you need, or if no tool is needed, reply with the single word DONE.`
 
 export class Orchestrator {
-  private models: Map<string, AIModel> = new Map()
-  private agents: Agent[] = []
+  private registry: ProviderRegistry
+  private agentRegistry: AgentRegistry
   private config: OrchestratorConfig
   private governance: AIGovernance
 
-  constructor(config: OrchestratorConfig, governance?: AIGovernance) {
+  constructor(config: OrchestratorConfig, governance?: AIGovernance, registry?: ProviderRegistry, agents?: AgentRegistry) {
     this.config = config
     this.governance = governance || defaultGovernance
-    this.initializeModels()
-    this.initializeAgents()
+    this.registry = registry || providerRegistry
+    this.agentRegistry = agents || agentRegistry
   }
 
-  private initializeModels() {
-    const gpt4 = new GPT4Model()
-    const claude = new ClaudeModel()
-    const dalle = new DallE3Model()
-    const gemini = new GeminiModel()
-
-    this.models.set(gpt4.name, gpt4)
-    this.models.set(claude.name, claude)
-    this.models.set(dalle.name, dalle)
-    this.models.set(gemini.name, gemini)
-
-    // Add legacy mappings for backward compatibility
-    this.models.set('GPT-4', gpt4)
-    this.models.set('Claude-3-Sonnet', claude)
-    this.models.set('DALL-E-3', dalle)
-    this.models.set('Gemini-Pro', gemini)
+  // Read on every request so agents registered or unregistered at runtime are picked up
+  private get agents(): Agent[] {
+    return this.agentRegistry.getEnabled()
   }
 
-  // Method to dynamically add OpenAI models
-  public addOpenAIModel(modelId: string) {
-    if (!this.models.has(modelId)) {
-      const dynamicModel = new DynamicOpenAIModel(modelId)
-      this.models.set(modelId, dynamicModel)
+  // Resolve the requested (or default) model through the provider registry
+  private resolveModel(selectedModel?: string): AIModel {
+    const modelId = selectedModel || this.config.defaultModel
+    const model = this.registry.resolveModel(modelId)
+    if (!model) {
+      throw new Error(`Model ${modelId} not found`)
     }
-    return this.models.get(modelId)
+    return model
   }
 
-  // Method to dynamically add Mistral models  
-  public addMistralModel(modelId: string) {
-    if (!this.models.has(modelId)) {
-      const dynamicModel = new DynamicMistralModel(modelId)
-      this.models.set(modelId, dynamicModel)
-    }
-    return this.models.get(modelId)
+  // Attached images go to the model with the user turn; a model that can't read them fails the request up front
+  private async loadImages(model: AIModel, message: ChatMessage): Promise<PromptImage[]> {
+    const error = getImageInputError(model.name, message.attachments, this.registry.getCapabilities(model))
+    if (error) throw new Error(error)
+    return loadPromptImages(message.attachments)
   }
 
-  // Method to dynamically add Google models
-  public addGoogleModel(modelId: string) {
-    if (!this.models.has(modelId)) {
-      const dynamicModel = new DynamicGoogleModel(modelId)
-      this.models.set(modelId, dynamicModel)
+  // `signal` and `governance` are request-scoped: aborting the signal cancels the agent calls and the provider request,
+  // and governance (see AIGovernance.createContext) decides which agents this request may run and whether personal data
+  // is redacted. With redaction on, models and agents only see placeholders and the answer gets the original values back.
+  async processMessage(message: ChatMessage, selectedModel?: string, settings?: any, context: ConversationContext = { turns: [] }, signal?: AbortSignal, governance: GovernanceContext = this.governance.createContext(settings)): Promise<ChatMessage> {
+    const model = this.resolveModel(selectedModel)
+    const images = await this.loadImages(model, message)
+    const options = {
+      temperature: settings?.temperature || 0.7,
+      maxTokens: settings?.maxTokens || 4000,
+      signal,
     }
-    return this.models.get(modelId)
-  }
 
-  private initializeAgents() {
-    this.agents = [
-      new SearchAgent(),
-      new TimeAgent(),
-      new YouTubeAgent(),
-      new MathAgent(),
-      new WeatherAgent()
-    ]
-  }
+    // Governance reads the message as written, so policies can match the personal data that redaction hides
+    const decision = this.governance.decide(message.content, governance, message.id)
+    const redactor = this.governance.createRedactor(governance)
+    const request = this.redactRequest(message, context, redactor)
+    const reveal = <T,>(value: T): T => redactor ? redactor.restoreDeep(value) : value
 
-  async processMessage(message: ChatMessage, selectedModel?: string, settings?: any): Promise<ChatMessage> {
-    let model = this.models.get(selectedModel || this.config.defaultModel)
-    
-    // If model not found and it looks like an OpenAI model, create it dynamically
-    if (!model && selectedModel) {
-      // Check if it's an OpenAI model (common OpenAI model patterns)
-      if (selectedModel.includes('gpt') || selectedModel.includes('chatgpt') || selectedModel.includes('o1')) {
-        model = this.addOpenAIModel(selectedModel)
-      }
-      // Check if it's a Mistral model
-      else if (selectedModel.includes('mistral') || selectedModel.includes('mixtral') || selectedModel.includes('codestral') ||
-               selectedModel.includes('magistral') || selectedModel.includes('devstral') || selectedModel.includes('pixtral') ||
-               selectedModel.includes('voxtral') || selectedModel.includes('ministral')) {
-        model = this.addMistralModel(selectedModel)
-      }
-      // Check if it's a Google model
-      else if (selectedModel.includes('gemini') || selectedModel.includes('palm') || selectedModel.includes('bard')) {
-        model = this.addGoogleModel(selectedModel)
-      }
-    }
-    
-    if (!model) {
-      throw new Error(`Model ${selectedModel || this.config.defaultModel} not found`)
-    }
+    const agentResult = await this.runAgents(model, request.message, request.context, governance, decision, {}, signal)
+    signal?.throwIfAborted()
 
-    // Check for explicit agent mentions (e.g., @search, @youtube)
-    const explicitAgent = this.detectExplicitAgent(message.content)
-    
-    // Check if governance allows internet access and if any agents should be triggered automatically
-    let autoAgent = null
-    if (this.config.enableAutoAgents) {
-      // Use governance to determine if we should search the internet
-      const shouldUseInternet = this.governance.shouldUseInternet(message.content)
-      
-      if (shouldUseInternet) {
-        // Only detect auto agents if governance permits internet access
-        autoAgent = this.detectAutoAgent(message.content)
-        console.log(`🏛️ Governance: ALLOWING internet access - ${this.governance.getDecisionReason(message.content)}`)
-      } else {
-        console.log(`🏛️ Governance: BLOCKING internet access - ${this.governance.getDecisionReason(message.content)}`)
-      }
+    // Build dual system+user prompts; agent results replace the user body with an enriched prompt
+    const promptBundle = this.buildSystemUserPrompts(request.message.content, { dual: true, conversationHistory: request.context.turns, memories: request.context.memories, documents: request.context.documents })
+    if (agentResult.chain.steps.length) {
+      promptBundle.user = this.buildEnrichedPrompt(request.message.content, agentResult)
     }
+    const modelResponse = await model.generate({ ...await this.withContext(model, promptBundle, request.context, options.maxTokens, redactor, signal), images }, options)
+    const split = this.splitDualResponse(reveal(modelResponse.content as string))
+    const enhanced = this.autoMathifyOutput(split.full)
 
-    const agentToUse = explicitAgent || autoAgent
-
-    if (agentToUse) {
-      // Run agent then build enriched dual-output prompt
-      const agentResponse = await agentToUse.run(message.content)
-      const enrichedPrompt = this.buildEnrichedPrompt(message.content, agentResponse)
-      const options = {
-        temperature: settings?.temperature || 0.7,
-        maxTokens: settings?.maxTokens || 4000,
-      }
-      // Build dual system+user prompts and substitute enriched content as user body
-      const promptBundle = this.buildSystemUserPrompts(message.content, { dual: true })
-      promptBundle.user = enrichedPrompt
-      const modelResponse = await model.generate(promptBundle, options)
-      const split = this.splitDualResponse(modelResponse.content as string)
-      const enhanced = this.autoMathifyOutput(split.full)
-      return {
-        id: `response-${Date.now()}`,
-        role: 'assistant',
-        content: enhanced,
-        type: modelResponse.type,
-        timestamp: Date.now(),
-        metadata: {
-          model: model.name,
-          agent: agentToUse.name,
-          tokens: modelResponse.metadata?.tokens,
-          agentData: agentResponse.data,
-          concise: split.concise,
-          full: enhanced,
+    return {
+      id: `response-${Date.now()}`,
+      role: 'assistant',
+      content: enhanced,
+      type: modelResponse.type,
+      timestamp: Date.now(),
+      metadata: {
+        model: model.name,
+        ...reveal(this.getAgentMetadata(agentResult)),
+        ...this.getDocumentMetadata(context),
+        ...this.getRedactionMetadata(redactor),
+        tokens: modelResponse.metadata?.tokens,
+        concise: split.concise,
+        full: enhanced,
         explanationAvailable: !!split.concise && split.full !== split.concise && promptBundle.mode === 'DUAL',
         outputMode: promptBundle.mode
-        }
-      }
-    } else {
-      // Direct model response without agent
-      const options = {
-        temperature: settings?.temperature || 0.7,
-        maxTokens: settings?.maxTokens || 4000,
-      }
-      
-  const dualPrompts = this.buildSystemUserPrompts(message.content, { dual: true })
-      const promptBundle = this.buildSystemUserPrompts(message.content, { dual: true })
-      const modelResponse = await model.generate(promptBundle, options)
-  const split = this.splitDualResponse(modelResponse.content as string)
-  const enhanced = this.autoMathifyOutput(split.full)
-
-      return {
-        id: `response-${Date.now()}`,
-        role: 'assistant',
-        content: enhanced,
-        type: modelResponse.type,
-        timestamp: Date.now(),
-        metadata: {
-          model: model.name,
-          tokens: modelResponse.metadata?.tokens,
-          concise: split.concise,
-          full: enhanced,
-        explanationAvailable: !!split.concise && split.full !== split.concise && promptBundle.mode === 'DUAL',
-        outputMode: promptBundle.mode
-        }
       }
     }
   }
 
-  async processMessageStream(message: ChatMessage, selectedModel?: string, settings?: any): Promise<{ content?: string; stream?: ReadableStream; metadata?: any }> {
-    let model = this.models.get(selectedModel || this.config.defaultModel)
-    
-    // If model not found and it looks like an OpenAI model, create it dynamically
-    if (!model && selectedModel) {
-      // Check if it's an OpenAI model (common OpenAI model patterns)
-      if (selectedModel.includes('gpt') || selectedModel.includes('chatgpt') || selectedModel.includes('o1')) {
-        model = this.addOpenAIModel(selectedModel)
-      }
-      // Check if it's a Mistral model
-      else if (selectedModel.includes('mistral') || selectedModel.includes('mixtral') || selectedModel.includes('codestral') ||
-               selectedModel.includes('magistral') || selectedModel.includes('devstral') || selectedModel.includes('pixtral') ||
-               selectedModel.includes('voxtral') || selectedModel.includes('ministral')) {
-        model = this.addMistralModel(selectedModel)
-      }
-      // Check if it's a Google model
-      else if (selectedModel.includes('gemini') || selectedModel.includes('palm') || selectedModel.includes('bard')) {
-        model = this.addGoogleModel(selectedModel)
-      }
-    }
-    
-    if (!model) {
-      throw new Error(`Model ${selectedModel || this.config.defaultModel} not found`)
-    }
-
-    // Check for agents
-    const explicitAgent = this.detectExplicitAgent(message.content)
-    
-    // Use governance to determine if we should allow internet access
-    let autoAgent = null
-    if (this.config.enableAutoAgents) {
-      const shouldUseInternet = this.governance.shouldUseInternet(message.content)
-      
-      if (shouldUseInternet) {
-        autoAgent = this.detectAutoAgent(message.content)
-        console.log(`🏛️ Governance: ALLOWING internet access for streaming - ${this.governance.getDecisionReason(message.content)}`)
-      } else {
-        console.log(`🏛️ Governance: BLOCKING internet access for streaming - ${this.governance.getDecisionReason(message.content)}`)
-      }
-    }
-    
-    const agentToUse = explicitAgent || autoAgent
-
+  async processMessageStream(message: ChatMessage, selectedModel?: string, settings?: any, context: ConversationContext = { turns: [] }, signal?: AbortSignal, governance: GovernanceContext = this.governance.createContext(settings)): Promise<{ content?: string; stream?: ReadableStream; metadata?: any }> {
+    const model = this.resolveModel(selectedModel)
+    const images = await this.loadImages(model, message)
     const options = {
       temperature: settings?.temperature || 0.7,
       maxTokens: settings?.maxTokens || 4000,
+      signal,
     }
 
-    if (agentToUse) {
-      // Create a custom stream for search phases
-      const orchestrator = this // Reference to the orchestrator instance
-      const searchStream = new ReadableStream({
-        async start(controller) {
-          try {
-            // Phase: Searching Web & Processing Data
-            if (agentToUse.name === 'Internet Search') {
-              controller.enqueue(
-                new TextEncoder().encode(
-                  `data: ${JSON.stringify({ 
-                    type: 'search_phase',
-                    phase: 'searching'
-                  })}\n\n`
-                )
-              )
-              
-              // Add a delay to show the search animation
-              await new Promise(resolve => setTimeout(resolve, 1500))
-            }
+    const decision = this.governance.decide(message.content, governance, message.id)
+    const redactor = this.governance.createRedactor(governance)
+    const request = this.redactRequest(message, context, redactor)
+    const reveal = <T,>(value: T): T => redactor ? redactor.restoreDeep(value) : value
+
+    // Agents run inside the stream so the client can show search progress while they work
+    const orchestrator = this // Reference to the orchestrator instance
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (payload: object) => {
+          controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(payload)}\n\n`))
+        }
 
-            // Run agent
-            const agentResponse = await agentToUse.run(message.content)
-            
-            // Mark search complete (for search agents)
-            if (agentToUse.name === 'Internet Search') {
-              controller.enqueue(
-                new TextEncoder().encode(
-                  `data: ${JSON.stringify({ 
-                    type: 'search_phase',
-                    phase: 'complete'
-                  })}\n\n`
-                )
-              )
-            }
+        try {
+          // Phase: Searching Web & Processing Data
+          let searching = false
+          const agentResult = await orchestrator.runAgents(model, request.message, request.context, governance, decision, {
+            onAgentStart: async (agent) => {
+              if (agent.name === 'Internet Search' && !searching) {
+                searching = true
+                send({ type: 'search_phase', phase: 'searching' })
+                // Add a delay to show the search animation
+                await new Promise(resolve => setTimeout(resolve, 1500))
+              }
+            },
+            // Live chain progress; the full chain follows in the agents event
+            onStep: (step) => send({ type: 'agent_step', step: reveal(step) })
+          }, signal)
+          if (searching) {
+            send({ type: 'search_phase', phase: 'complete' })
+          }
+          // Don't start the provider request for an answer nobody is waiting for
+          signal?.throwIfAborted()
+
+          const agentMetadata = {
+            ...reveal(orchestrator.getAgentMetadata(agentResult)),
+            ...orchestrator.getDocumentMetadata(context),
+            ...orchestrator.getRedactionMetadata(redactor),
+          }
+          if (agentMetadata.chain || agentMetadata.documentCitations || agentMetadata.redaction) {
+            send({ type: 'agents', metadata: agentMetadata })
+          }
 
-            const enrichedPrompt = orchestrator.buildEnrichedPrompt(message.content, agentResponse)
-            
-            // Check if model supports streaming
-            if (typeof (model as any).generateStream === 'function') {
-              const dualPrompts = orchestrator.buildSystemUserPrompts(message.content, { dual: true })
-              dualPrompts.user = enrichedPrompt
-              const stream = await (model as any).generateStream(dualPrompts, options)
-              
+          const dualPrompts = orchestrator.buildSystemUserPrompts(request.message.content, { dual: true, conversationHistory: request.context.turns, memories: request.context.memories, documents: request.context.documents })
+          if (agentResult.chain.steps.length) {
+            dualPrompts.user = orchestrator.buildEnrichedPrompt(request.message.content, agentResult)
+          }
+          const prompt = { ...await orchestrator.withContext(model, dualPrompts, request.context, options.maxTokens, redactor, signal), images }
+
+          if (orchestrator.registry.supportsStreaming(model)) {
+            const modelStream = await (model as any).generateStream(prompt, options)
+            if (redactor?.size) {
+              // Placeholders in the answer are swapped back as it streams; one split across chunks waits for the next chunk
+              const restorer = redactor.createStreamRestorer()
+              for await (const event of readSSEEvents(modelStream)) {
+                if (event.type !== 'content' || typeof event.content !== 'string') {
+                  send(event)
+                  continue
+                }
+                const content = restorer.push(event.content)
+                if (content) send({ ...event, content })
+              }
+              const rest = restorer.flush()
+              if (rest) send({ type: 'content', content: rest })
+            } else {
               // Pipe the model stream to our custom stream
-              const reader = stream.getReader()
+              const reader = modelStream.getReader()
               while (true) {
                 const { done, value } = await reader.read()
                 if (done) break
                 controller.enqueue(value)
               }
-              
-              controller.close()
-            } else {
-              // Non-streaming model fallback
-              const dualPrompts = orchestrator.buildSystemUserPrompts(message.content, { dual: true })
-              dualPrompts.user = enrichedPrompt
-              const modelResponse = await (model as any).generate(dualPrompts, options)
-              
-              controller.enqueue(
-                new TextEncoder().encode(
-                  `data: ${JSON.stringify({ 
-                    type: 'content',
-                    content: modelResponse.content,
-                    metadata: {
-                      model: model.name,
-                      agent: agentToUse.name,
-                      agentData: agentResponse.data
-                    }
-                  })}\n\n`
-                )
-              )
-              
-              controller.enqueue(
-                new TextEncoder().encode(
-                  `data: ${JSON.stringify({ type: 'done' })}\n\n`
-                )
-              )
-              
-              controller.close()
             }
-            
-          } catch (error) {
-            controller.error(error)
+          } else {
+            // Non-streaming model fallback
+            const modelResponse = await model.generate(prompt, options)
+            const split = orchestrator.splitDualResponse(reveal(modelResponse.content as string))
+            const enhanced = orchestrator.autoMathifyOutput(split.full)
+            send({
+              type: 'content',
+              content: enhanced,
+              metadata: {
+                model: model.name,
+                ...agentMetadata,
+                tokens: modelResponse.metadata?.tokens,
+                concise: split.concise,
+                full: enhanced,
+                explanationAvailable: !!split.concise && split.full !== split.concise
+              }
+            })
           }
-        }
-      })
 
-      return {
-        stream: searchStream,
-        metadata: {
-          model: model.name,
-          agent: agentToUse.name
+          controller.close()
+        } catch (error) {
+          controller.error(error)
         }
       }
-    } else {
-      // Direct model response
-      if (typeof (model as any).generateStream === 'function') {
-        // Ensure streaming path also receives style instructions like non-streaming path
-  const dualPrompts = this.buildSystemUserPrompts(message.content, { dual: true })
-  const stream = await (model as any).generateStream(dualPrompts, options)
-        return {
-          stream,
-          metadata: {
-            model: model.name
-          }
+    })
+
+    return {
+      stream,
+      metadata: {
+        model: model.name
+      }
+    }
+  }
+
+  // Pick and run agents for a message: @mentions first, then native tool calls, and keyword detection for models without tool support.
+  // The whole chain is bounded by config.timeout; whatever finished in time is used for the answer.
+  // `decision` is the message's audited governance decision: internet access, agents the matched policies allow and domains they block
+  private async runAgents(model: AIModel, message: ChatMessage, context: ConversationContext, governance: GovernanceContext, decision: GovernanceDecision, callbacks: ChainCallbacks = {}, signal?: AbortSignal): Promise<AgentChainResult> {
+    const chain = new ChainRecorder(this.config.timeout, decision.blockedDomains.length ? {
+      ...callbacks,
+      onResponse: (agent, response) => ({ ...response, data: removeBlockedDomains(response.data, decision.blockedDomains) })
+    } : callbacks, this.config.agentTimeout, signal)
+    // Agents this request may use; every pick below is made from this list only
+    const agents = this.agents.filter(agent => this.governance.isAgentAllowed(agent.name, governance, decision))
+
+    // Check for explicit agent mentions (e.g., @search, @youtube)
+    const explicitAgent = this.detectExplicitAgent(message.content)
+    if (explicitAgent) {
+      if (!agents.includes(explicitAgent)) {
+        console.log(`🏛️ Governance: BLOCKING ${explicitAgent.name} - not allowed for this request (${decision.reason})`)
+        return chain.finish('complete')
+      }
+      await chain.run(explicitAgent, message.content, 1)
+      return chain.finish('complete')
+    }
+
+    if (!this.config.enableAutoAgents || !governance.autoAgents) return chain.finish('complete')
+
+    // Only pick agents automatically if governance permits internet access
+    if (!decision.useInternet) {
+      console.log(`🏛️ Governance: BLOCKING internet access - ${decision.reason}`)
+      return chain.finish('complete')
+    }
+    console.log(`🏛️ Governance: ALLOWING internet access - ${decision.reason}`)
+
+    const toolAgents = agents.filter(agent => agent.tool)
+    if (toolAgents.length && this.registry.supportsTools(model)) {
+      try {
+        return await this.runToolLoop(model, message, context, toolAgents, chain)
+      } catch (error) {
+        if (chain.cancelled) return chain.finish('cancelled')
+        console.error('Tool calling failed, falling back to keyword detection:', error)
+        // Keep any steps that already ran; keyword detection only kicks in if none did
+        if (chain.runs.length) return chain.finish('complete')
+      }
+    }
+
+    // Every relevant agent runs at once, e.g. weather and local time for the same city
+    const autoAgents = this.detectAutoAgents(message.content, agents)
+    if (autoAgents.length) {
+      console.log(`🤖 Auto agents: ${autoAgents.map(agent => agent.name).join(', ')}`)
+      await chain.runAll(autoAgents.map(agent => ({ agent, input: message.content })), 1)
+    }
+    return chain.finish(chain.cancelled ? 'cancelled' : 'complete')
+  }
+
+  // Planner loop: the model chains agents through native tool calls (e.g. search, then calculate on the numbers found),
+  // seeing each round's results before choosing the next, up to config.maxChainDepth rounds
+  private async runToolLoop(model: AIModel, message: ChatMessage, context: ConversationContext, agents: Agent[], chain: ChainRecorder): Promise<AgentChainResult> {
+    const tools = agents.map(agent => agent.tool!)
+    const prompt: ModelPrompt = {
+      system: TOOL_PLANNER_PROMPT,
+      user: message.content,
+      // A few recent turns are enough to resolve follow-ups like "and in Paris?"
+      history: normalizeTurns(context.turns).slice(-4),
+      toolExchanges: []
+    }
+
+    for (let depth = 1; depth <= this.config.maxChainDepth; depth++) {
+      const response = await raceDeadline(model.generateWithTools!(prompt, tools, { temperature: 0, maxTokens: 1024, signal: chain.signal }), chain.deadline)
+      if (response === TIMED_OUT) return chain.finish('timeout')
+
+      const calls = response.toolCalls || []
+      if (!calls.length) return chain.finish('complete')
+
+      // Calls made in the same round are independent, so their agents run in parallel
+      const entries = calls.flatMap(call => {
+        const agent = agents.find(a => a.tool?.name === call.name)
+        if (agent) console.log(`🛠️ Tool call (depth ${depth}): ${call.name}(${JSON.stringify(call.arguments)})`)
+        return agent ? [{ agent, input: call.arguments, call }] : []
+      })
+      const steps = await chain.runAll(entries, depth)
+
+      const results: ToolResult[] = calls.map(call => {
+        const index = entries.findIndex(entry => entry.call === call)
+        if (index < 0) {
+          return { callId: call.id, name: call.name, content: JSON.stringify({ error: `Unknown tool: ${call.name}` }), isError: true }
         }
-      } else {
-        // Fallback to non-streaming
-  const dualPrompts = this.buildSystemUserPrompts(message.content, { dual: true })
-  const modelResponse = await model.generate(dualPrompts, options)
-    const split = this.splitDualResponse(modelResponse.content as string)
-    const enhanced = this.autoMathifyOutput(split.full)
+        const step = steps[index]
+        const run = chain.runs.find(r => r.call === call)
         return {
-    content: enhanced,
-          metadata: {
-            model: model.name,
-      tokens: modelResponse.metadata?.tokens,
-      concise: split.concise,
-      full: enhanced,
-      explanationAvailable: !!split.concise && split.full !== split.concise
-          }
+          callId: call.id,
+          name: call.name,
+          content: JSON.stringify(run ? run.response.data : { error: step.error || 'Tool failed' }),
+          isError: step.status !== 'success'
         }
-      }
+      })
+
+      prompt.toolExchanges!.push({ calls, results, assistant: response.metadata?.assistantMessage })
+      if (chain.cancelled) return chain.finish('cancelled')
+      if (chain.timedOut) return chain.finish('timeout')
+    }
+
+    return chain.finish('max_depth')
+  }
+
+  // The message and conversation with personal data replaced by the redactor's placeholders; everything a model or agent
+  // reads comes from this copy. Without a redactor both are returned as they are.
+  private redactRequest(message: ChatMessage, context: ConversationContext, redactor: PiiRedactor | null): { message: ChatMessage; context: ConversationContext } {
+    if (!redactor) return { message, context }
+    return {
+      message: { ...message, content: redactor.redact(message.content) },
+      context: {
+        ...context,
+        turns: context.turns.map(turn => ({ ...turn, content: redactor.redact(turn.content) })),
+        ...(context.summary ? { summary: { ...context.summary, text: redactor.redact(context.summary.text) } } : {}),
+        ...(context.memories ? { memories: context.memories.map(memory => ({ ...memory, content: redactor.redact(memory.content) })) } : {}),
+        ...(context.documents ? { documents: context.documents.map(chunk => ({ ...chunk, content: redactor.redact(chunk.content) })) } : {}),
+      },
+    }
+  }
+
+  // What redaction masked, stored on the assistant message; nothing when there was nothing to mask
+  private getRedactionMetadata(redactor: PiiRedactor | null): { redaction?: RedactionReport } {
+    return redactor?.size ? { redaction: redactor.report() } : {}
+  }
+
+  // Files the answer could cite, stored on the assistant message so its citations link to them
+  private getDocumentMetadata(context: ConversationContext): { documentCitations?: DocumentCitation[] } {
+    return context.documents?.length ? { documentCitations: DocumentService.toCitations(context.documents) } : {}
+  }
+
+  // Agent details stored on the assistant message
+  private getAgentMetadata(result: AgentChainResult): { agent?: string; agentData?: any; agentResults?: Array<{ agent: string; data: any }>; chain?: AgentChain } {
+    if (!result.runs.length && !result.chain.steps.length) return {}
+    const [primary] = result.runs
+    return {
+      ...(primary ? { agent: primary.agent.name, agentData: primary.response.data } : {}),
+      ...(result.runs.length > 1 ? { agentResults: result.runs.map(run => ({ agent: run.agent.name, data: run.response.data })) } : {}),
+      chain: result.chain
     }
   }
 
@@ -360,7 +371,7 @@ export class Orchestrator {
   private buildStylePrompt(userPrompt: string): string { return userPrompt }
 
   // New helper: produce system + user prompts with smart context awareness
-  private buildSystemUserPrompts(userPrompt: string, opts: { dual?: boolean; conversationHistory?: ChatMessage[] } = {}) {
+  private buildSystemUserPrompts(userPrompt: string, opts: { dual?: boolean; conversationHistory?: ConversationTurn[]; memories?: UserMemory[]; documents?: DocumentChunkMatch[] } = {}) {
     const mode = this.decideOutputMode(userPrompt);
     const marker = 'STYLE_INSTRUCTIONS_V1';
     const procedural = this.isProceduralQuery(userPrompt);
@@ -387,12 +398,26 @@ export class Orchestrator {
       const responseHints = generateResponseHints(category, conversationContext);
       adaptiveHint = `ADAPTIVE_HINT: category=${category}, context=${conversationContext} -> ${responseHints}`;
     }
-    const persona = buildPersonaSystemPrompt(adaptiveHint);
+    // Long-term memories ride along as additional context so every model sees them the same way
+    const memoryBlock = MemoryService.formatForPrompt(opts.memories || []);
+    const persona = buildPersonaSystemPrompt(memoryBlock ? `${adaptiveHint}\n\n${memoryBlock}` : adaptiveHint);
     const styleSegment = `(${marker}) STYLE & OUTPUT RULES:\nOUTPUT_MODE: ${mode}\n${stepLine}\nUse LaTeX for ALL math expressions (inline $...$, display $$...$$). Show intermediate calculations only when helpful. Bold the final answer line beginning with 'Answer:' or 'Final Answer:' or 'Conclusion:'. Keep tone analytical yet approachable. Never output the final answer twice.\n${outputSpec}`.trim();
-    const system = `${persona}\n\n${GLOBAL_FORMATTING_RULES}\n${styleSegment}\n\n${FEW_SHOT_EXAMPLES}`;
+    // Retrieved excerpts of uploaded files come last, closest to the question they were picked for
+    const documentBlock = DocumentService.formatForPrompt(opts.documents || []);
+    const system = `${persona}\n\n${GLOBAL_FORMATTING_RULES}\n${styleSegment}\n\n${FEW_SHOT_EXAMPLES}${documentBlock ? `\n\n${documentBlock}` : ''}`;
     return { system, user: userPrompt, mode };
   }
 
+  // Fit prior conversation into the model's context window; older turns arrive as a condensed summary
+  private async withContext(model: AIModel, prompt: { system: string; user: string; mode: string }, context: ConversationContext, maxTokens: number, redactor?: PiiRedactor | null, signal?: AbortSignal) {
+    const reservedTokens = countTokens(prompt.system, model.provider) + countTokens(prompt.user, model.provider) + maxTokens
+    const window = await ContextManager.build(model, context, reservedTokens, { restore: redactor ? text => redactor.restore(text) : undefined, signal })
+    const system = window.summary
+      ? `${prompt.system}\n\nCONVERSATION SUMMARY (earlier turns, condensed):\n${window.summary.text}`
+      : prompt.system
+    return { ...prompt, system, history: window.history }
+  }
+
   // Decide output mode dynamically
   private decideOutputMode(userPrompt: string): 'CONCISE_ONLY' | 'DUAL' | 'EXPLANATION_ONLY' {
     const p = userPrompt.trim();
@@ -481,20 +506,42 @@ export class Orchestrator {
     return processed.join('');
   }
 
+  // Explicit @mentions (e.g. @search, @youtube) use each agent's registered handle
   private detectExplicitAgent(content: string): Agent | null {
-    // Check for explicit @mentions
-    for (const agent of this.agents) {
-      const agentMention = `@${agent.name.toLowerCase().replace(/\s+/g, '')}`
-      if (content.toLowerCase().includes(agentMention)) {
-        return agent
-      }
+    return this.agentRegistry.findByMention(content) || null
+  }
+
+  // Every agent the message calls for. Specialised agents are picked by their triggers; search joins them only if the
+  // message still reads like a lookup once their matches are removed, so "weather in Tokyo and the time there" runs Weather and Time only.
+  private detectAutoAgents(content: string, agents: Agent[]): Agent[] {
+    const specialised = agents.filter(agent => agent.name !== SEARCH_AGENT_NAME && this.matchesTrigger(agent, content))
+    if (!specialised.length) {
+      const fallback = this.detectAutoAgent(content, agents)
+      return fallback ? [fallback] : []
     }
-    return null
+
+    const searchAgent = agents.find(agent => agent.name === SEARCH_AGENT_NAME)
+    const remainder = specialised.reduce((text, agent) => this.stripTrigger(agent, text), content).trim()
+    if (searchAgent && remainder && this.matchesTrigger(searchAgent, remainder)) {
+      return [...specialised, searchAgent]
+    }
+    return specialised
   }
 
-  private detectAutoAgent(content: string): Agent | null {
+  private matchesTrigger(agent: Agent, content: string): boolean {
+    if (typeof agent.trigger === 'string') return content.toLowerCase().includes(agent.trigger.toLowerCase())
+    return agent.trigger.test(content)
+  }
+
+  private stripTrigger(agent: Agent, content: string): string {
+    const pattern = typeof agent.trigger === 'string' ? agent.trigger.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : agent.trigger.source
+    return content.replace(new RegExp(pattern, 'gi'), ' ')
+  }
+
+  // Single best agent, used when no specialised trigger matched
+  private detectAutoAgent(content: string, agents: Agent[]): Agent | null {
     // First check explicit patterns for each agent
-    for (const agent of this.agents) {
+    for (const agent of agents) {
       if (typeof agent.trigger === 'string') {
         if (content.toLowerCase().includes(agent.trigger.toLowerCase())) {
           return agent
@@ -511,30 +558,30 @@ export class Orchestrator {
     
     // Time and date related queries - prioritize TimeAgent
     if (lowerContent.match(/\b(time|clock|date|timezone|hour|minute|when is|what day|today|now|current)\b/)) {
-      const timeAgent = this.agents.find(agent => agent.name === 'World Time')
+      const timeAgent = agents.find(agent => agent.name === 'World Time')
       if (timeAgent) return timeAgent
     }
     
     // Weather queries
     if (lowerContent.match(/\b(weather|temperature|rain|sunny|cloudy|forecast|climate)\b/)) {
-      const weatherAgent = this.agents.find(agent => agent.name === 'Weather')
+      const weatherAgent = agents.find(agent => agent.name === 'Weather')
       if (weatherAgent) return weatherAgent
     }
     
     // Math and calculation queries
-    if (lowerContent.match(/\b(calculate|math|solve|equation|formula|compute|sum|multiply|divide|percentage)\b/)) {
-      const mathAgent = this.agents.find(agent => agent.name === 'Math Calculator')
+    if (lowerContent.match(/\b(calculate|math|solve|equation|formula|compute|sum|multiply|divide|percentage|derivative|differentiate|integral|integrate)\b/)) {
+      const mathAgent = agents.find(agent => agent.name === 'Math Calculator')
       if (mathAgent) return mathAgent
     }
     
     // Video content queries
     if (lowerContent.match(/\b(video|youtube|watch|tutorial|how to.*video|show me.*video)\b/)) {
-      const youtubeAgent = this.agents.find(agent => agent.name === 'YouTube')
+      const youtubeAgent = agents.find(agent => agent.name === 'YouTube')
       if (youtubeAgent) return youtubeAgent
     }
     
     // AUTONOMOUS SEARCH TRIGGERS - Default to search for most queries that could benefit from real-time data
-    const searchAgent = this.agents.find(agent => agent.name === 'Internet Search')
+    const searchAgent = agents.find(agent => agent.name === 'Internet Search')
     
     if (searchAgent) {
       // Comprehensive search patterns for real-time information
@@ -586,14 +633,65 @@ export class Orchestrator {
     return null
   }
 
-  private buildEnrichedPrompt(originalPrompt: string, agentResponse: any): string {
-    const agentData = agentResponse.data
-    
-    let prompt = `The user asked: "${originalPrompt}"
+  // Enriched user prompt merging every agent's data; agents that failed or timed out are listed so the answer can say so
+  buildEnrichedPrompt(originalPrompt: string, result: AgentChainResult): string {
+    // Fallback payloads only describe the failure, which the unavailable list already covers
+    const runs = result.runs.filter(run => !run.response.metadata?.error)
+    const failures = result.chain.steps.filter(step => step.status !== 'success')
 
-IMPORTANT: I have access to real-time information from internet search. I must use this current data to provide an accurate, up-to-date response. I should NOT say "I don't have access to real-time information" since I DO have current data below.
+    let prompt = `The user asked: "${originalPrompt}"\n\n`
 
-CURRENT SEARCH RESULTS:\n\n`
+    if (runs.length) {
+      prompt += `IMPORTANT: I have access to real-time information from ${runs.map(run => run.agent.name).join(', ')}. I must use this current data to provide an accurate, up-to-date response. I should NOT say "I don't have access to real-time information" since I DO have current data below.\n\n`
+      runs.forEach(run => {
+        prompt += `CURRENT ${run.agent.name.toUpperCase()} RESULTS:\n\n${this.formatAgentData(run)}`
+      })
+    }
+
+    if (failures.length) {
+      prompt += `UNAVAILABLE SOURCES:\n${failures.map(step => `- ${step.agent}: ${step.error || step.status}`).join('\n')}\n\n`
+    }
+
+    if (runs.length) {
+      prompt += `INSTRUCTIONS:
+- ANALYZE and REASON about the search data before presenting your answer
+- Use the above current, real-time data to provide a well-structured, thoughtful response
+- Don't just copy-paste from search results - SYNTHESIZE the information intelligently
+- Be specific and include actual numbers, prices, dates, or facts from the search results
+- DO NOT say you don't have access to real-time information - you DO have it above
+- Explain WHY the information is relevant and HOW it answers the user's question
+- Present the information naturally and conversationally with proper context
+- Include relevant details from the search results but explain their significance
+- If the data includes prices, mention the current value and any trends if apparent
+- If multiple sources provide different information, acknowledge and explain the differences
+- Always provide a complete, helpful answer that demonstrates understanding of the search data
+- Structure your response logically: context → key findings → implications → conclusion
+`
+    } else {
+      prompt += `INSTRUCTIONS:
+- None of the real-time sources could be reached, so answer from your own knowledge and say that it may be out of date
+`
+    }
+
+    if (failures.length) {
+      prompt += `- Tell the user which of the UNAVAILABLE SOURCES could not be reached and which part of the question that affects
+`
+    }
+
+    prompt += `
+Search was performed on: ${new Date().toLocaleString()}`
+    if (runs.length) {
+      prompt += `
+Data source: ${runs.map(run => run.response.metadata?.source || run.agent.name).join(', ')}`
+    }
+
+    return prompt
+  }
+
+  // One agent's data as prompt text: search results get a readable digest, other agents' shapes pass through as JSON
+  private formatAgentData(run: AgentRun): string {
+    const agentData = run.response.data
+    let prompt = ''
 
     // Handle enhanced search data
     if (agentData.answerBox && agentData.answerBox.answer) {
@@ -615,6 +713,11 @@ CURRENT SEARCH RESULTS:\n\n`
       })
     }
 
+    // Time, weather, math, code runner and YouTube agents return their own shapes; pass them through as-is
+    if (!agentData.results && !agentData.answerBox && !agentData.knowledgeGraph) {
+      prompt += `${JSON.stringify(agentData, null, 2)}\n\n`
+    }
+
     if (agentData.sitelinks && agentData.sitelinks.length > 0) {
       prompt += `🔗 ADDITIONAL RESOURCES:\n`
       agentData.sitelinks.forEach((link: any, index: number) => {
@@ -623,35 +726,15 @@ CURRENT SEARCH RESULTS:\n\n`
       prompt += `\n`
     }
 
-    prompt += `INSTRUCTIONS:
-- ANALYZE and REASON about the search data before presenting your answer
-- Use the above current, real-time data to provide a well-structured, thoughtful response
-- Don't just copy-paste from search results - SYNTHESIZE the information intelligently
-- Be specific and include actual numbers, prices, dates, or facts from the search results
-- DO NOT say you don't have access to real-time information - you DO have it above
-- Explain WHY the information is relevant and HOW it answers the user's question
-- Present the information naturally and conversationally with proper context
-- Include relevant details from the search results but explain their significance
-- If the data includes prices, mention the current value and any trends if apparent
-- If multiple sources provide different information, acknowledge and explain the differences
-- Always provide a complete, helpful answer that demonstrates understanding of the search data
-- Structure your response logically: context → key findings → implications → conclusion
-
-Search was performed on: ${new Date().toLocaleString()}
-Data source: Real-time internet search via ${agentResponse.metadata?.source || 'search API'}`
-
     return prompt
   }
 
   getAvailableModels(): string[] {
-    return Array.from(this.models.keys())
+    return this.registry.getModelNames()
   }
 
-  getAvailableAgents(): { name: string; description: string }[] {
-    return this.agents.map(agent => ({
-      name: agent.name,
-      description: agent.description
-    }))
+  getAvailableAgents(): AgentInfo[] {
+    return this.agentRegistry.describe()
   }
 
   /**
@@ -662,7 +745,14 @@ Data source: Real-time internet search via ${agentResponse.metadata?.source || '
   }
 
   /**
-   * Update governance configuration
+   * Resolve a request's governance from the user's chat settings and id; pass the result to processMessage/processMessageStream
+   */
+  createGovernanceContext(settings?: GovernanceSettings, userId?: string): GovernanceContext {
+    return this.governance.createContext(settings, userId)
+  }
+
+  /**
+   * Update the server-wide governance defaults (shared by every request)
    */
   updateGovernanceConfig(config: any) {
     this.governance.updateConfig(config)
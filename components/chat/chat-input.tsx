@@ -21,7 +21,18 @@ import {
 } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { getModelsByProvider, ModelInfo } from '@/lib/models-config'
+import { getImageInputError } from '@/lib/providers'
 import { useChatStore } from '@/lib/store'
+import { AgentInfo } from '@/types'
+
+// Icons and colours for the built-in agents' @handles; registered agents without an entry get the generic bot icon
+const AGENT_SHORTCUTS: Record<string, { icon: typeof Bot; color: string }> = {
+  search: { icon: Search, color: 'blue' },
+  youtube: { icon: Youtube, color: 'red' },
+  time: { icon: Clock, color: 'green' },
+  math: { icon: Calculator, color: 'purple' },
+  weather: { icon: Cloud, color: 'blue' }
+}
 
 interface ChatInputProps {
   onSendMessage: (message: string, attachments?: File[]) => void
@@ -37,6 +48,7 @@ export default function ChatInput({ onSendMessage, disabled = false, isStreaming
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false)
   const [isToolsExpanded, setIsToolsExpanded] = useState(false)
   const [activeTool, setActiveTool] = useState<string | null>(null)
+  const [agents, setAgents] = useState<AgentInfo[]>([])
   const modelDropdownRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -57,6 +69,22 @@ export default function ChatInput({ onSendMessage, disabled = false, isStreaming
     fetchModels()
   }, [selectedProvider])
 
+  // @mention shortcuts come from the agent registry; agents missing their API keys are left out
+  useEffect(() => {
+    const fetchAgents = async () => {
+      try {
+        const response = await fetch('/api/agents')
+        if (response.ok) {
+          const data = await response.json()
+          setAgents((data.agents || []).filter((agent: AgentInfo) => agent.enabled))
+        }
+      } catch (error) {
+        console.error('Error fetching agents:', error)
+      }
+    }
+    fetchAgents()
+  }, [])
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (modelDropdownRef.current && !modelDropdownRef.current.contains(event.target as Node)) {
@@ -91,6 +119,12 @@ export default function ChatInput({ onSendMessage, disabled = false, isStreaming
 
   const handleSubmit = () => {
     if ((message.trim() || attachments.length > 0) && !disabled) {
+      // Keep the draft when the selected model can't read the attached images
+      const imageError = getImageInputError(selectedModel, attachments)
+      if (imageError) {
+        toast.error(imageError)
+        return
+      }
       onSendMessage(message.trim(), attachments)
       setMessage('')
       setAttachments([])
@@ -251,12 +285,12 @@ export default function ChatInput({ onSendMessage, disabled = false, isStreaming
                         
                         {/* Agent Shortcuts - Icon Only */}
                         <div className="grid grid-cols-4 gap-2">
-                          {[
-                            { key: 'search', icon: Search, label: 'Web Search', color: 'blue' },
-                            { key: 'youtube', icon: Youtube, label: 'YouTube', color: 'red' },
-                            { key: 'time', icon: Clock, label: 'Time', color: 'green' },
-                            { key: 'math', icon: Calculator, label: 'Math', color: 'purple' }
-                          ].map(({ key, icon: Icon, label, color }) => {
+                          {agents.map(agent => ({
+                            key: agent.mention,
+                            label: agent.name,
+                            icon: AGENT_SHORTCUTS[agent.mention]?.icon || Bot,
+                            color: AGENT_SHORTCUTS[agent.mention]?.color || 'neutral'
+                          })).map(({ key, icon: Icon, label, color }) => {
                             const isActive = activeTool === key
                             const getColorClasses = () => {
                               if (isActive) {
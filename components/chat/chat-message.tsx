@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
-import { ChatMessage as ChatMessageType } from '@/types'
-import { User, Bot, Search, Calculator, Youtube, Cloud, Copy, Edit, ThumbsUp, Volume2, Share,ThumbsDown, RefreshCw, Loader, Trash2 } from 'lucide-react'
+import { AgentChain, ChatMessage as ChatMessageType, DocumentCitation, RedactionReport } from '@/types'
+import { User, Bot, Search, Calculator, Youtube, Cloud, Copy, Edit, ThumbsUp, Volume2, Share,ThumbsDown, RefreshCw, Loader, Trash2, ChevronLeft, ChevronRight, FileText, Terminal, ShieldCheck } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu'
 import { useChatStore } from '@/lib/store'
@@ -8,14 +8,13 @@ import { useStreamingChat } from '@/hooks/useStreamingChat'
 import TextRender from '../TextRender'
 import { useRouter } from 'next/navigation'
 import { ModelIcon } from '@/components/ui/model-icons'
+import { findProviderForModel } from '@/lib/providers'
+import { getBranchInfo } from '@/lib/message-tree'
+import { getMessageAnchor } from '@/lib/search'
 
 // Helper function to get provider from model name
 function getProviderFromModel(modelName: string): string {
-  if (modelName.toLowerCase().includes('gpt') || modelName.toLowerCase().includes('dall')) return 'OpenAI'
-  if (modelName.toLowerCase().includes('claude')) return 'Anthropic'
-  if (modelName.toLowerCase().includes('gemini') || modelName.toLowerCase().includes('palm')) return 'Google'
-  if (modelName.toLowerCase().includes('mistral')) return 'Mistral'
-  return 'OpenAI' // Default fallback
+  return findProviderForModel(modelName)?.name || 'OpenAI' // Default fallback
 }
 
 interface ChatMessageProps { 
@@ -71,11 +70,29 @@ const ActionButtons = ({ message }: { message: ChatMessageType }) => {
   )
 }
 
+// "< 2/3 >" switcher between the versions of a message that was edited and resent
+const BranchControls = ({ message }: { message: ChatMessageType }) => {
+  const { messages, switchBranch, isLoading } = useChatStore()
+  const branch = getBranchInfo(messages, message)
+  if (branch.count < 2) return null
+
+  const go = (offset: number) => switchBranch(branch.siblingIds[branch.index + offset])
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Button variant="ghost" size="sm" onClick={()=>go(-1)} disabled={isLoading || branch.index === 0} className="h-6 w-6 p-0 hover:bg-muted" title="Previous version"><ChevronLeft size={12}/></Button>
+      <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+      <Button variant="ghost" size="sm" onClick={()=>go(1)} disabled={isLoading || branch.index === branch.count - 1} className="h-6 w-6 p-0 hover:bg-muted" title="Next version"><ChevronRight size={12}/></Button>
+    </div>
+  )
+}
+
 export default function ChatMessage({ message, searchPhase, isStreamingMessage }: ChatMessageProps) {
   const [imageError, setImageError] = useState(false)
   const [copied, setCopied] = useState(false)
-  const { isStreaming, streamingMessageId } = useStreamingChat()
-  const { selectedProvider, selectedModel } = useChatStore()
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+  const { isStreaming, streamingMessageId, editMessage } = useStreamingChat()
+  const { selectedProvider, selectedModel, isLoading } = useChatStore()
   const isUser = message.role === 'user'
   const isCurrentlyStreaming = isStreaming && streamingMessageId === message.id
   
@@ -98,15 +115,22 @@ export default function ChatMessage({ message, searchPhase, isStreamingMessage }
   // Don't hide the entire message during regeneration - show avatar with loading state instead
   
   const copyUser = async () => { try { await navigator.clipboard.writeText(message.content); setCopied(true); setTimeout(()=>setCopied(false),2000) } catch{} }
-  const editUser = () => { console.log('Edit message', message.id) }
+  const editUser = () => { setDraft(message.content); setEditing(true) }
+  // The edit is sent as a new branch; the original message and its replies are kept
+  const submitEdit = () => {
+    setEditing(false)
+    if (draft.trim() && draft.trim() !== message.content) editMessage(message.id, draft)
+  }
 
   const agentIcon = (agent?: string) => {
     if(!agent) return <Bot size={16}/>
     switch(agent.toLowerCase()){
       case 'internet search': return <Search size={16}/>
-      case 'math solver': return <Calculator size={16}/>
+      case 'math solver':
+      case 'math calculator': return <Calculator size={16}/>
       case 'youtube': return <Youtube size={16}/>
       case 'weather': return <Cloud size={16}/>
+      case 'code runner': return <Terminal size={16}/>
       default: return <Bot size={16}/>
     }
   }
@@ -144,11 +168,13 @@ export default function ChatMessage({ message, searchPhase, isStreamingMessage }
           </div>
         )
       case 'math solver':
+      case 'math calculator':
+        // MathAgent results carry LaTeX (result and "$$...$$" steps), rendered through KaTeX like answers
         return (
           <div className="mt-3 p-3 bg-muted/50 rounded-lg border">
             <div className="flex items-center gap-2 mb-2"><Calculator size={14}/><span className="text-sm font-medium">Calculation</span></div>
-            <div className="text-lg font-mono bg-background p-2 rounded">{data.solution}</div>
-            {data.steps && <ol className="text-xs text-muted-foreground space-y-1 mt-2">{data.steps.map((s:string,i:number)=><li key={i}>{i+1}. {s}</li>)}</ol>}
+            <div className="text-lg bg-background p-2 rounded">{data.latex ? <TextRender content={`$$${data.latex}$$`}/> : <span className="font-mono">{data.solution ?? data.formatted ?? data.error}</span>}</div>
+            {data.steps && <ol className="text-xs text-muted-foreground space-y-1 mt-2">{data.steps.map((s:string,i:number)=><li key={i}><TextRender content={`**${i+1}.** ${s}`}/></li>)}</ol>}
           </div>
         )
       case 'weather':
@@ -161,6 +187,44 @@ export default function ChatMessage({ message, searchPhase, isStreamingMessage }
             </div>
           </div>
         )
+      case 'code runner':
+        // Collapsed to a one-line summary; open it to see the code, output streams and produced files
+        return (
+          <details className="mt-3 p-3 bg-muted/50 rounded-lg border group/run">
+            <summary className="flex items-center gap-2 cursor-pointer list-none">
+              <Terminal size={14}/>
+              <span className="text-sm font-medium">Code Execution</span>
+              {data.language && <span className="text-xs font-mono text-muted-foreground">{data.language}</span>}
+              <span className={`text-xs ${data.status === 'ok' ? 'text-green-600' : 'text-red-500'}`}>{data.error ? 'failed' : data.status === 'ok' ? `exit ${data.exitCode}` : data.status.replace('_', ' ')}</span>
+              {data.durationMs !== undefined && <span className="ml-auto text-xs text-muted-foreground">{data.durationMs}ms</span>}
+              <ChevronRight size={14} className={`${data.durationMs !== undefined ? '' : 'ml-auto'} transition-transform group-open/run:rotate-90`}/>
+            </summary>
+            <div className="mt-2 space-y-2 text-xs">
+              {data.code && <pre className="bg-background p-2 rounded overflow-x-auto max-h-60"><code>{data.code}</code></pre>}
+              {data.error && <div className="text-red-500">{data.message || data.error}</div>}
+              {data.stdout && <div><div className="font-medium mb-1">stdout</div><pre className="bg-background p-2 rounded overflow-x-auto max-h-60 whitespace-pre-wrap">{data.stdout}</pre></div>}
+              {data.stderr && <div><div className="font-medium mb-1">stderr</div><pre className="bg-background p-2 rounded overflow-x-auto max-h-60 whitespace-pre-wrap text-red-500">{data.stderr}</pre></div>}
+              {!data.error && !data.stdout && !data.stderr && <div className="text-muted-foreground">No output</div>}
+              {data.truncated && <div className="text-muted-foreground">Output was truncated</div>}
+              {data.files?.length > 0 && (
+                <div>
+                  <div className="font-medium mb-1">Files</div>
+                  <ul className="space-y-2">
+                    {data.files.map((f:any,i:number)=>(
+                      <li key={i}>
+                        <a href={f.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{f.name}</a>
+                        <span className="text-muted-foreground"> · {(f.size/1024).toFixed(1)} KB</span>
+                        {f.mimeType?.startsWith('image/') && <img src={f.url} alt={f.name} className="mt-1 max-h-60 rounded border"/>}
+                        {f.preview && <pre className="mt-1 bg-background p-2 rounded overflow-x-auto max-h-40">{f.preview}</pre>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {data.skippedFiles?.length > 0 && <div className="text-muted-foreground">Not kept (over the file limits): {data.skippedFiles.join(', ')}</div>}
+            </div>
+          </details>
+        )
       default:
         return (
           <div className="mt-3 p-3 bg-muted/50 rounded-lg border">
@@ -171,8 +235,63 @@ export default function ChatMessage({ message, searchPhase, isStreamingMessage }
     }
   }
 
+  // Agent steps behind the answer; a single successful step is already covered by agentBlock
+  // Uploaded files the answer actually cites, e.g. "[report.pdf, p. 3]", linked to the cited page
+  const citationsBlock = (citations: DocumentCitation[], content: string) => {
+    const cited = citations.filter(c => content.includes(c.page ? `${c.fileName}, p. ${c.page}` : c.fileName))
+    if (!cited.length) return null
+    return (
+      <div className="mt-3 p-3 bg-muted/50 rounded-lg border">
+        <div className="flex items-center gap-2 mb-2"><FileText size={14}/><span className="text-sm font-medium">Sources</span></div>
+        <ul className="text-xs space-y-1">
+          {cited.map((c,i)=>(
+            <li key={i}>
+              <a href={c.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{c.fileName}{c.page ? `, p. ${c.page}` : ''}</a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  // Which personal data was replaced with placeholders before the prompt was sent; values are never stored in the report
+  const redactionBlock = (report: RedactionReport) => {
+    if (!report.total) return null
+    const summary = Object.entries(report.kinds).map(([kind, count]) => `${count} ${kind.replace('_', ' ')}${count > 1 ? 's' : ''}`).join(', ')
+    return (
+      <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground" title={report.placeholders.map(p => p.placeholder).join(' ')}>
+        <ShieldCheck size={14}/><span>Masked before sending: {summary}</span>
+      </div>
+    )
+  }
+
+  const chainBlock = (chain: AgentChain) => {
+    if (!chain.steps.length) return null
+    if (chain.steps.length === 1 && chain.steps[0].status === 'success' && chain.stopReason === 'complete') return null
+    const stopLabel = chain.stopReason === 'max_depth' ? 'Stopped at max depth' : chain.stopReason === 'timeout' ? 'Timed out' : chain.stopReason === 'cancelled' ? 'Stopped' : 'Complete'
+    return (
+      <div className="mt-3 p-3 bg-muted/50 rounded-lg border">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium">Agent Steps</span>
+          <span className="text-xs text-muted-foreground">{stopLabel} · {(chain.durationMs/1000).toFixed(1)}s</span>
+        </div>
+        <ol className="text-xs space-y-1">
+          {chain.steps.map((step,i)=>(
+            <li key={i} className="flex items-center gap-2">
+              <span className="text-muted-foreground">{step.depth}.</span>
+              <span className="font-medium">{step.agent}</span>
+              {step.tool && <span className="font-mono text-muted-foreground">{step.tool}</span>}
+              <span className={step.status === 'success' ? 'text-green-600' : 'text-red-500'}>{step.status}</span>
+              <span className="ml-auto text-muted-foreground">{step.durationMs}ms</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    )
+  }
+
   return (
-  <div className={`flex py-4 ${isUser ? 'justify-end' : 'justify-start'} group`} data-message-id={message.id}>
+  <div className={`flex py-4 ${isUser ? 'justify-end' : 'justify-start'} group`} id={getMessageAnchor(message.id)} data-message-id={message.id}>
       {!isUser && (
         <div className="flex items-start gap-0">
           <div className="flex-shrink-0 mr-2 sm:mr-3">
@@ -186,16 +305,32 @@ export default function ChatMessage({ message, searchPhase, isStreamingMessage }
       )}
   {/* Remove artificial max-width for assistant messages; keep reasonable limit for user bubbles */}
   <div className={`${isUser ? 'max-w-[70%] order-1' : 'w-full order-2'} max-w-full`}> 
-        {isUser ? (
+        {isUser && editing ? (
+          <div className="flex flex-col items-end gap-2 w-full">
+            <textarea
+              value={draft}
+              onChange={(e)=>setDraft(e.target.value)}
+              onKeyDown={(e)=>{ if(e.key === 'Enter' && !e.shiftKey){ e.preventDefault(); submitEdit() } else if(e.key === 'Escape'){ setEditing(false) } }}
+              className="w-full min-w-[16rem] rounded-lg border bg-background p-3 text-sm sm:text-base resize-y focus:outline-none focus:ring-1 focus:ring-ring"
+              rows={Math.min(Math.max(draft.split('\n').length, 2), 10)}
+              autoFocus
+            />
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={()=>setEditing(false)} className="h-7 px-3 text-xs">Cancel</Button>
+              <Button size="sm" onClick={submitEdit} disabled={!draft.trim() || isLoading} className="h-7 px-3 text-xs">Send</Button>
+            </div>
+          </div>
+        ) : isUser ? (
           <div className="flex items-end gap-2">
             <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center gap-1 mb-2">
-              <Button variant="ghost" size="sm" onClick={editUser} className="h-7 px-2 text-xs hover:bg-muted" title="Edit message"><Edit size={12}/></Button>
+              <Button variant="ghost" size="sm" onClick={editUser} disabled={isLoading} className="h-7 px-2 text-xs hover:bg-muted" title="Edit message"><Edit size={12}/></Button>
               <Button variant="ghost" size="sm" onClick={copyUser} className="h-7 px-2 text-xs hover:bg-muted" title={copied? 'Copied!' : 'Copy message'}><Copy size={12}/></Button>
             </div>
             <div className="flex flex-col items-end gap-1">
               <div className="bg-neutral-800 text-white rounded-full rounded-br-md px-3 sm:px-4 py-2 sm:py-2">
                 <div className="whitespace-pre-wrap break-words text-sm sm:text-base">{message.content}</div>
               </div>
+              <BranchControls message={message} />
             </div>
             <div className="flex-shrink-0 w-7 h-7 sm:w-8 sm:h-8 rounded-full flex items-center justify-center bg-primary text-primary-foreground"><User size={14} className="sm:w-4 sm:h-4"/></div>
           </div>
@@ -241,7 +376,13 @@ export default function ChatMessage({ message, searchPhase, isStreamingMessage }
             {message.attachments?.length ? (
               <div className="mt-3 space-y-2">{message.attachments.map(a=> <div key={a.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded border text-sm"><span className="truncate">{a.name}</span><span className="text-xs text-muted-foreground">{(a.size/1024).toFixed(1)} KB</span></div>)}</div>
             ): null}
-            {message.metadata?.agentData && message.metadata?.agent && agentBlock(message.metadata.agentData, message.metadata.agent)}
+            {message.metadata?.documentCitations && citationsBlock(message.metadata.documentCitations, message.content)}
+            {message.metadata?.redaction && redactionBlock(message.metadata.redaction)}
+            {message.metadata?.chain && chainBlock(message.metadata.chain)}
+            {message.metadata?.agentResults
+              ? message.metadata.agentResults.map((result,i)=> <React.Fragment key={i}>{agentBlock(result.data, result.agent)}</React.Fragment>)
+              : message.metadata?.agentData && message.metadata?.agent && agentBlock(message.metadata.agentData, message.metadata.agent)}
+            <BranchControls message={message} />
             {/* Only show action buttons when streaming is completely finished */}
             {!message.metadata?.streaming && !isCurrentlyStreaming && <ActionButtons message={message} />}
           </div>
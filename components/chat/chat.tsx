@@ -1,14 +1,17 @@
 'use client'
 
-import React, { useEffect, useRef } from 'react'
+import React, { useEffect, useMemo, useRef } from 'react'
 import { useChatStore } from '@/lib/store'
+import { getActivePath } from '@/lib/message-tree'
 import { useStreamingChat } from '@/hooks/useStreamingChat'
 import ChatMessage from './chat-message'
 import ChatInput from './chat-input'
 import { Button } from '@/components/ui/button'
 
 export default function Chat() {
-  const { messages, isLoading, currentSession } = useChatStore()
+  const { messages: allMessages, activeLeafId, isLoading, currentSession } = useChatStore()
+  // Only the selected branch is shown; the others are reached through the branch controls on each message
+  const messages = useMemo(() => getActivePath(allMessages, activeLeafId), [allMessages, activeLeafId])
   const { sendMessage, stopGeneration, isStreaming, streamingMessageId, searchPhase } = useStreamingChat({
     chatId: currentSession?.id
   })
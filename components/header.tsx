@@ -3,10 +3,10 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
-import { Menu, Bot, ChevronDown, User, Shield, ShieldCheck, ShieldX } from 'lucide-react'
+import { Menu, Bot, ChevronDown, User, Shield, ShieldCheck, ShieldX, Brain } from 'lucide-react'
 import { getProviders } from '@/lib/models-config'
 import { useChatStore } from '@/lib/store'
-import { AIGovernance } from '@/lib/governance'
+import { GOVERNANCE_MODES } from '@/lib/governance-modes'
 import { ProviderIcon } from '@/components/ui/model-icons'
 
 
@@ -24,6 +24,10 @@ export default function Header({ onToggleSidebar }: HeaderProps) {
   const setSelectedProvider = useChatStore((s) => s.setSelectedProvider)
   const settings = useChatStore((s) => s.settings)
   const updateSettings = useChatStore((s) => s.updateSettings)
+  const currentSession = useChatStore((s) => s.currentSession)
+  const setMemoryEnabled = useChatStore((s) => s.setMemoryEnabled)
+  // Memory is on for every chat until switched off for it
+  const memoryEnabled = currentSession?.metadata?.memoryEnabled !== false
 
   useEffect(() => {
     const loadedProviders = getProviders()
@@ -79,7 +83,7 @@ export default function Header({ onToggleSidebar }: HeaderProps) {
     setIsGovernanceDropdownOpen(false)
   }
 
-  const governanceModes = AIGovernance.getAvailableModes()
+  const governanceModes = GOVERNANCE_MODES
 
   return (
     <header className="flex items-center justify-between p-4 bg-transparent">
@@ -124,6 +128,17 @@ export default function Header({ onToggleSidebar }: HeaderProps) {
 
       {/* Right section */}
       <div className="flex items-center gap-2">
+        {/* Long-term memory toggle for this chat */}
+        {currentSession && (
+          <button
+            onClick={() => setMemoryEnabled(!memoryEnabled)}
+            className={`p-2.5 rounded-full hover:bg-neutral-800 ${memoryEnabled ? 'text-primary' : 'text-muted-foreground opacity-50'}`}
+            title={memoryEnabled ? 'Memory is on for this chat' : 'Memory is off for this chat'}
+            aria-pressed={memoryEnabled}
+          >
+            <Brain size={16} />
+          </button>
+        )}
         <div className="text-sm text-muted-foreground hidden sm:block">
           <button className="text-primary hover:underlin p-2.5 rounded-full hover:bg-neutral-800">
             <User size={16} />
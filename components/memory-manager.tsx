@@ -0,0 +1,227 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import * as Dialog from '@radix-ui/react-dialog'
+import { Brain, Check, Edit, Loader2, Plus, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { getMessageAnchor } from '@/lib/search'
+import { getAuthHeaders } from '@/lib/supabase-browser'
+import { UserMemory } from '@/types'
+
+interface MemoryManagerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const SOURCE_LABELS: Record<UserMemory['source'], string> = {
+  explicit: 'Asked to remember',
+  automatic: 'Picked up from chat',
+  manual: 'Added here'
+}
+
+// View, add, edit and delete the long-term memories that are added to every chat's system prompt
+export default function MemoryManager({ open, onOpenChange }: MemoryManagerProps) {
+  const [memories, setMemories] = useState<UserMemory[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [draftKind, setDraftKind] = useState<UserMemory['kind']>('fact')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState('')
+
+  // Reload on every open; memories are added in the background while chatting
+  useEffect(() => {
+    if (!open) return
+    const controller = new AbortController()
+    setLoading(true)
+    setError(null)
+    // Memories belong to the signed-in user, or to the local user without a session
+    getAuthHeaders()
+      .then(headers => fetch('/api/memories', { headers, signal: controller.signal }))
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => setMemories(data.memories || []))
+      .catch(err => {
+        if (err.name === 'AbortError') return
+        console.error('Failed to load memories:', err)
+        setError('Could not load memories')
+      })
+      .finally(() => setLoading(false))
+    return () => controller.abort()
+  }, [open])
+
+  const handleAdd = async () => {
+    const content = draft.trim()
+    if (!content) return
+    try {
+      const response = await fetch('/api/memories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...await getAuthHeaders() },
+        body: JSON.stringify({ content, kind: draftKind })
+      })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const { memory } = await response.json()
+      setMemories(prev => [memory, ...prev])
+      setDraft('')
+      setError(null)
+    } catch (err) {
+      console.error('Failed to add memory:', err)
+      setError('Could not add memory')
+    }
+  }
+
+  const handleSave = async (id: string) => {
+    const content = editText.trim()
+    if (!content) return
+    try {
+      const response = await fetch(`/api/memories/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...await getAuthHeaders() },
+        body: JSON.stringify({ content })
+      })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const { memory } = await response.json()
+      setMemories(prev => prev.map(m => m.id === id ? memory : m))
+      setEditingId(null)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to update memory:', err)
+      setError('Could not update memory')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    const previous = memories
+    setMemories(prev => prev.filter(m => m.id !== id))
+    try {
+      const response = await fetch(`/api/memories/${id}`, { method: 'DELETE', headers: await getAuthHeaders() })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    } catch (err) {
+      console.error('Failed to delete memory:', err)
+      setMemories(previous)
+      setError('Could not delete memory')
+    }
+  }
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-black/60" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 w-[calc(100%-2rem)] max-w-lg -translate-x-1/2 -translate-y-1/2 rounded-xl border border-neutral-800 bg-neutral-950 p-5 text-white shadow-xl focus:outline-none">
+          <div className="flex items-center justify-between mb-1">
+            <Dialog.Title className="flex items-center gap-2 text-lg font-semibold">
+              <Brain size={18} /> Memory
+            </Dialog.Title>
+            <Dialog.Close asChild>
+              <Button variant="ghost" size="icon" className="text-neutral-400 hover:text-white" aria-label="Close">
+                <X size={18} />
+              </Button>
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="text-sm text-neutral-400 mb-4">
+            Facts and preferences carried into new chats. Say &ldquo;remember that…&rdquo; in a chat to add one, or add it here.
+          </Dialog.Description>
+
+          {/* New memory */}
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAdd() }}
+              placeholder="e.g. Prefers metric units"
+              className="flex-1 rounded-lg bg-neutral-900 border border-neutral-800 px-3 py-2 text-sm text-white placeholder:text-neutral-500 focus:outline-none focus:border-neutral-600"
+            />
+            <select
+              value={draftKind}
+              onChange={(e) => setDraftKind(e.target.value as UserMemory['kind'])}
+              className="rounded-lg bg-neutral-900 border border-neutral-800 px-2 text-sm text-neutral-300 focus:outline-none"
+            >
+              <option value="fact">Fact</option>
+              <option value="preference">Preference</option>
+            </select>
+            <Button onClick={handleAdd} disabled={!draft.trim()} size="icon" aria-label="Add memory">
+              <Plus size={16} />
+            </Button>
+          </div>
+
+          {error && <div className="text-sm text-red-400 mb-3">{error}</div>}
+
+          <div className="max-h-[50vh] overflow-y-auto space-y-2">
+            {loading ? (
+              <div className="flex items-center gap-2 px-1 py-2 text-sm text-neutral-400">
+                <Loader2 size={14} className="animate-spin" /> Loading...
+              </div>
+            ) : memories.length === 0 ? (
+              <div className="px-1 py-2 text-sm text-neutral-500">Nothing remembered yet</div>
+            ) : (
+              memories.map((memory) => (
+                <div key={memory.id} className="group rounded-lg border border-neutral-800 px-3 py-2">
+                  {editingId === memory.id ? (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={editText}
+                        autoFocus
+                        onChange={(e) => setEditText(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleSave(memory.id)
+                          if (e.key === 'Escape') setEditingId(null)
+                        }}
+                        className="flex-1 rounded bg-neutral-900 border border-neutral-700 px-2 py-1 text-sm text-white focus:outline-none"
+                      />
+                      <Button variant="ghost" size="icon" onClick={() => handleSave(memory.id)} className="h-8 w-8 text-neutral-400 hover:text-white" aria-label="Save memory">
+                        <Check size={14} />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-start gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-neutral-100 break-words">{memory.content}</div>
+                        <div className="mt-1 text-xs text-neutral-500">
+                          {memory.kind === 'preference' ? 'Preference' : 'Fact'} · {SOURCE_LABELS[memory.source]}
+                          {memory.conversationId && (
+                            <>
+                              {' · '}
+                              <Link
+                                href={`/chat/${memory.conversationId}${memory.messageId ? `#${getMessageAnchor(memory.messageId)}` : ''}`}
+                                onClick={() => onOpenChange(false)}
+                                className="underline hover:text-neutral-300"
+                              >
+                                View source
+                              </Link>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => { setEditingId(memory.id); setEditText(memory.content) }}
+                          className="h-7 w-7 text-neutral-400 hover:text-white"
+                          aria-label="Edit memory"
+                        >
+                          <Edit size={13} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(memory.id)}
+                          className="h-7 w-7 text-neutral-400 hover:text-red-400"
+                          aria-label="Delete memory"
+                        >
+                          <Trash2 size={13} />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  )
+}
@@ -2,8 +2,11 @@
 
 import { useChatStore } from '@/lib/store'
 import { useRouter } from 'next/navigation'
-import { useEffect } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Button } from '@/components/ui/button'
+import { getMessageAnchor, splitSnippet } from '@/lib/search'
+import { MessageSearchResult } from '@/types'
+import MemoryManager from '@/components/memory-manager'
 import { 
   MessageSquare, 
   Settings, 
@@ -17,7 +20,9 @@ import {
   Edit,
   User,
   PanelRightClose,
-  PanelRightOpen
+  PanelRightOpen,
+  Loader2,
+  Brain
 } from 'lucide-react'
 
 interface SidebarProps {
@@ -37,6 +42,47 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
     loadChatsFromMongoDB,
     clearPersistedState
   } = useChatStore()
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([])
+  const [searching, setSearching] = useState(false)
+  const [memoryOpen, setMemoryOpen] = useState(false)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+
+  // Search message content as the user types (debounced; stale requests are aborted)
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (!query) {
+      setSearchResults([])
+      setSearching(false)
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`, { signal: controller.signal })
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const data = await response.json()
+        setSearchResults(data.results || [])
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error('Failed to search chats:', error)
+        setSearchResults([])
+      }
+      setSearching(false)
+    }, 300)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [searchQuery])
+
+  useEffect(() => {
+    if (searchOpen && isOpen) searchInputRef.current?.focus()
+  }, [searchOpen, isOpen])
 
   // Load chats from MongoDB on component mount
   useEffect(() => {
@@ -93,6 +139,26 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
     }
   }
 
+  const handleToggleSearch = () => {
+    if (!isOpen) onToggle()
+    setSearchOpen(open => isOpen ? !open : true)
+    setSearchQuery('')
+  }
+
+  // Open the chat at the matching message; the chat page scrolls to the URL hash
+  const handleSelectResult = (result: MessageSearchResult) => {
+    const anchor = getMessageAnchor(result.messageId)
+    if (currentSession?.id === result.conversationId) {
+      window.location.hash = anchor
+    } else {
+      router.push(`/chat/${result.conversationId}#${anchor}`)
+    }
+
+    if (window.innerWidth < 1024) {
+      onToggle()
+    }
+  }
+
   const handleDeleteSession = async (sessionId: string, e: React.MouseEvent) => {
     e.stopPropagation()
     
@@ -132,8 +198,9 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
 
   const navigationItems = [
     { icon: Edit, label: 'New chat', action: handleNewChat },
-    { icon: Search, label: 'Search chats', action: () => {} },
+    { icon: Search, label: 'Search chats', action: handleToggleSearch },
     { icon: BookOpen, label: 'Library', action: () => {} },
+    { icon: Brain, label: 'Memory', action: () => setMemoryOpen(true) },
     // { icon: Zap, label: 'Sora', action: () => {} },
     // { icon: Users, label: 'GPTs', action: () => {} },
   ]
@@ -214,18 +281,71 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
             <div className="mx-4 my-4 border-t border-neutral-800" />
           )}
 
+          {/* Search box */}
+          {isOpen && searchOpen && (
+            <div className="px-3 mb-3">
+              <input
+                ref={searchInputRef}
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    setSearchOpen(false)
+                    setSearchQuery('')
+                  }
+                }}
+                placeholder="Search messages..."
+                className="w-full rounded-lg bg-neutral-900 border border-neutral-800 px-3 py-2 text-sm text-white placeholder:text-neutral-500 focus:outline-none focus:border-neutral-600"
+              />
+            </div>
+          )}
+
           {/* Chats Section */}
           {isOpen && (
             <div className="px-4">
               <h2 className="text-xs font-medium text-neutral-500 uppercase tracking-wider mb-2">
-                Chats
+                {searchOpen && searchQuery.trim() ? 'Search results' : 'Chats'}
               </h2>
             </div>
           )}
 
           {/* Chat History */}
           <div className="flex-1 overflow-y-auto px-2">
-            {isOpen ? (
+            {isOpen && searchOpen && searchQuery.trim() ? (
+              <div className="space-y-1">
+                {searching && searchResults.length === 0 ? (
+                  <div className="flex justify-center text-neutral-500 py-8">
+                    <Loader2 size={20} className="animate-spin" />
+                  </div>
+                ) : searchResults.length === 0 ? (
+                  <div className="text-center text-neutral-500 py-8 px-4">
+                    <Search size={32} className="mx-auto mb-2 opacity-50" />
+                    <p className="text-sm">No matching messages</p>
+                  </div>
+                ) : (
+                  searchResults.map((result) => (
+                    <div
+                      key={`${result.conversationId}:${result.messageId}`}
+                      onClick={() => handleSelectResult(result)}
+                      className="px-3 py-2 rounded-lg cursor-pointer transition-colors text-neutral-300 hover:bg-neutral-800/50 hover:text-white"
+                    >
+                      <div className="text-sm font-medium truncate">
+                        {result.conversationTitle}
+                      </div>
+                      <div className="text-xs text-neutral-500 line-clamp-3 mt-0.5">
+                        <span className="text-neutral-400">{result.role === 'user' ? 'You: ' : 'AI: '}</span>
+                        {splitSnippet(result.snippet).map((part, index) => part.highlight ? (
+                          <mark key={index} className="bg-yellow-500/30 text-white rounded-sm">{part.text}</mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            ) : isOpen ? (
               <div className="space-y-1">
                 {sessions.length === 0 ? (
                   <div className="text-center text-neutral-500 py-8 px-4">
@@ -300,6 +420,8 @@ export default function Sidebar({ isOpen, onToggle }: SidebarProps) {
           </div>
         </div>
       </aside>
+
+      <MemoryManager open={memoryOpen} onOpenChange={setMemoryOpen} />
     </>
   )
 }
@@ -12,7 +12,8 @@ const BRANDFETCH_LOGOS = {
   'OpenAI': 'https://cdn.brandfetch.io/openai.com/w/512/h/512?c=1idsS8q4iUoQJpiX7Hr',
   'Anthropic': 'https://cdn.brandfetch.io/anthropic.com/w/400/h/400?c=1idsS8q4iUoQJpiX7Hr',
   'Google': 'https://cdn.brandfetch.io/google.com/w/400/h/400?c=1idsS8q4iUoQJpiX7Hr',
-  'Mistral': 'https://cdn.brandfetch.io/mistral.ai/w/200/h/200?c=1idsS8q4iUoQJpiX7Hr'
+  'Mistral': 'https://cdn.brandfetch.io/mistral.ai/w/200/h/200?c=1idsS8q4iUoQJpiX7Hr',
+  'Groq': 'https://cdn.brandfetch.io/groq.com/w/400/h/400?c=1idsS8q4iUoQJpiX7Hr'
 }
 
 // Provider configurations
@@ -28,6 +29,9 @@ const PROVIDER_CONFIG = {
   },
   'Mistral': {
     logoUrl: BRANDFETCH_LOGOS.Mistral,
+  },
+  'Groq': {
+    logoUrl: BRANDFETCH_LOGOS.Groq,
   }
 }
 
@@ -39,6 +43,11 @@ const OPENAI_MODEL_VARIANTS = {
   'DALL-E 3': { symbol: 'DE', bg: 'bg-pink-600' },
 }
 
+// Self-hosted providers have no brand logo, so they get a text badge
+const PROVIDER_BADGES = {
+  'Local': { symbol: 'L', bg: 'bg-neutral-600' },
+}
+
 export function ModelIcon({ provider, model, size = 'md', className = '' }: ModelIconProps) {
   const config = PROVIDER_CONFIG[provider as keyof typeof PROVIDER_CONFIG] || PROVIDER_CONFIG['OpenAI']
   
@@ -54,9 +63,10 @@ export function ModelIcon({ provider, model, size = 'md', className = '' }: Mode
     lg: 24
   }
 
-  // Special handling for OpenAI models with different variants
-  if (provider === 'OpenAI' && model && OPENAI_MODEL_VARIANTS[model as keyof typeof OPENAI_MODEL_VARIANTS]) {
-    const variant = OPENAI_MODEL_VARIANTS[model as keyof typeof OPENAI_MODEL_VARIANTS]
+  // Special handling for OpenAI models with different variants, and badges for providers without a logo
+  const variant = (provider === 'OpenAI' && model && OPENAI_MODEL_VARIANTS[model as keyof typeof OPENAI_MODEL_VARIANTS])
+    || PROVIDER_BADGES[provider as keyof typeof PROVIDER_BADGES]
+  if (variant) {
     return (
       <div className={`
         ${variant.bg}
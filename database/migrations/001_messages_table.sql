@@ -0,0 +1,144 @@
+-- Migration 001: move messages out of conversations.messages (JSONB array) into their own table
+-- Run this once in the Supabase SQL editor on databases created from the old database/supabase-schema.sql.
+-- It is safe to re-run: messages already copied are skipped.
+
+BEGIN;
+
+-- Messages table, as in database/supabase-schema.sql
+CREATE TABLE IF NOT EXISTS messages (
+  id TEXT NOT NULL,
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  parent_id TEXT,
+  seq BIGINT GENERATED ALWAYS AS IDENTITY,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL DEFAULT '',
+  type TEXT NOT NULL DEFAULT 'text',
+  timestamp BIGINT NOT NULL,
+  metadata JSONB DEFAULT '{}'::JSONB,
+  attachments JSONB DEFAULT '[]'::JSONB,
+  embedding JSONB,
+  deleted BOOLEAN NOT NULL DEFAULT FALSE,
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_timestamp ON messages(conversation_id, timestamp);
+
+DROP TRIGGER IF EXISTS update_messages_updated_at ON messages;
+CREATE TRIGGER update_messages_updated_at
+    BEFORE UPDATE ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on messages" ON messages;
+CREATE POLICY "Allow all operations on messages" ON messages
+    FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON messages TO anon;
+
+-- Copy every array element into a row, keeping array order.
+-- Timestamps were saved as epoch milliseconds, as milliseconds serialized to text and as ISO strings; all become milliseconds.
+-- Numeric text is matched before the ISO cast, which would reject it and abort the migration.
+-- Messages saved before branching have no parentId and follow the element before them, like linkMessages() does.
+INSERT INTO messages (id, conversation_id, parent_id, role, content, type, timestamp, metadata, attachments, embedding, deleted, deleted_at)
+SELECT
+  element.id,
+  element.conversation_id,
+  CASE
+    WHEN element.value ? 'parentId' THEN element.value->>'parentId'
+    ELSE LAG(element.id) OVER (PARTITION BY element.conversation_id ORDER BY element.position)
+  END,
+  COALESCE(element.value->>'role', 'user'),
+  COALESCE(element.value->>'content', ''),
+  COALESCE(element.value->>'type', 'text'),
+  CASE
+    WHEN jsonb_typeof(element.value->'timestamp') = 'number' THEN (element.value->>'timestamp')::NUMERIC::BIGINT
+    WHEN TRIM(element.value->>'timestamp') ~ '^\d+(\.\d+)?$' THEN TRIM(element.value->>'timestamp')::NUMERIC::BIGINT
+    WHEN NULLIF(TRIM(element.value->>'timestamp'), '') IS NOT NULL THEN (EXTRACT(EPOCH FROM (element.value->>'timestamp')::TIMESTAMPTZ) * 1000)::BIGINT
+    ELSE (EXTRACT(EPOCH FROM element.created_at) * 1000)::BIGINT + element.position
+  END,
+  COALESCE(element.value->'metadata', '{}'::JSONB),
+  COALESCE(element.value->'attachments', '[]'::JSONB),
+  element.value->'embedding',
+  COALESCE((element.value->>'deleted')::BOOLEAN, (element.value->'metadata'->>'deleted')::BOOLEAN, FALSE),
+  CASE
+    WHEN COALESCE((element.value->>'deleted')::BOOLEAN, (element.value->'metadata'->>'deleted')::BOOLEAN, FALSE) THEN NOW()
+  END
+FROM (
+  SELECT
+    c.id AS conversation_id,
+    c.created_at,
+    m.value,
+    m.position,
+    COALESCE(m.value->>'id', 'msg-' || c.id || '-' || m.position) AS id
+  FROM conversations c
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(c.messages, '[]'::JSONB)) WITH ORDINALITY AS m(value, position)
+) element
+ORDER BY element.conversation_id, element.position
+ON CONFLICT (conversation_id, id) DO NOTHING;
+
+-- The list view and stats function now read the messages table
+DROP VIEW IF EXISTS conversation_list;
+CREATE VIEW conversation_list AS
+SELECT
+  c.id,
+  c.title,
+  c.model,
+  COUNT(m.id) FILTER (WHERE NOT m.deleted) as message_count,
+  MAX(m.timestamp) as last_message_timestamp,
+  c.created_at,
+  c.updated_at
+FROM conversations c
+LEFT JOIN messages m ON m.conversation_id = c.id
+GROUP BY c.id
+ORDER BY c.updated_at DESC;
+
+GRANT ALL ON conversation_list TO anon;
+
+CREATE OR REPLACE FUNCTION get_conversation_with_stats(conversation_id TEXT)
+RETURNS TABLE (
+  id TEXT,
+  title TEXT,
+  model TEXT,
+  messages JSONB,
+  message_count INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.title,
+    c.model,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'parentId', m.parent_id,
+        'role', m.role,
+        'content', m.content,
+        'type', m.type,
+        'timestamp', m.timestamp,
+        'metadata', m.metadata,
+        'attachments', m.attachments,
+        'deleted', m.deleted
+      ) ORDER BY m.timestamp, m.seq)
+      FROM messages m
+      WHERE m.conversation_id = c.id
+    ), '[]'::JSONB) as messages,
+    (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id AND NOT m.deleted)::INTEGER as message_count,
+    c.created_at,
+    c.updated_at
+  FROM conversations c
+  WHERE c.id = conversation_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
+
+-- The app no longer reads or writes conversations.messages. Once the copied rows look right, drop the old column:
+-- ALTER TABLE conversations DROP COLUMN messages;
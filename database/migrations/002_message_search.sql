@@ -0,0 +1,93 @@
+-- Migration 002: full-text and semantic search over messages
+-- Run this in the Supabase SQL editor after 001_messages_table.sql. It is safe to re-run.
+
+BEGIN;
+
+-- pgvector; embeddings saved by 001 as JSONB arrays are converted in place
+CREATE EXTENSION IF NOT EXISTS vector;
+
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns WHERE table_name = 'messages' AND column_name = 'embedding') = 'jsonb' THEN
+    ALTER TABLE messages ALTER COLUMN embedding TYPE vector
+      USING CASE WHEN jsonb_typeof(embedding) = 'array' AND jsonb_array_length(embedding) > 0 THEN embedding::TEXT::vector END;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_messages_content ON messages USING GIN(to_tsvector('english', content));
+
+-- Search message content across conversations (used by /api/search).
+-- Full-text matches are ranked with ts_rank_cd; when a query embedding is given, nearest embeddings are ranked too
+-- and both lists are merged with reciprocal rank fusion. Snippets wrap matched terms in chr(2) ... chr(3).
+CREATE OR REPLACE FUNCTION search_messages(
+  search_query TEXT,
+  query_embedding vector DEFAULT NULL,
+  match_count INTEGER DEFAULT 20,
+  rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id TEXT,
+  conversation_title TEXT,
+  message_id TEXT,
+  role TEXT,
+  snippet TEXT,
+  message_timestamp BIGINT,
+  text_rank REAL,
+  similarity DOUBLE PRECISION,
+  score DOUBLE PRECISION
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', COALESCE(search_query, '')) AS tsq
+  ),
+  full_text AS (
+    SELECT
+      m.conversation_id,
+      m.id,
+      ts_rank_cd(to_tsvector('english', m.content), query.tsq) AS rank,
+      ROW_NUMBER() OVER (ORDER BY ts_rank_cd(to_tsvector('english', m.content), query.tsq) DESC) AS rank_position
+    FROM messages m, query
+    WHERE NOT m.deleted AND to_tsvector('english', m.content) @@ query.tsq
+    ORDER BY rank DESC
+    LIMIT match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      m.conversation_id,
+      m.id,
+      1 - (m.embedding <=> query_embedding) AS similarity,
+      ROW_NUMBER() OVER (ORDER BY m.embedding <=> query_embedding) AS rank_position
+    FROM messages m
+    WHERE query_embedding IS NOT NULL
+      AND NOT m.deleted
+      AND m.embedding IS NOT NULL
+      AND vector_dims(m.embedding) = vector_dims(query_embedding)
+    ORDER BY m.embedding <=> query_embedding
+    LIMIT match_count * 2
+  )
+  SELECT
+    m.conversation_id,
+    c.title,
+    m.id,
+    m.role,
+    ts_headline(
+      'english',
+      m.content,
+      (SELECT tsq FROM query),
+      format('StartSel=%s, StopSel=%s, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "', chr(2), chr(3))
+    ),
+    m.timestamp,
+    full_text.rank,
+    semantic.similarity,
+    (COALESCE(1.0 / (rrf_k + full_text.rank_position), 0) + COALESCE(1.0 / (rrf_k + semantic.rank_position), 0))::DOUBLE PRECISION
+  FROM full_text
+  FULL OUTER JOIN semantic
+    ON semantic.conversation_id = full_text.conversation_id AND semantic.id = full_text.id
+  JOIN messages m
+    ON m.conversation_id = COALESCE(full_text.conversation_id, semantic.conversation_id)
+    AND m.id = COALESCE(full_text.id, semantic.id)
+  JOIN conversations c ON c.id = m.conversation_id
+  ORDER BY 9 DESC
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- Migration 003: bookkeeping for the background embedding job (lib/embedding-job.ts)
+-- Run this in the Supabase SQL editor after 002_message_search.sql. It is safe to re-run.
+
+BEGIN;
+
+-- Which model produced each vector, so switching EMBEDDING_PROVIDER or EMBEDDING_MODEL re-embeds old messages
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS embedded_at TIMESTAMPTZ;
+
+-- Messages still waiting for a vector, oldest first
+CREATE INDEX IF NOT EXISTS idx_messages_unembedded ON messages(seq) WHERE embedding IS NULL AND NOT deleted;
+
+COMMIT;
+
+-- Existing messages are embedded by POST /api/embeddings (repeat until it reports done: true).
@@ -0,0 +1,38 @@
+-- Migration 004: long-term user memory (lib/memory.ts)
+-- Run this in the Supabase SQL editor after 003_message_embeddings.sql. It is safe to re-run.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS memories (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  user_id TEXT NOT NULL DEFAULT 'default', -- No accounts yet; every memory belongs to the single local user
+  content TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'fact' CHECK (kind IN ('fact', 'preference')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('explicit', 'automatic', 'manual')),
+  -- Provenance: the message the memory was taken from; NULL for memories added in the memory manager
+  conversation_id TEXT REFERENCES conversations(id) ON DELETE SET NULL,
+  message_id TEXT,
+  embedding vector,
+  embedding_model TEXT,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_updated_at ON memories(user_id, updated_at DESC);
+
+DROP TRIGGER IF EXISTS update_memories_updated_at ON memories;
+CREATE TRIGGER update_memories_updated_at
+    BEFORE UPDATE ON memories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE memories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on memories" ON memories;
+CREATE POLICY "Allow all operations on memories" ON memories
+    FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON memories TO anon;
+
+COMMIT;
@@ -0,0 +1,98 @@
+-- Migration 005: text chunks of uploaded documents, retrieved into the prompt (lib/documents.ts)
+-- Run this in the Supabase SQL editor after 004_memories.sql. It is safe to re-run.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  attachment_id TEXT NOT NULL, -- MessageAttachment.id returned by /api/upload
+  message_id TEXT, -- Message the file was sent with, if known at upload time
+  file_name TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  page INTEGER, -- 1-based PDF page; NULL for formats without pages
+  content TEXT NOT NULL,
+  embedding vector,
+  embedding_model TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (attachment_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_conversation ON document_chunks(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content ON document_chunks USING GIN(to_tsvector('english', content));
+
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on document_chunks" ON document_chunks;
+CREATE POLICY "Allow all operations on document_chunks" ON document_chunks
+    FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON document_chunks TO anon;
+
+-- Chunks of one conversation's documents that best match a message. Same ranking as search_messages:
+-- full-text and (when an embedding is given) vector matches merged with reciprocal rank fusion.
+CREATE OR REPLACE FUNCTION search_document_chunks(
+  target_conversation_id TEXT,
+  search_query TEXT,
+  query_embedding vector DEFAULT NULL,
+  match_count INTEGER DEFAULT 6,
+  rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id TEXT,
+  attachment_id TEXT,
+  file_name TEXT,
+  file_url TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  content TEXT,
+  score DOUBLE PRECISION
+) AS $$
+  WITH query AS (
+    -- Any shared word counts: a question rarely contains every term of the passage that answers it
+    SELECT COALESCE((
+      SELECT string_agg(quote_literal(replace(lexeme, E'\\', '')), ' | ')
+      FROM unnest(tsvector_to_array(to_tsvector('english', COALESCE(search_query, '')))) AS lexeme
+    ), '')::tsquery AS tsq
+  ),
+  full_text AS (
+    SELECT
+      d.id,
+      ROW_NUMBER() OVER (ORDER BY ts_rank_cd(to_tsvector('english', d.content), query.tsq) DESC) AS rank_position
+    FROM document_chunks d, query
+    WHERE d.conversation_id = target_conversation_id AND to_tsvector('english', d.content) @@ query.tsq
+    ORDER BY rank_position
+    LIMIT match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      d.id,
+      ROW_NUMBER() OVER (ORDER BY d.embedding <=> query_embedding) AS rank_position
+    FROM document_chunks d
+    WHERE query_embedding IS NOT NULL
+      AND d.conversation_id = target_conversation_id
+      AND d.embedding IS NOT NULL
+      AND vector_dims(d.embedding) = vector_dims(query_embedding)
+    ORDER BY d.embedding <=> query_embedding
+    LIMIT match_count * 2
+  )
+  SELECT
+    d.id,
+    d.attachment_id,
+    d.file_name,
+    d.file_url,
+    d.chunk_index,
+    d.page,
+    d.content,
+    (COALESCE(1.0 / (rrf_k + full_text.rank_position), 0) + COALESCE(1.0 / (rrf_k + semantic.rank_position), 0))::DOUBLE PRECISION
+  FROM full_text
+  FULL OUTER JOIN semantic ON semantic.id = full_text.id
+  JOIN document_chunks d ON d.id = COALESCE(full_text.id, semantic.id)
+  ORDER BY 8 DESC
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
+
+-- Files uploaded before this migration were never indexed; upload them again to ask about them.
@@ -0,0 +1,34 @@
+-- Migration 006: audit trail of governance decisions (lib/governance-audit.ts)
+-- Run this in the Supabase SQL editor after 005_document_chunks.sql. It is safe to re-run.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS governance_audit (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  user_id TEXT NOT NULL DEFAULT 'default',
+  message_id TEXT,
+  excerpt TEXT NOT NULL, -- Start of the message with personal data masked, e.g. "mail [email] about..."
+  mode TEXT NOT NULL,
+  use_internet BOOLEAN NOT NULL,
+  reason TEXT NOT NULL, -- AIGovernance.getDecisionReason for the message
+  decided_by TEXT, -- Built-in rule name or policy id that settled internet access
+  matched_policies TEXT[] NOT NULL DEFAULT '{}',
+  denied_agents TEXT[] NOT NULL DEFAULT '{}',
+  allowed_agents TEXT[], -- NULL when no allow list applied
+  blocked_domains TEXT[] NOT NULL DEFAULT '{}',
+  pii TEXT[] NOT NULL DEFAULT '{}', -- Kinds of personal data found, never the values
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_governance_audit_created_at ON governance_audit(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_governance_audit_user_created_at ON governance_audit(user_id, created_at DESC);
+
+ALTER TABLE governance_audit ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on governance_audit" ON governance_audit;
+CREATE POLICY "Allow all operations on governance_audit" ON governance_audit
+    FOR ALL USING (true) WITH CHECK (true);
+
+GRANT ALL ON governance_audit TO anon;
+
+COMMIT;
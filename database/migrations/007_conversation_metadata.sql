@@ -0,0 +1,23 @@
+-- Migration 007: atomic merges into conversations.metadata (ChatService.updateConversationMetadata)
+-- Run this in the Supabase SQL editor after 006_governance_audit.sql. It is safe to re-run.
+
+BEGIN;
+
+-- Shallow-merge a patch into a conversation's metadata in one statement, so concurrent writers
+-- (the context summary, title and settings updates) never overwrite each other's keys.
+-- Returns false when the conversation does not exist.
+CREATE OR REPLACE FUNCTION merge_conversation_metadata(
+  target_conversation_id TEXT,
+  patch JSONB
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE conversations
+  SET metadata = COALESCE(metadata, '{}'::JSONB) || COALESCE(patch, '{}'::JSONB),
+      updated_at = NOW()
+  WHERE id = target_conversation_id;
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
@@ -0,0 +1,73 @@
+-- Migration 008: rank long-term memories in the database (MemoryService in lib/memory.ts)
+-- Run this in the Supabase SQL editor after 007_conversation_metadata.sql. It is safe to re-run.
+
+BEGIN;
+
+-- A user's memories ranked against a message, best first: cosine similarity where the memory has a vector
+-- from the query's embedding model, otherwise the share of the memory's words found in the message
+-- ("the" and "user" start every memory and never count). Memories scoring below min_score are left out.
+CREATE OR REPLACE FUNCTION match_memories(
+  target_user_id TEXT,
+  query_text TEXT,
+  query_embedding vector DEFAULT NULL,
+  query_embedding_model TEXT DEFAULT NULL,
+  match_count INTEGER DEFAULT 8,
+  min_score DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  id TEXT,
+  content TEXT,
+  kind TEXT,
+  source TEXT,
+  conversation_id TEXT,
+  message_id TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  similarity DOUBLE PRECISION,
+  score DOUBLE PRECISION
+) AS $$
+  WITH query AS (
+    SELECT ARRAY(
+      SELECT word
+      FROM regexp_split_to_table(regexp_replace(lower(COALESCE(query_text, '')), '[^[:alnum:][:space:]]', '', 'g'), '\s+') AS word
+      WHERE length(word) > 2
+    ) AS words
+  ),
+  scored AS (
+    SELECT
+      m.*,
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND m.embedding IS NOT NULL
+          AND m.embedding_model = query_embedding_model
+          AND vector_dims(m.embedding) = vector_dims(query_embedding)
+        THEN 1 - (m.embedding <=> query_embedding)
+      END AS vector_similarity,
+      (
+        SELECT COUNT(*) FILTER (WHERE word = ANY(query.words))::DOUBLE PRECISION / NULLIF(COUNT(*), 0)
+        FROM regexp_split_to_table(regexp_replace(lower(m.content), '[^[:alnum:][:space:]]', '', 'g'), '\s+') AS word
+        WHERE length(word) > 2 AND word NOT IN ('the', 'user')
+      ) AS word_overlap
+    FROM memories m, query
+    WHERE m.user_id = target_user_id
+  )
+  SELECT
+    scored.id,
+    scored.content,
+    scored.kind,
+    scored.source,
+    scored.conversation_id,
+    scored.message_id,
+    scored.created_at,
+    scored.updated_at,
+    scored.last_used_at,
+    scored.vector_similarity,
+    COALESCE(scored.vector_similarity, scored.word_overlap, 0)
+  FROM scored
+  WHERE COALESCE(scored.vector_similarity, scored.word_overlap, 0) >= min_score
+  ORDER BY 11 DESC, scored.updated_at DESC
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
@@ -3,19 +3,81 @@
 
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS vector; -- pgvector, for semantic message search
 
 -- Create conversations table
 CREATE TABLE conversations (
   id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
   title TEXT NOT NULL,
   model TEXT NOT NULL DEFAULT 'gpt-4',
-  messages JSONB NOT NULL DEFAULT '[]'::JSONB,
   metadata JSONB DEFAULT '{}'::JSONB,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Create messages table (one row per message; parent_id links the message tree, see lib/message-tree.ts)
+-- Databases created with the old JSONB messages column: run database/migrations/001_messages_table.sql instead
+CREATE TABLE messages (
+  id TEXT NOT NULL,
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  parent_id TEXT, -- NULL for a root message; not a foreign key so a reply can be saved before its prompt
+  seq BIGINT GENERATED ALWAYS AS IDENTITY, -- Insertion order, breaks timestamp ties
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL DEFAULT '',
+  type TEXT NOT NULL DEFAULT 'text',
+  timestamp BIGINT NOT NULL, -- Milliseconds since the epoch
+  metadata JSONB DEFAULT '{}'::JSONB,
+  attachments JSONB DEFAULT '[]'::JSONB,
+  embedding vector, -- Any dimension; search only compares vectors of the query's size
+  embedding_model TEXT, -- '<provider>:<model>' that produced the vector (lib/embeddings.ts); NULL if a client supplied it
+  embedded_at TIMESTAMPTZ,
+  deleted BOOLEAN NOT NULL DEFAULT FALSE, -- Soft delete
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, id)
+);
+
+-- Create memories table (long-term user memory injected into the system prompt, see lib/memory.ts)
+CREATE TABLE memories (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  user_id TEXT NOT NULL DEFAULT 'default',
+  content TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'fact' CHECK (kind IN ('fact', 'preference')),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('explicit', 'automatic', 'manual')),
+  conversation_id TEXT REFERENCES conversations(id) ON DELETE SET NULL, -- Provenance; NULL when added by hand
+  message_id TEXT,
+  embedding vector,
+  embedding_model TEXT,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create document_chunks table (text of uploaded files, retrieved into the prompt; see lib/documents.ts)
+CREATE TABLE document_chunks (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  attachment_id TEXT NOT NULL, -- MessageAttachment.id returned by /api/upload
+  message_id TEXT,
+  file_name TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  page INTEGER, -- 1-based PDF page; NULL for formats without pages
+  content TEXT NOT NULL,
+  embedding vector,
+  embedding_model TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (attachment_id, chunk_index)
+);
+
 -- Create indexes for better performance
+CREATE INDEX idx_messages_conversation_timestamp ON messages(conversation_id, timestamp);
+CREATE INDEX idx_messages_content ON messages USING GIN(to_tsvector('english', content));
+CREATE INDEX idx_messages_unembedded ON messages(seq) WHERE embedding IS NULL AND NOT deleted; -- Embedding job queue
+CREATE INDEX idx_memories_user_updated_at ON memories(user_id, updated_at DESC);
+CREATE INDEX idx_document_chunks_conversation ON document_chunks(conversation_id);
+CREATE INDEX idx_document_chunks_content ON document_chunks USING GIN(to_tsvector('english', content));
 CREATE INDEX idx_conversations_updated_at ON conversations(updated_at DESC);
 CREATE INDEX idx_conversations_created_at ON conversations(created_at DESC);
 CREATE INDEX idx_conversations_title ON conversations USING GIN(to_tsvector('english', title));
@@ -35,55 +97,154 @@ CREATE TRIGGER update_conversations_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_messages_updated_at
+    BEFORE UPDATE ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_memories_updated_at
+    BEFORE UPDATE ON memories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
 
 -- Create policies for conversations (public access for now)
 -- Note: In production, you'd want to add user authentication and user-specific policies
 CREATE POLICY "Allow all operations on conversations" ON conversations
     FOR ALL USING (true) WITH CHECK (true);
 
+CREATE POLICY "Allow all operations on messages" ON messages
+    FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on memories" ON memories
+    FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on document_chunks" ON document_chunks
+    FOR ALL USING (true) WITH CHECK (true);
+
 -- Optional: Create a view for conversation list (without messages for performance)
 CREATE VIEW conversation_list AS
 SELECT 
-  id,
-  title,
-  model,
-  COALESCE(jsonb_array_length(messages), 0) as message_count,
-  (messages->-1->>'timestamp')::BIGINT as last_message_timestamp,
-  created_at,
-  updated_at
-FROM conversations
-ORDER BY updated_at DESC;
+  c.id,
+  c.title,
+  c.model,
+  COUNT(m.id) FILTER (WHERE NOT m.deleted) as message_count,
+  MAX(m.timestamp) as last_message_timestamp,
+  c.created_at,
+  c.updated_at
+FROM conversations c
+LEFT JOIN messages m ON m.conversation_id = c.id
+GROUP BY c.id
+ORDER BY c.updated_at DESC;
 
 -- Grant permissions
 GRANT ALL ON conversations TO anon;
+GRANT ALL ON messages TO anon;
+GRANT ALL ON memories TO anon;
+GRANT ALL ON document_chunks TO anon;
 GRANT ALL ON conversation_list TO anon;
 
 -- Insert sample data (optional)
-INSERT INTO conversations (id, title, model, messages) VALUES 
+INSERT INTO conversations (id, title, model) VALUES 
 (
   'sample-conversation-1',
   'Welcome to LayerChat',
-  'gpt-4',
-  '[
-    {
-      "id": "msg-1",
-      "role": "user", 
-      "content": "Hello, how are you?",
-      "type": "text",
-      "timestamp": 1692198000000
-    },
-    {
-      "id": "msg-2",
-      "role": "assistant",
-      "content": "Hello! I''m doing well, thank you for asking. How can I help you today?",
-      "type": "text", 
-      "timestamp": 1692198001000
-    }
-  ]'::JSONB
+  'gpt-4'
 );
 
+INSERT INTO messages (id, conversation_id, parent_id, role, content, type, timestamp) VALUES
+('msg-1', 'sample-conversation-1', NULL, 'user', 'Hello, how are you?', 'text', 1692198000000),
+('msg-2', 'sample-conversation-1', 'msg-1', 'assistant', 'Hello! I''m doing well, thank you for asking. How can I help you today?', 'text', 1692198001000);
+
+-- Shallow-merge a patch into a conversation's metadata in one statement, so concurrent writers
+-- (the context summary, title and settings updates) never overwrite each other's keys.
+-- Returns false when the conversation does not exist.
+CREATE OR REPLACE FUNCTION merge_conversation_metadata(
+  target_conversation_id TEXT,
+  patch JSONB
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE conversations
+  SET metadata = COALESCE(metadata, '{}'::JSONB) || COALESCE(patch, '{}'::JSONB),
+      updated_at = NOW()
+  WHERE id = target_conversation_id;
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A user's memories ranked against a message, best first: cosine similarity where the memory has a vector
+-- from the query's embedding model, otherwise the share of the memory's words found in the message
+-- ("the" and "user" start every memory and never count). Memories scoring below min_score are left out.
+CREATE OR REPLACE FUNCTION match_memories(
+  target_user_id TEXT,
+  query_text TEXT,
+  query_embedding vector DEFAULT NULL,
+  query_embedding_model TEXT DEFAULT NULL,
+  match_count INTEGER DEFAULT 8,
+  min_score DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  id TEXT,
+  content TEXT,
+  kind TEXT,
+  source TEXT,
+  conversation_id TEXT,
+  message_id TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  similarity DOUBLE PRECISION,
+  score DOUBLE PRECISION
+) AS $$
+  WITH query AS (
+    SELECT ARRAY(
+      SELECT word
+      FROM regexp_split_to_table(regexp_replace(lower(COALESCE(query_text, '')), '[^[:alnum:][:space:]]', '', 'g'), '\s+') AS word
+      WHERE length(word) > 2
+    ) AS words
+  ),
+  scored AS (
+    SELECT
+      m.*,
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND m.embedding IS NOT NULL
+          AND m.embedding_model = query_embedding_model
+          AND vector_dims(m.embedding) = vector_dims(query_embedding)
+        THEN 1 - (m.embedding <=> query_embedding)
+      END AS vector_similarity,
+      (
+        SELECT COUNT(*) FILTER (WHERE word = ANY(query.words))::DOUBLE PRECISION / NULLIF(COUNT(*), 0)
+        FROM regexp_split_to_table(regexp_replace(lower(m.content), '[^[:alnum:][:space:]]', '', 'g'), '\s+') AS word
+        WHERE length(word) > 2 AND word NOT IN ('the', 'user')
+      ) AS word_overlap
+    FROM memories m, query
+    WHERE m.user_id = target_user_id
+  )
+  SELECT
+    scored.id,
+    scored.content,
+    scored.kind,
+    scored.source,
+    scored.conversation_id,
+    scored.message_id,
+    scored.created_at,
+    scored.updated_at,
+    scored.last_used_at,
+    scored.vector_similarity,
+    COALESCE(scored.vector_similarity, scored.word_overlap, 0)
+  FROM scored
+  WHERE COALESCE(scored.vector_similarity, scored.word_overlap, 0) >= min_score
+  ORDER BY 11 DESC, scored.updated_at DESC
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
 -- Function to get conversation with message count
 CREATE OR REPLACE FUNCTION get_conversation_with_stats(conversation_id TEXT)
 RETURNS TABLE (
@@ -101,11 +262,162 @@ BEGIN
     c.id,
     c.title,
     c.model,
-    c.messages,
-    COALESCE(jsonb_array_length(c.messages), 0)::INTEGER as message_count,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'parentId', m.parent_id,
+        'role', m.role,
+        'content', m.content,
+        'type', m.type,
+        'timestamp', m.timestamp,
+        'metadata', m.metadata,
+        'attachments', m.attachments,
+        'deleted', m.deleted
+      ) ORDER BY m.timestamp, m.seq)
+      FROM messages m
+      WHERE m.conversation_id = c.id
+    ), '[]'::JSONB) as messages,
+    (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id AND NOT m.deleted)::INTEGER as message_count,
     c.created_at,
     c.updated_at
   FROM conversations c
   WHERE c.id = conversation_id;
 END;
 $$ LANGUAGE plpgsql;
+
+-- Search message content across conversations (used by /api/search).
+-- Full-text matches are ranked with ts_rank_cd; when a query embedding is given, nearest embeddings are ranked too
+-- and both lists are merged with reciprocal rank fusion. Snippets wrap matched terms in chr(2) ... chr(3).
+CREATE OR REPLACE FUNCTION search_messages(
+  search_query TEXT,
+  query_embedding vector DEFAULT NULL,
+  match_count INTEGER DEFAULT 20,
+  rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id TEXT,
+  conversation_title TEXT,
+  message_id TEXT,
+  role TEXT,
+  snippet TEXT,
+  message_timestamp BIGINT,
+  text_rank REAL,
+  similarity DOUBLE PRECISION,
+  score DOUBLE PRECISION
+) AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', COALESCE(search_query, '')) AS tsq
+  ),
+  full_text AS (
+    SELECT
+      m.conversation_id,
+      m.id,
+      ts_rank_cd(to_tsvector('english', m.content), query.tsq) AS rank,
+      ROW_NUMBER() OVER (ORDER BY ts_rank_cd(to_tsvector('english', m.content), query.tsq) DESC) AS rank_position
+    FROM messages m, query
+    WHERE NOT m.deleted AND to_tsvector('english', m.content) @@ query.tsq
+    ORDER BY rank DESC
+    LIMIT match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      m.conversation_id,
+      m.id,
+      1 - (m.embedding <=> query_embedding) AS similarity,
+      ROW_NUMBER() OVER (ORDER BY m.embedding <=> query_embedding) AS rank_position
+    FROM messages m
+    WHERE query_embedding IS NOT NULL
+      AND NOT m.deleted
+      AND m.embedding IS NOT NULL
+      AND vector_dims(m.embedding) = vector_dims(query_embedding)
+    ORDER BY m.embedding <=> query_embedding
+    LIMIT match_count * 2
+  )
+  SELECT
+    m.conversation_id,
+    c.title,
+    m.id,
+    m.role,
+    ts_headline(
+      'english',
+      m.content,
+      (SELECT tsq FROM query),
+      format('StartSel=%s, StopSel=%s, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "', chr(2), chr(3))
+    ),
+    m.timestamp,
+    full_text.rank,
+    semantic.similarity,
+    (COALESCE(1.0 / (rrf_k + full_text.rank_position), 0) + COALESCE(1.0 / (rrf_k + semantic.rank_position), 0))::DOUBLE PRECISION
+  FROM full_text
+  FULL OUTER JOIN semantic
+    ON semantic.conversation_id = full_text.conversation_id AND semantic.id = full_text.id
+  JOIN messages m
+    ON m.conversation_id = COALESCE(full_text.conversation_id, semantic.conversation_id)
+    AND m.id = COALESCE(full_text.id, semantic.id)
+  JOIN conversations c ON c.id = m.conversation_id
+  ORDER BY 9 DESC
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Chunks of one conversation's documents that best match a message. Same ranking as search_messages:
+-- full-text and (when an embedding is given) vector matches merged with reciprocal rank fusion.
+CREATE OR REPLACE FUNCTION search_document_chunks(
+  target_conversation_id TEXT,
+  search_query TEXT,
+  query_embedding vector DEFAULT NULL,
+  match_count INTEGER DEFAULT 6,
+  rrf_k INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id TEXT,
+  attachment_id TEXT,
+  file_name TEXT,
+  file_url TEXT,
+  chunk_index INTEGER,
+  page INTEGER,
+  content TEXT,
+  score DOUBLE PRECISION
+) AS $$
+  WITH query AS (
+    -- Any shared word counts: a question rarely contains every term of the passage that answers it
+    SELECT COALESCE((
+      SELECT string_agg(quote_literal(replace(lexeme, E'\\', '')), ' | ')
+      FROM unnest(tsvector_to_array(to_tsvector('english', COALESCE(search_query, '')))) AS lexeme
+    ), '')::tsquery AS tsq
+  ),
+  full_text AS (
+    SELECT
+      d.id,
+      ROW_NUMBER() OVER (ORDER BY ts_rank_cd(to_tsvector('english', d.content), query.tsq) DESC) AS rank_position
+    FROM document_chunks d, query
+    WHERE d.conversation_id = target_conversation_id AND to_tsvector('english', d.content) @@ query.tsq
+    ORDER BY rank_position
+    LIMIT match_count * 2
+  ),
+  semantic AS (
+    SELECT
+      d.id,
+      ROW_NUMBER() OVER (ORDER BY d.embedding <=> query_embedding) AS rank_position
+    FROM document_chunks d
+    WHERE query_embedding IS NOT NULL
+      AND d.conversation_id = target_conversation_id
+      AND d.embedding IS NOT NULL
+      AND vector_dims(d.embedding) = vector_dims(query_embedding)
+    ORDER BY d.embedding <=> query_embedding
+    LIMIT match_count * 2
+  )
+  SELECT
+    d.id,
+    d.attachment_id,
+    d.file_name,
+    d.file_url,
+    d.chunk_index,
+    d.page,
+    d.content,
+    (COALESCE(1.0 / (rrf_k + full_text.rank_position), 0) + COALESCE(1.0 / (rrf_k + semantic.rank_position), 0))::DOUBLE PRECISION
+  FROM full_text
+  FULL OUTER JOIN semantic ON semantic.id = full_text.id
+  JOIN document_chunks d ON d.id = COALESCE(full_text.id, semantic.id)
+  ORDER BY 8 DESC
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
@@ -3,25 +3,52 @@
 
 -- Enable required extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS vector;
 
 -- Create conversations table
 CREATE TABLE IF NOT EXISTS conversations (
     id TEXT PRIMARY KEY,
     title TEXT NOT NULL,
     model TEXT NOT NULL,
-    messages JSONB DEFAULT '[]'::jsonb,
     metadata JSONB DEFAULT '{}'::jsonb,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create messages table (one row per message; parent_id links the message tree, see lib/message-tree.ts)
+-- Databases created with the old JSONB messages column: also run database/migrations/001_messages_table.sql
+CREATE TABLE IF NOT EXISTS messages (
+    id TEXT NOT NULL,
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    parent_id TEXT,
+    seq BIGINT GENERATED ALWAYS AS IDENTITY,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+    content TEXT NOT NULL DEFAULT '',
+    type TEXT NOT NULL DEFAULT 'text',
+    timestamp BIGINT NOT NULL,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    attachments JSONB DEFAULT '[]'::jsonb,
+    embedding vector,
+    embedding_model TEXT,
+    embedded_at TIMESTAMP WITH TIME ZONE,
+    deleted BOOLEAN NOT NULL DEFAULT FALSE,
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (conversation_id, id)
+);
+
 -- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_timestamp ON messages(conversation_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_messages_content ON messages USING GIN(to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS idx_messages_unembedded ON messages(seq) WHERE embedding IS NULL AND NOT deleted;
 CREATE INDEX IF NOT EXISTS idx_conversations_created_at ON conversations(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_conversations_updated_at ON conversations(updated_at DESC);
 CREATE INDEX IF NOT EXISTS idx_conversations_title ON conversations USING GIN(to_tsvector('english', title));
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 
 -- Create policies for RLS (allow all operations for now - you can restrict later)
 CREATE POLICY "Allow all operations on conversations" ON conversations
@@ -29,6 +56,11 @@ CREATE POLICY "Allow all operations on conversations" ON conversations
     USING (true)
     WITH CHECK (true);
 
+CREATE POLICY "Allow all operations on messages" ON messages
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
 -- Create a function to automatically update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -44,23 +76,37 @@ CREATE TRIGGER update_conversations_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_messages_updated_at
+    BEFORE UPDATE ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Long-term user memory (lib/memory.ts): run database/migrations/004_memories.sql
+-- Questions about uploaded documents (lib/documents.ts): run database/migrations/005_document_chunks.sql
+-- Governance audit trail (lib/governance-audit.ts): run database/migrations/006_governance_audit.sql
+-- Conversation metadata updates (lib/chat-service.ts): run database/migrations/007_conversation_metadata.sql
+-- Memory ranking (lib/memory.ts): run database/migrations/008_memory_search.sql
+
+-- Message search for /api/search: create search_messages() from database/migrations/002_message_search.sql
+
 -- Insert sample data for testing (optional)
-INSERT INTO conversations (id, title, model, messages, metadata) VALUES 
+INSERT INTO conversations (id, title, model, metadata) VALUES 
 (
     'sample-chat-1', 
     'Welcome to LayerChat', 
     'GPT-4',
-    '[
-        {
-            "id": "msg-1",
-            "role": "assistant",
-            "content": "Hello! How can I help you today?",
-            "type": "text",
-            "timestamp": 1692144000000,
-            "metadata": {},
-            "attachments": []
-        }
-    ]'::jsonb,
     '{}'::jsonb
 )
 ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO messages (id, conversation_id, parent_id, role, content, type, timestamp) VALUES
+(
+    'msg-1',
+    'sample-chat-1',
+    NULL,
+    'assistant',
+    'Hello! How can I help you today?',
+    'text',
+    1692144000000
+)
+ON CONFLICT (conversation_id, id) DO NOTHING;
@@ -1,8 +1,72 @@
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { ChatMessage } from '@/types'
+import { AgentChain, AgentChainStep, ChatMessage, MessageAttachment } from '@/types'
 import { useChatStore } from '@/lib/store'
 import toast from 'react-hot-toast'
+import { clearPendingStream, consumeResumableStream, loadPendingStream, savePendingStream } from '@/lib/resumable-stream'
+import { getActivePath } from '@/lib/message-tree'
+import { getAuthHeaders } from '@/lib/supabase-browser'
+
+// Persist a streamed user/assistant pair; returns true once both are stored
+async function saveStreamedExchange(chatId: string, user: Record<string, any>, assistant: Record<string, any>): Promise<boolean> {
+  try {
+    const userSaveResponse = await fetch(`/api/chat/${chatId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(user)
+    })
+    const assistantSaveResponse = await fetch(`/api/chat/${chatId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(assistant)
+    })
+    if (userSaveResponse.ok && assistantSaveResponse.ok) {
+      console.log('✅ Conversation saved to MongoDB successfully')
+      return true
+    }
+    console.warn('⚠️ Failed to save some messages to MongoDB')
+  } catch (error) {
+    console.error('❌ Error saving conversation to MongoDB:', error)
+  }
+  return false
+}
+
+// Store files on the server; documents are indexed for the chat so the answer can quote them. Null if the upload failed.
+async function uploadAttachments(chatId: string, messageId: string, files: File[]): Promise<MessageAttachment[] | null> {
+  const formData = new FormData()
+  files.forEach(file => formData.append('files', file))
+  formData.append('conversationId', chatId)
+  formData.append('messageId', messageId)
+  try {
+    const response = await fetch('/api/upload', { method: 'POST', body: formData })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+    data.files
+      .filter((file: any) => file.indexError)
+      .forEach((file: any) => toast.error(`Couldn't read ${file.originalName}; the answer won't use its contents`))
+    return data.files.map((file: any) => ({
+      id: file.id,
+      name: file.originalName,
+      type: file.type,
+      size: file.size,
+      url: file.path
+    }))
+  } catch (error) {
+    console.error('❌ Error uploading attachments:', error)
+    toast.error(`Upload failed: ${error instanceof Error ? error.message : 'unknown error'}`)
+    return null
+  }
+}
+
+// Pending streams already being resumed, so several hook instances don't replay the same answer twice
+const resumingStreams = new Set<string>()
+
+// Fold a live agent_step event into the chain shown while the answer streams
+function appendChainStep(chain: AgentChain | undefined, step: AgentChainStep): AgentChain {
+  const current = chain || { steps: [], depth: 0, stopReason: 'complete', durationMs: 0 }
+  return { ...current, steps: [...current.steps, step], depth: Math.max(current.depth, step.depth) }
+}
+
 // Legacy StreamingFormattingEngine removed; use new segment-based formatter
 // Lightweight inline formatting helpers (newFormatter removed)
 // Basic cleanup: collapse >2 blank lines, trim, fix simple math spacing
@@ -100,15 +164,85 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
   const rawBufferRef = useRef<string>('')
   // Track last formatted length to throttle incremental formatting
   const lastFormatLenRef = useRef<number>(0)
+  // Stop button: aborts the in-flight fetch, and the server session id lets it abort the generation too
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const streamSessionRef = useRef<string | null>(null)
+
+  // An answer that was still streaming when the page reloaded is replayed from the server's buffer, then saved.
+  // The partial text was lost with the page, so the replay starts from the first event rather than the last one seen.
+  useEffect(() => {
+    const pending = loadPendingStream()
+    if (!chatId || !pending || pending.chatId !== chatId || resumingStreams.has(pending.lastEventId)) return
+    resumingStreams.add(pending.lastEventId)
+
+    const resume = async () => {
+      const sessionId = pending.lastEventId.slice(0, pending.lastEventId.lastIndexOf(':'))
+      console.log('🔁 Resuming interrupted answer from stream session', sessionId)
+      const response = await fetch('/api/chat/stream', { headers: { 'Last-Event-ID': `${sessionId}:0` } })
+      if (!response.ok) {
+        // The session expired; nothing left to recover
+        clearPendingStream()
+        return
+      }
+
+      const userMessageId = await addMessage({ id: pending.userMessage.id, parentId: pending.userMessage.parentId, role: 'user', content: pending.userMessage.content, type: 'text', timestamp: Date.now() })
+      const assistantMessageId = await addMessage({ id: pending.assistantMessageId, parentId: userMessageId, role: 'assistant', content: '', type: 'text', timestamp: Date.now(), metadata: { streaming: true, model: pending.model } })
+      setStreamingMessageId(assistantMessageId)
+
+      let resumedContent = ''
+      let resumedMetadata: NonNullable<ChatMessage['metadata']> = {}
+      try {
+        await consumeResumableStream(response, (event) => {
+          if (event.type === 'content' && event.content) {
+            resumedContent += event.content
+            updateMessage(assistantMessageId, { content: resumedContent, metadata: { ...resumedMetadata, streaming: true, model: pending.model } })
+          } else if (event.type === 'agents') {
+            resumedMetadata = { ...resumedMetadata, ...event.metadata }
+          } else if (event.type === 'stopped') {
+            resumedMetadata = { ...resumedMetadata, stopped: true }
+          }
+        }, { resumeUrl: '/api/chat/stream' })
+
+        const metadata = { ...resumedMetadata, model: pending.model, streaming: false, completed: !resumedMetadata.stopped }
+        updateMessage(assistantMessageId, { content: resumedContent, metadata })
+        if (resumedContent.trim()) {
+          const saved = await saveStreamedExchange(chatId, {
+            id: pending.userMessage.id,
+            role: 'user',
+            content: pending.userMessage.content,
+            type: 'text',
+            parentId: pending.userMessage.parentId,
+            metadata: { model: pending.model }
+          }, {
+            id: pending.assistantMessageId,
+            role: 'assistant',
+            parentId: pending.userMessage.id,
+            content: resumedContent,
+            type: 'text',
+            metadata
+          })
+          if (saved) {
+            updateMessage(userMessageId, { pending: false })
+            updateMessage(assistantMessageId, { pending: false })
+          }
+        }
+        clearPendingStream()
+      } finally {
+        setStreamingMessageId(null)
+      }
+    }
+
+    resume().catch(error => console.error('❌ Failed to resume interrupted stream:', error))
+  }, [chatId, addMessage, updateMessage])
 
   const regenerateMessage = useCallback(async (assistantMessageId: string, mode: 'add-details' | 'more-concise') => {
     const { messages } = useChatStore.getState()
     const target = messages.find(m => m.id === assistantMessageId && m.role === 'assistant')
     if (!target) return
-    // Find previous user prompt
-    const idx = messages.findIndex(m => m.id === assistantMessageId)
-    let userPrompt = ''
-    for (let i = idx - 1; i >= 0; i--) { if (messages[i].role === 'user') { userPrompt = messages[i].content; break } }
+    // Find the user prompt this answer replied to, on the answer's own branch
+    let prompt = messages.find(m => m.id === target.parentId)
+    while (prompt && prompt.role !== 'user') { const parentId = prompt.parentId; prompt = messages.find(m => m.id === parentId) }
+    const userPrompt = prompt?.content || ''
     if (!userPrompt) return
 
     // Always regenerate via backend for add-details to ensure fresh, smooth streaming (no local toggle)
@@ -126,10 +260,14 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
     setStreamingMessageId(assistantMessageId)
     rawBufferRef.current = ''
     lastFormatLenRef.current = 0
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    streamSessionRef.current = null
 
   try {
       const response = await fetch(apiEndpoint, {
         method: 'POST', headers: { 'Content-Type': 'application/json' },
+        signal: abortController.signal,
         body: JSON.stringify({
           message: { id: `regen-user-${Date.now()}`, role: 'user', content: augmentedPrompt, type: 'text', timestamp: Date.now() },
       // Lock to original model if present to avoid provider switching surprise
@@ -156,6 +294,7 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
           try {
             const data = JSON.parse(line.slice(6))
             if (data.type === 'start') {
+              streamSessionRef.current = data.sessionId || null
               messageMetadata = { ...messageMetadata, model: data.model, outputMode: data.metadata?.outputMode || messageMetadata.outputMode }
             } else if (data.type === 'content' && data.content) {
               rawBufferRef.current += data.content
@@ -234,6 +373,8 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
         }
       }
     } catch (e) {
+      // Stopped: stopGeneration already marked the message, keep what was streamed
+      if (abortController.signal.aborted) return
       updateMessage(assistantMessageId, { content: 'Regeneration failed. Please try again.', metadata: { ...target.metadata, streaming: false, error: true } })
     } finally {
       setLoading(false)
@@ -241,7 +382,8 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
     }
   }, [apiEndpoint, currentSession?.id, selectedModel, settings.temperature, settings.maxTokens, settings.enableAutoAgents, settings.governance, updateMessage])
 
-  const sendMessage = useCallback(async (content: string, attachments?: File[]) => {
+  // `branch` forks the thread instead of continuing the open branch (see editMessage)
+  const sendMessage = useCallback(async (content: string, attachments?: File[], branch?: { parentId: string | null; editedFrom: string }) => {
     if (!content.trim()) return
 
     console.log('SendMessage called:', { 
@@ -251,12 +393,16 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
     })
 
     // Step 1: Create user message and show immediately
+    const { messages: storedMessages, activeLeafId } = useChatStore.getState()
+    const activePath = getActivePath(storedMessages, activeLeafId)
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
       role: 'user',
       content: content.trim(),
       type: 'text',
       timestamp: Date.now(),
+      parentId: branch ? branch.parentId : activePath[activePath.length - 1]?.id ?? null,
+      ...(branch ? { metadata: { editedFrom: branch.editedFrom } } : {}),
       attachments: attachments?.map(file => ({
         id: `file-${Date.now()}-${Math.random()}`,
         name: file.name,
@@ -277,12 +423,16 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
       content: '',
       type: 'text',
       timestamp: Date.now(),
+      parentId: userMessage.id,
       metadata: { streaming: true, model: selectedModel }
     }
     
     addMessage(assistantMessage)
     setStreamingMessageId(assistantMessageId)
     setLoading(true)
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    streamSessionRef.current = null
 
     try {
       let currentChatId = chatId || currentSession?.id
@@ -333,6 +483,15 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
         console.log('Using existing session ID:', currentChatId)
       }
 
+      // Files go up before the question so their text is indexed by the time it is answered
+      if (attachments?.length && currentChatId) {
+        const uploaded = await uploadAttachments(currentChatId, userMessage.id, attachments)
+        if (uploaded) {
+          userMessage.attachments = uploaded
+          updateMessage(userMessage.id, { attachments: uploaded })
+        }
+      }
+
       // Step 5: Start streaming immediately (priority)
       if (enableStreaming && settings.streamResponses) {
         // Update the assistant message directly with streaming content
@@ -347,16 +506,26 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
 
         const streamResponse = await fetch('/api/chat/stream', {
           method: 'POST',
+          // The signed-in user's token: policies and memories are per user
           headers: {
             'Content-Type': 'application/json',
+            ...await getAuthHeaders(),
           },
+          signal: abortController.signal,
           body: JSON.stringify({
             message: {
+              // Same ids as the save below, so a stopped answer the server already saved is not stored twice
+              id: userMessage.id,
               content: content,
               role: 'user',
-              type: 'text'
+              type: 'text',
+              parentId: userMessage.parentId,
+              // Uploaded images are passed to vision models with the question
+              attachments: userMessage.attachments
             },
+            assistantMessageId,
             model: selectedModel,
+            chatId: currentChatId,
             settings: {
               temperature: settings.temperature,
               maxTokens: settings.maxTokens,
@@ -367,148 +536,137 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
         })
 
         if (!streamResponse.ok) {
-          throw new Error(`HTTP error! status: ${streamResponse.status}`)
-        }
-
-        const reader = streamResponse.body?.getReader()
-        const decoder = new TextDecoder()
-
-        if (!reader) {
-          throw new Error('No reader available')
+          // 400s carry a message meant for the user, e.g. an image sent to a text-only model
+          const detail = await streamResponse.json().catch(() => null)
+          if (streamResponse.status === 400 && detail?.error) toast.error(detail.error)
+          throw new Error(detail?.error || `HTTP error! status: ${streamResponse.status}`)
         }
+        streamSessionRef.current = streamResponse.headers.get('X-Stream-Session')
 
         let accumulatedContent = ''
-
-        try {
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-
-            const chunk = decoder.decode(value, { stream: true })
-            const lines = chunk.split('\n')
-
-            for (const line of lines) {
-              if (!line.startsWith('data: ')) continue
-              const data = line.slice(6)
-              if (data === '[DONE]') {
-                console.log('🏁 Received [DONE] signal')
-                break
-              }
-              try {
-                const parsed = JSON.parse(data)
-                console.log('📦 Received streaming data:', parsed.type, parsed)
-                switch (parsed.type) {
-                  case 'search_phase': {
-                    // New: capture search status for UI indicator
-                    console.log('🔍 HOOK(sendMessage): search_phase event', parsed)
-                    setSearchPhase({ phase: parsed.phase, searchQuery: parsed.searchQuery })
-                    setSearchStartTime(Date.now())
-                    // Don't clear search phase here - let it persist until content starts streaming
-                    break
-                  }
-                  case 'content': {
-                    if (!parsed.content) break
-                    accumulatedContent += parsed.content
-                    
-                    // Clear search phase when we have substantial content AND minimum time has passed
-                    const minSearchDuration = 3000 // 3 seconds minimum
-                    const hasEnoughContent = accumulatedContent.trim().length > 200
-                    const hasEnoughTime = searchStartTime ? (Date.now() - searchStartTime) > minSearchDuration : true
-                    
-                    if (searchPhase && hasEnoughContent && hasEnoughTime) {
-                      console.log('🔍 HOOK(sendMessage): Clearing search phase as content streaming starts')
-                      setSearchPhase(null)
-                      setSearchStartTime(null)
-                    }
-                    updateMessage(assistantMessageId, {
-                      ...assistantMessage,
-                      content: accumulatedContent,
-                      metadata: { streaming: true, model: selectedModel }
-                    })
-                    break
-                  }
-                  case 'done':
-                    // Exit outer loops; let post-loop finalize
-                    break
-                  case 'error':
-                    throw new Error(parsed.error || 'Stream error')
-                  default:
-                    // Ignore other event types silently
-                    break
-                }
-              } catch (e) {
-                // Ignore parse errors for malformed SSE lines
+        // Agent chain reported by the orchestrator before the answer streams
+        let agentMetadata: NonNullable<ChatMessage['metadata']> = {}
+
+        // Dropped connections resume from the last event id; a page reload resumes from the pending stream record
+        const { finished } = await consumeResumableStream(streamResponse, (parsed) => {
+          console.log('📦 Received streaming data:', parsed.type, parsed)
+          switch (parsed.type) {
+            case 'search_phase': {
+              // New: capture search status for UI indicator
+              console.log('🔍 HOOK(sendMessage): search_phase event', parsed)
+              setSearchPhase({ phase: parsed.phase, searchQuery: parsed.searchQuery })
+              setSearchStartTime(Date.now())
+              // Don't clear search phase here - let it persist until content starts streaming
+              break
+            }
+            case 'agent_step': {
+              agentMetadata = { ...agentMetadata, chain: appendChainStep(agentMetadata.chain, parsed.step) }
+              updateMessage(assistantMessageId, { metadata: { ...agentMetadata, streaming: true, model: selectedModel } })
+              break
+            }
+            case 'agents': {
+              agentMetadata = { ...agentMetadata, ...parsed.metadata }
+              break
+            }
+            case 'content': {
+              if (!parsed.content) break
+              accumulatedContent += parsed.content
+              
+              // Clear search phase when we have substantial content AND minimum time has passed
+              const minSearchDuration = 3000 // 3 seconds minimum
+              const hasEnoughContent = accumulatedContent.trim().length > 200
+              const hasEnoughTime = searchStartTime ? (Date.now() - searchStartTime) > minSearchDuration : true
+              
+              if (searchPhase && hasEnoughContent && hasEnoughTime) {
+                console.log('🔍 HOOK(sendMessage): Clearing search phase as content streaming starts')
+                setSearchPhase(null)
+                setSearchStartTime(null)
               }
+              updateMessage(assistantMessageId, {
+                ...assistantMessage,
+                content: accumulatedContent,
+                metadata: { ...agentMetadata, streaming: true, model: selectedModel }
+              })
+              break
             }
+            case 'error':
+              console.error('❌ Stream error:', parsed.error)
+              break
+            default:
+              // 'start', 'done' and other event types need no handling here
+              break
           }
-        } finally {
-          reader.releaseLock()
+        }, {
+          resumeUrl: '/api/chat/stream',
+          signal: abortController.signal,
+          onEventId: (lastEventId) => savePendingStream({
+            lastEventId,
+            chatId: currentChatId,
+            model: selectedModel,
+            userMessage: { id: userMessage.id, content: content.trim(), parentId: userMessage.parentId },
+            assistantMessageId
+          })
+        })
+        // A stopped answer is kept and saved as it stood when the user pressed stop
+        const stopped = abortController.signal.aborted
+        if (stopped) {
+          console.log(`🛑 Generation stopped, keeping ${accumulatedContent.length} characters of partial answer`)
+        } else if (!finished) {
+          console.warn('⚠️ Stream ended before the done event')
         }
+        const finalMetadata = { ...agentMetadata, model: selectedModel, streaming: false, ...(stopped ? { stopped: true } : { completed: true }) }
 
         // Mark streaming as complete
         updateMessage(assistantMessageId, {
           ...assistantMessage,
           content: accumulatedContent,
-          metadata: { model: selectedModel, streaming: false, completed: true }
+          metadata: finalMetadata
         })
 
         // Save conversation to MongoDB after successful streaming
         if (currentChatId && accumulatedContent.trim()) {
           console.log('💾 Saving conversation to MongoDB after streaming completion')
-          try {
-            // Save user message
-            const userSaveResponse = await fetch(`/api/chat/${currentChatId}/messages`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                id: userMessage.id,
-                role: 'user',
-                content: content.trim(),
-                type: (attachments && attachments.length > 0) ? 'file' : 'text',
-                metadata: { model: selectedModel },
-                attachments: userMessage.attachments || []
-              })
-            })
-
-            // Save assistant message
-            const assistantSaveResponse = await fetch(`/api/chat/${currentChatId}/messages`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                id: assistantMessageId,
-                role: 'assistant',
-                content: accumulatedContent,
-                type: 'text',
-                metadata: { model: selectedModel, streaming: false, completed: true }
-              })
-            })
-
-            if (userSaveResponse.ok && assistantSaveResponse.ok) {
-              console.log('✅ Conversation saved to MongoDB successfully')
-              // Mark both messages as persisted
-              updateMessage(userMessage.id, { pending: false })
-              updateMessage(assistantMessageId, { pending: false })
-            } else {
-              console.warn('⚠️ Failed to save some messages to MongoDB')
-            }
-          } catch (error) {
-            console.error('❌ Error saving conversation to MongoDB:', error)
+          const saved = await saveStreamedExchange(currentChatId, {
+            id: userMessage.id,
+            role: 'user',
+            content: content.trim(),
+            type: (attachments && attachments.length > 0) ? 'file' : 'text',
+            parentId: userMessage.parentId,
+            metadata: { ...userMessage.metadata, model: selectedModel },
+            attachments: userMessage.attachments || []
+          }, {
+            id: assistantMessageId,
+            role: 'assistant',
+            parentId: userMessage.id,
+            content: accumulatedContent,
+            type: 'text',
+            metadata: finalMetadata
+          })
+          if (saved) {
+            // Mark both messages as persisted
+            updateMessage(userMessage.id, { pending: false })
+            updateMessage(assistantMessageId, { pending: false })
           }
         }
+        clearPendingStream()
       } else {
         // Non-streaming response
         const response = await fetch('/api/chat', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...await getAuthHeaders(),
           },
           body: JSON.stringify({
             message: {
               content: content,
               role: 'user',
-              type: 'text'
+              type: 'text',
+              parentId: userMessage.parentId,
+              attachments: userMessage.attachments
             },
             model: selectedModel,
+            chatId: currentChatId,
             settings: {},
           }),
         })
@@ -526,6 +684,11 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
       }
       
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Stopped before the stream started; stopGeneration already updated the placeholder
+        console.log('🛑 Chat request stopped before streaming began')
+        return
+      }
       console.error('Chat error:', error)
       
       // Clear search phase on error
@@ -564,6 +727,7 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...await getAuthHeaders(),
       },
       body: JSON.stringify({
         message: userMessage,
@@ -624,6 +788,14 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
                 setSearchStartTime(Date.now())
                 // Don't clear search phase here - let it persist until content starts streaming
                 break
+              case 'agent_step': {
+                messageMetadata = { ...messageMetadata, chain: appendChainStep(messageMetadata?.chain, data.step) }
+                updateMessage(assistantMessageId, { metadata: { ...messageMetadata, streaming: true } })
+                break
+              }
+              case 'agents':
+                messageMetadata = { ...messageMetadata, ...data.metadata }
+                break
               case 'content':
                 if (!data.content) break
                 rawBufferRef.current += data.content
@@ -766,6 +938,7 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...await getAuthHeaders(),
       },
       body: JSON.stringify({
         message: userMessage,
@@ -788,8 +961,26 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
     addMessage(data.response)
   }
 
+  // Editing a past user message forks the thread: the edit is sent as a sibling of the original,
+  // whose replies stay reachable through the branch controls
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const original = useChatStore.getState().messages.find(m => m.id === messageId && m.role === 'user')
+    if (!original || !content.trim()) return
+    await sendMessage(content, undefined, { parentId: original.parentId ?? null, editedFrom: original.id })
+  }, [sendMessage])
+
   const stopGeneration = useCallback(() => {
     if (streamingMessageId) {
+      // Aborting the fetch only disconnects; the DELETE stops the provider request on the server
+      abortControllerRef.current?.abort()
+      const sessionId = streamSessionRef.current
+      if (sessionId) {
+        fetch(`/api/chat/stream?session=${encodeURIComponent(sessionId)}`, { method: 'DELETE' })
+          .catch(error => console.error('❌ Failed to stop server-side generation:', error))
+      }
+      streamSessionRef.current = null
+      clearPendingStream()
+      console.log('🛑 Generation stopped by user', sessionId || '')
   updateMessage(streamingMessageId, {
         metadata: { 
           ...useChatStore.getState().messages.find(m => m.id === streamingMessageId)?.metadata,
@@ -809,6 +1000,7 @@ export function useStreamingChat(options: UseStreamingChatOptions = {}) {
   return {
     sendMessage,
   regenerateMessage,
+    editMessage,
     stopGeneration,
     isStreaming: streamingMessageId !== null,
     streamingMessageId,
@@ -0,0 +1,38 @@
+// Who a request comes from. Chat requests identify the user with their Supabase access token (`Authorization: Bearer <jwt>`),
+// checked with Supabase on every request; ids in headers or bodies are never trusted. The governance admin endpoints take
+// GOVERNANCE_ADMIN_TOKEN instead, since they expose every user's decisions.
+import { createHash, timingSafeEqual } from 'crypto'
+import config from '@/lib/config'
+import { supabase } from '@/lib/supabase'
+
+function bearerToken(request: Request): string | null {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : null
+}
+
+// The signed-in user's id; undefined without a token (the single local user), null when Supabase rejects the token
+export async function getRequestUserId(request: Request): Promise<string | null | undefined> {
+  const token = bearerToken(request)
+  if (!token) return undefined
+  try {
+    const { data, error } = await supabase.auth.getUser(token)
+    return error || !data.user ? null : data.user.id
+  } catch (error) {
+    console.error('Error verifying access token:', error)
+    return null
+  }
+}
+
+// Why a request may not use the governance admin endpoints, or null if it may. They stay closed until a token is configured.
+export function checkGovernanceAdmin(request: Request): { status: number; error: string } | null {
+  if (!config.governance.adminToken) {
+    return { status: 403, error: 'Governance admin endpoints are disabled; set GOVERNANCE_ADMIN_TOKEN to enable them' }
+  }
+  const token = bearerToken(request)
+  // Hashed first so the comparison takes the same time whatever the token's length
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  if (!token || !timingSafeEqual(digest(token), digest(config.governance.adminToken))) {
+    return { status: 401, error: 'Governance admin token required' }
+  }
+  return null
+}
@@ -2,6 +2,11 @@ import { createClient } from '@supabase/supabase-js'
 import { Redis } from '@upstash/redis'
 import { nanoid } from 'nanoid'
 import { TitleGenerator } from './title-generator'
+import { getActivePath, linkMessages } from './message-tree'
+import { SupabaseChatStorage } from './supabase'
+import { EmbeddingJob } from './embedding-job'
+import { deleteStoredFiles } from './storage'
+import type { ConversationContext, ConversationTurn } from '@/types'
 
 // Environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
@@ -17,6 +22,9 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey, {
   }
 })
 
+// Conversation columns; messages are rows in their own table
+const CONVERSATION_COLUMNS = 'id, title, model, metadata, created_at, updated_at'
+
 // Redis client
 const redis = new Redis({
   url: redisUrl,
@@ -29,8 +37,10 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
   type: 'text' | 'file' | 'image'
-  timestamp: string
+  timestamp: string | number // ISO string when created here; rows from the messages table carry epoch millis
+  parentId?: string | null // Message tree link, see lib/message-tree
   metadata?: Record<string, any>
+  deleted?: boolean
 }
 
 export interface ChatConversation {
@@ -66,7 +76,6 @@ export class ChatService {
       id: conversationId,
       title: smartTitle,
       model,
-      messages: initialMessages,
       metadata: {}
     }
 
@@ -75,12 +84,14 @@ export class ChatService {
       const { data, error } = await supabase
         .from('conversations')
         .insert([conversation])
-        .select()
+        .select(CONVERSATION_COLUMNS)
         .single()
 
       if (error) throw error
 
-      const savedConversation = data as ChatConversation
+      const messages = await SupabaseChatStorage.insertMessages(conversationId, initialMessages)
+      const savedConversation: ChatConversation = { ...data, messages }
+      if (messages.length) EmbeddingJob.enqueue(conversationId)
 
       // Cache in Redis (5 minute TTL)
       await redis.setex(`conversation:${conversationId}`, 300, savedConversation)
@@ -111,13 +122,16 @@ export class ChatService {
       console.log('🗄️ Loading conversation from Supabase')
       const { data, error } = await supabase
         .from('conversations')
-        .select('*')
+        .select(CONVERSATION_COLUMNS)
         .eq('id', conversationId)
         .single()
 
       if (error || !data) return null
 
-      const conversation = data as ChatConversation
+      const conversation: ChatConversation = {
+        ...data,
+        messages: await SupabaseChatStorage.getMessages(conversationId)
+      }
       
       // Cache for next time
       await redis.setex(`conversation:${conversationId}`, 300, conversation)
@@ -129,6 +143,34 @@ export class ChatService {
     }
   }
 
+  // Get prior turns plus the rolling summary as model-ready context (skips deleted, failed and excluded messages).
+  // Only the branch ending at parentId counts; without one, the branch the user last had open.
+  static async getConversationContext(conversationId: string, excludeMessageId?: string, parentId?: string | null): Promise<ConversationContext> {
+    const conversation = await this.getConversation(conversationId)
+    if (!conversation) return { conversationId, turns: [] }
+
+    // parentId null means the message starts a new root branch, so there is no history
+    const branch = parentId === null
+      ? []
+      : getActivePath(linkMessages(conversation.messages || []), parentId ?? conversation.metadata?.activeLeafId)
+    const turns = branch
+      .filter(m => m.id !== excludeMessageId)
+      .filter(m => m.role === 'user' || m.role === 'assistant')
+      .filter(m => !m.metadata?.deleted && !(m as any).deleted && !m.metadata?.error)
+      .map(m => ({ id: m.id, role: m.role as ConversationTurn['role'], content: m.content }))
+
+    // A summary folded on another branch describes turns this one doesn't have
+    const summary = conversation.metadata?.contextSummary
+    const summaryOnBranch = !summary?.coveredThroughId || branch.some(m => m.id === summary.coveredThroughId)
+
+    return {
+      conversationId,
+      turns,
+      summary: summaryOnBranch ? summary : undefined,
+      memoryEnabled: conversation.metadata?.memoryEnabled !== false
+    }
+  }
+
   // Get conversation list
   static async getConversationList(): Promise<ChatConversation[]> {
     try {
@@ -176,8 +218,10 @@ export class ChatService {
       const conversation = await this.getConversation(conversationId)
       if (!conversation) return null
 
-      // Append new messages
-      const updatedMessages = [...conversation.messages, ...messages]
+      // Insert the new rows; stored messages are not read back or rewritten
+      const savedMessages = await SupabaseChatStorage.insertMessages(conversationId, messages)
+      const updatedMessages = [...conversation.messages, ...savedMessages]
+      EmbeddingJob.enqueue(conversationId)
 
       // Generate smart title after first user-assistant exchange
       let updatedTitle = conversation.title
@@ -192,24 +236,27 @@ export class ChatService {
         }
       }
 
+      // New messages continue the branch they were sent on, so a stored branch choice no longer applies
+      const { activeLeafId, ...metadata } = conversation.metadata || {}
+
       // Update in Supabase
       const { data, error } = await supabase
         .from('conversations')
         .update({ 
-          messages: updatedMessages,
           title: updatedTitle,
+          ...(activeLeafId ? { metadata } : {}),
           updated_at: new Date().toISOString()
         })
         .eq('id', conversationId)
-        .select()
+        .select(CONVERSATION_COLUMNS)
         .single()
 
       if (error) throw error
 
-      const updatedConversation = data as ChatConversation
+      const updatedConversation: ChatConversation = { ...data, messages: updatedMessages }
 
-      // Update cache
-      await redis.setex(`conversation:${conversationId}`, 300, updatedConversation)
+      // Invalidate rather than refresh the cache: concurrent writers may have added rows this copy lacks
+      await redis.del(`conversation:${conversationId}`)
       
       // Invalidate list cache
       await redis.del('conversations:list')
@@ -254,6 +301,9 @@ export class ChatService {
   // Delete conversation
   static async deleteConversation(conversationId: string): Promise<boolean> {
     try {
+      // Uploaded files are looked up first; the rows pointing at them go with the conversation
+      const files = await SupabaseChatStorage.getFileUrls(conversationId)
+
       // Delete from Supabase
       const { error } = await supabase
         .from('conversations')
@@ -265,6 +315,8 @@ export class ChatService {
       // Remove from cache
       await redis.del(`conversation:${conversationId}`)
       await redis.del('conversations:list')
+
+      await deleteStoredFiles(files)
       
       return true
     } catch (error) {
@@ -301,6 +353,27 @@ export class ChatService {
     }
   }
 
+  // Merge keys into conversation metadata in one statement (merge_conversation_metadata, migration 007),
+  // so concurrent writers never clobber each other's keys
+  static async updateConversationMetadata(conversationId: string, patch: Record<string, any>): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('merge_conversation_metadata', {
+        target_conversation_id: conversationId,
+        patch
+      })
+
+      if (error) throw error
+      if (!data) return false
+
+      await redis.del(`conversation:${conversationId}`)
+      await redis.del('conversations:list')
+      return true
+    } catch (error) {
+      console.error('Failed to update conversation metadata:', error)
+      return false
+    }
+  }
+
   // Temporary message storage for streaming
   static async storeTempMessage(messageId: string, message: ChatMessage): Promise<void> {
     await redis.setex(`temp:message:${messageId}`, 300, message)
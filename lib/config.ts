@@ -1,4 +1,8 @@
 // Environment configuration and validation
+
+// Ollama's OpenAI-compatible API; lib/env-config.ts uses the same default
+export const DEFAULT_LOCAL_LLM_ENDPOINT = 'http://localhost:11434/v1'
+
 export const config = {
   // AI Provider API Keys
   openai: {
@@ -15,7 +19,8 @@ export const config = {
   
   anthropic: {
     apiKey: process.env.ANTHROPIC_API_KEY || '',
-    baseURL: 'https://api.anthropic.com',
+    baseURL: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+    version: process.env.ANTHROPIC_VERSION || '2023-06-01',
     models: {
       'claude-3-opus': 'claude-3-opus-20240229',
       'claude-3-sonnet': 'claude-3-sonnet-20240229',
@@ -44,6 +49,18 @@ export const config = {
     }
   },
   
+  groq: {
+    apiKey: process.env.GROQ_API_KEY || '',
+    baseURL: process.env.GROQ_ENDPOINT || 'https://api.groq.com/openai/v1',
+  },
+  
+  // Self-hosted OpenAI-compatible server; mirrors the `local` section of lib/env-config.ts
+  local: {
+    apiKey: process.env.LOCAL_LLM_API_KEY || '',
+    baseURL: process.env.LOCAL_LLM_ENDPOINT || DEFAULT_LOCAL_LLM_ENDPOINT,
+    models: (process.env.LOCAL_LLM_MODELS || '').split(',').map(model => model.trim()).filter(Boolean),
+  },
+  
   // Database
   supabase: {
     url: process.env.SUPABASE_URL || '',
@@ -66,13 +83,81 @@ export const config = {
     baseURL: 'https://api.openweathermap.org/data/2.5',
   },
   
+  // Message embeddings (lib/embeddings.ts): 'openai', 'mistral', 'local' (deterministic, offline) or 'none'
+  embeddings: {
+    provider: process.env.EMBEDDING_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local'),
+    model: process.env.EMBEDDING_MODEL || '',
+    dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '0'), // 0 = the model's default size
+    batchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '32'),
+  },
+  
   // File handling
   files: {
     maxSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB default
     allowedTypes: (process.env.ALLOWED_FILE_TYPES || '').split(',').filter(Boolean),
     uploadDir: './uploads',
   },
+
+  // Where uploads are kept (lib/storage.ts): 'local' (public/uploads), 's3' (AWS S3 or an S3-compatible server such as MinIO) or 'cloudinary'
+  storage: {
+    provider: process.env.STORAGE_PROVIDER || 'local',
+    signedUrlTtl: parseInt(process.env.STORAGE_SIGNED_URL_TTL || '3600'), // Seconds a signed download link stays valid
+    s3: {
+      bucket: process.env.AWS_S3_BUCKET || '',
+      region: process.env.AWS_REGION || 'us-east-1',
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+      endpoint: process.env.S3_ENDPOINT || '', // e.g. http://localhost:9000 for MinIO; empty for AWS
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : !!process.env.S3_ENDPOINT,
+    },
+    cloudinary: {
+      cloudName: process.env.CLOUDINARY_CLOUD_NAME || '',
+      apiKey: process.env.CLOUDINARY_API_KEY || '',
+      apiSecret: process.env.CLOUDINARY_API_SECRET || '',
+      folder: process.env.CLOUDINARY_FOLDER || 'layerchat',
+    },
+  },
+
+  // Uploaded documents are split into chunks of about this many characters and retrieved into the prompt (lib/documents.ts)
+  documents: {
+    chunkSize: parseInt(process.env.DOCUMENT_CHUNK_SIZE || '1500'),
+    chunkOverlap: parseInt(process.env.DOCUMENT_CHUNK_OVERLAP || '200'),
+    matchCount: parseInt(process.env.DOCUMENT_MATCH_COUNT || '6'), // Chunks added to the prompt per message
+  },
   
+  // Governance policies (lib/governance-policy.ts) and the decision audit trail (lib/governance-audit.ts)
+  governance: {
+    policyFile: process.env.GOVERNANCE_POLICY_FILE || '', // JSON or YAML; no file means built-in rules only
+    reloadIntervalMs: parseInt(process.env.GOVERNANCE_RELOAD_INTERVAL_MS || '2000'), // How often the file is checked for changes
+    auditLog: process.env.GOVERNANCE_AUDIT_LOG || 'memory', // 'memory' (recent decisions only), 'supabase' (table from migration 006) or 'off'
+    auditMemorySize: parseInt(process.env.GOVERNANCE_AUDIT_MEMORY_SIZE || '500'),
+    adminToken: process.env.GOVERNANCE_ADMIN_TOKEN || '', // Bearer token for /api/governance/*; unset keeps them closed
+    // Personal data is replaced with placeholders before prompts reach a model or agent and put back in the answer,
+    // and masked in text sent to a remote embedding provider (lib/embeddings.ts)
+    redactPii: process.env.GOVERNANCE_REDACT_PII !== 'false',
+    redactKinds: (process.env.GOVERNANCE_REDACT_KINDS || 'email,phone,credit_card,api_key,national_id').split(',').map(kind => kind.trim()),
+  },
+
+  // Code runner agent (lib/sandbox.ts). Off unless CODE_RUNNER_ENABLED=true: 'docker' starts a throwaway container per run,
+  // 'process' runs a local interpreter under bubblewrap with an empty root, no network and rlimits
+  codeRunner: {
+    enabled: process.env.CODE_RUNNER_ENABLED === 'true',
+    backend: process.env.CODE_RUNNER_BACKEND || 'docker',
+    timeoutMs: parseInt(process.env.CODE_RUNNER_TIMEOUT_MS || '8000'), // Wall clock; keep under the orchestrator's agentTimeout
+    cpuSeconds: parseInt(process.env.CODE_RUNNER_CPU_SECONDS || '5'),
+    memoryMb: parseInt(process.env.CODE_RUNNER_MEMORY_MB || '256'),
+    maxOutputBytes: parseInt(process.env.CODE_RUNNER_MAX_OUTPUT_BYTES || '65536'), // Per stream
+    maxFiles: parseInt(process.env.CODE_RUNNER_MAX_FILES || '10'),
+    maxFileBytes: parseInt(process.env.CODE_RUNNER_MAX_FILE_BYTES || '5242880'),
+    nodeCommand: process.env.CODE_RUNNER_NODE || 'node',
+    pythonCommand: process.env.CODE_RUNNER_PYTHON || 'python3',
+    bwrapCommand: process.env.CODE_RUNNER_BWRAP || 'bwrap',
+    dockerImages: {
+      javascript: process.env.CODE_RUNNER_NODE_IMAGE || 'node:20-alpine',
+      python: process.env.CODE_RUNNER_PYTHON_IMAGE || 'python:3.12-alpine',
+    } as Record<'javascript' | 'python', string>,
+  },
+
   // App settings
   app: {
     maxTokens: 4000,
@@ -90,6 +175,7 @@ export function validateConfig() {
   if (!config.anthropic.apiKey) warnings.push('ANTHROPIC_API_KEY not set')
   if (!config.google.apiKey) warnings.push('GOOGLE_AI_API_KEY not set')
   if (!config.mistral.apiKey) warnings.push('MISTRAL_API_KEY not set (using default)')
+  if (!config.groq.apiKey) warnings.push('GROQ_API_KEY not set')
   if (!config.supabase.url) warnings.push('SUPABASE_URL not set')
   if (!config.supabase.anonKey) warnings.push('SUPABASE_ANON_KEY not set')
   
@@ -0,0 +1,125 @@
+// Context manager: keeps the latest turns verbatim and folds older ones into a rolling summary stored on the conversation.
+import { AIModel, ContextSummary, ConversationContext, ConversationTurn } from '@/types'
+import { ChatService } from '@/lib/chat-service'
+import { countTokens, countTurnTokens, getContextWindow, normalizeTurns, splitHistoryByBudget } from '@/lib/context-window'
+
+// Upper bound on the rolling summary, in tokens
+const SUMMARY_MAX_TOKENS = 800
+// When folding, shrink the verbatim window to this share of the budget so the next turns don't fold again right away
+const FOLD_TARGET_RATIO = 0.6
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the NEW TURNS into the EXISTING SUMMARY and return the updated summary.
+- Preserve names, numbers, decisions, user preferences, constraints and open questions the user may refer back to.
+- Keep items in the order they came up; drop small talk.
+- Write compact bullet points, no more than ${Math.floor(SUMMARY_MAX_TOKENS * 0.7)} words in total.
+Output only the summary.`
+
+export interface ContextWindow {
+  history: ConversationTurn[]
+  summary?: ContextSummary
+}
+
+export class ContextManager {
+  // Fit a conversation into the model's window; turns that overflow are folded into the summary and persisted.
+  // `restore` undoes PII redaction before the summary is saved, since the placeholders only hold for the current request;
+  // `signal` cancels the summarizing request along with the rest of the turn.
+  static async build(model: AIModel, context: ConversationContext, reservedTokens: number, options: { restore?: (text: string) => string; signal?: AbortSignal } = {}): Promise<ContextWindow> {
+    const provider = model.provider
+    const turns = this.getUnsummarizedTurns(context)
+    const summary = context.summary
+
+    const budget = getContextWindow(model.name) - reservedTokens - (summary ? countTokens(summary.text, provider) : 0)
+    if (!turns.length || splitHistoryByBudget(turns, { budget, provider }).overflow.length === 0) {
+      return { history: turns, summary }
+    }
+
+    // Leave room for the summary to grow, then fold everything outside the reduced verbatim window
+    const foldBudget = Math.floor((budget - SUMMARY_MAX_TOKENS) * FOLD_TARGET_RATIO)
+    const { overflow, recent } = splitHistoryByBudget(turns, { budget: Math.max(foldBudget, 0), provider })
+    const updatedSummary = await this.foldIntoSummary(model, summary, overflow, options.signal)
+
+    if (context.conversationId) {
+      const stored = options.restore ? { ...updatedSummary, text: options.restore(updatedSummary.text) } : updatedSummary
+      const saved = await ChatService.updateConversationMetadata(context.conversationId, { contextSummary: stored })
+      if (saved) {
+        console.log(`🧠 Folded ${overflow.length} turns into summary for ${context.conversationId} (${updatedSummary.turnCount} total)`)
+      }
+    }
+
+    return { history: recent, summary: updatedSummary }
+  }
+
+  // Normalized turns after the last one the stored summary already covers. `turnCount` counts normalized turns,
+  // so the fallback slice has to run on the normalized list too.
+  private static getUnsummarizedTurns(context: ConversationContext): ConversationTurn[] {
+    const turns = normalizeTurns(context.turns)
+    const summary = context.summary
+    if (!summary) return turns
+    if (summary.coveredThroughId) {
+      const index = turns.findIndex(turn => turn.id === summary.coveredThroughId)
+      if (index >= 0) return turns.slice(index + 1)
+    }
+    return turns.slice(summary.turnCount)
+  }
+
+  // Merge overflowing turns into the summary in batches the summarizing model can read in one request
+  private static async foldIntoSummary(model: AIModel, summary: ContextSummary | undefined, turns: ConversationTurn[], signal?: AbortSignal): Promise<ContextSummary> {
+    const batchBudget = Math.floor(getContextWindow(model.name) / 2) - SUMMARY_MAX_TOKENS
+    let text = summary?.text || ''
+    let batch: ConversationTurn[] = []
+
+    const flush = async () => {
+      if (!batch.length) return
+      text = await this.summarize(model, text, batch, signal)
+      batch = []
+    }
+
+    for (const turn of turns) {
+      if (batch.length && countTurnTokens([...batch, turn], model.provider) > batchBudget) {
+        await flush()
+      }
+      batch.push(turn)
+    }
+    await flush()
+
+    return {
+      text,
+      coveredThroughId: turns[turns.length - 1]?.id || summary?.coveredThroughId,
+      turnCount: (summary?.turnCount || 0) + turns.length,
+      updatedAt: new Date().toISOString()
+    }
+  }
+
+  private static async summarize(model: AIModel, existing: string, turns: ConversationTurn[], signal?: AbortSignal): Promise<string> {
+    const transcript = turns
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+      .join('\n\n')
+
+    try {
+      const response = await model.generate({
+        system: SUMMARY_SYSTEM_PROMPT,
+        user: `EXISTING SUMMARY:\n${existing || '(none yet)'}\n\nNEW TURNS:\n${transcript}`
+      }, { temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS, signal })
+      const text = typeof response.content === 'string' ? response.content.trim() : ''
+      if (text) return text
+    } catch (error) {
+      // A stopped request ends here rather than saving a fallback summary
+      if (signal?.aborted) throw error
+      console.error('Failed to summarize conversation, using extractive fallback:', error)
+    }
+
+    return this.extractiveSummary(existing, turns)
+  }
+
+  // Local fallback: keep the opening sentence of each turn, trimmed to the summary budget from the oldest end
+  private static extractiveSummary(existing: string, turns: ConversationTurn[]): string {
+    const lines = turns.map(turn => {
+      const firstSentence = turn.content.replace(/\s+/g, ' ').match(/^.{1,200}?[.!?](\s|$)/)?.[0] || turn.content.slice(0, 200)
+      return `- ${turn.role === 'user' ? 'User' : 'Assistant'}: ${firstSentence.trim()}`
+    })
+    const combined = [existing, ...lines].filter(Boolean).join('\n')
+    const maxChars = SUMMARY_MAX_TOKENS * 4
+    return combined.length > maxChars ? combined.slice(combined.length - maxChars) : combined
+  }
+}
@@ -0,0 +1,95 @@
+// Context window utilities: count tokens per provider and trim conversation history to fit a model's budget.
+import { ConversationTurn } from '@/types'
+
+// Approximate context windows (in tokens) keyed by model id fragments, most specific first
+const CONTEXT_WINDOWS: Array<{ pattern: RegExp; tokens: number }> = [
+  { pattern: /gpt-4\.1/i, tokens: 1000000 },
+  { pattern: /gpt-5|o1|o3|o4/i, tokens: 200000 },
+  { pattern: /gpt-4o|chatgpt-4o|gpt-4-turbo/i, tokens: 128000 },
+  { pattern: /gpt-4-32k/i, tokens: 32768 },
+  { pattern: /^gpt-4$|gpt-4-0/i, tokens: 8192 },
+  { pattern: /gpt-3\.5/i, tokens: 16385 },
+  { pattern: /claude/i, tokens: 200000 },
+  { pattern: /gemini-(1\.5|2)/i, tokens: 1000000 },
+  { pattern: /gemini/i, tokens: 32768 },
+  { pattern: /codestral/i, tokens: 256000 },
+  { pattern: /mistral|mixtral|magistral|devstral|pixtral|ministral/i, tokens: 128000 },
+]
+
+const DEFAULT_CONTEXT_WINDOW = 8192
+
+// Legacy display names map onto the model ids they call
+const LEGACY_MODEL_IDS: Record<string, string> = {
+  'GPT-4': 'gpt-4',
+  'Claude-3-Sonnet': 'claude-3-sonnet-20240229',
+  'Gemini-Pro': 'gemini-2.5-flash',
+}
+
+// Tokenizer profiles: average characters per token for Latin text, and fixed overhead added per message
+const TOKENIZER_PROFILES: Record<string, { charsPerToken: number; messageOverhead: number }> = {
+  openai: { charsPerToken: 4, messageOverhead: 4 },
+  anthropic: { charsPerToken: 3.5, messageOverhead: 5 },
+  google: { charsPerToken: 4, messageOverhead: 3 },
+  mistral: { charsPerToken: 3.6, messageOverhead: 4 },
+}
+
+// CJK and other wide scripts average roughly one token per character for every provider
+const WIDE_CHAR_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g
+
+export function getContextWindow(modelName: string): number {
+  const modelId = LEGACY_MODEL_IDS[modelName] || modelName
+  const match = CONTEXT_WINDOWS.find(entry => entry.pattern.test(modelId))
+  return match ? match.tokens : DEFAULT_CONTEXT_WINDOW
+}
+
+// Approximate token count for a single message using the provider's tokenizer profile
+export function countTokens(text: string, provider?: string): number {
+  if (!text) return 0
+  const profile = TOKENIZER_PROFILES[(provider || '').toLowerCase()] || TOKENIZER_PROFILES.openai
+  const wideChars = (text.match(WIDE_CHAR_REGEX) || []).length
+  const narrowChars = text.length - wideChars
+  return Math.ceil(narrowChars / profile.charsPerToken) + wideChars + profile.messageOverhead
+}
+
+export function countTurnTokens(turns: ConversationTurn[], provider?: string): number {
+  return turns.reduce((total, turn) => total + countTokens(turn.content, provider), 0)
+}
+
+// Clean up stored turns so every provider accepts them: no empty turns and strict user/assistant alternation
+export function normalizeTurns(turns: ConversationTurn[]): ConversationTurn[] {
+  const normalized: ConversationTurn[] = []
+  for (const turn of turns) {
+    const content = turn.content?.trim()
+    if (!content) continue
+    const last = normalized[normalized.length - 1]
+    if (last && last.role === turn.role) {
+      last.content = `${last.content}\n\n${content}`
+      last.id = turn.id
+    } else {
+      normalized.push({ id: turn.id, role: turn.role, content })
+    }
+  }
+  // Providers expect the conversation to open with a user turn
+  while (normalized.length && normalized[0].role !== 'user') normalized.shift()
+  // The current user message follows the history, so it must end on an assistant turn
+  while (normalized.length && normalized[normalized.length - 1].role !== 'assistant') normalized.pop()
+  return normalized
+}
+
+// Split turns into the older ones that overflow the budget and the most recent ones that fit
+export function splitHistoryByBudget(
+  history: ConversationTurn[],
+  opts: { budget: number; provider?: string }
+): { overflow: ConversationTurn[]; recent: ConversationTurn[] } {
+  let used = 0
+  let start = history.length
+  while (start > 0) {
+    const cost = countTokens(history[start - 1].content, opts.provider)
+    if (used + cost > opts.budget) break
+    used += cost
+    start--
+  }
+  // Never open the verbatim window on an assistant turn
+  while (start < history.length && history[start].role !== 'user') start++
+  return { overflow: history.slice(0, start), recent: history.slice(start) }
+}
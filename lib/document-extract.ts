@@ -0,0 +1,134 @@
+// Plain text out of uploaded files, split into overlapping chunks for retrieval (see lib/documents.ts).
+// PDFs are read page by page so answers can cite the page a passage came from.
+import mammoth from 'mammoth'
+import { extractText, getDocumentProxy } from 'unpdf'
+import config from '@/lib/config'
+
+export type DocumentFormat = 'pdf' | 'docx' | 'csv' | 'text'
+
+export interface ExtractedPage {
+  page: number | null // 1-based PDF page; null for formats without pages
+  text: string
+}
+
+export interface TextChunk {
+  index: number
+  page: number | null
+  content: string
+}
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'mdx', 'rst', 'json', 'yaml', 'yml', 'toml', 'ini', 'xml', 'html', 'css', 'scss', 'sql', 'sh',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'php', 'java', 'kt', 'scala', 'swift', 'go', 'rs', 'c', 'h', 'cpp',
+  'hpp', 'cs', 'r', 'lua', 'dart', 'vue', 'svelte'
+])
+
+// Which extractor reads a file; null for files with no text to index (images, audio, archives...)
+export function getDocumentFormat(name: string, type: string = ''): DocumentFormat | null {
+  const extension = name.split('.').pop()?.toLowerCase() || ''
+  if (extension === 'pdf' || type === 'application/pdf') return 'pdf'
+  if (extension === 'docx' || type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx'
+  if (extension === 'csv' || extension === 'tsv' || type === 'text/csv') return 'csv'
+  if (TEXT_EXTENSIONS.has(extension) || type.startsWith('text/')) return 'text'
+  return null
+}
+
+export async function extractDocumentText(data: Buffer, file: { name: string; type?: string }): Promise<ExtractedPage[]> {
+  switch (getDocumentFormat(file.name, file.type)) {
+    case 'pdf': {
+      const pdf = await getDocumentProxy(new Uint8Array(data))
+      const { text } = await extractText(pdf, { mergePages: false })
+      return text.map((pageText, index) => ({ page: index + 1, text: pageText }))
+    }
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer: data })
+      return [{ page: null, text: value }]
+    }
+    case 'csv':
+      return [{ page: null, text: csvToText(data.toString('utf8'), file.name.toLowerCase().endsWith('.tsv') ? '\t' : ',') }]
+    case 'text':
+      return [{ page: null, text: data.toString('utf8') }]
+    default:
+      throw new Error(`No text extractor for ${file.name}`)
+  }
+}
+
+// One line per row as "column: value" pairs, so a chunk cut from the middle of a table still says what each value is
+function csvToText(csv: string, delimiter: string): string {
+  const [header, ...rows] = parseDelimited(csv, delimiter)
+  if (!header) return ''
+  return rows
+    .filter(row => row.some(cell => cell.trim()))
+    .map(row => row.map((cell, i) => `${header[i]?.trim() || `column ${i + 1}`}: ${cell.trim()}`).join('; '))
+    .join('\n')
+}
+
+// RFC 4180: quoted cells may hold delimiters, newlines and doubled quotes
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && !cell) {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell])
+  return rows
+}
+
+// Split pages into chunks of about `size` characters, breaking at paragraph, line or sentence ends where possible.
+// Consecutive chunks share `overlap` characters so a passage cut at a boundary is still whole in one of them.
+export function chunkPages(
+  pages: ExtractedPage[],
+  options: { size?: number; overlap?: number } = {}
+): TextChunk[] {
+  const size = Math.max(options.size ?? config.documents.chunkSize, 200)
+  const overlap = Math.min(Math.max(options.overlap ?? config.documents.chunkOverlap, 0), Math.floor(size / 2))
+  const chunks: TextChunk[] = []
+
+  for (const { page, text } of pages) {
+    const clean = text.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim()
+    let start = 0
+    while (start < clean.length) {
+      let end = Math.min(start + size, clean.length)
+      if (end < clean.length) {
+        const window = clean.slice(start, end)
+        const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf('. '))
+        if (breakAt > size / 2) end = start + breakAt + 1
+      }
+
+      const content = clean.slice(start, end).trim()
+      if (content) chunks.push({ index: chunks.length, page, content })
+      if (end >= clean.length) break
+      // Start the overlap at a word boundary
+      const overlapStart = Math.max(end - overlap, start + 1)
+      const wordStart = clean.slice(overlapStart, end).search(/\s/)
+      start = wordStart >= 0 ? overlapStart + wordStart + 1 : overlapStart
+    }
+  }
+  return chunks
+}
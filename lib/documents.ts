@@ -0,0 +1,168 @@
+// Retrieval over uploaded documents: files are chunked and embedded per conversation when uploaded, and the
+// chunks that best match each new message are added to the prompt with their file and page for citations.
+import { supabase } from './supabase'
+import { getEmbeddingProvider } from './embeddings'
+import { chunkPages, extractDocumentText } from './document-extract'
+import config from './config'
+import type { ConversationContext, DocumentChunkMatch, DocumentCitation } from '@/types'
+
+// PostgREST caps request bodies; big documents are written in slices
+const INSERT_BATCH_SIZE = 100
+
+export interface DocumentUpload {
+  conversationId: string
+  attachmentId: string
+  messageId?: string
+  name: string
+  url: string
+  type?: string
+  data: Buffer
+}
+
+// "report.pdf, p. 3" - the label the model is asked to cite
+function citationLabel(chunk: Pick<DocumentChunkMatch, 'fileName' | 'page'>): string {
+  return chunk.page ? `${chunk.fileName}, p. ${chunk.page}` : chunk.fileName
+}
+
+export class DocumentService {
+  // Extract, chunk, embed and store one uploaded file. Returns the number of chunks indexed.
+  static async ingest(upload: DocumentUpload): Promise<number> {
+    const pages = await extractDocumentText(upload.data, { name: upload.name, type: upload.type })
+    const chunks = chunkPages(pages)
+    if (!chunks.length) return 0
+
+    const provider = getEmbeddingProvider()
+    const vectors: (number[] | null)[] = []
+    const batchSize = Math.max(config.embeddings.batchSize, 1)
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize)
+      if (!provider) {
+        vectors.push(...batch.map(() => null))
+        continue
+      }
+      try {
+        vectors.push(...await provider.embed(batch.map(chunk => chunk.content)))
+      } catch (error) {
+        // Full-text matching still finds these chunks
+        console.error(`Failed to embed chunks of ${upload.name}:`, error)
+        vectors.push(...batch.map(() => null))
+      }
+    }
+
+    const rows = chunks.map((chunk, i) => ({
+      conversation_id: upload.conversationId,
+      attachment_id: upload.attachmentId,
+      message_id: upload.messageId ?? null,
+      file_name: upload.name,
+      file_url: upload.url,
+      chunk_index: chunk.index,
+      page: chunk.page,
+      content: chunk.content,
+      embedding: vectors[i],
+      embedding_model: vectors[i] ? provider!.id : null
+    }))
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('document_chunks')
+        .upsert(rows.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'attachment_id,chunk_index' })
+      if (error) throw error
+    }
+
+    console.log(`📄 Indexed ${rows.length} chunks of ${upload.name} (${pages.length} ${pages[0]?.page ? 'pages' : 'section'})`)
+    return rows.length
+  }
+
+  // Drop the chunks of deleted attachments so they stop turning up in answers
+  static async removeForAttachments(attachmentIds: string[]): Promise<void> {
+    if (!attachmentIds.length) return
+    const { error } = await supabase
+      .from('document_chunks')
+      .delete()
+      .in('attachment_id', attachmentIds)
+
+    if (error) throw error
+  }
+
+  static async hasDocuments(conversationId: string): Promise<boolean> {
+    const { count, error } = await supabase
+      .from('document_chunks')
+      .select('id', { count: 'exact', head: true })
+      .eq('conversation_id', conversationId)
+
+    if (error) throw error
+    return !!count
+  }
+
+  // Best-matching chunks of a conversation's documents, by full text and embedding similarity
+  static async retrieve(conversationId: string, query: string, limit: number = config.documents.matchCount): Promise<DocumentChunkMatch[]> {
+    const provider = getEmbeddingProvider()
+    let embedding: number[] | undefined
+    if (provider && query.trim()) {
+      try {
+        [embedding] = await provider.embed([query])
+      } catch (error) {
+        console.error('Failed to embed document query, using full-text matching only:', error)
+      }
+    }
+
+    const { data, error } = await supabase.rpc('search_document_chunks', {
+      target_conversation_id: conversationId,
+      search_query: query,
+      query_embedding: embedding ? JSON.stringify(embedding) : null,
+      match_count: limit
+    })
+
+    if (error) throw error
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      attachmentId: row.attachment_id,
+      fileName: row.file_name,
+      url: row.file_url,
+      page: row.page,
+      chunkIndex: row.chunk_index,
+      content: row.content,
+      score: row.score
+    }))
+  }
+
+  // Add the excerpts relevant to the new message; conversations without uploads cost one count query.
+  // Retrieval failures are logged and the message is answered without excerpts.
+  static async attachToContext(context: ConversationContext, message: { content: string }): Promise<ConversationContext> {
+    if (!context.conversationId) return context
+    try {
+      if (!await this.hasDocuments(context.conversationId)) return context
+      const documents = await this.retrieve(context.conversationId, message.content)
+      if (documents.length) console.log(`📚 Retrieved ${documents.length} document excerpts for ${context.conversationId}`)
+      return documents.length ? { ...context, documents } : context
+    } catch (error) {
+      console.error('Failed to retrieve document excerpts:', error)
+      return context
+    }
+  }
+
+  // Excerpts in document order, each headed by the label the answer should cite
+  static formatForPrompt(chunks: DocumentChunkMatch[]): string {
+    if (!chunks.length) return ''
+    const ordered = [...chunks].sort((a, b) => a.fileName.localeCompare(b.fileName) || a.chunkIndex - b.chunkIndex)
+    const excerpts = ordered.map(chunk => `[${citationLabel(chunk)}]\n${chunk.content}`)
+    return `DOCUMENT EXCERPTS (from files the user uploaded to this conversation):
+${excerpts.join('\n\n---\n\n')}
+
+DOCUMENT RULES:
+- Answer questions about the uploaded files from these excerpts; say so if they don't contain the answer
+- Cite every statement taken from an excerpt right after it with its label in square brackets, e.g. [${citationLabel(ordered[0])}]
+- Ignore excerpts that are not relevant to the question`
+  }
+
+  // One citation per file page, pointing the browser's PDF viewer at the page
+  static toCitations(chunks: DocumentChunkMatch[]): DocumentCitation[] {
+    const seen = new Set<string>()
+    return chunks.flatMap(chunk => {
+      const label = citationLabel(chunk)
+      if (seen.has(label)) return []
+      seen.add(label)
+      return [{ fileName: chunk.fileName, page: chunk.page, url: chunk.page ? `${chunk.url}#page=${chunk.page}` : chunk.url }]
+    })
+  }
+}
@@ -0,0 +1,77 @@
+// Background embedding of message content. Rows without a vector from the current model are the work queue,
+// so new messages, edited messages (their vector is cleared on edit) and old conversations all go through one path.
+import { SupabaseChatStorage } from './supabase'
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddings'
+import config from './config'
+
+// Saves usually arrive in pairs (prompt, then answer); wait a moment so they are embedded in one batch
+const ENQUEUE_DELAY_MS = 2000
+
+export class EmbeddingJob {
+  private static pending = new Set<string>()
+  private static timer: ReturnType<typeof setTimeout> | null = null
+  private static draining = false
+
+  // Schedule a conversation's unembedded messages; callers never wait on this
+  static enqueue(conversationId: string) {
+    if (!getEmbeddingProvider()) return
+    this.pending.add(conversationId)
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null
+        this.drain()
+      }, ENQUEUE_DELAY_MS)
+    }
+  }
+
+  private static async drain() {
+    if (this.draining) return
+    this.draining = true
+    try {
+      while (this.pending.size) {
+        const [conversationId] = this.pending
+        this.pending.delete(conversationId)
+        try {
+          await this.run({ conversationId })
+        } catch (error) {
+          console.error(`Failed to embed messages of conversation ${conversationId}:`, error)
+        }
+      }
+    } finally {
+      this.draining = false
+    }
+  }
+
+  // Embed messages that have no vector for the provider's model, oldest first. Without a conversation id this
+  // backfills every conversation. Returns the number of vectors stored.
+  static async run(options: { conversationId?: string; limit?: number; provider?: EmbeddingProvider | null } = {}): Promise<number> {
+    const provider = options.provider === undefined ? getEmbeddingProvider() : options.provider
+    if (!provider) return 0
+
+    const batchSize = Math.max(config.embeddings.batchSize, 1)
+    const limit = options.limit ?? Infinity
+    let stored = 0
+
+    while (stored < limit) {
+      const size = Math.min(batchSize, limit - stored)
+      const batch = await SupabaseChatStorage.getMessagesToEmbed(provider.id, { conversationId: options.conversationId, limit: size })
+      if (!batch.length) break
+
+      const vectors = await provider.embed(batch.map(message => message.content))
+      const saved = await Promise.all(batch.map((message, index) =>
+        SupabaseChatStorage.saveEmbedding(message, vectors[index], provider.id)
+      ))
+      const savedCount = saved.filter(Boolean).length
+      stored += savedCount
+
+      // No write landed: the batch was edited while it was being embedded. Stop rather than spin; the edits
+      // enqueue the conversation again.
+      if (!savedCount || batch.length < size) break
+    }
+
+    if (stored) {
+      console.log(`🧮 Embedded ${stored} messages with ${provider.id}${options.conversationId ? ` in ${options.conversationId}` : ''}`)
+    }
+    return stored
+  }
+}
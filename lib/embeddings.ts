@@ -0,0 +1,149 @@
+// Text embedding providers for message search. Pick one with EMBEDDING_PROVIDER (see lib/config.ts);
+// 'local' needs no network, so it also works offline and in tests.
+import OpenAI from 'openai'
+import config from '@/lib/config'
+import { maskPii, PII_KINDS } from '@/lib/pii'
+
+export interface EmbeddingProvider {
+  id: string // '<provider>:<model>', stored with each vector so a model change triggers re-embedding
+  dimensions?: number
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>
+}
+
+// Providers cap input size; long messages are embedded by their opening text
+const MAX_INPUT_CHARS = 8000
+
+// Text for a remote provider. Messages, memories, search queries and document chunks all pass through here, so with
+// GOVERNANCE_REDACT_PII on, personal data is swapped for its kind ("mail [email]") before it leaves the server. The kind
+// tag is the same in every text, so a query and the message it matches still embed alike.
+function prepareInput(text: string): string {
+  const { redactPii, redactKinds } = config.governance
+  const kinds = redactPii ? PII_KINDS.filter(kind => redactKinds.includes(kind)) : []
+  const masked = kinds.length ? maskPii(text, kinds) : text
+  return masked.replace(/\s+/g, ' ').trim().slice(0, MAX_INPUT_CHARS) || ' '
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return length ? vector.map(value => value / length) : vector
+}
+
+// 32-bit FNV-1a
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Feature hashing of words and character trigrams: the same text always gives the same vector, and texts
+// sharing words or word fragments land close together. No semantics, but enough for offline runs and tests.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+  readonly dimensions: number
+
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions
+    this.id = `local:hash-${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+    const features = words.flatMap(word => {
+      const padded = `#${word}#`
+      const trigrams: string[] = []
+      for (let i = 0; i + 3 <= padded.length; i++) trigrams.push(`3:${padded.slice(i, i + 3)}`)
+      return [`w:${word}`, ...trigrams]
+    })
+
+    for (const feature of features) {
+      const hash = hashToken(feature)
+      // The top bit picks the sign so collisions tend to cancel out instead of piling up
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1
+    }
+    return normalize(vector)
+  }
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+  readonly dimensions?: number
+  private client: OpenAI
+  private model: string
+
+  constructor(model: string = 'text-embedding-3-small', dimensions?: number) {
+    this.model = model
+    this.dimensions = dimensions
+    this.id = `openai:${model}${dimensions ? `-${dimensions}` : ''}`
+    this.client = new OpenAI({ apiKey: config.openai.apiKey, baseURL: config.openai.baseURL })
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts.map(prepareInput),
+      ...(this.dimensions ? { dimensions: this.dimensions } : {})
+    }, { signal })
+    return response.data.sort((a, b) => a.index - b.index).map(item => item.embedding)
+  }
+}
+
+export class MistralEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+  private model: string
+
+  constructor(model: string = 'mistral-embed') {
+    this.model = model
+    this.id = `mistral:${model}`
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await fetch(`${config.mistral.baseURL}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.mistral.apiKey}`
+      },
+      body: JSON.stringify({ model: this.model, input: texts.map(prepareInput) }),
+      signal
+    })
+
+    if (!response.ok) {
+      throw new Error(`Mistral embeddings error: ${response.status} ${await response.text()}`)
+    }
+    const data = await response.json()
+    return data.data.sort((a: any, b: any) => a.index - b.index).map((item: any) => item.embedding)
+  }
+}
+
+// Build the provider named in the config; null when embeddings are switched off
+export function createEmbeddingProvider(settings: typeof config.embeddings = config.embeddings): EmbeddingProvider | null {
+  const dimensions = settings.dimensions || undefined
+  switch (settings.provider) {
+    case 'none':
+      return null
+    case 'local':
+      return new LocalEmbeddingProvider(dimensions)
+    case 'openai':
+      return new OpenAIEmbeddingProvider(settings.model || undefined, dimensions)
+    case 'mistral':
+      return new MistralEmbeddingProvider(settings.model || undefined)
+    default:
+      console.warn(`⚠️ Unknown EMBEDDING_PROVIDER "${settings.provider}", embeddings are disabled`)
+      return null
+  }
+}
+
+let defaultProvider: EmbeddingProvider | null | undefined
+
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (defaultProvider === undefined) defaultProvider = createEmbeddingProvider()
+  return defaultProvider
+}
@@ -2,6 +2,7 @@
  * Environment Configuration Utility
  * Validates and provides type-safe access to environment variables
  */
+import { DEFAULT_LOCAL_LLM_ENDPOINT } from '@/lib/config'
 
 interface AppConfig {
   // Application
@@ -34,6 +35,11 @@ interface AppConfig {
     apiKey?: string
     endpoint: string
   }
+  local: {
+    endpoint: string
+    apiKey?: string
+    models: string[]
+  }
 
   // Database
   mongodb: {
@@ -91,6 +97,7 @@ interface AppConfig {
       secretAccessKey?: string
       region: string
       s3Bucket?: string
+      endpoint?: string // S3-compatible server such as MinIO
     }
     cloudinary?: {
       cloudName?: string
@@ -242,6 +249,12 @@ export const config: AppConfig = {
     apiKey: getOptionalEnvVar('GROQ_API_KEY'),
     endpoint: getOptionalEnvVar('GROQ_ENDPOINT', 'https://api.groq.com/openai/v1') || 'https://api.groq.com/openai/v1',
   },
+  // Self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio)
+  local: {
+    endpoint: getOptionalEnvVar('LOCAL_LLM_ENDPOINT', DEFAULT_LOCAL_LLM_ENDPOINT) || DEFAULT_LOCAL_LLM_ENDPOINT,
+    apiKey: getOptionalEnvVar('LOCAL_LLM_API_KEY'),
+    models: getArrayEnvVar('LOCAL_LLM_MODELS'),
+  },
 
   // Database
   mongodb: {
@@ -299,6 +312,7 @@ export const config: AppConfig = {
       secretAccessKey: getOptionalEnvVar('AWS_SECRET_ACCESS_KEY'),
       region: getOptionalEnvVar('AWS_REGION', 'us-east-1') || 'us-east-1',
       s3Bucket: getOptionalEnvVar('AWS_S3_BUCKET'),
+      endpoint: getOptionalEnvVar('S3_ENDPOINT'),
     },
     cloudinary: {
       cloudName: getOptionalEnvVar('CLOUDINARY_CLOUD_NAME'),
@@ -396,11 +410,12 @@ export function validateConfig(): void {
     config.anthropic.apiKey || 
     config.google.aiApiKey || 
     config.mistral.apiKey || 
-    config.groq.apiKey
+    config.groq.apiKey ||
+    process.env.LOCAL_LLM_ENDPOINT // Set explicitly; the built-in default doesn't mean a local server is running
   )
   
   if (!hasAiProvider) {
-    errors.push('At least one AI provider API key must be configured')
+    errors.push('At least one AI provider API key or LOCAL_LLM_ENDPOINT must be configured')
   }
 
   if (errors.length > 0) {
@@ -429,6 +444,7 @@ export function getAiProviderConfig(provider: string) {
     google: config.google,
     mistral: config.mistral,
     groq: config.groq,
+    local: config.local,
   }
   
   return providers[provider as keyof typeof providers]
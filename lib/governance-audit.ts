@@ -0,0 +1,136 @@
+// Audit trail of governance decisions: what each message was allowed to do and why. Entries keep a masked excerpt of the
+// message, never the personal data in it. GOVERNANCE_AUDIT_LOG picks where they go (see lib/config.ts).
+import { v4 as uuidv4 } from 'uuid'
+import { supabase } from './supabase'
+import config from '@/lib/config'
+import { maskPii } from '@/lib/pii'
+import type { GovernanceContext, GovernanceDecision } from '@/lib/governance'
+
+export interface GovernanceAuditEntry {
+  id: string
+  timestamp: number
+  userId: string
+  messageId?: string
+  excerpt: string
+  mode: GovernanceContext['mode']
+  useInternet: boolean
+  reason: string
+  decidedBy?: string
+  matchedPolicies: string[]
+  deniedAgents: string[]
+  allowedAgents?: string[]
+  blockedDomains: string[]
+  pii: string[]
+}
+
+const EXCERPT_LENGTH = 120
+
+interface AuditRow {
+  id: string
+  user_id: string
+  message_id: string | null
+  excerpt: string
+  mode: GovernanceContext['mode']
+  use_internet: boolean
+  reason: string
+  decided_by: string | null
+  matched_policies: string[]
+  denied_agents: string[]
+  allowed_agents: string[] | null
+  blocked_domains: string[]
+  pii: string[]
+  created_at: string
+}
+
+function fromRow(row: AuditRow): GovernanceAuditEntry {
+  return {
+    id: row.id,
+    timestamp: new Date(row.created_at).getTime(),
+    userId: row.user_id,
+    ...(row.message_id ? { messageId: row.message_id } : {}),
+    excerpt: row.excerpt,
+    mode: row.mode,
+    useInternet: row.use_internet,
+    reason: row.reason,
+    ...(row.decided_by ? { decidedBy: row.decided_by } : {}),
+    matchedPolicies: row.matched_policies || [],
+    deniedAgents: row.denied_agents || [],
+    ...(row.allowed_agents ? { allowedAgents: row.allowed_agents } : {}),
+    blockedDomains: row.blocked_domains || [],
+    pii: row.pii || [],
+  }
+}
+
+export class GovernanceAudit {
+  private static recent: GovernanceAuditEntry[] = []
+
+  // Record a decision. Database writes happen in the background; a failed write is logged and the entry stays in memory.
+  static record(query: string, context: GovernanceContext, decision: GovernanceDecision, messageId?: string): GovernanceAuditEntry {
+    const entry: GovernanceAuditEntry = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      userId: context.userId,
+      ...(messageId ? { messageId } : {}),
+      excerpt: maskPii(query).slice(0, EXCERPT_LENGTH),
+      mode: context.mode,
+      useInternet: decision.useInternet,
+      reason: decision.reason,
+      ...(decision.decidedBy ? { decidedBy: decision.decidedBy } : {}),
+      matchedPolicies: decision.matchedPolicies,
+      deniedAgents: decision.deniedAgents,
+      ...(decision.allowedAgents ? { allowedAgents: decision.allowedAgents } : {}),
+      blockedDomains: decision.blockedDomains,
+      pii: decision.pii,
+    }
+    if (config.governance.auditLog === 'off') return entry
+
+    this.recent.unshift(entry)
+    this.recent.length = Math.min(this.recent.length, config.governance.auditMemorySize)
+    if (config.governance.auditLog === 'supabase') {
+      this.persist(entry).catch(error => console.warn('⚠️ Could not save governance audit entry:', error?.message || error))
+    }
+    return entry
+  }
+
+  // Newest first. Reads the table when the log goes to Supabase, so entries from other instances and restarts show up
+  static async list(options: { limit?: number; userId?: string } = {}): Promise<GovernanceAuditEntry[]> {
+    const limit = Math.min(Math.max(options.limit || 50, 1), 500)
+    if (config.governance.auditLog !== 'supabase') {
+      return this.recent.filter(entry => !options.userId || entry.userId === options.userId).slice(0, limit)
+    }
+
+    let query = supabase
+      .from('governance_audit')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+    if (options.userId) query = query.eq('user_id', options.userId)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []).map(row => fromRow(row as AuditRow))
+  }
+
+  private static async persist(entry: GovernanceAuditEntry): Promise<void> {
+    const { error } = await supabase
+      .from('governance_audit')
+      .insert({
+        id: entry.id,
+        user_id: entry.userId,
+        message_id: entry.messageId || null,
+        excerpt: entry.excerpt,
+        mode: entry.mode,
+        use_internet: entry.useInternet,
+        reason: entry.reason,
+        decided_by: entry.decidedBy || null,
+        matched_policies: entry.matchedPolicies,
+        denied_agents: entry.deniedAgents,
+        allowed_agents: entry.allowedAgents || null,
+        blocked_domains: entry.blockedDomains,
+        pii: entry.pii,
+        created_at: new Date(entry.timestamp).toISOString(),
+      })
+
+    if (error) throw error
+  }
+}
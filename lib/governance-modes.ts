@@ -0,0 +1,21 @@
+// Governance modes, kept apart from lib/governance.ts so client components can list them without pulling in the
+// policy loader and audit log (fs, database)
+export type GovernanceMode = 'internet' | 'internal' | 'smart'
+
+export const GOVERNANCE_MODES: Array<{ value: GovernanceMode; label: string; description: string }> = [
+  {
+    value: 'smart',
+    label: 'Smart Mode',
+    description: 'AI decides based on governance rules (recommended)'
+  },
+  {
+    value: 'internal',
+    label: 'Internal Only',
+    description: 'Always use internal knowledge, never search internet'
+  },
+  {
+    value: 'internet',
+    label: 'Internet Preferred',
+    description: 'Prefer internet search for most queries'
+  }
+]
@@ -0,0 +1,261 @@
+// Declarative governance policies. A JSON or YAML file (GOVERNANCE_POLICY_FILE, see lib/config.ts) lists policies, each a
+// `when` condition on the request and a `then` action; AIGovernance applies them on top of its built-in rules.
+// The file is re-read when it changes, and a file that fails validation leaves the last good policies in force.
+//
+//   version: 1
+//   policies:
+//     - id: pii-stays-internal
+//       description: Messages with personal data never reach external agents
+//       when: { pii: true }
+//       then: { deny_agents: ['Internet Search', 'YouTube', 'Weather', 'World Time'] }
+import { readFileSync, statSync } from 'fs'
+import { resolve } from 'path'
+import YAML from 'yaml'
+import config from '@/lib/config'
+import { findPii, PII_KINDS, PiiKind } from '@/lib/pii'
+import type { GovernanceMode } from '@/lib/governance-modes'
+
+// Every field is optional and all given fields must hold; an empty condition matches every request
+export interface PolicyCondition {
+  contains?: string[] // Any of these phrases, case-insensitive
+  pattern?: string | string[] // Any of these regular expressions, case-insensitive, tried on the first MAX_PATTERN_INPUT characters
+  pii?: boolean | PiiKind[] // Personal data of any (true) or one of the listed kinds; false requires none
+  user?: string[] // Request user ids
+  mode?: GovernanceMode[]
+  any?: PolicyCondition[]
+  all?: PolicyCondition[]
+  not?: PolicyCondition
+}
+
+export interface PolicyAction {
+  internet?: boolean // Decide internet access, as the built-in rules do
+  deny_agents?: string[] // Agent names, or '*' for every agent
+  allow_agents?: string[] // Only these agents may run
+  block_domains?: string[] // Dropped from agent results, subdomains included
+}
+
+export interface GovernancePolicy {
+  id: string
+  description: string
+  priority: number // Compared with the built-in rules (10-100) for the internet decision; defaults to 500
+  enabled: boolean
+  when: PolicyCondition
+  then: PolicyAction
+}
+
+// What a policy is matched against
+export interface PolicyInput {
+  query: string
+  userId: string
+  mode: GovernanceMode
+}
+
+export const DEFAULT_POLICY_PRIORITY = 500
+
+// Patterns run on every message, so they are kept short and free of the constructs that backtrack without bound, and only
+// the start of a long message is searched
+export const MAX_PATTERN_LENGTH = 200
+export const MAX_PATTERN_INPUT = 2000
+export const MAX_POLICY_FILE_BYTES = 65536
+// A quantified group that itself contains a quantifier, e.g. (a+)+ or (\w+\s?)*, or a backreference
+const UNSAFE_PATTERN = /\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,\d*\})(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})|\\[1-9]|\\k</
+
+const CONDITION_KEYS = ['contains', 'pattern', 'pii', 'user', 'mode', 'any', 'all', 'not']
+const ACTION_KEYS = ['internet', 'deny_agents', 'allow_agents', 'block_domains']
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function validateCondition(value: any, path: string): PolicyCondition {
+  if (value == null) return {}
+  if (typeof value !== 'object' || Array.isArray(value)) throw new Error(`${path} must be an object`)
+  const unknown = Object.keys(value).find(key => !CONDITION_KEYS.includes(key))
+  if (unknown) throw new Error(`${path}.${unknown} is not a known condition (${CONDITION_KEYS.join(', ')})`)
+
+  if (value.contains !== undefined && !isStringList(value.contains)) throw new Error(`${path}.contains must be a list of strings`)
+  if (value.pattern !== undefined) {
+    const patterns = typeof value.pattern === 'string' ? [value.pattern] : value.pattern
+    if (!isStringList(patterns)) throw new Error(`${path}.pattern must be a string or a list of strings`)
+    patterns.forEach(pattern => {
+      if (pattern.length > MAX_PATTERN_LENGTH) throw new Error(`${path}.pattern is over ${MAX_PATTERN_LENGTH} characters`)
+      if (UNSAFE_PATTERN.test(pattern)) {
+        throw new Error(`${path}.pattern "${pattern}" nests quantifiers or uses a backreference, which can make matching hang`)
+      }
+      try {
+        new RegExp(pattern, 'i')
+      } catch {
+        throw new Error(`${path}.pattern "${pattern}" is not a valid regular expression`)
+      }
+    })
+  }
+  if (value.pii !== undefined && typeof value.pii !== 'boolean') {
+    if (!isStringList(value.pii) || value.pii.some((kind: string) => !PII_KINDS.includes(kind as PiiKind))) {
+      throw new Error(`${path}.pii must be true, false or a list of ${PII_KINDS.join(', ')}`)
+    }
+  }
+  if (value.user !== undefined && !isStringList(value.user)) throw new Error(`${path}.user must be a list of user ids`)
+  if (value.mode !== undefined && (!isStringList(value.mode) || value.mode.some((mode: string) => !['internet', 'internal', 'smart'].includes(mode)))) {
+    throw new Error(`${path}.mode must be a list of internet, internal, smart`)
+  }
+  for (const key of ['any', 'all'] as const) {
+    if (value[key] === undefined) continue
+    if (!Array.isArray(value[key])) throw new Error(`${path}.${key} must be a list of conditions`)
+    value[key] = value[key].map((condition: any, i: number) => validateCondition(condition, `${path}.${key}[${i}]`))
+  }
+  if (value.not !== undefined) value.not = validateCondition(value.not, `${path}.not`)
+  return value
+}
+
+function validateAction(value: any, path: string): PolicyAction {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${path} must be an object`)
+  const unknown = Object.keys(value).find(key => !ACTION_KEYS.includes(key))
+  if (unknown) throw new Error(`${path}.${unknown} is not a known action (${ACTION_KEYS.join(', ')})`)
+  if (!Object.keys(value).length) throw new Error(`${path} needs at least one action`)
+  if (value.internet !== undefined && typeof value.internet !== 'boolean') throw new Error(`${path}.internet must be true or false`)
+  for (const key of ['deny_agents', 'allow_agents', 'block_domains']) {
+    if (value[key] !== undefined && !isStringList(value[key])) throw new Error(`${path}.${key} must be a list of strings`)
+  }
+  if (value.block_domains) value.block_domains = value.block_domains.map((domain: string) => domain.toLowerCase().replace(/^\*?\./, ''))
+  return value
+}
+
+// Parse and check a policy file; the error names the offending field, e.g. "policies[2].when.pattern ..."
+export function parsePolicies(text: string, format: 'json' | 'yaml' = 'yaml'): GovernancePolicy[] {
+  let raw: any
+  try {
+    raw = format === 'json' ? JSON.parse(text) : YAML.parse(text)
+  } catch (error) {
+    throw new Error(`Policy file is not valid ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`)
+  }
+  if (raw == null) return []
+  if (typeof raw !== 'object' || !Array.isArray(raw.policies)) throw new Error('Policy file needs a top-level "policies" list')
+  if (raw.version !== undefined && raw.version !== 1) throw new Error(`Unsupported policy file version ${raw.version}`)
+
+  const ids = new Set<string>()
+  return raw.policies.map((policy: any, i: number): GovernancePolicy => {
+    const path = `policies[${i}]`
+    if (!policy || typeof policy !== 'object') throw new Error(`${path} must be an object`)
+    if (typeof policy.id !== 'string' || !policy.id.trim()) throw new Error(`${path}.id is required`)
+    if (ids.has(policy.id)) throw new Error(`${path}.id "${policy.id}" is used twice`)
+    ids.add(policy.id)
+    if (policy.priority !== undefined && typeof policy.priority !== 'number') throw new Error(`${path}.priority must be a number`)
+
+    return {
+      id: policy.id,
+      description: typeof policy.description === 'string' ? policy.description : policy.id,
+      priority: policy.priority ?? DEFAULT_POLICY_PRIORITY,
+      enabled: policy.enabled !== false,
+      when: validateCondition(policy.when, `${path}.when`),
+      then: validateAction(policy.then, `${path}.then`),
+    }
+  })
+}
+
+export function matchesCondition(condition: PolicyCondition, input: PolicyInput): boolean {
+  const query = input.query.toLowerCase()
+  if (condition.contains && !condition.contains.some(phrase => query.includes(phrase.toLowerCase()))) return false
+  if (condition.pattern) {
+    const patterns = typeof condition.pattern === 'string' ? [condition.pattern] : condition.pattern
+    const text = input.query.slice(0, MAX_PATTERN_INPUT)
+    if (!patterns.some(pattern => new RegExp(pattern, 'i').test(text))) return false
+  }
+  if (condition.pii !== undefined) {
+    const found = findPii(input.query, Array.isArray(condition.pii) ? condition.pii : PII_KINDS).length > 0
+    if (found !== (condition.pii !== false)) return false
+  }
+  if (condition.user && !condition.user.includes(input.userId)) return false
+  if (condition.mode && !condition.mode.includes(input.mode)) return false
+  if (condition.any && !condition.any.some(inner => matchesCondition(inner, input))) return false
+  if (condition.all && !condition.all.every(inner => matchesCondition(inner, input))) return false
+  if (condition.not && matchesCondition(condition.not, input)) return false
+  return true
+}
+
+// Policies from one file, reloaded when the file's modification time changes (checked at most every reloadIntervalMs)
+export class PolicyStore {
+  readonly path: string
+  private policies: readonly GovernancePolicy[] = Object.freeze([])
+  private mtimeMs = -1
+  private checkedAt = 0
+  private reloadIntervalMs: number
+  lastError: string | null = null
+  loadedAt: number | null = null
+
+  constructor(path: string, reloadIntervalMs: number = config.governance.reloadIntervalMs) {
+    this.path = resolve(path)
+    this.reloadIntervalMs = reloadIntervalMs
+  }
+
+  get format(): 'json' | 'yaml' {
+    return this.path.toLowerCase().endsWith('.json') ? 'json' : 'yaml'
+  }
+
+  // Current policies, frozen: callers keep the list they got even if the file changes mid-request
+  getPolicies(): readonly GovernancePolicy[] {
+    if (Date.now() - this.checkedAt >= this.reloadIntervalMs) this.reload()
+    return this.policies
+  }
+
+  reload(force = false): void {
+    this.checkedAt = Date.now()
+    let mtimeMs: number
+    try {
+      mtimeMs = statSync(this.path).mtimeMs
+    } catch {
+      if (this.mtimeMs !== 0) console.warn(`⚠️ Governance policy file ${this.path} not found, no policies loaded`)
+      this.mtimeMs = 0
+      this.policies = Object.freeze([])
+      return
+    }
+    if (!force && mtimeMs === this.mtimeMs) return
+    this.mtimeMs = mtimeMs
+
+    try {
+      const policies = parsePolicies(readFileSync(this.path, 'utf8'), this.format)
+      this.policies = Object.freeze(policies.map(policy => Object.freeze(policy)))
+      this.lastError = null
+      this.loadedAt = Date.now()
+      console.log(`🏛️ Governance: loaded ${policies.length} policies from ${this.path}`)
+    } catch (error) {
+      // Keep enforcing the last good policies rather than dropping them over a typo
+      this.lastError = error instanceof Error ? error.message : String(error)
+      console.warn(`⚠️ Governance policy file ${this.path} rejected, keeping ${this.policies.length} previous policies: ${this.lastError}`)
+    }
+  }
+}
+
+let defaultStore: PolicyStore | null | undefined
+
+// The store for GOVERNANCE_POLICY_FILE, or null when no file is configured
+export function getPolicyStore(): PolicyStore | null {
+  if (defaultStore === undefined) defaultStore = config.governance.policyFile ? new PolicyStore(config.governance.policyFile) : null
+  return defaultStore
+}
+
+function isBlockedUrl(url: unknown, domains: readonly string[]): boolean {
+  if (typeof url !== 'string') return false
+  try {
+    const host = new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+    return domains.some(domain => host === domain || host.endsWith(`.${domain}`))
+  } catch {
+    return false
+  }
+}
+
+// Agent data without entries linking to blocked domains: list items ({ url } or { link }) are dropped, single objects
+// such as a search answer box are removed
+export function removeBlockedDomains(data: any, domains: readonly string[]): any {
+  if (!domains.length || !data || typeof data !== 'object' || Array.isArray(data)) return data
+  const filtered: Record<string, any> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      filtered[key] = value.filter(item => !isBlockedUrl(item?.url ?? item?.link, domains))
+    } else if (value && typeof value === 'object' && isBlockedUrl((value as any).url ?? (value as any).link, domains)) {
+      continue
+    } else {
+      filtered[key] = value
+    }
+  }
+  return filtered
+}
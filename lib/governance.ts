@@ -1,4 +1,9 @@
-// AI Governance Module - Controls when to use internet vs internal knowledge
+// AI Governance Module - Controls when to use internet vs internal knowledge, and which agents a message may use
+import { GovernanceAudit } from '@/lib/governance-audit'
+import { getPolicyStore, GovernancePolicy, matchesCondition, PolicyStore } from '@/lib/governance-policy'
+import { findPii, maskPii, PII_KINDS, PiiKind, PiiRedactor } from '@/lib/pii'
+import { GOVERNANCE_MODES, GovernanceMode } from '@/lib/governance-modes'
+import appConfig from '@/lib/config'
 
 export interface GovernanceRule {
   name: string
@@ -7,65 +12,204 @@ export interface GovernanceRule {
   priority: number // Higher priority rules are checked first
 }
 
+export type { GovernanceMode }
+
+// Personal data swapped for placeholders before prompts and agent calls leave the server (see PiiRedactor)
+export interface RedactionConfig {
+  enabled: boolean
+  kinds: PiiKind[]
+}
+
 export interface GovernanceConfig {
-  defaultMode: 'internet' | 'internal' | 'smart'
+  defaultMode: GovernanceMode
   enableGovernance: boolean
   rules: GovernanceRule[]
+  redaction: RedactionConfig
+}
+
+// Governance as one request sees it: the server defaults overlaid with the user's settings and the policies in force,
+// resolved once and frozen. Requests share one Orchestrator, so per-user choices travel with the request instead of being
+// written to it, and a policy file reloaded mid-request doesn't change the rules halfway through.
+export interface GovernanceContext {
+  readonly mode: GovernanceMode
+  readonly enabled: boolean
+  readonly userId: string
+  readonly rules: readonly GovernanceRule[] // Sorted by priority, highest first
+  readonly policies: readonly GovernancePolicy[]
+  readonly autoAgents: boolean // Agents may be picked without an @mention
+  readonly allowedAgents?: readonly string[] // Agent names this request may run; undefined allows every enabled agent
+  readonly redaction: Readonly<{ enabled: boolean; kinds: readonly PiiKind[] }> // Server setting; users can't switch it off
+}
+
+// Governance fields of the chat settings a client sends, e.g. { governance: { mode: 'internal' } }. Whether governance applies
+// at all is a server setting, so an `enabled` flag from the client is ignored.
+export interface GovernanceSettings {
+  governance?: { mode?: string; allowedAgents?: string[] }
+  enableAutoAgents?: boolean
 }
 
+// Everything governance decided for one message, as recorded in the audit trail
+export interface GovernanceDecision {
+  useInternet: boolean
+  reason: string // Same text as getDecisionReason
+  decidedBy?: string // Rule name or policy id that settled internet access
+  matchedPolicies: string[]
+  deniedAgents: string[] // '*' denies every agent
+  allowedAgents?: string[] // Set when a policy limits the message to these agents
+  blockedDomains: string[]
+  pii: PiiKind[] // Kinds of personal data in the message
+}
+
+const MODES = GOVERNANCE_MODES.map(mode => mode.value)
+
+// No accounts yet: requests without an identity belong to the single local user
+export const DEFAULT_USER_ID = 'default'
+
 export class AIGovernance {
   private config: GovernanceConfig
+  private policyStore: PolicyStore | null
 
-  constructor(config?: Partial<GovernanceConfig>) {
+  // Policies come from GOVERNANCE_POLICY_FILE unless a store (or null for none) is passed in
+  constructor(config?: Partial<GovernanceConfig>, policyStore: PolicyStore | null = getPolicyStore()) {
     this.config = {
       defaultMode: 'smart',
       enableGovernance: true,
       rules: this.getDefaultRules(),
+      redaction: {
+        enabled: appConfig.governance.redactPii,
+        kinds: PII_KINDS.filter(kind => appConfig.governance.redactKinds.includes(kind)),
+      },
       ...config
     }
+    this.policyStore = policyStore
   }
 
   /**
-   * Determines whether to use internet search or internal knowledge
+   * Resolve the governance a single request runs under. Unknown modes fall back to the server default, and the
+   * result is frozen so nothing downstream can change it for this or any other request.
    */
-  shouldUseInternet(query: string): boolean {
-    if (!this.config.enableGovernance) {
-      return this.config.defaultMode === 'internet'
+  createContext(settings: GovernanceSettings = {}, userId: string = DEFAULT_USER_ID): GovernanceContext {
+    const requested = settings.governance || {}
+    const mode = MODES.includes(requested.mode as GovernanceMode) ? requested.mode as GovernanceMode : this.config.defaultMode
+    const allowedAgents = Array.isArray(requested.allowedAgents) ? Object.freeze([...requested.allowedAgents]) : undefined
+
+    return Object.freeze({
+      mode,
+      enabled: this.config.enableGovernance,
+      userId,
+      rules: Object.freeze([...this.config.rules].sort((a, b) => b.priority - a.priority)),
+      policies: this.policyStore?.getPolicies() || Object.freeze([]),
+      autoAgents: settings.enableAutoAgents !== false,
+      ...(allowedAgents ? { allowedAgents } : {}),
+      redaction: Object.freeze({ enabled: this.config.redaction.enabled, kinds: Object.freeze([...this.config.redaction.kinds]) }),
+    })
+  }
+
+  /**
+   * A redactor for one request, or null when redaction is off. Its placeholders only mean something within that request.
+   */
+  createRedactor(context: GovernanceContext = this.createContext()): PiiRedactor | null {
+    return context.redaction.enabled && context.redaction.kinds.length ? new PiiRedactor(context.redaction.kinds) : null
+  }
+
+  /**
+   * Work out what a message may do without recording anything: the dry-run evaluator behind /api/governance/policies
+   */
+  evaluate(query: string, context: GovernanceContext = this.createContext()): GovernanceDecision {
+    const input = { query, userId: context.userId, mode: context.mode }
+    const matched = context.policies.filter(policy => policy.enabled && matchesCondition(policy.when, input))
+    const allowLists = matched.filter(policy => policy.then.allow_agents).map(policy => policy.then.allow_agents!)
+
+    return {
+      ...this.decideInternet(query, context, matched),
+      matchedPolicies: matched.map(policy => policy.id),
+      deniedAgents: [...new Set(matched.flatMap(policy => policy.then.deny_agents || []))],
+      // Several allow lists narrow each other down
+      ...(allowLists.length ? { allowedAgents: allowLists.reduce((allowed, list) => allowed.filter(name => list.includes(name))) } : {}),
+      blockedDomains: [...new Set(matched.flatMap(policy => policy.then.block_domains || []))],
+      pii: [...new Set(findPii(query).map(match => match.kind))],
     }
+  }
 
-    // Check rules in priority order
-    const sortedRules = this.config.rules.sort((a, b) => b.priority - a.priority)
-    
-    for (const rule of sortedRules) {
-      const result = rule.shouldUseInternet(query)
-      if (result !== undefined) {
-        console.log(`🏛️ Governance: Rule "${rule.name}" determined ${result ? 'INTERNET' : 'INTERNAL'} for query: "${query.slice(0, 50)}..."`)
-        return result
-      }
+  /**
+   * Evaluate a message and record the decision in the audit trail
+   */
+  decide(query: string, context: GovernanceContext = this.createContext(), messageId?: string): GovernanceDecision {
+    const decision = this.evaluate(query, context)
+    GovernanceAudit.record(query, context, decision, messageId)
+    if (decision.decidedBy) {
+      console.log(`🏛️ Governance: "${decision.decidedBy}" determined ${decision.useInternet ? 'INTERNET' : 'INTERNAL'} for query: "${maskPii(query).slice(0, 50)}..."`)
     }
+    if (decision.matchedPolicies.length) {
+      console.log(`🏛️ Governance: policies ${decision.matchedPolicies.join(', ')} matched`)
+    }
+    return decision
+  }
 
-    // Fallback to default mode
-    return this.config.defaultMode === 'internet'
+  /**
+   * Determines whether to use internet search or internal knowledge
+   */
+  shouldUseInternet(query: string, context: GovernanceContext = this.createContext()): boolean {
+    return this.decide(query, context).useInternet
   }
 
   /**
    * Get explanation for why internet was or wasn't used
    */
-  getDecisionReason(query: string): string {
-    if (!this.config.enableGovernance) {
-      return `Governance disabled, using ${this.config.defaultMode} mode`
+  getDecisionReason(query: string, context: GovernanceContext = this.createContext()): string {
+    return this.evaluate(query, context).reason
+  }
+
+  /**
+   * Whether a request may run an agent, by agent name. Pass the message's decision to apply the policies that matched it.
+   */
+  isAgentAllowed(agentName: string, context: GovernanceContext = this.createContext(), decision?: GovernanceDecision): boolean {
+    if (context.allowedAgents && !context.allowedAgents.includes(agentName)) return false
+    if (!decision) return true
+    if (decision.deniedAgents.includes('*') || decision.deniedAgents.includes(agentName)) return false
+    return !decision.allowedAgents || decision.allowedAgents.includes(agentName)
+  }
+
+  /**
+   * Policies in force and the state of the policy file
+   */
+  getPolicyStatus(): { file: string | null; policies: readonly GovernancePolicy[]; loadedAt: number | null; error: string | null } {
+    return {
+      file: this.policyStore?.path || null,
+      policies: this.policyStore?.getPolicies() || [],
+      loadedAt: this.policyStore?.loadedAt || null,
+      error: this.policyStore?.lastError || null,
     }
+  }
 
-    const sortedRules = this.config.rules.sort((a, b) => b.priority - a.priority)
-    
-    for (const rule of sortedRules) {
-      const result = rule.shouldUseInternet(query)
-      if (result !== undefined) {
-        return `Rule: ${rule.name} - ${rule.description}`
+  // Internal only mode never goes online. Otherwise the highest-priority opinion wins: matched policies with an
+  // `internet` action always count (a compliance policy can't be switched off by the user), built-in rules only while
+  // governance is enabled, and a policy beats a rule of the same priority. With no opinion, the mode decides.
+  private decideInternet(query: string, context: GovernanceContext, matched: readonly GovernancePolicy[]): { useInternet: boolean; reason: string; decidedBy?: string } {
+    if (context.mode === 'internal') {
+      return { useInternet: false, reason: 'Internal only mode, internet access is off' }
+    }
+
+    const policy = matched
+      .filter(candidate => candidate.then.internet !== undefined)
+      .sort((a, b) => b.priority - a.priority)[0]
+    if (context.enabled) {
+      for (const rule of context.rules) {
+        if (policy && policy.priority >= rule.priority) break
+        const result = rule.shouldUseInternet(query)
+        if (result !== undefined) {
+          return { useInternet: result, reason: `Rule: ${rule.name} - ${rule.description}`, decidedBy: rule.name }
+        }
       }
     }
+    if (policy) {
+      return { useInternet: policy.then.internet!, reason: `Policy: ${policy.id} - ${policy.description}`, decidedBy: policy.id }
+    }
 
-    return `No specific rule matched, using default ${this.config.defaultMode} mode`
+    return {
+      useInternet: context.mode === 'internet',
+      reason: context.enabled ? `No specific rule matched, using default ${context.mode} mode` : `Governance disabled, using ${context.mode} mode`,
+    }
   }
 
   private getDefaultRules(): GovernanceRule[] {
@@ -355,7 +499,7 @@ export class AIGovernance {
   }
 
   /**
-   * Update governance configuration
+   * Update the server-wide defaults. Affects every later request; per-user settings belong in createContext.
    */
   updateConfig(newConfig: Partial<GovernanceConfig>): void {
     this.config = { ...this.config, ...newConfig }
@@ -386,23 +530,7 @@ export class AIGovernance {
    * Get available governance modes
    */
   static getAvailableModes(): Array<{ value: string; label: string; description: string }> {
-    return [
-      {
-        value: 'smart',
-        label: 'Smart Mode',
-        description: 'AI decides based on governance rules (recommended)'
-      },
-      {
-        value: 'internal',
-        label: 'Internal Only',
-        description: 'Always use internal knowledge, never search internet'
-      },
-      {
-        value: 'internet',
-        label: 'Internet Preferred',
-        description: 'Prefer internet search for most queries'
-      }
-    ]
+    return GOVERNANCE_MODES
   }
 }
 
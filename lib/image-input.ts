@@ -0,0 +1,25 @@
+// Image attachments read back from upload storage and base64-encoded for vision models
+import { getImageInputType } from './providers'
+import { getStorage, getStorageKey } from './storage'
+import type { MessageAttachment, PromptImage } from '@/types'
+
+// The images among a message's attachments; files that are missing or unreadable are skipped with a warning
+export async function loadPromptImages(attachments: MessageAttachment[] = []): Promise<PromptImage[]> {
+  const images: PromptImage[] = []
+  for (const attachment of attachments) {
+    const mimeType = getImageInputType(attachment)
+    if (!mimeType) continue
+    const key = getStorageKey(attachment.url)
+    if (!key) {
+      console.warn(`⚠️ Image ${attachment.name} was not uploaded, leaving it out of the prompt`)
+      continue
+    }
+    try {
+      const data = await getStorage().get(key)
+      images.push({ name: attachment.name, mimeType, data: data.toString('base64') })
+    } catch (error) {
+      console.error(`Failed to read image ${attachment.name}:`, error)
+    }
+  }
+  return images
+}
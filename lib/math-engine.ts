@@ -0,0 +1,1213 @@
+// Symbolic math for MathAgent. Input is parsed into a mathjs expression tree (variables, units, matrices, complex numbers),
+// then evaluated, simplified, differentiated, integrated or solved. Every step is recorded as LaTeX for TextRender's KaTeX.
+import { all, create, isConstantNode, isFunctionNode, isOperatorNode, isParenthesisNode, isRangeNode, isSymbolNode } from 'mathjs'
+import type { MathNode } from 'mathjs'
+
+export type MathOperation = 'evaluate' | 'simplify' | 'solve' | 'derivative' | 'integral'
+
+export interface MathStep {
+  description: string // Plain text, may contain inline $...$ LaTeX
+  latex?: string // Display math for the step, without delimiters
+}
+
+export interface MathSolution {
+  operation: MathOperation
+  expression: string // The expression the engine worked on, after the request wording was stripped
+  variable?: string
+  result: string // Plain text, e.g. 'x = 2 or x = 3'
+  latex: string
+  value?: number // Numeric result when there is a single one
+  solutions?: string[] // One entry per root for 'solve'
+  steps: MathStep[]
+}
+
+interface Root {
+  text: string
+  latex: string
+}
+
+const math = create(all)
+// Taken before the expression language is locked down below
+const { derivative, det, format, parse, rationalize, simplify } = math
+
+// Everything on the instance is callable from an expression, so the functions that parse, compile or define new code are
+// replaced with ones that throw. Our own references above keep working.
+const disabled = (name: string) => () => { throw new Error(`${name} is not available in expressions`) }
+math.import(
+  Object.fromEntries(['import', 'createUnit', 'evaluate', 'parse', 'compile', 'simplify', 'derivative', 'rationalize', 'resolve', 'reviver']
+    .map(name => [name, disabled(name)])),
+  { override: true }
+)
+
+const MAX_EXPRESSION_LENGTH = 1000
+// Functions and ranges that allocate a matrix of the requested size
+const SIZED_FUNCTIONS = new Set(['ones', 'zeros', 'identity', 'range', 'resize', 'reshape', 'random', 'randomInt', 'pickRandom', 'matrixFromFunction', 'diag'])
+const MAX_DIMENSION = 1000
+const CONSTANTS = new Set(['pi', 'PI', 'e', 'E', 'i', 'tau', 'phi', 'Infinity', 'NaN', 'true', 'false', 'null', 'LN2', 'LN10', 'LOG2E', 'LOG10E', 'SQRT1_2', 'SQRT2'])
+const VARIABLE_PREFERENCE = ['x', 'y', 'z', 't', 'u', 'v', 'w', 'n']
+const NUMERIC_SEARCH_RANGE = 50
+const MAX_NUMERIC_ROOTS = 8
+
+// Parse one expression. Statements the engine handles itself (assignments, blocks) and oversized allocations are rejected.
+export function parseExpression(text: string): MathNode {
+  if (text.length > MAX_EXPRESSION_LENGTH) throw new Error(`Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters`)
+  const node = parse(normalize(text))
+  node.traverse(child => {
+    if (['AssignmentNode', 'FunctionAssignmentNode', 'BlockNode'].includes(child.type)) {
+      throw new Error('Assignments are not supported inside an expression; use "where x = 3" instead')
+    }
+    const sized = isRangeNode(child) || (isFunctionNode(child) && SIZED_FUNCTIONS.has(functionName(child)))
+    if (sized && child.filter(isConstantNode).some(c => Math.abs(Number((c as any).value)) > MAX_DIMENSION)) {
+      throw new Error(`Matrix dimensions are limited to ${MAX_DIMENSION}`)
+    }
+  })
+  return node
+}
+
+// Solve a request such as "solve x^2 - 5x + 6 = 0", "derivative of sin(x)*x^2", "integral of x^2 from 0 to 3",
+// "[1, 2; 3, 4] * [5; 6]", "5 km + 300 m to m" or "x^2 + y where x = 3, y = 4"
+export function solveMath(
+  input: string,
+  options: { operation?: MathOperation; variable?: string } = {}
+): MathSolution {
+  const request = interpret(input)
+  const operation = options.operation || request.operation
+  const variable = options.variable || request.variable
+
+  switch (operation) {
+    case 'solve':
+      return solveEquations(request.body, variable, request.scope)
+    case 'derivative':
+      return differentiate(request.body, variable, request.scope)
+    case 'integral':
+      return integrate(request.body, variable, request.bounds)
+    case 'simplify':
+      return simplifyExpression(request.body, request.scope)
+    default:
+      return evaluateExpression(request.body, request.scope)
+  }
+}
+
+// ---- Request wording ----
+
+interface MathRequest {
+  operation: MathOperation
+  body: string
+  variable?: string
+  bounds?: [string, string]
+  scope: Record<string, string> // "where x = 3" assignments, as unparsed expressions
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/²/g, '^2').replace(/³/g, '^3')
+    .replace(/[×·]/g, '*').replace(/÷/g, '/').replace(/[−–]/g, '-')
+    .replace(/√/g, 'sqrt').replace(/π/g, 'pi')
+}
+
+function interpret(input: string): MathRequest {
+  let text = normalize(input).trim().replace(/[?!]+$/, '').replace(/\.$/, '').trim()
+  text = text.replace(/\s+(?:for me|please|thanks|thank you)$/i, '')
+  text = text.replace(/^(?:please\s+)?(?:(?:can|could) you\s+)?(?:please\s+)?(?:what(?:'s| is)|calculate|compute|evaluate|work out|find|convert|determine)?\s*(?:the value of\s+)?/i, '')
+
+  const scope: Record<string, string> = {}
+  const where = text.match(/\s+(?:where|with|when|given|at)\s+([a-z]\w*\s*=.*)$/i)
+  if (where) {
+    for (const assignment of splitTopLevel(where[1], /^(?:,|;|\s+and\s+)/i)) {
+      const [name, value] = assignment.split('=').map(part => part.trim())
+      if (!/^[a-z]\w*$/i.test(name) || !value) throw new Error(`Can't read the assignment "${assignment}"`)
+      scope[name] = value
+    }
+    text = text.slice(0, where.index).trim()
+  }
+
+  // "x = 3; y = 4; x^2 + y" sets variables before the expression
+  const statements = splitTopLevel(text, /^[;\n]/)
+  if (statements.length > 1 && !hasEquals(statements[statements.length - 1]) &&
+      statements.slice(0, -1).every(statement => /^[a-z]\w*\s*=[^=]/i.test(statement))) {
+    for (const statement of statements.slice(0, -1)) {
+      const [name, value] = statement.split('=').map(part => part.trim())
+      scope[name] = value
+    }
+    text = statements[statements.length - 1]
+  }
+
+  let match = text.match(/^(?:the\s+)?(?:(?:first\s+)?derivative|differentiate|d\/d([a-z]))(?:\s+of)?\s+(.+)$/i)
+  if (match) {
+    let body = match[2]
+    let variable = match[1]
+    const respect = body.match(/\s+(?:with respect to|wrt|w\.r\.t\.?)\s+([a-z]\w*)$/i)
+    if (respect) {
+      variable = respect[1]
+      body = body.slice(0, respect.index)
+    }
+    return { operation: 'derivative', body: body.trim(), variable, scope }
+  }
+
+  match = text.match(/^(?:the\s+)?(?:(?:definite|indefinite)\s+)?(?:integral|integrate|antiderivative|∫)(?:\s+of)?\s*(.+)$/i)
+  if (match) {
+    let body = match[1]
+    let variable: string | undefined
+    let bounds: [string, string] | undefined
+    // "x^2 dx from 0 to 3" and "x^2 from 0 to 3 dx" are both common
+    for (let pass = 0; pass < 2; pass++) {
+      const differential = body.match(/(?:\s+|(?<=\)))d([a-z])$/i)
+      if (differential) {
+        variable = differential[1]
+        body = body.slice(0, differential.index)
+      }
+      const range = body.match(/\s+from\s+(.+?)\s+to\s+(.+?)$/i)
+      if (range) {
+        bounds = [range[1], range[2]]
+        body = body.slice(0, range.index)
+      }
+    }
+    return { operation: 'integral', body: body.trim(), variable, bounds, scope }
+  }
+
+  match = text.match(/^simplify\s+(.+)$/i)
+  if (match) return { operation: 'simplify', body: match[1], scope }
+
+  match = text.match(/^solve\s+(?:for\s+([a-z]\w*)\s*:?\s*)?(?:the\s+)?(?:(?:system of\s+)?equations?\s*:?\s*)?(.+)$/i)
+  if (match || hasEquals(text)) {
+    let body = match ? match[2] : text
+    let variable = match?.[1]
+    const target = body.match(/\s+for\s+([a-z]\w*)$/i)
+    if (target) {
+      variable = target[1]
+      body = body.slice(0, target.index)
+    }
+    return { operation: 'solve', body: body.trim(), variable, scope }
+  }
+
+  return { operation: 'evaluate', body: text, scope }
+}
+
+// A single '=', not '==', '<=', '>=' or '!='
+function hasEquals(text: string): boolean {
+  return /(?<![<>=!])=(?!=)/.test(text)
+}
+
+// Split on a separator that isn't inside brackets, so "max(1, 2)" and "[1, 2; 3, 4]" stay whole
+function splitTopLevel(text: string, separator: RegExp): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if ('([{'.includes(char)) depth++
+    else if (')]}'.includes(char)) depth--
+    else if (depth === 0) {
+      const match = text.slice(i).match(separator)
+      if (match) {
+        parts.push(text.slice(start, i))
+        i += match[0].length - 1
+        start = i + 1
+      }
+    }
+  }
+  parts.push(text.slice(start))
+  return parts.map(part => part.trim()).filter(Boolean)
+}
+
+// ---- Tree helpers ----
+
+function functionName(node: MathNode): string {
+  return isFunctionNode(node) && isSymbolNode(node.fn) ? node.fn.name : ''
+}
+
+function unwrap(node: MathNode): MathNode {
+  while (isParenthesisNode(node)) node = node.content
+  return node
+}
+
+// Symbols that aren't constants or function names, e.g. ['x', 'y']
+function freeSymbols(node: MathNode): string[] {
+  const names = node
+    .filter((child, path, parent) => isSymbolNode(child) && !(path === 'fn' && isFunctionNode(parent)))
+    .map(child => (child as any).name as string)
+    .filter(name => !CONSTANTS.has(name))
+  return [...new Set(names)].sort()
+}
+
+function dependsOn(node: MathNode, variable: string): boolean {
+  return freeSymbols(node).includes(variable)
+}
+
+function pickVariable(symbols: string[], preferred?: string): string {
+  if (preferred) return preferred
+  return VARIABLE_PREFERENCE.find(name => symbols.includes(name)) || symbols[0] || 'x'
+}
+
+function substitute(node: MathNode, values: Record<string, MathNode>): MathNode {
+  return node.transform((child, path, parent) => {
+    if (isSymbolNode(child) && values[child.name] && !(path === 'fn' && isFunctionNode(parent))) {
+      return new math.ParenthesisNode(values[child.name])
+    }
+    return child
+  })
+}
+
+function parseScope(scope: Record<string, string>): Record<string, MathNode> {
+  return Object.fromEntries(Object.entries(scope).map(([name, value]) => [name, parseExpression(value)]))
+}
+
+function evaluateNumber(node: MathNode | string, scope: Record<string, number> = {}): number {
+  const value = (typeof node === 'string' ? parseExpression(node) : node).compile().evaluate(scope)
+  if (typeof value !== 'number') throw new Error(`Expected a number, got ${formatValue(value)}`)
+  return value
+}
+
+// ---- Formatting ----
+
+function formatValue(value: unknown): string {
+  return format(value as any, { precision: 12 })
+}
+
+function valueTex(value: unknown): string {
+  try {
+    return parse(formatValue(value)).toTex()
+  } catch {
+    return `\\text{${formatValue(value)}}`
+  }
+}
+
+// Exact fractions for rationals with small denominators: 0.5 -> \frac{1}{2}, 5.33333333333 -> \frac{16}{3}
+function numberTex(n: number): string {
+  if (Number.isInteger(n) || !isFinite(n)) return formatValue(n)
+  // Continued fraction convergents of |n|
+  const target = Math.abs(n)
+  let [h0, h1, k0, k1] = [0, 1, 1, 0]
+  let rest = target
+  for (let i = 0; i < 20; i++) {
+    const whole = Math.floor(rest)
+    ;[h0, h1] = [h1, whole * h1 + h0]
+    ;[k0, k1] = [k1, whole * k1 + k0]
+    if (k1 > 1000) break
+    if (Math.abs(h1 / k1 - target) <= 1e-9 * target) return `${n < 0 ? '-' : ''}\\frac{${h1}}{${k1}}`
+    rest = 1 / (rest - whole)
+    if (!isFinite(rest)) break
+  }
+  return formatValue(n)
+}
+
+// simplify() writes a negation as 'f * -1 / 2'; move the sign to the front
+function tidy(node: MathNode | string): MathNode {
+  const isMinusOne = (arg: MathNode): boolean => {
+    arg = unwrap(arg)
+    return isConstantNode(arg) && arg.value === -1 ||
+      isOperatorNode(arg) && arg.fn === 'unaryMinus' && isConstantNode(unwrap(arg.args[0])) && (unwrap(arg.args[0]) as any).value === 1
+  }
+  const negate = (child: MathNode): MathNode => {
+    if (!isOperatorNode(child) || child.fn !== 'multiply' || child.args.length !== 2) return child
+    const i = child.args.findIndex(isMinusOne)
+    return i < 0 ? child : new math.OperatorNode('-', 'unaryMinus', [negate(child.args[1 - i])])
+  }
+  return simplify(node).transform(child => {
+    if (isOperatorNode(child) && child.fn === 'divide') {
+      const numerator = negate(child.args[0])
+      if (numerator !== child.args[0] && isOperatorNode(numerator)) {
+        return new math.OperatorNode('-', 'unaryMinus', [new math.OperatorNode('/', 'divide', [numerator.args[0], child.args[1]])])
+      }
+    }
+    return negate(child)
+  })
+}
+
+// Negative factors in a product are bracketed: 4 \cdot \left(-3\right)
+function factorTex(n: number): string {
+  return n < 0 ? `\\left(${numberTex(n)}\\right)` : numberTex(n)
+}
+
+function round(n: number): number {
+  const rounded = Number(n.toPrecision(12))
+  return Object.is(rounded, -0) ? 0 : rounded
+}
+
+// Coefficients in ascending order, e.g. [6, -5, 1] -> x^{2} - 5x + 6
+function polynomialTex(coefficients: number[], variable: string): string {
+  const terms: string[] = []
+  for (let power = coefficients.length - 1; power >= 0; power--) {
+    const c = round(coefficients[power])
+    if (c === 0) continue
+    const magnitude = Math.abs(c)
+    const factor = power === 0 ? numberTex(magnitude) : magnitude === 1 ? '' : numberTex(magnitude)
+    const symbol = power === 0 ? '' : power === 1 ? variable : `${variable}^{${power}}`
+    const sign = c < 0 ? '-' : '+'
+    terms.push(terms.length ? ` ${sign} ${factor}${symbol}` : `${c < 0 ? '-' : ''}${factor}${symbol}`)
+  }
+  return terms.join('') || '0'
+}
+
+function polynomialText(coefficients: number[], variable: string): string {
+  return coefficients
+    .map((c, power) => `(${round(c)}) * ${variable}^${power}`)
+    .reverse()
+    .join(' + ')
+}
+
+// ---- Evaluate and simplify ----
+
+function evaluateExpression(body: string, scope: Record<string, string>): MathSolution {
+  const node = parseExpression(body)
+  const steps: MathStep[] = [{ description: 'Expression', latex: node.toTex() }]
+  const current = withScope(node, scope, steps)
+
+  let value: unknown
+  try {
+    value = current.compile().evaluate()
+  } catch (error) {
+    // Leftover symbols: "2x + 3x" can still be simplified
+    if (freeSymbols(current).length && /undefined symbol/i.test((error as Error).message)) return simplifyExpression(body, scope)
+    throw error
+  }
+  if (typeof value === 'function' || typeof value === 'string' || value === undefined) throw new Error(`"${body}" is not a value`)
+  if (typeof value === 'number' && !isFinite(value)) throw new Error('The result is not a finite number')
+
+  steps.push(...reductionSteps(current))
+  steps.push({ description: 'Result', latex: `${current.toTex()} = ${valueTex(value)}` })
+
+  return {
+    operation: 'evaluate',
+    expression: body,
+    result: formatValue(value),
+    latex: valueTex(value),
+    value: typeof value === 'number' ? round(value) : undefined,
+    steps,
+  }
+}
+
+function withScope(node: MathNode, scope: Record<string, string>, steps: MathStep[]): MathNode {
+  if (!Object.keys(scope).length) return node
+  const values = parseScope(scope)
+  const substituted = substitute(node, values)
+  steps.push({
+    description: `Substitute ${Object.entries(values).map(([name, value]) => `$${name} = ${value.toTex()}$`).join(', ')}`,
+    latex: substituted.toTex(),
+  })
+  return substituted
+}
+
+function isNumberLeaf(node: MathNode): boolean {
+  node = unwrap(node)
+  return isConstantNode(node) && typeof node.value === 'number' ||
+    isOperatorNode(node) && node.fn === 'unaryMinus' && isNumberLeaf(node.args[0])
+}
+
+// Evaluate the innermost operation, one at a time: 2 + 3 \cdot 4 -> 2 + 12 -> 14
+function reductionSteps(node: MathNode, limit: number = 12): MathStep[] {
+  const steps: MathStep[] = []
+  let current = node
+  for (let i = 0; i < limit; i++) {
+    let reduced: MathNode | undefined
+    const next = current.transform(child => {
+      if (reduced || !(isOperatorNode(child) || isFunctionNode(child))) return child
+      if (isNumberLeaf(child) || !child.args.every(isNumberLeaf)) return child
+      const value = child.compile().evaluate()
+      if (typeof value !== 'number' || !isFinite(value)) return child
+      reduced = child
+      return parse(formatValue(round(value)))
+    })
+    if (!reduced) break
+    current = next
+    steps.push({ description: `Evaluate $${reduced.toTex()}$`, latex: current.toTex() })
+  }
+  // A single operation is already shown by the result step
+  return steps.length > 1 ? steps.slice(0, -1) : []
+}
+
+function simplifyExpression(body: string, scope: Record<string, string>): MathSolution {
+  const node = parseExpression(body)
+  const steps: MathStep[] = [{ description: 'Expression', latex: node.toTex() }]
+  const current = withScope(node, scope, steps)
+  // Variables are single letters; longer names left over are words, e.g. a whole sentence that mentioned "math"
+  const words = freeSymbols(current).filter(name => name.length > 1)
+  if (words.length) throw new Error(`Unknown symbol${words.length > 1 ? 's' : ''} ${words.join(', ')}`)
+  const simplified = tidy(current)
+  if (!freeSymbols(simplified).length && simplified.toString() !== current.toString()) {
+    try {
+      return evaluateExpression(body, scope)
+    } catch {
+      // Fall through to the simplified form, e.g. for expressions with units that don't evaluate
+    }
+  }
+  steps.push({ description: 'Combine like terms and simplify', latex: `${current.toTex()} = ${simplified.toTex()}` })
+  return {
+    operation: 'simplify',
+    expression: body,
+    result: simplified.toString(),
+    latex: simplified.toTex(),
+    steps,
+  }
+}
+
+// ---- Derivatives ----
+
+function differentiate(body: string, preferred: string | undefined, scope: Record<string, string>): MathSolution {
+  const node = parseExpression(body)
+  const variable = pickVariable(freeSymbols(node), preferred)
+  const d = `\\frac{d}{d${variable}}`
+  const result = tidy(derivative(node, variable))
+
+  const steps: MathStep[] = [{ description: `Differentiate with respect to $${variable}$`, latex: `${d}\\left[${node.toTex()}\\right]` }]
+  const terms = sumTerms(node)
+  if (terms.length > 1) {
+    steps.push({
+      description: 'Sum rule: differentiate term by term',
+      latex: terms.map(({ sign, term }, i) => `${i || sign === '-' ? ` ${sign} ` : ''}${d}\\left[${term.toTex()}\\right]`).join(''),
+    })
+  }
+  for (const { term } of terms) {
+    steps.push({ description: derivativeRule(term, variable), latex: `${d}\\left[${term.toTex()}\\right] = ${tidy(derivative(term, variable)).toTex()}` })
+  }
+  if (terms.length > 1) steps.push({ description: 'Simplify', latex: `${d}\\left[${node.toTex()}\\right] = ${result.toTex()}` })
+
+  const solution: MathSolution = {
+    operation: 'derivative',
+    expression: body,
+    variable,
+    result: result.toString(),
+    latex: result.toTex(),
+    steps,
+  }
+
+  // "derivative of x^2 at x = 3"
+  if (Object.keys(scope).length) {
+    const values = parseScope(scope)
+    const value = evaluateNumber(substitute(result, values))
+    const point = Object.entries(values).map(([name, v]) => `${name} = ${v.toTex()}`).join(',\\ ')
+    steps.push({ description: `Evaluate at $${point}$`, latex: `${substitute(result, values).toTex()} = ${numberTex(round(value))}` })
+    solution.value = round(value)
+    solution.result = formatValue(round(value))
+    solution.latex = numberTex(round(value))
+  }
+  return solution
+}
+
+// Top-level terms of a sum, with the sign each one is added with
+function sumTerms(node: MathNode, sign: '+' | '-' = '+'): { sign: '+' | '-'; term: MathNode }[] {
+  node = unwrap(node)
+  if (isOperatorNode(node) && (node.fn === 'add' || node.fn === 'subtract') && node.args.length === 2) {
+    const flip = (s: '+' | '-'): '+' | '-' => s === '+' ? '-' : '+'
+    return [...sumTerms(node.args[0], sign), ...sumTerms(node.args[1], node.fn === 'subtract' ? flip(sign) : sign)]
+  }
+  return [{ sign, term: node }]
+}
+
+function derivativeRule(node: MathNode, variable: string): string {
+  node = unwrap(node)
+  const x = variable
+  if (!dependsOn(node, x)) return 'Constant rule: the derivative of a constant is $0$'
+  if (isSymbolNode(node)) return `$\\frac{d}{d${x}}${x} = 1$`
+  if (isOperatorNode(node)) {
+    const [a, b] = node.args
+    switch (node.fn) {
+      case 'unaryMinus':
+        return `Constant multiple rule: $\\frac{d}{d${x}}[-f] = -f'$`
+      case 'multiply':
+        return !dependsOn(a, x) || !dependsOn(b, x)
+          ? `Constant multiple rule: $\\frac{d}{d${x}}[c f] = c f'$`
+          : `Product rule: $(fg)' = f'g + fg'$`
+      case 'divide':
+        return !dependsOn(b, x)
+          ? `Constant multiple rule: $\\frac{d}{d${x}}\\left[\\frac{f}{c}\\right] = \\frac{f'}{c}$`
+          : `Quotient rule: $\\left(\\frac{f}{g}\\right)' = \\frac{f'g - fg'}{g^2}$`
+      case 'pow':
+        if (!dependsOn(b, x)) {
+          return isSymbolNode(unwrap(a))
+            ? `Power rule: $\\frac{d}{d${x}}${x}^n = n${x}^{n-1}$`
+            : `Power rule with the chain rule: $\\frac{d}{d${x}}u^n = n u^{n-1} u'$`
+        }
+        if (!dependsOn(a, x)) return `Exponential rule with the chain rule: $\\frac{d}{d${x}}a^{u} = a^{u} \\ln(a)\\, u'$`
+        return `Logarithmic differentiation: $\\frac{d}{d${x}}f^{g} = f^{g}\\left(g' \\ln f + \\frac{g f'}{f}\\right)$`
+    }
+  }
+  if (isFunctionNode(node)) {
+    const name = functionName(node)
+    return node.args.length === 1 && isSymbolNode(unwrap(node.args[0]))
+      ? `Derivative of $\\${['sin', 'cos', 'tan', 'exp', 'log', 'sinh', 'cosh', 'tanh'].includes(name) ? name : `operatorname{${name}}`}$`
+      : `Chain rule: $\\frac{d}{d${x}}f(u) = f'(u)\\, u'$ with $u = ${node.args[0]?.toTex()}$`
+  }
+  return 'Differentiate'
+}
+
+// ---- Integrals ----
+
+function integrate(body: string, preferred: string | undefined, bounds?: [string, string]): MathSolution {
+  const node = parseExpression(body)
+  const variable = pickVariable(freeSymbols(node), preferred)
+  const dx = `\\,d${variable}`
+  const integral = bounds
+    ? `\\int_{${parseExpression(bounds[0]).toTex()}}^{${parseExpression(bounds[1]).toTex()}} ${node.toTex()}${dx}`
+    : `\\int ${node.toTex()}${dx}`
+  const steps: MathStep[] = [{ description: `Integrate with respect to $${variable}$`, latex: integral }]
+
+  let antiderivative: MathNode | undefined
+  try {
+    antiderivative = tidy(antiderivativeOf(node, variable, steps))
+    verifyAntiderivative(antiderivative, node, variable)
+  } catch (error) {
+    if (!bounds) throw error
+    antiderivative = undefined
+  }
+
+  if (!bounds) {
+    const F = antiderivative!
+    steps.push({ description: 'Simplify and add the constant of integration', latex: `${integral} = ${F.toTex()} + C` })
+    return {
+      operation: 'integral',
+      expression: body,
+      variable,
+      result: `${F.toString()} + C`,
+      latex: `${F.toTex()} + C`,
+      steps,
+    }
+  }
+
+  const [lower, upper] = bounds.map(bound => evaluateNumber(bound))
+  let value: number | undefined
+  if (antiderivative) {
+    const F = antiderivative
+    const Fb = evaluateNumber(F, { [variable]: upper })
+    const Fa = evaluateNumber(F, { [variable]: lower })
+    if (isFinite(Fb) && isFinite(Fa)) {
+      value = Fb - Fa
+      steps.push({
+        description: 'Fundamental theorem of calculus: evaluate the antiderivative at the bounds',
+        latex: `\\left[${F.toTex()}\\right]_{${numberTex(lower)}}^{${numberTex(upper)}} = ${numberTex(round(Fb))} - \\left(${numberTex(round(Fa))}\\right) = ${numberTex(round(value))}`,
+      })
+    }
+  }
+  if (value === undefined) {
+    value = simpson(node, variable, lower, upper)
+    steps.push({
+      description: "No closed-form antiderivative with the supported rules; approximate with Simpson's rule ($n = 1000$)",
+      latex: `${integral} \\approx ${formatValue(round(value))}`,
+    })
+  }
+  return {
+    operation: 'integral',
+    expression: body,
+    variable,
+    result: formatValue(round(value)),
+    latex: numberTex(round(value)),
+    value: round(value),
+    steps,
+  }
+}
+
+// { a, b } when node is a*x + b with numeric a != 0
+function linearCoefficients(node: MathNode, variable: string): { a: number; b: number } | null {
+  try {
+    if (freeSymbols(node).some(name => name !== variable)) return null
+    const slope = derivative(node, variable)
+    if (dependsOn(slope, variable)) return null
+    const a = evaluateNumber(slope)
+    const b = evaluateNumber(node, { [variable]: 0 })
+    return a && isFinite(a) && isFinite(b) ? { a, b } : null
+  } catch {
+    return null
+  }
+}
+
+// Ascending coefficients when node is a polynomial in variable alone
+function polynomialCoefficients(node: MathNode, variable: string): number[] | null {
+  try {
+    if (freeSymbols(node).some(name => name !== variable)) return null
+    const result = rationalize(node, {}, true) as any
+    if (result.denominator || result.variables.length !== 1 || !result.coefficients?.length) return null
+    const coefficients = result.coefficients.map(Number)
+    return coefficients.every(isFinite) ? coefficients : null
+  } catch {
+    return null
+  }
+}
+
+// Antiderivatives of f(u) with respect to u, for u = a*x + b
+const STANDARD_INTEGRALS: Record<string, (u: string) => string> = {
+  sin: u => `-cos(${u})`,
+  cos: u => `sin(${u})`,
+  tan: u => `-log(abs(cos(${u})))`,
+  exp: u => `exp(${u})`,
+  sinh: u => `cosh(${u})`,
+  cosh: u => `sinh(${u})`,
+  sqrt: u => `2/3 * (${u})^(3/2)`,
+  log: u => `(${u}) * log(${u}) - (${u})`,
+}
+
+// Repeated antiderivatives of sin, cos and exp for integration by parts: the k-th one is cycle[k % 4] / a^(k + 1)
+const PARTS_CYCLES: Record<string, ((u: string) => string)[]> = {
+  exp: [u => `exp(${u})`, u => `exp(${u})`, u => `exp(${u})`, u => `exp(${u})`],
+  sin: [u => `-cos(${u})`, u => `-sin(${u})`, u => `cos(${u})`, u => `sin(${u})`],
+  cos: [u => `sin(${u})`, u => `-cos(${u})`, u => `-sin(${u})`, u => `cos(${u})`],
+}
+
+// Antiderivative as a mathjs expression string, recording the rule used at each node. Throws when no rule applies.
+function antiderivativeOf(input: MathNode, x: string, steps: MathStep[]): string {
+  const node = unwrap(input)
+  const dx = `\\,d${x}`
+  const record = (description: string, result: string): string => {
+    steps.push({ description, latex: `\\int ${node.toTex()}${dx} = ${tidy(result).toTex()}` })
+    return result
+  }
+
+  if (!dependsOn(node, x)) return record('Constant rule', `(${node}) * ${x}`)
+  if (isSymbolNode(node)) return record(`Power rule: $\\int ${x}^n${dx} = \\frac{${x}^{n+1}}{n+1}$`, `${x}^2 / 2`)
+
+  if (isOperatorNode(node)) {
+    const [a, b] = node.args
+    switch (node.fn) {
+      case 'unaryPlus':
+        return antiderivativeOf(a, x, steps)
+      case 'unaryMinus':
+        return `-(${antiderivativeOf(a, x, steps)})`
+      case 'add':
+      case 'subtract': {
+        const op = node.fn === 'add' ? '+' : '-'
+        steps.push({ description: 'Sum rule: integrate term by term', latex: `\\int ${node.toTex()}${dx} = \\int ${a.toTex()}${dx} ${op} \\int ${b.toTex()}${dx}` })
+        return `(${antiderivativeOf(a, x, steps)}) ${op} (${antiderivativeOf(b, x, steps)})`
+      }
+      case 'multiply': {
+        const [constant, other] = !dependsOn(a, x) ? [a, b] : !dependsOn(b, x) ? [b, a] : [null, null]
+        if (constant && other) {
+          steps.push({ description: 'Constant multiple rule', latex: `\\int ${node.toTex()}${dx} = ${constant.toTex()} \\int ${other.toTex()}${dx}` })
+          return `(${constant}) * (${antiderivativeOf(other, x, steps)})`
+        }
+        const polynomial = polynomialCoefficients(node, x)
+        if (polynomial) return integratePolynomial(node, polynomial, x, steps)
+        const parts = integrateByParts(node, a, b, x) || integrateByParts(node, b, a, x)
+        if (parts) {
+          steps.push(parts.step)
+          return parts.result
+        }
+        break
+      }
+      case 'divide': {
+        if (!dependsOn(b, x)) {
+          steps.push({ description: 'Constant multiple rule', latex: `\\int ${node.toTex()}${dx} = \\frac{1}{${b.toTex()}} \\int ${a.toTex()}${dx}` })
+          return `(${antiderivativeOf(a, x, steps)}) / (${b})`
+        }
+        if (!dependsOn(a, x)) {
+          const linear = linearCoefficients(b, x)
+          if (linear) {
+            return record(
+              `Logarithm rule: $\\int \\frac{1}{u}\\,du = \\ln\\left|u\\right|$ with $u = ${b.toTex()}$`,
+              `(${a}) / (${linear.a}) * log(abs(${b}))`
+            )
+          }
+          // c / (p x^2 + q) with p, q > 0
+          const quadratic = polynomialCoefficients(b, x)
+          if (quadratic?.length === 3 && quadratic[1] === 0 && quadratic[2] > 0 && quadratic[0] > 0) {
+            const [q, , p] = quadratic
+            return record(
+              `Inverse tangent rule: $\\int \\frac{du}{1 + u^2} = \\arctan u$`,
+              `(${a}) / sqrt(${p * q}) * atan(${x} * sqrt(${p / q}))`
+            )
+          }
+          // c / u^n is c * u^-n
+          const base = unwrap(b)
+          if (isOperatorNode(base) && base.fn === 'pow' && !dependsOn(base.args[1], x)) {
+            return antiderivativeOf(parse(`(${a}) * (${base.args[0]})^(-(${base.args[1]}))`), x, steps)
+          }
+        }
+        break
+      }
+      case 'pow': {
+        if (!dependsOn(b, x)) {
+          const linear = linearCoefficients(a, x)
+          if (linear) {
+            const n = evaluateNumber(b)
+            const isVariable = isSymbolNode(unwrap(a))
+            if (n === -1) {
+              return record(
+                `Logarithm rule: $\\int \\frac{1}{u}\\,du = \\ln\\left|u\\right|$${isVariable ? '' : ` with $u = ${a.toTex()}$`}`,
+                `log(abs(${a})) / (${linear.a})`
+              )
+            }
+            return record(
+              isVariable
+                ? `Power rule: $\\int ${x}^n${dx} = \\frac{${x}^{n+1}}{n+1}$`
+                : `Substitute $u = ${a.toTex()}$, $du = ${numberTex(linear.a)}${dx}$, then apply the power rule`,
+              `(${a})^(${round(n + 1)}) / (${round(linear.a * (n + 1))})`
+            )
+          }
+        }
+        if (!dependsOn(a, x)) {
+          const linear = linearCoefficients(b, x)
+          if (linear) {
+            const base = unwrap(a)
+            const natural = isSymbolNode(base) && base.name === 'e'
+            return record(
+              natural
+                ? `Exponential rule: $\\int e^{u}\\,du = e^{u}$${isSymbolNode(unwrap(b)) ? '' : ` with $u = ${b.toTex()}$`}`
+                : `Exponential rule: $\\int a^{u}\\,du = \\frac{a^{u}}{\\ln a}$`,
+              natural ? `e^(${b}) / (${linear.a})` : `(${a})^(${b}) / ((${linear.a}) * log(${a}))`
+            )
+          }
+        }
+        break
+      }
+    }
+  }
+
+  if (isFunctionNode(node) && node.args.length === 1 && STANDARD_INTEGRALS[functionName(node)]) {
+    const [u] = node.args
+    const linear = linearCoefficients(u, x)
+    if (linear) {
+      const name = functionName(node)
+      const isVariable = isSymbolNode(unwrap(u))
+      return record(
+        isVariable ? `Standard integral of $\\${name === 'sqrt' ? 'sqrt{}' : name}$` : `Substitute $u = ${u.toTex()}$, $du = ${numberTex(linear.a)}${dx}$`,
+        `(${STANDARD_INTEGRALS[name](u.toString())}) / (${linear.a})`
+      )
+    }
+  }
+
+  // (x + 1)^2, x * (x - 3) and other products that expand to a polynomial
+  const polynomial = polynomialCoefficients(node, x)
+  if (polynomial) return integratePolynomial(node, polynomial, x, steps)
+
+  throw new Error(`No antiderivative rule matches ${node.toString()}`)
+}
+
+function integratePolynomial(node: MathNode, coefficients: number[], x: string, steps: MathStep[]): string {
+  const integrated = [0, ...coefficients.map((c, power) => c / (power + 1))]
+  steps.push({
+    description: 'Expand and apply the power rule to each term',
+    latex: `\\int ${node.toTex()}\\,d${x} = \\int \\left(${polynomialTex(coefficients, x)}\\right)d${x} = ${polynomialTex(integrated, x)}`,
+  })
+  return polynomialText(integrated, x)
+}
+
+// Tabular integration by parts for polynomial * sin, cos or exp of a*x + b:
+// \int P g = P G_1 - P' G_2 + P'' G_3 - ..., where G_k is the k-th antiderivative of g
+function integrateByParts(node: MathNode, p: MathNode, g: MathNode, x: string): { result: string; step: MathStep } | null {
+  if (!polynomialCoefficients(p, x)) return null
+  const inner = unwrap(g)
+  let cycle: ((u: string) => string)[] | undefined
+  let u: MathNode | undefined
+  if (isFunctionNode(inner) && PARTS_CYCLES[functionName(inner)]) {
+    cycle = PARTS_CYCLES[functionName(inner)]
+    u = inner.args[0]
+  } else if (isOperatorNode(inner) && inner.fn === 'pow' && isSymbolNode(unwrap(inner.args[0])) && (unwrap(inner.args[0]) as any).name === 'e') {
+    cycle = PARTS_CYCLES.exp
+    u = inner.args[1]
+  }
+  const linear = u && linearCoefficients(u, x)
+  if (!cycle || !u || !linear) return null
+
+  const terms: string[] = []
+  let current: MathNode = p
+  for (let k = 0; k < 20; k++) {
+    terms.push(`${k % 2 ? '-' : '+'} (${current}) * (${cycle[k % 4](u.toString())}) / (${round(linear.a ** (k + 1))})`)
+    if (!dependsOn(current, x)) break
+    current = derivative(current, x)
+  }
+  const result = terms.join(' ')
+  return {
+    result,
+    step: {
+      description: `Integration by parts, repeated until the polynomial factor vanishes: $\\int u\\,dv = uv - \\int v\\,du$ with $u = ${p.toTex()}$`,
+      latex: `\\int ${node.toTex()}\\,d${x} = ${tidy(result).toTex()}`,
+    },
+  }
+}
+
+// The rules above are checked by differentiating the result and comparing it to the integrand at a few points
+function verifyAntiderivative(F: MathNode, f: MathNode, x: string) {
+  const dF = derivative(F, x).compile()
+  const integrand = f.compile()
+  let compared = 0
+  for (const point of [0.37, 0.81, 1.29, 2.13, -0.58, -1.7]) {
+    const expected = integrand.evaluate({ [x]: point })
+    const actual = dF.evaluate({ [x]: point })
+    if (typeof expected !== 'number' || typeof actual !== 'number' || !isFinite(expected) || !isFinite(actual)) continue
+    if (Math.abs(expected - actual) > 1e-6 * (1 + Math.abs(expected))) throw new Error(`Integration check failed for ${f.toString()}`)
+    compared++
+  }
+  if (compared < 2) throw new Error(`Couldn't check the antiderivative of ${f.toString()}`)
+}
+
+function simpson(node: MathNode, x: string, lower: number, upper: number, intervals: number = 1000): number {
+  const f = node.compile()
+  const h = (upper - lower) / intervals
+  let sum = 0
+  for (let i = 0; i <= intervals; i++) {
+    const y = f.evaluate({ [x]: lower + i * h })
+    if (typeof y !== 'number' || !isFinite(y)) throw new Error(`The integrand is not finite at ${x} = ${formatValue(lower + i * h)}`)
+    sum += y * (i === 0 || i === intervals ? 1 : i % 2 ? 4 : 2)
+  }
+  return sum * h / 3
+}
+
+// ---- Equations ----
+
+function solveEquations(body: string, preferred: string | undefined, scope: Record<string, string>): MathSolution {
+  const equations = splitTopLevel(body, /^(?:,|;|\s+and\s+)/i)
+  const values = parseScope(scope)
+  const sides = equations.map(equation => {
+    const parts = equation.split(/(?<![<>=!])=(?!=)/)
+    if (parts.length > 2) throw new Error(`"${equation}" has more than one "="`)
+    const [lhs, rhs = '0'] = parts.map(part => part.trim())
+    if (!lhs || !rhs) throw new Error(`"${equation}" needs an expression on both sides of "="`)
+    return [substitute(parseExpression(lhs), values), substitute(parseExpression(rhs), values)] as [MathNode, MathNode]
+  })
+  return sides.length > 1 ? solveLinearSystem(body, sides) : solveEquation(body, sides[0], preferred)
+}
+
+function solveEquation(body: string, [lhs, rhs]: [MathNode, MathNode], preferred?: string): MathSolution {
+  const f: MathNode = isConstantNode(rhs) && rhs.value === 0 ? lhs : new math.OperatorNode('-', 'subtract', [lhs, new math.ParenthesisNode(rhs)])
+  const symbols = freeSymbols(f)
+  const x = pickVariable(symbols, preferred && symbols.includes(preferred) ? preferred : undefined)
+  const steps: MathStep[] = [{ description: 'Equation', latex: `${lhs.toTex()} = ${rhs.toTex()}` }]
+  if (f !== lhs) steps.push({ description: 'Move every term to the left-hand side', latex: `${f.toTex()} = 0` })
+
+  let roots: Root[] | 'all' = []
+  let numeric = false
+  const others = symbols.filter(name => name !== x)
+  const rational = !others.length ? rationalParts(f, x) : null
+
+  if (others.length) {
+    roots = solveLiteral(f, x, steps)
+  } else if (rational) {
+    const { coefficients, denominator } = rational
+    if (denominator) {
+      steps.push({ description: 'Multiply both sides by the denominator', latex: `${polynomialTex(coefficients, x)} = 0` })
+    } else {
+      steps.push({ description: 'Collect like terms', latex: `${polynomialTex(coefficients, x)} = 0` })
+    }
+    roots = solvePolynomial(coefficients, x, steps)
+    // Roots of the numerator that zero the denominator aren't solutions of the original equation
+    if (denominator && roots !== 'all') {
+      const excluded = roots.filter(root => {
+        const value = Number(root.text)
+        return isFinite(value) && Math.abs(evaluateNumber(denominator, { [x]: value })) < 1e-9
+      })
+      if (excluded.length) {
+        roots = roots.filter(root => !excluded.includes(root))
+        steps.push({ description: `Discard ${excluded.map(root => `$${x} = ${root.latex}$`).join(', ')}: the denominator is zero there` })
+      }
+    }
+  } else {
+    numeric = true
+    roots = findRootsNumerically(f, x, steps)
+  }
+
+  const texts = roots === 'all' ? [] : roots.map(root => `${x} = ${root.text}`)
+  const result = roots === 'all' ? `Every ${x} is a solution` : texts.length ? texts.join(' or ') : 'No solution'
+  const latex = roots === 'all'
+    ? `${x} \\in \\mathbb{R}`
+    : roots.length ? roots.map((root, i) => `${x}${roots.length > 1 ? `_{${i + 1}}` : ''} ${numeric ? '\\approx' : '='} ${root.latex}`).join(',\\quad ') : '\\text{no solution}'
+  steps.push({ description: roots === 'all' || roots.length ? 'Solution' : 'The equation has no solution', latex })
+
+  return {
+    operation: 'solve',
+    expression: body,
+    variable: x,
+    result,
+    latex,
+    value: roots !== 'all' && roots.length === 1 && isFinite(Number(roots[0].text)) ? Number(roots[0].text) : undefined,
+    solutions: texts,
+    steps,
+  }
+}
+
+// Numerator coefficients of f in x, plus the denominator when f is a rational function
+function rationalParts(f: MathNode, x: string): { coefficients: number[]; denominator: MathNode | null } | null {
+  try {
+    const result = rationalize(f, {}, true) as any
+    if (result.variables.length > 1 || (result.variables.length === 1 && result.variables[0] !== x)) return null
+    const coefficients: number[] = result.coefficients?.length ? result.coefficients.map(Number) : [evaluateNumber(result.numerator)]
+    return coefficients.every(isFinite) ? { coefficients, denominator: result.denominator || null } : null
+  } catch {
+    return null
+  }
+}
+
+// Equations with other symbols, e.g. "a*x + b = c" for x, when they're linear in x
+function solveLiteral(f: MathNode, x: string, steps: MathStep[]): Root[] {
+  const slope = simplify(derivative(f, x))
+  if (isConstantNode(slope) && slope.value === 0) throw new Error(`${x} does not appear in the equation`)
+  if (dependsOn(slope, x)) throw new Error(`Only equations linear in ${x} can be solved when other symbols are present`)
+  const constant = simplify(substitute(f, { [x]: parse('0') }))
+  steps.push({ description: `Collect the terms in $${x}$`, latex: `\\left(${slope.toTex()}\\right)${x} + ${constant.toTex()} = 0` })
+  const root = tidy(`-(${constant}) / (${slope})`)
+  steps.push({ description: `Divide by $${slope.toTex()}$`, latex: `${x} = ${root.toTex()}` })
+  return [{ text: root.toString(), latex: root.toTex() }]
+}
+
+function realRoot(value: number): Root {
+  return { text: formatValue(round(value)), latex: numberTex(round(value)) }
+}
+
+function solvePolynomial(input: number[], x: string, steps: MathStep[]): Root[] | 'all' {
+  const coefficients = [...input]
+  while (coefficients.length > 1 && Math.abs(coefficients[coefficients.length - 1]) < 1e-12) coefficients.pop()
+  const degree = coefficients.length - 1
+
+  if (degree === 0) return Math.abs(coefficients[0]) < 1e-12 ? 'all' : []
+
+  const roots: Root[] = []
+  // x = 0 roots: factor out the lowest power of x
+  let zeros = 0
+  while (Math.abs(coefficients[zeros]) < 1e-12) zeros++
+  let rest = coefficients.slice(zeros)
+  if (zeros && rest.length > 1) {
+    steps.push({
+      description: `Factor out $${zeros > 1 ? `${x}^{${zeros}}` : x}$`,
+      latex: `${zeros > 1 ? `${x}^{${zeros}}` : x}\\left(${polynomialTex(rest, x)}\\right) = 0`,
+    })
+  }
+  if (zeros) roots.push(realRoot(0))
+
+  // Rational root theorem for integer polynomials of degree 3 and up
+  if (rest.length > 3 && rest.every(Number.isInteger)) {
+    for (const candidate of rationalCandidates(rest[0], rest[rest.length - 1])) {
+      while (rest.length > 3 && Math.abs(horner(rest, candidate)) < 1e-9) {
+        const quotient = syntheticDivision(rest, candidate)
+        steps.push({
+          description: `Rational root theorem: $${x} = ${numberTex(candidate)}$ is a root, so divide by $\\left(${polynomialTex([-candidate, 1], x)}\\right)$`,
+          latex: `\\left(${polynomialTex([-candidate, 1], x)}\\right)\\left(${polynomialTex(quotient, x)}\\right) = 0`,
+        })
+        roots.push(realRoot(candidate))
+        rest = quotient
+      }
+    }
+  }
+
+  if (rest.length === 2) {
+    const [b, a] = rest
+    steps.push({ description: `Isolate $${x}$`, latex: `${x} = -\\frac{${numberTex(b)}}{${numberTex(a)}} = ${numberTex(round(-b / a))}` })
+    roots.push(realRoot(-b / a))
+  } else if (rest.length === 3) {
+    roots.push(...solveQuadratic(rest, x, steps))
+  } else if (rest.length > 3) {
+    steps.push({ description: `No rational roots remain; approximate the roots of the degree ${rest.length - 1} factor numerically (Durand-Kerner)` })
+    for (const [re, im] of durandKerner(rest)) {
+      roots.push(Math.abs(im) < 1e-9
+        ? realRoot(re)
+        : { text: formatValue(math.complex(round(re), round(im))), latex: valueTex(math.complex(round(re), round(im))) })
+    }
+  }
+  return dedupeRoots(roots)
+}
+
+function dedupeRoots(roots: Root[]): Root[] {
+  return roots.filter((root, i) => roots.findIndex(other => other.text === root.text) === i)
+}
+
+function solveQuadratic([c, b, a]: number[], x: string, steps: MathStep[]): Root[] {
+  const discriminant = round(b * b - 4 * a * c)
+  steps.push({ description: 'Identify the coefficients', latex: `a = ${numberTex(a)},\\quad b = ${numberTex(b)},\\quad c = ${numberTex(c)}` })
+  steps.push({
+    description: 'Compute the discriminant',
+    latex: `\\Delta = b^2 - 4ac = \\left(${numberTex(b)}\\right)^2 - 4 \\cdot ${factorTex(a)} \\cdot ${factorTex(c)} = ${numberTex(discriminant)}`,
+  })
+  steps.push({
+    description: 'Apply the quadratic formula',
+    latex: `${x} = \\frac{-b \\pm \\sqrt{\\Delta}}{2a} = \\frac{${numberTex(-b)} \\pm \\sqrt{${numberTex(discriminant)}}}{${numberTex(2 * a)}}`,
+  })
+
+  if (discriminant === 0) {
+    steps.push({ description: 'The discriminant is zero, so there is one repeated root' })
+    return [realRoot(-b / (2 * a))]
+  }
+
+  const magnitude = Math.sqrt(Math.abs(discriminant))
+  const surd = [a, b, c].every(Number.isInteger) && Number.isInteger(discriminant) && !Number.isInteger(magnitude)
+    ? surdForm(-b, Math.abs(discriminant), 2 * a)
+    : null
+
+  if (discriminant > 0) {
+    const roots = ([-1, 1] as const).map(sign => {
+      const value = (-b + sign * magnitude) / (2 * a)
+      return { value, root: surd ? { ...realRoot(value), latex: surdForm(-b, discriminant, 2 * a, sign < 0 ? '-' : '+') } : realRoot(value) }
+    })
+    if (surd) steps.push({ description: 'Simplify the square root', latex: `${x} = ${surd}` })
+    return roots.sort((p, q) => p.value - q.value).map(({ root }) => root)
+  }
+
+  steps.push({ description: 'The discriminant is negative, so the roots are complex conjugates' })
+  const re = round(-b / (2 * a))
+  const im = round(Math.abs(magnitude / (2 * a)))
+  return [-1, 1].map(sign => {
+    const value = math.complex(re, sign * im)
+    return { text: formatValue(value), latex: `${re ? `${numberTex(re)} ${sign < 0 ? '-' : '+'} ` : sign < 0 ? '-' : ''}${numberTex(im)}i` }
+  })
+}
+
+// (p ± √d) / q with the square factor of d pulled out and common factors cancelled, e.g. (4 ± √8) / 2 -> 2 ± √2
+function surdForm(p: number, d: number, q: number, sign: '\\pm' | '-' | '+' = '\\pm'): string {
+  let outside = 1
+  let inside = d
+  for (let k = Math.floor(Math.sqrt(d)); k > 1; k--) {
+    if (inside % (k * k) === 0) {
+      outside = k
+      inside = inside / (k * k)
+      break
+    }
+  }
+  const g = gcd(gcd(Math.abs(p), outside), Math.abs(q))
+  let [num, out, den] = [p / g, outside / g, q / g]
+  if (den < 0) {
+    [num, den] = [-num, -den]
+    if (sign !== '\\pm') sign = sign === '-' ? '+' : '-'
+  }
+  const root = `${out === 1 ? '' : out}\\sqrt{${inside}}`
+  const numerator = num ? `${num} ${sign} ${root}` : `${sign === '+' ? '' : `${sign} `}${root}`
+  return den === 1 ? numerator : `\\frac{${numerator}}{${den}}`
+}
+
+function gcd(a: number, b: number): number {
+  return b ? gcd(b, a % b) : a
+}
+
+// ±p/q for p dividing the constant term and q dividing the leading coefficient
+function rationalCandidates(constant: number, leading: number): number[] {
+  const divisors = (n: number): number[] => {
+    n = Math.abs(n)
+    if (n > 1e6) return []
+    const result: number[] = []
+    for (let d = 1; d <= n; d++) if (n % d === 0) result.push(d)
+    return result
+  }
+  const candidates = new Set<number>()
+  for (const p of divisors(constant)) {
+    for (const q of divisors(leading)) {
+      candidates.add(p / q)
+      candidates.add(-p / q)
+    }
+  }
+  return [...candidates].sort((a, b) => Math.abs(a) - Math.abs(b) || a - b)
+}
+
+function horner(coefficients: number[], x: number): number {
+  return coefficients.reduceRight((sum, c) => sum * x + c, 0)
+}
+
+// Divide by (x - r); coefficients ascending in and out
+function syntheticDivision(coefficients: number[], r: number): number[] {
+  const quotient: number[] = []
+  let carry = 0
+  for (let i = coefficients.length - 1; i > 0; i--) {
+    carry = coefficients[i] + carry * r
+    quotient.unshift(round(carry))
+  }
+  return quotient
+}
+
+// All complex roots at once as [re, im] pairs
+function durandKerner(coefficients: number[]): [number, number][] {
+  const degree = coefficients.length - 1
+  const lead = coefficients[degree]
+  const monic = coefficients.map(c => c / lead)
+  const roots = Array.from({ length: degree }, (_, k) => math.complex({ r: 1, phi: 2 * Math.PI * k / degree + 0.4 }) as any)
+  const evaluate = (z: any) => monic.reduceRight((sum: any, c) => math.add(math.multiply(sum, z), c), math.complex(0, 0))
+
+  for (let iteration = 0; iteration < 500; iteration++) {
+    let change = 0
+    for (let i = 0; i < degree; i++) {
+      let denominator: any = math.complex(1, 0)
+      for (let j = 0; j < degree; j++) if (j !== i) denominator = math.multiply(denominator, math.subtract(roots[i], roots[j]))
+      const delta = math.divide(evaluate(roots[i]), denominator)
+      roots[i] = math.subtract(roots[i], delta)
+      change = Math.max(change, math.abs(delta as any) as any)
+    }
+    if (change < 1e-14) break
+  }
+  return roots
+    .map(z => [z.re, z.im] as [number, number])
+    .sort((p, q) => p[0] - q[0] || p[1] - q[1])
+}
+
+// Sign changes of f on a grid, refined by bisection; for equations like sin(x) = 0.5 or 2^x = x + 3
+function findRootsNumerically(f: MathNode, x: string, steps: MathStep[]): Root[] {
+  const compiled = f.compile()
+  const at = (value: number): number => {
+    const y = compiled.evaluate({ [x]: value })
+    return typeof y === 'number' ? y : NaN
+  }
+  steps.push({
+    description: `The equation isn't polynomial in $${x}$, so search $[-${NUMERIC_SEARCH_RANGE}, ${NUMERIC_SEARCH_RANGE}]$ for sign changes and refine each root by bisection`,
+  })
+
+  const roots: number[] = []
+  const samples = 4000
+  const width = 2 * NUMERIC_SEARCH_RANGE / samples
+  let left = -NUMERIC_SEARCH_RANGE
+  let fLeft = at(left)
+  for (let i = 1; i <= samples; i++) {
+    const right = -NUMERIC_SEARCH_RANGE + i * width
+    const fRight = at(right)
+    if (fLeft === 0) roots.push(left)
+    else if (isFinite(fLeft) && isFinite(fRight) && fLeft * fRight < 0) {
+      let [a, b, fa] = [left, right, fLeft]
+      for (let j = 0; j < 60; j++) {
+        const mid = (a + b) / 2
+        const fMid = at(mid)
+        if (fa * fMid <= 0) b = mid
+        else [a, fa] = [mid, fMid]
+      }
+      const root = (a + b) / 2
+      // Poles like tan(x) at pi/2 also change sign
+      if (Math.abs(at(root)) < 1e-6) roots.push(root)
+    }
+    left = right
+    fLeft = fRight
+  }
+  // Periodic equations have a root in every period; keep the ones closest to zero
+  if (roots.length > MAX_NUMERIC_ROOTS) {
+    steps.push({ description: `Found ${roots.length} roots; showing the ${MAX_NUMERIC_ROOTS} closest to $0$` })
+  }
+  const closest = [...roots].sort((p, q) => Math.abs(p) - Math.abs(q)).slice(0, MAX_NUMERIC_ROOTS).sort((p, q) => p - q)
+  return dedupeRoots(closest.map(realRoot))
+}
+
+// Cramer's rule: x_i = det(A_i) / det(A), where A_i is A with column i replaced by b
+function solveLinearSystem(body: string, equations: [MathNode, MathNode][]): MathSolution {
+  const functions = equations.map(([lhs, rhs]) => new math.OperatorNode('-', 'subtract', [lhs, new math.ParenthesisNode(rhs)]) as MathNode)
+  const variables = [...new Set(functions.flatMap(freeSymbols))].sort((a, b) => {
+    const rank = (name: string) => VARIABLE_PREFERENCE.includes(name) ? VARIABLE_PREFERENCE.indexOf(name) : VARIABLE_PREFERENCE.length
+    return rank(a) - rank(b) || a.localeCompare(b)
+  })
+  if (variables.length !== functions.length) {
+    throw new Error(`A system needs as many equations as unknowns (${functions.length} equations, ${variables.length} unknowns: ${variables.join(', ')})`)
+  }
+
+  const zero = Object.fromEntries(variables.map(name => [name, 0]))
+  const A = functions.map(f => variables.map(name => {
+    const coefficient = derivative(f, name)
+    if (freeSymbols(coefficient).length) throw new Error('Only systems of linear equations can be solved')
+    return evaluateNumber(coefficient)
+  }))
+  const b = functions.map(f => -evaluateNumber(f, zero))
+
+  const matrixTex = (rows: number[][]) => `\\begin{bmatrix}${rows.map(row => row.map(numberTex).join(' & ')).join(' \\\\ ')}\\end{bmatrix}`
+  const steps: MathStep[] = [
+    { description: 'System of equations', latex: `\\begin{cases}${equations.map(([lhs, rhs]) => `${lhs.toTex()} = ${rhs.toTex()}`).join(' \\\\ ')}\\end{cases}` },
+    {
+      description: 'Write the system in matrix form $A\\mathbf{x} = \\mathbf{b}$',
+      latex: `${matrixTex(A)}\\begin{bmatrix}${variables.join(' \\\\ ')}\\end{bmatrix} = ${matrixTex(b.map(value => [value]))}`,
+    },
+  ]
+
+  const D = round(det(A) as number)
+  steps.push({ description: 'Compute the determinant', latex: `\\det(A) = ${numberTex(D)}` })
+  if (Math.abs(D) < 1e-12) {
+    steps.push({ description: 'The determinant is zero, so the system has no unique solution' })
+    return { operation: 'solve', expression: body, result: 'No unique solution', latex: '\\det(A) = 0', solutions: [], steps }
+  }
+
+  const roots = variables.map((name, i) => {
+    const Ai = A.map((row, r) => row.map((value, c) => c === i ? b[r] : value))
+    const Di = round(det(Ai) as number)
+    const value = round(Di / D)
+    steps.push({ description: `Cramer's rule for $${name}$`, latex: `${name} = \\frac{\\det(A_{${name}})}{\\det(A)} = \\frac{${numberTex(Di)}}{${numberTex(D)}} = ${numberTex(value)}` })
+    return { name, value }
+  })
+
+  const latex = roots.map(({ name, value }) => `${name} = ${numberTex(value)}`).join(',\\quad ')
+  const solutions = roots.map(({ name, value }) => `${name} = ${formatValue(value)}`)
+  steps.push({ description: 'Solution', latex })
+  return { operation: 'solve', expression: body, result: solutions.join(', '), latex, solutions, steps }
+}
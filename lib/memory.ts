@@ -0,0 +1,368 @@
+// Long-term user memory: durable facts and preferences picked up from chats ("remember that…" or plain
+// statements like "I live in Lyon"), stored with the message they came from and added to the system prompt.
+import { supabase } from './supabase'
+import { getEmbeddingProvider } from './embeddings'
+import type { ConversationContext, UserMemory } from '@/types'
+
+// Owner of memories made without an access token (see getRequestUserId in lib/auth.ts)
+const DEFAULT_USER_ID = 'default'
+const MEMORY_COLUMNS = 'id, content, kind, source, conversation_id, message_id, created_at, updated_at, last_used_at'
+
+// With this many memories or fewer, all of them go into the prompt; above it only the most relevant do
+const MAX_PROMPT_MEMORIES = 8
+const MIN_RELEVANCE = 0.15
+// New memories this close to an existing one are treated as the same memory
+const DUPLICATE_SIMILARITY = 0.9
+// Closest memories compared against a new or forgotten statement
+const MATCH_CANDIDATES = 5
+const MAX_MEMORY_LENGTH = 300
+
+interface MemoryRow {
+  id: string
+  content: string
+  kind: UserMemory['kind']
+  source: UserMemory['source']
+  conversation_id: string | null
+  message_id: string | null
+  created_at: string
+  updated_at: string
+  last_used_at: string | null
+}
+
+// Row of match_memories() (database/migrations/008_memory_search.sql)
+interface MemoryMatchRow extends MemoryRow {
+  similarity: number | null // Cosine similarity; null when the memory has no vector from the query's model
+  score: number
+}
+
+type MemoryMatch = UserMemory & { similarity: number | null; score: number }
+
+interface MemoryCandidate {
+  content: string
+  kind: UserMemory['kind']
+  source: Exclude<UserMemory['source'], 'manual'>
+}
+
+// "remember that…", "remember: …", "don't forget (that) …", "please note that …"
+const EXPLICIT_PATTERN = /^(?:please\s+)?(?:remember|don'?t\s+forget|keep\s+in\s+mind|note)(?:\s+that|\s*:)?\s+(.+)$/i
+const FORGET_PATTERN = /^(?:please\s+)?forget\s+(?:that\s+)?/i
+
+// Statements about the user that are worth keeping without being asked
+const AUTOMATIC_PATTERNS: { pattern: RegExp; kind: UserMemory['kind'] }[] = [
+  { pattern: /\bmy name is\b|\bcall me\b/i, kind: 'fact' },
+  { pattern: /\bi(?:'m| am) (?:a|an) (?:\w+ )?(?:developer|engineer|designer|student|teacher|doctor|nurse|researcher|scientist|manager|writer|lawyer|founder|analyst|consultant)\b/i, kind: 'fact' },
+  { pattern: /\bi (?:work|study) (?:as|at|for|in|on)\b/i, kind: 'fact' },
+  { pattern: /\bi (?:live|am based) in\b|\bi(?:'m| am) (?:from|based in)\b/i, kind: 'fact' },
+  { pattern: /\bi(?:'m| am) (?:allergic|vegetarian|vegan|left-handed|colou?r ?blind)\b/i, kind: 'fact' },
+  { pattern: /\bmy (?:wife|husband|partner|son|daughter|kids?|children|dog|cat|birthday|job|company)\b.* (?:is|are)\b/i, kind: 'fact' },
+  { pattern: /\bi (?:prefer|(?:really )?(?:like|love|hate|dislike|enjoy)|would rather|'d rather)\b/i, kind: 'preference' },
+  { pattern: /^(?:from now on|always|never|please always|please never)\b/i, kind: 'preference' }
+]
+
+const PREFERENCE_PATTERN = /\b(?:prefer|like|love|hate|dislike|enjoy|rather|always|never|from now on)\b/i
+
+function fromMemoryRow(row: MemoryRow): UserMemory {
+  return {
+    id: row.id,
+    content: row.content,
+    kind: row.kind,
+    source: row.source,
+    conversationId: row.conversation_id,
+    messageId: row.message_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastUsedAt: row.last_used_at
+  }
+}
+
+function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim()
+}
+
+// Memories are read by the model as notes about "the user", not as the user's own words
+export function toThirdPerson(statement: string): string {
+  const text = statement
+    .replace(/\bI am\b|\bI'm\b/gi, 'the user is')
+    .replace(/\bI was\b/gi, 'the user was')
+    .replace(/\bI have\b|\bI've\b/gi, 'the user has')
+    .replace(/\bI'd\b/gi, 'the user would')
+    .replace(/\bI'll\b/gi, 'the user will')
+    .replace(/\bmyself\b/gi, 'themselves')
+    .replace(/\bmy\b/gi, "the user's")
+    .replace(/\bmine\b/gi, "the user's")
+    .replace(/\bme\b/gi, 'the user')
+    .replace(/\bI\b/g, 'the user')
+    .replace(/\bthe user (prefer|like|love|hate|dislike|enjoy|live|work|study|want|need|use)\b/gi, 'the user $1s')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.!]+$/, '')
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ') // Code is never a memory
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+}
+
+// Share of the content's words found in the query; "the user" starts every memory, so it never counts.
+// match_memories() ranks by the same measure when a memory has no comparable vector.
+function wordOverlap(query: string, content: string): number {
+  const queryWords = new Set(normalizeContent(query).split(' ').filter(word => word.length > 2))
+  const words = normalizeContent(content).split(' ').filter(word => word.length > 2 && word !== 'user' && word !== 'the')
+  if (!queryWords.size || !words.length) return 0
+  return words.filter(word => queryWords.has(word)).length / words.length
+}
+
+export class MemoryService {
+  // Pull the memories a user message asks for ("remember that…") or implies ("I'm vegetarian")
+  static extractCandidates(text: string): MemoryCandidate[] {
+    const trimmed = text.trim()
+    const explicit = trimmed.match(EXPLICIT_PATTERN)
+    if (explicit) {
+      const content = toThirdPerson(explicit[1])
+      return content ? [{ content, kind: PREFERENCE_PATTERN.test(explicit[1]) ? 'preference' : 'fact', source: 'explicit' }] : []
+    }
+    if (FORGET_PATTERN.test(trimmed)) return []
+
+    const candidates: MemoryCandidate[] = []
+    for (const sentence of splitSentences(trimmed)) {
+      // Questions and hypotheticals are not statements about the user
+      if (sentence.endsWith('?') || sentence.length > MAX_MEMORY_LENGTH || /\b(?:if|would you|could you|can you)\b/i.test(sentence)) continue
+      const match = AUTOMATIC_PATTERNS.find(({ pattern }) => pattern.test(sentence))
+      if (match) candidates.push({ content: toThirdPerson(sentence), kind: match.kind, source: 'automatic' })
+    }
+    return candidates
+  }
+
+  static async list(userId: string = DEFAULT_USER_ID): Promise<UserMemory[]> {
+    const { data, error } = await supabase
+      .from('memories')
+      .select(MEMORY_COLUMNS)
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+
+    if (error) throw error
+    return (data as MemoryRow[]).map(fromMemoryRow)
+  }
+
+  static async create(
+    memory: Pick<UserMemory, 'content'> & Partial<Pick<UserMemory, 'kind' | 'source' | 'conversationId' | 'messageId'>>,
+    userId: string = DEFAULT_USER_ID
+  ): Promise<UserMemory> {
+    const content = memory.content.trim().slice(0, MAX_MEMORY_LENGTH)
+    const { data, error } = await supabase
+      .from('memories')
+      .insert([{
+        user_id: userId,
+        content,
+        kind: memory.kind || 'fact',
+        source: memory.source || 'manual',
+        conversation_id: memory.conversationId ?? null,
+        message_id: memory.messageId ?? null,
+        ...(await this.embed(content))
+      }])
+      .select(MEMORY_COLUMNS)
+      .single()
+
+    if (error) throw error
+    console.log(`🧠 Remembered (${memory.source || 'manual'}): ${content}`)
+    return fromMemoryRow(data as MemoryRow)
+  }
+
+  // Returns null when the user has no such memory
+  static async update(
+    id: string,
+    updates: Partial<Pick<UserMemory, 'content' | 'kind'>>,
+    userId: string = DEFAULT_USER_ID
+  ): Promise<UserMemory | null> {
+    const row: Record<string, any> = {}
+    if (updates.kind) row.kind = updates.kind
+    if (updates.content !== undefined) {
+      row.content = updates.content.trim().slice(0, MAX_MEMORY_LENGTH)
+      Object.assign(row, await this.embed(row.content))
+    }
+
+    const { data, error } = await supabase
+      .from('memories')
+      .update(row)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(MEMORY_COLUMNS)
+
+    if (error) throw error
+    return data?.length ? fromMemoryRow(data[0] as MemoryRow) : null
+  }
+
+  static async remove(id: string, userId: string = DEFAULT_USER_ID): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('memories')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) throw error
+    return !!data?.length
+  }
+
+  // Store what a user message asks to remember or reveals about the user, skipping what is already known.
+  // Returns the memories that were added.
+  static async captureFromMessage(
+    text: string,
+    provenance: { conversationId?: string; messageId?: string } = {},
+    userId: string = DEFAULT_USER_ID
+  ): Promise<UserMemory[]> {
+    const candidates = this.extractCandidates(text)
+    if (!candidates.length) return []
+
+    const added: UserMemory[] = []
+    for (const candidate of candidates) {
+      // Memories added for earlier candidates are stored already, so they are compared too
+      const normalized = normalizeContent(candidate.content)
+      const closest = await this.match(candidate.content, userId, MATCH_CANDIDATES)
+      const duplicate = closest.some(memory => normalizeContent(memory.content) === normalized || (memory.similarity ?? 0) >= DUPLICATE_SIMILARITY)
+      if (duplicate) continue
+
+      added.push(await this.create({
+        ...candidate,
+        conversationId: provenance.conversationId,
+        messageId: provenance.messageId
+      }, userId))
+    }
+    return added
+  }
+
+  // Delete what a "forget that…" message refers to: memories that would count as its duplicate, or contain every word of it.
+  // Returns the memories that were removed.
+  static async forgetFromMessage(text: string, userId: string = DEFAULT_USER_ID): Promise<UserMemory[]> {
+    const trimmed = text.trim()
+    if (!FORGET_PATTERN.test(trimmed)) return []
+    const subject = toThirdPerson(trimmed.replace(FORGET_PATTERN, ''))
+    if (!subject) return []
+
+    const closest = await this.match(subject, userId, MATCH_CANDIDATES, MIN_RELEVANCE)
+    const forgotten = closest
+      .filter(memory => (memory.similarity ?? 0) >= DUPLICATE_SIMILARITY || wordOverlap(memory.content, subject) === 1)
+      .map(({ similarity, score, ...memory }) => memory)
+    if (!forgotten.length) return []
+
+    const { error } = await supabase
+      .from('memories')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', forgotten.map(memory => memory.id))
+
+    if (error) throw error
+    forgotten.forEach(memory => console.log(`🧠 Forgot: ${memory.content}`))
+    return forgotten
+  }
+
+  // Memories worth telling the model about before it answers `query`: all of them while there are few,
+  // otherwise the closest by embedding (or shared words when embeddings are off)
+  static async retrieve(query: string, options: { limit?: number; userId?: string } = {}): Promise<UserMemory[]> {
+    const limit = options.limit ?? MAX_PROMPT_MEMORIES
+    const userId = options.userId || DEFAULT_USER_ID
+
+    const { count, error } = await supabase
+      .from('memories')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+
+    if (error) throw error
+    if (!count) return []
+    if (count <= limit) return this.list(userId)
+
+    const closest = await this.match(query, userId, limit, MIN_RELEVANCE)
+    return closest.map(({ similarity, score, ...memory }) => memory)
+  }
+
+  // Forget, capture from and retrieve for the new user message, unless memory is switched off for the chat.
+  // Memory is an extra: failures are logged and the chat goes on without it.
+  static async attachToContext(
+    context: ConversationContext,
+    message: { id?: string; content: string },
+    userId: string = DEFAULT_USER_ID
+  ): Promise<ConversationContext> {
+    if (context.memoryEnabled === false) return context
+
+    try {
+      await this.forgetFromMessage(message.content, userId)
+    } catch (error) {
+      console.error('Failed to forget memories:', error)
+    }
+
+    try {
+      await this.captureFromMessage(message.content, { conversationId: context.conversationId, messageId: message.id }, userId)
+    } catch (error) {
+      console.error('Failed to capture memories:', error)
+    }
+
+    try {
+      const memories = await this.retrieve(message.content, { userId })
+      if (!memories.length) return context
+      this.markUsed(memories.map(memory => memory.id))
+      return { ...context, memories }
+    } catch (error) {
+      console.error('Failed to retrieve memories:', error)
+      return context
+    }
+  }
+
+  // Prompt block handed to buildPersonaSystemPrompt
+  static formatForPrompt(memories: UserMemory[]): string {
+    if (!memories.length) return ''
+    const lines = memories.map(memory => `- ${memory.content}${memory.kind === 'preference' ? ' (preference)' : ''}`)
+    return `USER MEMORY (from earlier conversations; use it where relevant, don't recite it, and let the user's latest message win if it disagrees):\n${lines.join('\n')}`
+  }
+
+  private static markUsed(ids: string[]) {
+    supabase
+      .from('memories')
+      .update({ last_used_at: new Date().toISOString() })
+      .in('id', ids)
+      .then(({ error }) => {
+        if (error) console.error('Failed to record memory use:', error)
+      })
+  }
+
+  private static async embed(content: string): Promise<{ embedding: number[] | null; embedding_model: string | null }> {
+    const provider = getEmbeddingProvider()
+    if (!provider) return { embedding: null, embedding_model: null }
+    try {
+      const [vector] = await provider.embed([content])
+      return { embedding: vector, embedding_model: provider.id }
+    } catch (error) {
+      console.error('Failed to embed memory:', error)
+      return { embedding: null, embedding_model: null }
+    }
+  }
+
+  // The user's memories closest to `text`, best first, ranked in the database by match_memories(): cosine
+  // similarity where a memory has a vector from the current model, shared words otherwise
+  private static async match(text: string, userId: string, limit: number, minScore: number = 0): Promise<MemoryMatch[]> {
+    const provider = getEmbeddingProvider()
+    let vector: number[] | null = null
+    if (provider) {
+      try {
+        [vector] = await provider.embed([text])
+      } catch (error) {
+        console.error('Failed to embed memory query, ranking by shared words:', error)
+      }
+    }
+
+    const { data, error } = await supabase.rpc('match_memories', {
+      target_user_id: userId,
+      query_text: text,
+      query_embedding: vector ? JSON.stringify(vector) : null,
+      query_embedding_model: vector ? provider!.id : null,
+      match_count: limit,
+      min_score: minScore
+    })
+
+    if (error) throw error
+    return ((data || []) as MemoryMatchRow[]).map(row => ({ ...fromMemoryRow(row), similarity: row.similarity, score: row.score }))
+  }
+}
@@ -0,0 +1,54 @@
+// Branching conversations: the stored messages array is a tree linked by parentId.
+// Editing a past user message adds a sibling under the same parent, so the old continuation stays as its own branch.
+// Shared by the store and the API routes, so keep it free of client or server imports.
+
+export interface TreeMessage {
+  id: string
+  parentId?: string | null // undefined on messages saved before branching existed
+}
+
+export interface BranchInfo {
+  index: number // Position of the message among its siblings, oldest first
+  count: number
+  siblingIds: string[]
+}
+
+// Conversations saved as a flat list get each message parented to the one before it
+export function linkMessages<T extends TreeMessage>(messages: T[]): T[] {
+  if (messages.every(message => message.parentId !== undefined)) return messages
+  return messages.map((message, index) =>
+    message.parentId !== undefined ? message : { ...message, parentId: index > 0 ? messages[index - 1].id : null }
+  )
+}
+
+// Follow the newest child down from a message to the end of its branch
+export function getLatestLeaf<T extends TreeMessage>(messages: T[], fromId: string): string {
+  let leafId = fromId
+  while (true) {
+    const children = messages.filter(message => message.parentId === leafId)
+    if (!children.length) return leafId
+    leafId = children[children.length - 1].id
+  }
+}
+
+// Messages from the root down to the leaf; without a (known) leaf the branch holding the newest message is shown
+export function getActivePath<T extends TreeMessage>(messages: T[], leafId?: string | null): T[] {
+  if (!messages.length) return []
+  const byId = new Map(messages.map(message => [message.id, message]))
+  let current: T | undefined = (leafId && byId.get(leafId)) || messages[messages.length - 1]
+
+  const path: T[] = []
+  const seen = new Set<string>()
+  while (current && !seen.has(current.id)) {
+    path.unshift(current)
+    seen.add(current.id)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+export function getBranchInfo<T extends TreeMessage>(messages: T[], message: TreeMessage): BranchInfo {
+  const parentId = message.parentId ?? null
+  const siblingIds = messages.filter(m => (m.parentId ?? null) === parentId).map(m => m.id)
+  return { index: Math.max(siblingIds.indexOf(message.id), 0), count: Math.max(siblingIds.length, 1), siblingIds }
+}
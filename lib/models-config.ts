@@ -1,151 +1,65 @@
-// Organized models by provider
-export const MODELS_BY_PROVIDER: { [key: string]: ModelInfo[] } = {
-  'OpenAI': [
-    { name: 'GPT-4', provider: 'OpenAI', category: 'text' },
-    { name: 'GPT-4-Turbo', provider: 'OpenAI', category: 'text' },
-    { name: 'GPT-3.5-Turbo', provider: 'OpenAI', category: 'text' },
-    { name: 'DALL-E 3', provider: 'OpenAI', category: 'image' }
-  ],
-  'Anthropic': [
-    { name: 'Claude-3-Opus', provider: 'Anthropic', category: 'text' },
-    { name: 'Claude-3-Sonnet', provider: 'Anthropic', category: 'text' },
-    { name: 'Claude-3-Haiku', provider: 'Anthropic', category: 'text' }
-  ],
-  'Google': [
-    { name: 'Gemini-Pro', provider: 'Google', category: 'text' },
-    { name: 'Gemini-Pro-Vision', provider: 'Google', category: 'text' },
-    { name: 'PaLM-2', provider: 'Google', category: 'text' }
-  ],
-  'Mistral': [
-    { name: 'Mistral-Large', provider: 'Mistral', category: 'text' },
-    { name: 'Mistral-Medium', provider: 'Mistral', category: 'text' },
-    { name: 'Mistral-Small', provider: 'Mistral', category: 'text' }
-  ]
-}
+import { ModelInfo } from '@/types'
+import { PROVIDERS, ProviderDescriptor, getProviderDescriptor } from '@/lib/providers'
 
-// Define the model interface
-export interface ModelInfo {
-  name: string
-  provider: string
-  category?: 'text' | 'image' | 'voice'
-  id?: string
-  created?: number
-  owned_by?: string
-}
+export type { ModelInfo }
+
+// Organized models by provider (fallback catalogue from the provider registry)
+export const MODELS_BY_PROVIDER: { [key: string]: ModelInfo[] } = Object.fromEntries(
+  PROVIDERS.map(provider => [provider.name, provider.defaultModels])
+)
 
 // Cache for fetched models
 let modelsCache: { [key: string]: ModelInfo[] } = {}
 
-// Fetch models from OpenAI API
-async function fetchOpenAIModels(): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch('/api/models/openai')
-    if (response.ok) {
-      const data = await response.json()
-      return data.models || MODELS_BY_PROVIDER.OpenAI
-    }
-  } catch (error) {
-    console.error('Failed to fetch OpenAI models:', error)
-  }
-  return MODELS_BY_PROVIDER.OpenAI
-}
-
-// Fetch models from Anthropic API
-async function fetchAnthropicModels(): Promise<ModelInfo[]> {
+// Fetch a provider's live model list from its /api/models route
+async function fetchProviderModels(provider: ProviderDescriptor): Promise<ModelInfo[]> {
   try {
-    const response = await fetch('/api/models/anthropic')
+    const response = await fetch(`/api/models/${provider.id}`)
     if (response.ok) {
       const data = await response.json()
-      return data.models || MODELS_BY_PROVIDER.Anthropic
+      return data.models || provider.defaultModels
     }
   } catch (error) {
-    console.error('Failed to fetch Anthropic models:', error)
+    console.error(`Failed to fetch ${provider.name} models:`, error)
   }
-  return MODELS_BY_PROVIDER.Anthropic
-}
-
-// Fetch models from Google API
-async function fetchGoogleModels(): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch('/api/models/google')
-    if (response.ok) {
-      const data = await response.json()
-      return data.models || MODELS_BY_PROVIDER.Google
-    }
-  } catch (error) {
-    console.error('Failed to fetch Google models:', error)
-  }
-  return MODELS_BY_PROVIDER.Google
-}
-
-// Fetch models from Mistral API
-async function fetchMistralModels(): Promise<ModelInfo[]> {
-  try {
-    const response = await fetch('/api/models/mistral')
-    if (response.ok) {
-      const data = await response.json()
-      return data.models || MODELS_BY_PROVIDER.Mistral
-    }
-  } catch (error) {
-    console.error('Failed to fetch Mistral models:', error)
-  }
-  return MODELS_BY_PROVIDER.Mistral
+  return provider.defaultModels
 }
 
 // Get list of providers
 export function getProviders() {
-  return Object.keys(MODELS_BY_PROVIDER)
+  return PROVIDERS.map(provider => provider.name)
 }
 
 // Get models for a specific provider (with caching and API fetching)
 export async function getModelsByProvider(provider: string): Promise<ModelInfo[]> {
   console.log('getModelsByProvider called with:', provider)
-  
-  // Check cache first
-  if (modelsCache[provider]) {
-    console.log('Returning cached models for:', provider, modelsCache[provider])
-    return modelsCache[provider]
+
+  const descriptor = getProviderDescriptor(provider)
+  if (!descriptor) {
+    console.log('Unknown provider:', provider)
+    return []
   }
 
-  let models: ModelInfo[] = []
+  // Check cache first
+  if (modelsCache[descriptor.name]) {
+    console.log('Returning cached models for:', descriptor.name, modelsCache[descriptor.name])
+    return modelsCache[descriptor.name]
+  }
 
-  try {
-    switch (provider) {
-      case 'OpenAI':
-        console.log('Fetching OpenAI models...')
-        models = await fetchOpenAIModels()
-        break
-      case 'Anthropic':
-        console.log('Fetching Anthropic models...')
-        models = await fetchAnthropicModels()
-        break
-      case 'Google':
-        console.log('Fetching Google models...')
-        models = await fetchGoogleModels()
-        break
-      case 'Mistral':
-        console.log('Fetching Mistral models...')
-        models = await fetchMistralModels()
-        break
-      default:
-        console.log('Using hardcoded models for provider:', provider)
-        models = MODELS_BY_PROVIDER[provider as keyof typeof MODELS_BY_PROVIDER] || []
-    }
+  console.log(`Fetching ${descriptor.name} models...`)
+  const models = await fetchProviderModels(descriptor)
+  console.log('Final models for', descriptor.name, ':', models)
 
-    console.log('Final models for', provider, ':', models)
-    
-    // Cache the results
-    modelsCache[provider] = models
-    return models
-  } catch (error) {
-    console.error('Error in getModelsByProvider:', error)
-    return MODELS_BY_PROVIDER[provider as keyof typeof MODELS_BY_PROVIDER] || []
-  }
+  // Cache the results
+  modelsCache[descriptor.name] = models
+  return models
 }
 
 // Get models for a specific provider (synchronous fallback)
 export function getModelsByProviderSync(provider: string): ModelInfo[] {
-  return modelsCache[provider] || MODELS_BY_PROVIDER[provider as keyof typeof MODELS_BY_PROVIDER] || []
+  const descriptor = getProviderDescriptor(provider)
+  if (!descriptor) return []
+  return modelsCache[descriptor.name] || descriptor.defaultModels
 }
 
 // List of available models (backwards compatibility)
@@ -1,7 +1,11 @@
-import { SupabaseChatStorage, SupabaseConversation, SupabaseMessage } from './supabase'
+import { getMessageFileUrls, SupabaseChatStorage, SupabaseConversation, SupabaseMessage } from './supabase'
 import { RedisChatCache } from './redis'
 import { RealTimeSync } from './realtime-sync'
+import { EmbeddingJob } from './embedding-job'
+import { DocumentService } from './documents'
+import { deleteStoredFiles } from './storage'
 import { nanoid } from 'nanoid'
+import type { MessageAttachment } from '@/types'
 
 // Hybrid storage: Supabase for persistence + Redis for speed
 export class OptimizedChatService {
@@ -25,6 +29,7 @@ export class OptimizedChatService {
     try {
       // Save to Supabase (source of truth)
       const savedConversation = await SupabaseChatStorage.createConversation(conversation)
+      if (initialMessages.length) EmbeddingJob.enqueue(conversationId)
       
       // Cache in Redis for fast access
       await RedisChatCache.cacheConversation(conversationId, savedConversation, 3600)
@@ -72,11 +77,12 @@ export class OptimizedChatService {
     messages: SupabaseMessage[]
   ): Promise<SupabaseConversation | null> {
     try {
-      // Update in Supabase
-      const updatedConversation = await SupabaseChatStorage.appendMessages(conversationId, messages)
+      // Insert the new rows in Supabase
+      await SupabaseChatStorage.appendMessages(conversationId, messages)
+      EmbeddingJob.enqueue(conversationId)
       
-      // Update cache
-      await RedisChatCache.cacheConversation(conversationId, updatedConversation, 3600)
+      // Drop the cached copy; other writers may have added rows since it was cached
+      await RedisChatCache.invalidateConversation(conversationId)
       
       // Publish real-time update
       await RedisChatCache.publishMessageUpdate(conversationId, {
@@ -85,7 +91,7 @@ export class OptimizedChatService {
         conversationId
       })
       
-      return updatedConversation
+      return await this.getConversation(conversationId)
     } catch (error) {
       console.error('Failed to add messages:', error)
       return null
@@ -127,12 +133,17 @@ export class OptimizedChatService {
   // Delete conversation
   static async deleteConversation(conversationId: string): Promise<boolean> {
     try {
+      // Uploaded files are looked up first; the rows pointing at them go with the conversation
+      const files = await SupabaseChatStorage.getFileUrls(conversationId)
+
       // Delete from Supabase
       await SupabaseChatStorage.deleteConversation(conversationId)
       
       // Remove from cache
       await RedisChatCache.invalidateConversation(conversationId)
       await RedisChatCache.invalidateConversationList('default') // TODO: Use actual user ID
+
+      await deleteStoredFiles(files)
       
       return true
     } catch (error) {
@@ -171,30 +182,29 @@ export class OptimizedChatService {
     return await RedisChatCache.getTempMessage(messageId) as SupabaseMessage | null
   }
 
-  // Update a specific message in a conversation
+  // Update a specific message in a conversation. `deleted: true` is the client's soft delete and removes the message's
+  // files like deleteMessage does.
   static async updateMessage(
     conversationId: string,
     messageId: string,
     updates: Partial<SupabaseMessage>
   ): Promise<boolean> {
     try {
-      // Get current conversation
-      const conversation = await this.getConversation(conversationId)
-      if (!conversation) return false
-
-      // Find and update the message
-      const messageIndex = conversation.messages.findIndex(m => m.id === messageId)
-      if (messageIndex === -1) return false
+      // Read before the update so the files of a message being deleted are still known
+      const deleting = updates.deleted === true ? await SupabaseChatStorage.getMessage(conversationId, messageId) : null
 
-      const updatedMessages = [...conversation.messages]
-      updatedMessages[messageIndex] = { ...updatedMessages[messageIndex], ...updates }
+      // Update the message's row in Supabase
+      const updated = await SupabaseChatStorage.updateMessage(conversationId, messageId, updates)
+      if (!updated) return false
 
-      // Update in Supabase
-      await SupabaseChatStorage.updateConversationMessages(conversationId, updatedMessages)
+      // Edited text lost its vector
+      if (updates.content !== undefined && updates.embedding === undefined) EmbeddingJob.enqueue(conversationId)
 
       // Invalidate cache
       await RedisChatCache.invalidateConversation(conversationId)
 
+      if (deleting && !deleting.deleted) await this.removeMessageFiles(deleting)
+
       return true
     } catch (error) {
       console.error('Failed to update message:', error)
@@ -202,22 +212,21 @@ export class OptimizedChatService {
     }
   }
 
-  // Delete a specific message from a conversation
+  // Delete a specific message (soft delete: the row is flagged so branches built on it stay intact)
   static async deleteMessage(conversationId: string, messageId: string): Promise<boolean> {
     try {
-      // Get current conversation
-      const conversation = await this.getConversation(conversationId)
-      if (!conversation) return false
-
-      // Filter out the message
-      const updatedMessages = conversation.messages.filter(m => m.id !== messageId)
+      const message = await SupabaseChatStorage.getMessage(conversationId, messageId)
+      if (!message) return false
 
-      // Update in Supabase
-      await SupabaseChatStorage.updateConversationMessages(conversationId, updatedMessages)
+      // Flag the row in Supabase
+      const deleted = await SupabaseChatStorage.softDeleteMessage(conversationId, messageId)
+      if (!deleted) return false
 
       // Invalidate cache
       await RedisChatCache.invalidateConversation(conversationId)
 
+      if (!message.deleted) await this.removeMessageFiles(message)
+
       return true
     } catch (error) {
       console.error('Failed to delete message:', error)
@@ -225,6 +234,13 @@ export class OptimizedChatService {
     }
   }
 
+  // A deleted message's row stays for the message tree, but its files and their document chunks are removed
+  private static async removeMessageFiles(message: SupabaseMessage): Promise<void> {
+    const attachments: MessageAttachment[] = message.attachments || []
+    if (attachments.length) await DocumentService.removeForAttachments(attachments.map(attachment => attachment.id))
+    await deleteStoredFiles(getMessageFileUrls(message))
+  }
+
   // Batch save after streaming completes
   static async saveStreamingConversation(
     title: string,
@@ -0,0 +1,160 @@
+// Personal data in free text: emails, phone numbers, payment cards, API keys and national ID numbers.
+// Patterns favour precision; a miss is preferable to flagging every long number in a message.
+import type { RedactionReport } from '@/types'
+
+export type PiiKind = 'email' | 'phone' | 'credit_card' | 'api_key' | 'national_id'
+
+export const PII_KINDS: PiiKind[] = ['email', 'phone', 'credit_card', 'api_key', 'national_id']
+
+export interface PiiMatch {
+  kind: PiiKind
+  value: string
+  index: number
+}
+
+// Luhn checksum, so order numbers and other 16-digit strings don't count as cards
+function isLuhnValid(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// Checked in this order; a span claimed by an earlier kind isn't reported again (a card number is not also a phone number)
+const DETECTORS: Array<{ kind: PiiKind; pattern: RegExp; valid?: (value: string) => boolean }> = [
+  { kind: 'email', pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi },
+  // Provider key shapes (OpenAI, Anthropic, AWS, GitHub, Slack, Google, Stripe) and bearer tokens
+  {
+    kind: 'api_key',
+    pattern: /\b(?:sk-(?:ant-)?[\w-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abposr]-[\w-]{10,}|AIza[\w-]{35}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,})\b|\bBearer\s+[\w.~+/-]{20,}=*/g,
+  },
+  {
+    kind: 'credit_card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    valid: value => isLuhnValid(value.replace(/\D/g, '')),
+  },
+  // US SSN (123-45-6789) and UK National Insurance numbers (QQ 12 34 56 C)
+  {
+    kind: 'national_id',
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b|\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  // International (+44 20 7946 0958) or North American ((415) 555-0132) numbers with separators
+  { kind: 'phone', pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)[ .-]?|\d{2,4}[ .-])\d{3,4}[ .-]\d{3,4}\b/g },
+]
+
+// Every piece of personal data in the text, in order of appearance; `kinds` limits the search
+export function findPii(text: string, kinds: readonly PiiKind[] = PII_KINDS): PiiMatch[] {
+  const matches: PiiMatch[] = []
+  for (const detector of DETECTORS) {
+    if (!kinds.includes(detector.kind)) continue
+    for (const match of text.matchAll(detector.pattern)) {
+      const index = match.index!
+      const end = index + match[0].length
+      if (detector.valid && !detector.valid(match[0])) continue
+      if (matches.some(other => index < other.index + other.value.length && end > other.index)) continue
+      matches.push({ kind: detector.kind, value: match[0], index })
+    }
+  }
+  return matches.sort((a, b) => a.index - b.index)
+}
+
+// The text with personal data replaced by its kind, e.g. "mail [email]", for logs that must not keep it
+export function maskPii(text: string, kinds: readonly PiiKind[] = PII_KINDS): string {
+  return findPii(text, kinds).reduceRight(
+    (masked, match) => masked.slice(0, match.index) + `[${match.kind}]` + masked.slice(match.index + match.value.length),
+    text
+  )
+}
+
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|CREDIT_CARD|API_KEY|NATIONAL_ID)_(\d+)\]/g
+// An unfinished placeholder at the end of a streamed chunk, e.g. "[EMA" or "[EMAIL_1"
+const PARTIAL_PLACEHOLDER = /\[(?:[A-Z_]{0,12}\d{0,4})$/
+
+// Swaps personal data for numbered placeholders ("[EMAIL_1]") on the way out and back on the way in. One redactor
+// covers one request, so a value gets the same placeholder in the message, the history and the agent results.
+export class PiiRedactor {
+  private kinds: readonly PiiKind[]
+  private placeholders = new Map<string, string>() // value -> placeholder
+  private values = new Map<string, { value: string; kind: PiiKind }>() // placeholder -> value
+  private counts: Partial<Record<PiiKind, number>> = {}
+
+  constructor(kinds: readonly PiiKind[] = PII_KINDS) {
+    this.kinds = kinds
+  }
+
+  get size(): number {
+    return this.values.size
+  }
+
+  redact(text: string): string {
+    if (!text) return text
+    // Numbered in reading order, then replaced from the end so earlier indexes stay valid
+    const matches = findPii(text, this.kinds).map(match => ({ ...match, placeholder: this.placeholderFor(match) }))
+    return matches.reduceRight(
+      (redacted, match) => redacted.slice(0, match.index) + match.placeholder + redacted.slice(match.index + match.value.length),
+      text
+    )
+  }
+
+  // Placeholders this redactor didn't issue are left as they are
+  restore(text: string): string {
+    if (!text || !this.values.size) return text
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.values.get(placeholder)?.value ?? placeholder)
+  }
+
+  // Every string inside a value (agent data, chain steps), restored; other values are copied as they are
+  restoreDeep<T>(value: T): T {
+    if (!this.values.size) return value
+    if (typeof value === 'string') return this.restore(value) as T
+    if (Array.isArray(value)) return value.map(item => this.restoreDeep(item)) as T
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.restoreDeep(item)])) as T
+    }
+    return value
+  }
+
+  // Restore a streamed answer chunk by chunk: text that could be the start of a placeholder is held back until the
+  // next chunk shows whether it is one. Call flush() for whatever is left at the end.
+  createStreamRestorer(): { push: (chunk: string) => string; flush: () => string } {
+    let pending = ''
+    return {
+      push: (chunk: string) => {
+        const text = pending + chunk
+        const partial = text.match(PARTIAL_PLACEHOLDER)
+        pending = partial ? partial[0] : ''
+        return this.restore(partial ? text.slice(0, partial.index) : text)
+      },
+      flush: () => {
+        const rest = this.restore(pending)
+        pending = ''
+        return rest
+      },
+    }
+  }
+
+  report(): RedactionReport {
+    return {
+      total: this.values.size,
+      kinds: { ...this.counts },
+      placeholders: [...this.values].map(([placeholder, { kind }]) => ({ placeholder, kind })),
+    }
+  }
+
+  private placeholderFor(match: PiiMatch): string {
+    let placeholder = this.placeholders.get(match.value)
+    if (!placeholder) {
+      const count = (this.counts[match.kind] || 0) + 1
+      this.counts[match.kind] = count
+      placeholder = `[${match.kind.toUpperCase()}_${count}]`
+      this.placeholders.set(match.value, placeholder)
+      this.values.set(placeholder, { value: match.value, kind: match.kind })
+    }
+    return placeholder
+  }
+}
@@ -0,0 +1,206 @@
+// Provider catalogue shared by the server-side provider registry and the client model pickers.
+// Keep this module free of SDK imports so it can be bundled for the browser.
+import { ModelCapabilities, ModelInfo, StreamingFormat } from '@/types'
+
+export interface ProviderDescriptor {
+  id: string // URL slug, e.g. /api/models/openai
+  name: string // Display name used across the UI and in model metadata
+  modelPatterns: RegExp[] // Model ids this provider serves
+  capabilities: ModelCapabilities
+  visionModelPatterns?: RegExp[] // Model ids that accept image input; without it capabilities.vision covers every model
+  streamingFormat: StreamingFormat
+  defaultModels: ModelInfo[] // Catalogue used when the provider's model list can't be fetched
+}
+
+export const PROVIDERS: ProviderDescriptor[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    modelPatterns: [/^(gpt|chatgpt|o\d)/i, /^dall-e/i],
+    capabilities: { streaming: true, systemPrompt: true, multiTurn: true, tools: true, vision: false },
+    visionModelPatterns: [/^(chatgpt-4o|gpt-4o|gpt-4\.1|gpt-4\.5|gpt-4-turbo|gpt-4-vision|gpt-5)/i, /^(o1|o3)(?!-mini)(-|$)/i, /^o4/i],
+    streamingFormat: 'openai-sse',
+    defaultModels: [
+      // Text models
+      { name: 'gpt-4', provider: 'OpenAI', category: 'text' },
+      { name: 'gpt-4-turbo', provider: 'OpenAI', category: 'text' },
+      { name: 'gpt-4o', provider: 'OpenAI', category: 'text' },
+      { name: 'gpt-4o-mini', provider: 'OpenAI', category: 'text' },
+      { name: 'gpt-3.5-turbo', provider: 'OpenAI', category: 'text' },
+      // Image models
+      { name: 'dall-e-3', provider: 'OpenAI', category: 'image' },
+      { name: 'dall-e-2', provider: 'OpenAI', category: 'image' },
+      // Voice models
+      { name: 'tts-1', provider: 'OpenAI', category: 'voice' },
+      { name: 'tts-1-hd', provider: 'OpenAI', category: 'voice' },
+      { name: 'whisper-1', provider: 'OpenAI', category: 'voice' }
+    ]
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    modelPatterns: [/^claude/i],
+    capabilities: { streaming: true, systemPrompt: true, multiTurn: true, tools: true, vision: false },
+    // Every Claude 3 and later model reads images; claude-2 and claude-instant don't
+    visionModelPatterns: [/^claude-(3|[a-z]+-4)/i],
+    streamingFormat: 'anthropic-sse',
+    defaultModels: [
+      { name: 'claude-opus-4-1-20250805', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-sonnet-4-20250514', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-3-7-sonnet-20250219', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-3-5-haiku-20241022', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-3-opus-20240229', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-3-sonnet-20240229', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-3-haiku-20240307', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-2.1', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-2.0', provider: 'Anthropic', category: 'text' },
+      { name: 'claude-instant-1.2', provider: 'Anthropic', category: 'text' }
+    ]
+  },
+  {
+    id: 'google',
+    name: 'Google',
+    modelPatterns: [/^(gemini|palm|bard)/i, /^models\/gemini/i],
+    capabilities: { streaming: true, systemPrompt: true, multiTurn: true, tools: true, vision: false },
+    visionModelPatterns: [/^(models\/)?gemini/i],
+    streamingFormat: 'simulated',
+    defaultModels: [
+      { name: 'gemini-2.5-flash', provider: 'Google', category: 'text' },
+      { name: 'gemini-1.5-pro', provider: 'Google', category: 'text' },
+      { name: 'gemini-1.5-flash', provider: 'Google', category: 'text' },
+      { name: 'gemini-pro', provider: 'Google', category: 'text' }
+    ]
+  },
+  {
+    id: 'mistral',
+    name: 'Mistral',
+    modelPatterns: [/(mistral|mixtral|codestral|magistral|devstral|pixtral|voxtral|ministral)/i],
+    capabilities: { streaming: true, systemPrompt: true, multiTurn: true, tools: true, vision: false },
+    // Pixtral, plus the Medium and Small releases from 2025 on
+    visionModelPatterns: [/pixtral/i, /^mistral-(medium|small)-(latest|25\d\d)/i],
+    streamingFormat: 'openai-sse',
+    defaultModels: [
+      // Latest models
+      { id: 'mistral-large-latest', name: 'mistral-large-latest', category: 'text', provider: 'Mistral' },
+      { id: 'mistral-medium-latest', name: 'mistral-medium-latest', category: 'text', provider: 'Mistral' },
+      { id: 'mistral-small-latest', name: 'mistral-small-latest', category: 'text', provider: 'Mistral' },
+
+      // Reasoning models
+      { id: 'magistral-small-latest', name: 'magistral-small-latest', category: 'text', provider: 'Mistral' },
+      { id: 'magistral-medium-latest', name: 'magistral-medium-latest', category: 'text', provider: 'Mistral' },
+
+      // Code models
+      { id: 'codestral-latest', name: 'codestral-latest', category: 'text', provider: 'Mistral' },
+      { id: 'devstral-small-latest', name: 'devstral-small-latest', category: 'text', provider: 'Mistral' },
+      { id: 'devstral-medium-latest', name: 'devstral-medium-latest', category: 'text', provider: 'Mistral' },
+
+      // Image models
+      { id: 'pixtral-large-latest', name: 'pixtral-large-latest', category: 'image', provider: 'Mistral' },
+      { id: 'pixtral-12b-2409', name: 'pixtral-12b-2409', category: 'image', provider: 'Mistral' },
+
+      // Voice models
+      { id: 'voxtral-small-latest', name: 'voxtral-small-latest', category: 'voice', provider: 'Mistral' },
+      { id: 'voxtral-mini-latest', name: 'voxtral-mini-latest', category: 'voice', provider: 'Mistral' },
+
+      // Mini models
+      { id: 'ministral-3b-latest', name: 'ministral-3b-latest', category: 'text', provider: 'Mistral' },
+      { id: 'ministral-8b-latest', name: 'ministral-8b-latest', category: 'text', provider: 'Mistral' },
+
+      // Open source
+      { id: 'open-mistral-nemo', name: 'open-mistral-nemo', category: 'text', provider: 'Mistral' },
+
+      // Other specialized
+      { id: 'mistral-moderation-latest', name: 'mistral-moderation-latest', category: 'text', provider: 'Mistral' },
+      { id: 'mistral-ocr-latest', name: 'mistral-ocr-latest', category: 'text', provider: 'Mistral' },
+      { id: 'mistral-saba-latest', name: 'mistral-saba-latest', category: 'text', provider: 'Mistral' }
+    ]
+  },
+  {
+    // Groq hosts other vendors' models (llama, mixtral, openai/gpt-oss...), so its ids are namespaced as groq/<id>
+    id: 'groq',
+    name: 'Groq',
+    modelPatterns: [/^groq\//i],
+    capabilities: { streaming: true, systemPrompt: true, multiTurn: true, tools: true, vision: false },
+    visionModelPatterns: [],
+    streamingFormat: 'openai-sse',
+    defaultModels: [
+      { id: 'groq/llama-3.3-70b-versatile', name: 'groq/llama-3.3-70b-versatile', category: 'text', provider: 'Groq' },
+      { id: 'groq/llama-3.1-8b-instant', name: 'groq/llama-3.1-8b-instant', category: 'text', provider: 'Groq' },
+      { id: 'groq/openai/gpt-oss-120b', name: 'groq/openai/gpt-oss-120b', category: 'text', provider: 'Groq' },
+      { id: 'groq/openai/gpt-oss-20b', name: 'groq/openai/gpt-oss-20b', category: 'text', provider: 'Groq' },
+      { id: 'groq/qwen/qwen3-32b', name: 'groq/qwen/qwen3-32b', category: 'text', provider: 'Groq' },
+      { id: 'groq/whisper-large-v3', name: 'groq/whisper-large-v3', category: 'voice', provider: 'Groq' }
+    ]
+  },
+  {
+    // Self-hosted OpenAI-compatible server; its model ids are arbitrary, so they are namespaced as local/<id>
+    id: 'local',
+    name: 'Local',
+    modelPatterns: [/^local\//i],
+    capabilities: { streaming: true, systemPrompt: true, multiTurn: true, tools: false, vision: false },
+    // Whether a self-hosted model reads images can't be told from its name
+    visionModelPatterns: [],
+    streamingFormat: 'openai-sse',
+    defaultModels: []
+  }
+]
+
+// Namespace prefix for providers whose model ids can collide with other providers' patterns
+export function toNamespacedModelId(providerId: string, modelId: string): string {
+  return `${providerId}/${modelId}`
+}
+
+// Split 'local/llama3.1' into its namespace and the id the provider's API expects
+export function parseNamespacedModelId(modelId: string): { namespace?: string; modelId: string } {
+  const slash = modelId.indexOf('/')
+  if (slash <= 0) return { modelId }
+  return { namespace: modelId.slice(0, slash).toLowerCase(), modelId: modelId.slice(slash + 1) }
+}
+
+// Look up a provider by slug or display name (case-insensitive)
+export function getProviderDescriptor(provider: string): ProviderDescriptor | undefined {
+  const key = provider.toLowerCase()
+  return PROVIDERS.find(p => p.id === key || p.name.toLowerCase() === key)
+}
+
+// Find the provider that serves a model id
+export function findProviderForModel(modelId: string): ProviderDescriptor | undefined {
+  const { namespace } = parseNamespacedModelId(modelId)
+  return PROVIDERS.find(p => p.id === namespace) || PROVIDERS.find(p => p.modelPatterns.some(pattern => pattern.test(modelId)))
+}
+
+// Provider capabilities with `vision` decided for one model
+export function resolveModelCapabilities(provider: ProviderDescriptor, modelId: string): ModelCapabilities {
+  const vision = provider.visionModelPatterns
+    ? provider.visionModelPatterns.some(pattern => pattern.test(modelId))
+    : provider.capabilities.vision
+  return { ...provider.capabilities, vision }
+}
+
+// Capabilities of a model id; undefined for models no provider serves
+export function getModelCapabilities(modelId: string): ModelCapabilities | undefined {
+  const provider = findProviderForModel(modelId)
+  return provider && resolveModelCapabilities(provider, modelId)
+}
+
+// Image formats every vision API accepts
+export const IMAGE_INPUT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+const IMAGE_INPUT_EXTENSIONS: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp' }
+
+// MIME type of an attachment the model can look at, or null for anything else
+export function getImageInputType(file: { name: string; type?: string }): string | null {
+  if (file.type && IMAGE_INPUT_TYPES.includes(file.type)) return file.type
+  return IMAGE_INPUT_EXTENSIONS[file.name.split('.').pop()?.toLowerCase() || ''] || null
+}
+
+// User-facing reason a message can't go to this model, or null when it can (or the model is unknown)
+export function getImageInputError(
+  modelId: string,
+  attachments: Array<{ name: string; type?: string }> = [],
+  capabilities: ModelCapabilities | undefined = getModelCapabilities(modelId)
+): string | null {
+  const images = attachments.filter(file => getImageInputType(file))
+  if (!images.length || capabilities?.vision !== false) return null
+  const what = images.length === 1 ? `the image ${images[0].name}` : `${images.length} images`
+  return `${modelId} can't read images, so it can't look at ${what}. Switch to a vision model such as gpt-4o, Claude, Gemini or Pixtral, or remove the image.`
+}
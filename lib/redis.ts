@@ -46,7 +46,23 @@ export class RedisChatCache {
 
   // Delete streaming session
   static async deleteStreamingSession(sessionId: string) {
-    await redis.del(`streaming:${sessionId}`)
+    await redis.del(`streaming:${sessionId}`, `streaming:${sessionId}:events`)
+  }
+
+  // Buffer a batch of streamed events for replay, scored by their sequence number: replay reads by seq, so a batch
+  // that never arrived leaves a gap instead of shifting every later event
+  static async appendStreamEvents(sessionId: string, events: Array<{ seq: number; data: any }>, ttl = 1800) {
+    if (!events.length) return
+    const [first, ...rest] = events.map(event => ({ score: event.seq, member: JSON.stringify(event) }))
+    await redis.zadd(`streaming:${sessionId}:events`, first, ...rest)
+    await redis.expire(`streaming:${sessionId}:events`, ttl)
+  }
+
+  // Buffered events with a sequence number above afterSeq, in order
+  static async getStreamEvents(sessionId: string, afterSeq = 0) {
+    const events = await redis.zrange<unknown[]>(`streaming:${sessionId}:events`, `(${afterSeq}`, '+inf', { byScore: true })
+    // Upstash Redis automatically deserializes JSON
+    return events
   }
 
   // Invalidate conversation cache
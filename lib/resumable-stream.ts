@@ -0,0 +1,123 @@
+// Client side of the resumable SSE streams served by lib/stream-session.ts.
+// Keep this module free of server imports so it can be bundled for the browser.
+
+export interface ResumableStreamOptions {
+  resumeUrl: string // GET endpoint that replays a session from the Last-Event-ID header
+  maxResumes?: number
+  onEventId?: (id: string) => void // Called with each '<sessionId>:<seq>' id, e.g. to survive a page reload
+  fetchImpl?: typeof fetch
+  signal?: AbortSignal // The stop button's signal; an aborted stream is not resumed
+}
+
+export interface PendingStream {
+  lastEventId: string // '<sessionId>:<seq>'
+  chatId?: string
+  model?: string
+  userMessage: { id: string; content: string; parentId?: string | null }
+  assistantMessageId: string
+}
+
+const PENDING_STREAM_KEY = 'layerchat-pending-stream'
+
+// The in-flight answer is remembered per tab so a reload can pick it back up
+export function savePendingStream(pending: PendingStream) {
+  try {
+    sessionStorage.setItem(PENDING_STREAM_KEY, JSON.stringify(pending))
+  } catch {}
+}
+
+export function loadPendingStream(): PendingStream | null {
+  try {
+    const stored = sessionStorage.getItem(PENDING_STREAM_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+export function clearPendingStream() {
+  try {
+    sessionStorage.removeItem(PENDING_STREAM_KEY)
+  } catch {}
+}
+
+// Read SSE events from a response, reconnecting with Last-Event-ID if the connection drops before the
+// 'done', 'error' or 'stopped' event. Resolves with finished = false if the stream ended early and could not be
+// resumed, or was aborted through options.signal.
+export async function consumeResumableStream(
+  response: Response,
+  onEvent: (event: any) => void,
+  options: ResumableStreamOptions
+): Promise<{ lastEventId: string | null; finished: boolean }> {
+  const fetchImpl = options.fetchImpl || fetch
+  const maxResumes = options.maxResumes ?? 3
+  let lastEventId: string | null = null
+  let finished = false
+  let current = response
+
+  for (let attempt = 0; ; attempt++) {
+    const reader = current.body?.getReader()
+    if (!reader) throw new Error('No reader available')
+
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let dropError: unknown = null
+    try {
+      while (!finished) {
+        let chunk: ReadableStreamReadResult<Uint8Array>
+        try {
+          chunk = await reader.read()
+        } catch (error) {
+          dropError = error
+          break
+        }
+        if (chunk.done) break
+
+        buffer += decoder.decode(chunk.value, { stream: true })
+        const blocks = buffer.split('\n\n')
+        buffer = blocks.pop() || ''
+        for (const block of blocks) {
+          let data = ''
+          for (const line of block.split('\n')) {
+            if (line.startsWith('id: ')) {
+              lastEventId = line.slice(4).trim()
+              options.onEventId?.(lastEventId)
+            } else if (line.startsWith('data: ')) {
+              data = line.slice(6)
+            }
+          }
+          if (!data) continue
+          if (data === '[DONE]') {
+            finished = true
+            break
+          }
+
+          let event: any
+          try {
+            event = JSON.parse(data)
+          } catch {
+            // Ignore malformed SSE lines
+            continue
+          }
+          if (event.type === 'done' || event.type === 'error' || event.type === 'stopped') finished = true
+          onEvent(event)
+        }
+      }
+    } finally {
+      reader.releaseLock()
+    }
+
+    if (finished || options.signal?.aborted) return { lastEventId, finished }
+    if (!lastEventId || attempt >= maxResumes) {
+      if (dropError) throw dropError
+      return { lastEventId, finished }
+    }
+
+    console.warn(`🔌 Stream interrupted, resuming after ${lastEventId} (attempt ${attempt + 1})`)
+    await new Promise(resolve => setTimeout(resolve, 500 * (attempt + 1)))
+    current = await fetchImpl(options.resumeUrl, { headers: { 'Last-Event-ID': lastEventId }, signal: options.signal })
+    if (!current.ok) {
+      throw new Error(`Failed to resume stream: HTTP ${current.status}`)
+    }
+  }
+}
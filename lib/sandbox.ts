@@ -0,0 +1,337 @@
+// Runs untrusted JavaScript and Python snippets for the code runner agent. Pick a backend with CODE_RUNNER_BACKEND (see lib/config.ts):
+// 'docker' (the default) starts a throwaway container with no network per run; 'process' runs the local interpreter under bubblewrap,
+// with an empty root that only holds read-only system directories and the working directory, no network and CPU, memory and
+// file-size rlimits (Linux, needs bwrap and prlimit).
+import { spawn } from 'child_process'
+import { mkdtemp, readdir, readFile, realpath, rm, stat, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { delimiter, dirname, isAbsolute, join, relative } from 'path'
+import { randomUUID } from 'crypto'
+import config from '@/lib/config'
+
+export type SandboxLanguage = 'javascript' | 'python'
+
+// 'cpu_limit' and 'memory_limit' mean the snippet was stopped by the sandbox, not by an error of its own
+export type SandboxStatus = 'ok' | 'error' | 'timeout' | 'cpu_limit' | 'memory_limit'
+
+export interface SandboxFile {
+  path: string // Relative to the working directory, e.g. 'plots/chart.png'
+  size: number
+  data: Buffer
+}
+
+export interface SandboxResult {
+  language: SandboxLanguage
+  status: SandboxStatus
+  exitCode: number | null
+  signal: string | null
+  stdout: string
+  stderr: string
+  truncated: boolean // stdout or stderr went over maxOutputBytes
+  durationMs: number
+  files: SandboxFile[]
+  skippedFiles: string[] // Produced but over the file count or size limit
+}
+
+export interface SandboxBackend {
+  id: string
+  run(language: SandboxLanguage, code: string, options?: { signal?: AbortSignal }): Promise<SandboxResult>
+}
+
+type SandboxSettings = typeof config.codeRunner
+
+interface Execution {
+  exitCode: number | null
+  signal: string | null
+  stdout: string
+  stderr: string
+  truncated: boolean
+  timedOut: boolean
+  durationMs: number
+}
+
+const SOURCE_FILES: Record<SandboxLanguage, string> = { javascript: 'main.js', python: 'main.py' }
+
+// Interpreters get nothing from the server's environment, so API keys and database URLs never reach a snippet
+function sandboxEnv(home: string): Record<string, string> {
+  return {
+    PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+    HOME: home,
+    LANG: 'C.UTF-8',
+    PYTHONIOENCODING: 'utf-8',
+    PYTHONDONTWRITEBYTECODE: '1',
+    MPLBACKEND: 'Agg', // matplotlib writes image files instead of opening a window
+    MPLCONFIGDIR: join(home, '.matplotlib'),
+    OPENBLAS_NUM_THREADS: '1',
+  }
+}
+
+// ES module syntax needs the .mjs extension; everything else runs as CommonJS so require() works
+function sourceFile(language: SandboxLanguage, code: string): string {
+  if (language === 'javascript' && /^\s*(import\s[^(]|export\s)/m.test(code)) return 'main.mjs'
+  return SOURCE_FILES[language]
+}
+
+// Run a command, capturing at most maxOutputBytes of each stream and killing it (and anything it started) at the deadline
+function execute(
+  command: string,
+  args: string[],
+  options: { cwd: string; env: Record<string, string>; timeoutMs: number; maxOutputBytes: number; signal?: AbortSignal; onTimeout?: () => void }
+): Promise<Execution> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now()
+    const child = spawn(command, args, { cwd: options.cwd, env: options.env as NodeJS.ProcessEnv, stdio: ['ignore', 'pipe', 'pipe'], detached: true })
+    const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] }
+    const sizes = { stdout: 0, stderr: 0 }
+    let truncated = false
+    let timedOut = false
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      const room = options.maxOutputBytes - sizes[stream]
+      if (room <= 0) {
+        truncated = true
+        return
+      }
+      if (chunk.length > room) truncated = true
+      output[stream].push(chunk.subarray(0, room))
+      sizes[stream] += Math.min(chunk.length, room)
+    }
+    child.stdout.on('data', collect('stdout'))
+    child.stderr.on('data', collect('stderr'))
+
+    const kill = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL')
+      } catch {
+        // Already exited
+      }
+    }
+    const timer = setTimeout(() => {
+      timedOut = true
+      options.onTimeout?.()
+      kill()
+    }, options.timeoutMs)
+    const abort = () => kill()
+    options.signal?.addEventListener('abort', abort, { once: true })
+
+    child.on('error', error => {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', abort)
+      reject(error)
+    })
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', abort)
+      resolve({
+        exitCode,
+        signal,
+        stdout: Buffer.concat(output.stdout).toString('utf8'),
+        stderr: Buffer.concat(output.stderr).toString('utf8'),
+        truncated,
+        timedOut,
+        durationMs: Date.now() - started,
+      })
+    })
+  })
+}
+
+function statusOf(execution: Execution): SandboxStatus {
+  if (execution.timedOut) return 'timeout'
+  if (execution.signal === 'SIGXCPU') return 'cpu_limit'
+  if (/MemoryError|heap out of memory|Cannot allocate memory|ENOMEM/.test(execution.stderr)) return 'memory_limit'
+  return execution.exitCode === 0 ? 'ok' : 'error'
+}
+
+// Files the snippet left in its working directory. Hidden files and folders (caches, config) are skipped.
+async function collectFiles(dir: string, exclude: string, settings: SandboxSettings): Promise<{ files: SandboxFile[]; skippedFiles: string[] }> {
+  const files: SandboxFile[] = []
+  const skippedFiles: string[] = []
+
+  const walk = async (current: string, depth: number) => {
+    for (const entry of await readdir(current, { withFileTypes: true })) {
+      if (entry.name.startsWith('.')) continue
+      const full = join(current, entry.name)
+      const path = relative(dir, full)
+      if (entry.isDirectory()) {
+        if (depth < 3) await walk(full, depth + 1)
+        continue
+      }
+      if (!entry.isFile() || path === exclude) continue
+      const { size } = await stat(full)
+      if (files.length >= settings.maxFiles || size > settings.maxFileBytes) {
+        skippedFiles.push(path)
+        continue
+      }
+      files.push({ path, size, data: await readFile(full) })
+    }
+  }
+
+  await walk(dir, 0)
+  return { files, skippedFiles }
+}
+
+async function withWorkdir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'layerchat-sandbox-'))
+  try {
+    return await run(dir)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+// System directories the interpreters need, mounted read-only; /etc, /home, /root, /srv and the app itself are not
+const SYSTEM_MOUNTS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64']
+const SANDBOX_DIR = '/sandbox'
+
+// Installation prefix of an interpreter outside the system directories (nvm, pyenv, /opt), so it can be mounted as well
+async function interpreterPrefix(command: string): Promise<string | null> {
+  const candidates = isAbsolute(command) ? [command] : (process.env.PATH || '').split(delimiter).filter(Boolean).map(dir => join(dir, command))
+  for (const candidate of candidates) {
+    const resolved = await realpath(candidate).catch(() => null)
+    if (!resolved) continue
+    const prefix = dirname(dirname(resolved)) // e.g. /root/.nvm/versions/node/v20.11.0/bin/node -> /root/.nvm/versions/node/v20.11.0
+    return SYSTEM_MOUNTS.some(mount => resolved.startsWith(mount + '/')) || prefix === '/' ? null : prefix
+  }
+  return null
+}
+
+// Local interpreter under bubblewrap: new user, PID, IPC, UTS and network namespaces, an empty root with the system directories
+// mounted read-only and the working directory as the only writable path, plus rlimits applied by prlimit
+export class ProcessSandbox implements SandboxBackend {
+  readonly id = 'process'
+  private settings: SandboxSettings
+  private checked?: Promise<{ nodePermissionFlag: string; mounts: string[] }>
+
+  constructor(settings: SandboxSettings = config.codeRunner) {
+    this.settings = settings
+  }
+
+  private bwrapArgs(dir: string, mounts: string[]): string[] {
+    return [
+      '--unshare-all', '--die-with-parent', '--new-session', '--cap-drop', 'ALL',
+      ...mounts.flatMap(mount => ['--ro-bind-try', mount, mount]),
+      '--proc', '/proc', '--dev', '/dev', '--tmpfs', '/tmp',
+      '--bind', dir, SANDBOX_DIR, '--chdir', SANDBOX_DIR,
+    ]
+  }
+
+  // Refuse to run anything if the host can't build the sandbox, rather than running snippets with the server's files in reach
+  private check(): Promise<{ nodePermissionFlag: string; mounts: string[] }> {
+    if (!this.checked) {
+      this.checked = (async () => {
+        const prefixes = await Promise.all([this.settings.nodeCommand, this.settings.pythonCommand].map(interpreterPrefix))
+        const mounts = [...new Set([...SYSTEM_MOUNTS, ...prefixes.filter((prefix): prefix is string => !!prefix)])]
+        const options = { cwd: tmpdir(), env: sandboxEnv(SANDBOX_DIR), timeoutMs: 5000, maxOutputBytes: 1024 }
+        const isolated = await execute(this.settings.bwrapCommand, [...this.bwrapArgs(tmpdir(), mounts), 'prlimit', '--cpu=1', '--', 'true'], options)
+          .catch(() => null)
+        if (isolated?.exitCode !== 0) {
+          throw new Error('Code runner needs bubblewrap (bwrap) and prlimit with unprivileged user namespaces to isolate snippets; set CODE_RUNNER_BACKEND=docker on this host')
+        }
+        // The permission model is --experimental-permission until Node 23.5
+        const version = await execute(this.settings.nodeCommand, ['--version'], options).catch(() => null)
+        const [major, minor] = (version?.stdout.match(/v(\d+)\.(\d+)/) || []).slice(1).map(Number)
+        return { nodePermissionFlag: major > 23 || (major === 23 && minor >= 5) ? '--permission' : '--experimental-permission', mounts }
+      })()
+      this.checked.catch(() => { this.checked = undefined })
+    }
+    return this.checked
+  }
+
+  async run(language: SandboxLanguage, code: string, options: { signal?: AbortSignal } = {}): Promise<SandboxResult> {
+    const { nodePermissionFlag, mounts } = await this.check()
+    const { timeoutMs, cpuSeconds, memoryMb, maxOutputBytes, maxFileBytes } = this.settings
+
+    return withWorkdir(async dir => {
+      const file = sourceFile(language, code)
+      await writeFile(join(dir, file), code)
+
+      // V8 reserves far more address space than it uses, so Node's heap is capped by V8 and the address space limit leaves room.
+      // Node's permission model only turns stray file access into readable errors; bubblewrap is what keeps the host out of reach.
+      const addressSpaceMb = language === 'javascript' ? memoryMb + 1024 : memoryMb
+      const interpreter = language === 'javascript'
+        ? [this.settings.nodeCommand, '--no-warnings', `--max-old-space-size=${memoryMb}`, nodePermissionFlag, `--allow-fs-read=${SANDBOX_DIR}`, `--allow-fs-write=${SANDBOX_DIR}`, file]
+        : [this.settings.pythonCommand, '-I', '-B', file]
+      const args = [
+        ...this.bwrapArgs(dir, mounts),
+        'prlimit', `--cpu=${cpuSeconds}:${cpuSeconds + 1}`, `--as=${addressSpaceMb * 1024 * 1024}`, `--fsize=${maxFileBytes}`, '--nofile=64', '--core=0', '--',
+        ...interpreter,
+      ]
+
+      const execution = await execute(this.settings.bwrapCommand, args, { cwd: dir, env: sandboxEnv(SANDBOX_DIR), timeoutMs, maxOutputBytes, signal: options.signal })
+      return { language, status: statusOf(execution), ...execution, ...await collectFiles(dir, file, this.settings) }
+    })
+  }
+}
+
+// One container per run: no network, read-only root, memory and CPU caps, all capabilities dropped
+export class DockerSandbox implements SandboxBackend {
+  readonly id = 'docker'
+  private settings: SandboxSettings
+
+  constructor(settings: SandboxSettings = config.codeRunner) {
+    this.settings = settings
+  }
+
+  async run(language: SandboxLanguage, code: string, options: { signal?: AbortSignal } = {}): Promise<SandboxResult> {
+    const { timeoutMs, cpuSeconds, memoryMb, maxOutputBytes, maxFileBytes, dockerImages } = this.settings
+
+    return withWorkdir(async dir => {
+      const file = sourceFile(language, code)
+      await writeFile(join(dir, file), code)
+
+      const name = `layerchat-sandbox-${randomUUID()}`
+      const user = typeof process.getuid === 'function' ? [`--user=${process.getuid()}:${process.getgid!()}`] : []
+      const args = [
+        'run', '--rm', `--name=${name}`, '--network=none', `--memory=${memoryMb}m`, `--memory-swap=${memoryMb}m`, '--cpus=1', '--pids-limit=64',
+        '--read-only', '--tmpfs=/tmp:rw,size=16m', '--cap-drop=ALL', '--security-opt=no-new-privileges',
+        `--ulimit=cpu=${cpuSeconds}:${cpuSeconds + 1}`, `--ulimit=fsize=${maxFileBytes}`, ...user,
+        ...Object.entries(sandboxEnv(SANDBOX_DIR)).filter(([key]) => key !== 'PATH').map(([key, value]) => `--env=${key}=${value}`),
+        `--volume=${dir}:${SANDBOX_DIR}:rw`, `--workdir=${SANDBOX_DIR}`,
+        dockerImages[language],
+        ...(language === 'javascript' ? ['node', `--max-old-space-size=${memoryMb}`, file] : ['python3', '-I', '-B', file]),
+      ]
+
+      // Killing the docker client doesn't stop the container, so the deadline also kills it by name
+      const stopContainer = () => { spawn('docker', ['kill', name], { stdio: 'ignore' }).on('error', () => {}) }
+      options.signal?.addEventListener('abort', stopContainer, { once: true })
+      try {
+        const execution = await execute('docker', args, {
+          cwd: dir, env: sandboxEnv(dir), timeoutMs, maxOutputBytes, signal: options.signal, onTimeout: stopContainer,
+        })
+        // Docker reports the container's OOM kill as exit code 137
+        const status = execution.exitCode === 137 && !execution.timedOut ? 'memory_limit' : statusOf(execution)
+        return { language, status, ...execution, ...await collectFiles(dir, file, this.settings) }
+      } finally {
+        options.signal?.removeEventListener('abort', stopContainer)
+      }
+    })
+  }
+}
+
+export function createSandbox(settings: SandboxSettings = config.codeRunner): SandboxBackend {
+  switch (settings.backend) {
+    case 'process':
+      return new ProcessSandbox(settings)
+    case 'docker':
+      return new DockerSandbox(settings)
+    default:
+      throw new Error(`Unknown CODE_RUNNER_BACKEND "${settings.backend}"; use 'process' or 'docker'`)
+  }
+}
+
+let defaultSandbox: SandboxBackend | undefined
+
+export function getSandbox(): SandboxBackend {
+  if (!defaultSandbox) defaultSandbox = createSandbox()
+  return defaultSandbox
+}
+
+// Language of a snippet from its fence tag or, failing that, its syntax; null when it reads like neither
+export function detectLanguage(code: string, hint: string = ''): SandboxLanguage | null {
+  const tag = hint.toLowerCase()
+  if (['js', 'javascript', 'node', 'nodejs', 'mjs', 'cjs'].includes(tag)) return 'javascript'
+  if (['py', 'python', 'python3'].includes(tag)) return 'python'
+  if (/\b(console\.log|const |let |function\s*\w*\s*\(|=>|require\(|===)/.test(code)) return 'javascript'
+  if (/^\s*(def |print\(|import \w+\s*$|from \w+ import|for \w+ in |class \w+.*:\s*$|elif )/m.test(code)) return 'python'
+  return null
+}
@@ -0,0 +1,33 @@
+// Message search snippets: search_messages() (database/supabase-schema.sql) wraps matched terms in control
+// characters instead of HTML, so message text never has to be rendered as markup.
+// Shared by /api/search and the sidebar, so keep it free of client or server imports.
+
+export const HIGHLIGHT_START = '\u0002'
+export const HIGHLIGHT_END = '\u0003'
+
+export interface SnippetPart {
+  text: string
+  highlight: boolean
+}
+
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = []
+  let highlight = false
+  let text = ''
+  for (const char of snippet) {
+    if (char !== HIGHLIGHT_START && char !== HIGHLIGHT_END) {
+      text += char
+      continue
+    }
+    if (text) parts.push({ text, highlight })
+    text = ''
+    highlight = char === HIGHLIGHT_START
+  }
+  if (text) parts.push({ text, highlight })
+  return parts
+}
+
+// Element id of a rendered message, also used as the URL hash that jumps to it
+export function getMessageAnchor(messageId: string): string {
+  return `message-${messageId}`
+}
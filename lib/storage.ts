@@ -0,0 +1,218 @@
+// Where uploaded files live. Pick a backend with STORAGE_PROVIDER (see lib/config.ts): 'local' writes to public/uploads,
+// 's3' talks to AWS S3 or any S3-compatible server (MinIO, R2, a local stand-in) and 'cloudinary' keeps private raw assets.
+import { createHash } from 'crypto'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { dirname, join, resolve, sep } from 'path'
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import config from '@/lib/config'
+
+export interface StorageDriver {
+  id: string
+  put(key: string, data: Buffer, contentType?: string): Promise<void>
+  get(key: string): Promise<Buffer>
+  delete(key: string): Promise<void> // Deleting a missing file is not an error
+  url(key: string): string // Stored on messages and document chunks, so it must not expire
+  signedUrl(key: string, expiresIn?: number): Promise<string> // Short-lived download link
+}
+
+// Private backends hand out this URL; /api/files redirects it to a fresh signed link
+const FILE_ROUTE = '/api/files/'
+const LOCAL_PREFIX = '/uploads/'
+
+// Keys are '<uuid>.<ext>' today; anything that could climb out of the storage root is rejected
+function isSafeKey(key: string): boolean {
+  return !!key && key.split('/').every(part => part && part !== '.' && part !== '..' && /^[\w.-]+$/.test(part))
+}
+
+// Served by Next.js straight from public/uploads, so files are public and "signing" just returns that path
+export class LocalStorageDriver implements StorageDriver {
+  readonly id = 'local'
+  private root: string
+
+  constructor(root: string = join(process.cwd(), 'public', 'uploads')) {
+    this.root = resolve(root)
+  }
+
+  private path(key: string): string {
+    const path = resolve(this.root, key)
+    if (!isSafeKey(key) || !path.startsWith(this.root + sep)) throw new Error(`Invalid storage key: ${key}`)
+    return path
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.path(key)
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, data)
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return readFile(this.path(key))
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.path(key))
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error
+    }
+  }
+
+  url(key: string): string {
+    return `${LOCAL_PREFIX}${key}`
+  }
+
+  async signedUrl(key: string): Promise<string> {
+    return this.url(key)
+  }
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly id = 's3'
+  private client: S3Client
+  private bucket: string
+
+  constructor(settings: typeof config.storage.s3 = config.storage.s3) {
+    if (!settings.bucket) throw new Error('AWS_S3_BUCKET not configured')
+    this.bucket = settings.bucket
+    this.client = new S3Client({
+      region: settings.region,
+      // MinIO and most other S3-compatible servers want path-style URLs (http://host:9000/bucket/key)
+      ...(settings.endpoint ? { endpoint: settings.endpoint } : {}),
+      forcePathStyle: settings.forcePathStyle,
+      ...(settings.accessKeyId ? { credentials: { accessKeyId: settings.accessKeyId, secretAccessKey: settings.secretAccessKey } } : {}),
+    })
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: data, ContentType: contentType }))
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }))
+    if (!response.Body) throw new Error(`Empty S3 object: ${key}`)
+    return Buffer.from(await response.Body.transformToByteArray())
+  }
+
+  // S3 answers 204 for keys that don't exist
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }))
+  }
+
+  url(key: string): string {
+    return `${FILE_ROUTE}${key}`
+  }
+
+  async signedUrl(key: string, expiresIn: number = config.storage.signedUrlTtl): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: key }), { expiresIn })
+  }
+}
+
+// Files are uploaded as 'authenticated' raw assets, which Cloudinary only serves through signed URLs.
+// Cloudinary's URL signatures don't expire, so expiresIn is ignored.
+export class CloudinaryStorageDriver implements StorageDriver {
+  readonly id = 'cloudinary'
+  private settings: typeof config.storage.cloudinary
+
+  constructor(settings: typeof config.storage.cloudinary = config.storage.cloudinary) {
+    if (!settings.cloudName || !settings.apiKey || !settings.apiSecret) {
+      throw new Error('CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET must be set')
+    }
+    this.settings = settings
+  }
+
+  private publicId(key: string): string {
+    return this.settings.folder ? `${this.settings.folder}/${key}` : key
+  }
+
+  // Upload API signature: SHA-1 of the sorted parameters followed by the API secret
+  private async call(action: 'upload' | 'destroy', params: Record<string, string>, file?: Blob): Promise<any> {
+    const signed: Record<string, string> = { ...params, timestamp: Math.floor(Date.now() / 1000).toString() }
+    const toSign = Object.keys(signed).sort().map(name => `${name}=${signed[name]}`).join('&')
+    const form = new FormData()
+    Object.entries(signed).forEach(([name, value]) => form.append(name, value))
+    form.append('api_key', this.settings.apiKey)
+    form.append('signature', createHash('sha1').update(toSign + this.settings.apiSecret).digest('hex'))
+    if (file) form.append('file', file)
+
+    const response = await fetch(`https://api.cloudinary.com/v1_1/${this.settings.cloudName}/raw/${action}`, { method: 'POST', body: form })
+    const result = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(`Cloudinary API error: ${response.status} ${result?.error?.message || response.statusText}`)
+    }
+    return result
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.call('upload', { public_id: this.publicId(key), type: 'authenticated' }, new Blob([new Uint8Array(data)], { type: contentType }))
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await fetch(await this.signedUrl(key))
+    if (!response.ok) throw new Error(`Cloudinary download error: ${response.status} ${response.statusText}`)
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  // Answers { result: 'not found' } for missing assets
+  async delete(key: string): Promise<void> {
+    await this.call('destroy', { public_id: this.publicId(key), type: 'authenticated', invalidate: 'true' })
+  }
+
+  url(key: string): string {
+    return `${FILE_ROUTE}${key}`
+  }
+
+  // Delivery signature: first 8 characters of the URL-safe base64 SHA-1 of the public id and the API secret
+  async signedUrl(key: string): Promise<string> {
+    const publicId = this.publicId(key)
+    const signature = createHash('sha1').update(publicId + this.settings.apiSecret).digest('base64')
+      .replace(/\+/g, '-').replace(/\//g, '_').slice(0, 8)
+    return `https://res.cloudinary.com/${this.settings.cloudName}/raw/authenticated/s--${signature}--/v1/${publicId}`
+  }
+}
+
+// Build the backend named in the config; unknown names fall back to local disk
+export function createStorageDriver(settings: typeof config.storage = config.storage): StorageDriver {
+  switch (settings.provider) {
+    case 'local':
+      return new LocalStorageDriver()
+    case 's3':
+    case 'aws-s3':
+    case 'minio':
+      return new S3StorageDriver(settings.s3)
+    case 'cloudinary':
+      return new CloudinaryStorageDriver(settings.cloudinary)
+    default:
+      console.warn(`⚠️ Unknown STORAGE_PROVIDER "${settings.provider}", storing uploads on local disk`)
+      return new LocalStorageDriver()
+  }
+}
+
+let defaultDriver: StorageDriver | undefined
+
+export function getStorage(): StorageDriver {
+  if (!defaultDriver) defaultDriver = createStorageDriver()
+  return defaultDriver
+}
+
+// Storage key behind an attachment URL; null for URLs that aren't stored uploads (blob: previews, external links)
+export function getStorageKey(url: string): string | null {
+  const path = url.split(/[?#]/)[0]
+  const prefix = [LOCAL_PREFIX, FILE_ROUTE].find(p => path.startsWith(p))
+  if (!prefix) return null
+  const key = decodeURIComponent(path.slice(prefix.length))
+  return isSafeKey(key) ? key : null
+}
+
+// Remove the files behind attachment URLs. Failures are logged, not thrown: the rows linking to them are already gone
+// and a leftover file does no harm.
+export async function deleteStoredFiles(urls: string[]): Promise<void> {
+  const keys = [...new Set(urls.map(getStorageKey).filter((key): key is string => !!key))]
+  if (!keys.length) return
+  const storage = getStorage()
+  const results = await Promise.allSettled(keys.map(key => storage.delete(key)))
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') console.error(`Failed to delete stored file ${keys[i]}:`, result.reason)
+  })
+  console.log(`🗑️ Deleted ${results.filter(result => result.status === 'fulfilled').length}/${keys.length} stored files`)
+}
@@ -3,11 +3,13 @@ import { persist } from 'zustand/middleware'
 import { ChatMessage, ChatSession } from '@/types'
 import { getModelsByProvider } from '@/lib/models-config'
 import { nanoid } from 'nanoid'
+import { getActivePath, getLatestLeaf, linkMessages } from '@/lib/message-tree'
 
 interface ChatState {
   // Current state
   currentSession: ChatSession | null
-  messages: ChatMessage[]
+  messages: ChatMessage[] // Every branch of the conversation; render getActivePath(messages, activeLeafId)
+  activeLeafId: string | null // Last message of the branch on screen; null shows the branch with the newest message
   sessions: ChatSession[]
   isLoading: boolean
   sidebarOpen: boolean
@@ -26,8 +28,10 @@ interface ChatState {
   }
 
   // Actions
-  addMessage: (message: Omit<ChatMessage, 'id'>) => Promise<string>
+  addMessage: (message: Omit<ChatMessage, 'id'> & { id?: string }) => Promise<string>
   updateMessage: (id: string, updates: Partial<ChatMessage>) => void
+  switchBranch: (messageId: string) => void
+  setMemoryEnabled: (enabled: boolean) => void // Per-chat long-term memory switch, saved in the chat's metadata
   appendToMessage: (id: string, content: string) => void
   markMessageComplete: (id: string) => Promise<void>
   createNewSession: () => Promise<string | null>
@@ -73,6 +77,7 @@ export const useChatStore = create<ChatState>()(
         // Initial state
         currentSession: null,
         messages: [],
+        activeLeafId: null,
         sessions: [],
         isLoading: false,
         sidebarOpen: true,
@@ -81,14 +86,20 @@ export const useChatStore = create<ChatState>()(
         settings: initialSettings,
 
         // Actions
-        addMessage: async (messageWithoutId: Omit<ChatMessage, 'id'>) => {
+        addMessage: async (messageWithoutId: Omit<ChatMessage, 'id'> & { id?: string }) => {
           const { currentSession, sessions } = get()
           
-          // Generate unique ID for the message
-          const messageId = nanoid()
+          // Keep the caller's ID so later updateMessage calls find the message; generate one otherwise
+          const messageId = messageWithoutId.id || nanoid()
+          // New messages continue the branch on screen unless the caller forks from another parent
+          const activePath = getActivePath(get().messages, get().activeLeafId)
+          const parentId = messageWithoutId.parentId !== undefined
+            ? messageWithoutId.parentId
+            : activePath[activePath.length - 1]?.id ?? null
           const message: ChatMessage = {
             ...messageWithoutId,
             id: messageId,
+            parentId,
             pending: messageWithoutId.pending ?? true, // Default to pending unless explicitly set
           }
           
@@ -100,7 +111,7 @@ export const useChatStore = create<ChatState>()(
           })
           
           const newMessages = [...get().messages, message]
-          set({ messages: newMessages })
+          set({ messages: newMessages, activeLeafId: messageId })
           
           // Update current session
           if (currentSession) {
@@ -133,6 +144,7 @@ export const useChatStore = create<ChatState>()(
                     role: message.role,
                     content: message.content,
                     type: message.type || 'text',
+                    parentId: message.parentId,
                     metadata: message.metadata || {},
                     attachments: message.attachments || []
                   })
@@ -181,6 +193,41 @@ export const useChatStore = create<ChatState>()(
           }
         },
 
+        switchBranch: (messageId: string) => {
+          const { messages, currentSession } = get()
+          // Open the chosen sibling at the newest message beneath it
+          const leafId = getLatestLeaf(messages, messageId)
+          set({ activeLeafId: leafId })
+
+          if (currentSession) {
+            fetch(`/api/chat/${currentSession.id}`, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ activeLeafId: leafId })
+            }).catch(error => console.error('Error saving branch selection:', error))
+          }
+        },
+
+        setMemoryEnabled: (enabled: boolean) => {
+          const { currentSession, sessions } = get()
+          if (!currentSession) return
+
+          const updatedSession = {
+            ...currentSession,
+            metadata: { ...currentSession.metadata, memoryEnabled: enabled }
+          }
+          set({
+            currentSession: updatedSession,
+            sessions: sessions.map(s => s.id === updatedSession.id ? updatedSession : s)
+          })
+
+          fetch(`/api/chat/${currentSession.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ memoryEnabled: enabled })
+          }).catch(error => console.error('Error saving memory setting:', error))
+        },
+
         appendToMessage: (id: string, content: string) => {
           const newMessages = get().messages.map(msg =>
             msg.id === id 
@@ -277,7 +324,8 @@ export const useChatStore = create<ChatState>()(
             set({
               currentSession: newSession,
               sessions: newSessions,
-              messages: []
+              messages: [],
+              activeLeafId: null
             })
 
           return chatId
@@ -337,6 +385,7 @@ export const useChatStore = create<ChatState>()(
                 role: message.role,
                 content: message.content,
                 type: message.type || 'text',
+                parentId: message.parentId,
                 metadata: message.metadata || {},
                 attachments: message.attachments || []
               })
@@ -373,7 +422,8 @@ export const useChatStore = create<ChatState>()(
       },        setCurrentSession: (session: ChatSession | null) => {
           set({ 
             currentSession: session,
-            messages: session?.messages || []
+            messages: linkMessages(session?.messages || []),
+            activeLeafId: session?.metadata?.activeLeafId ?? null
           })
         },
 
@@ -397,6 +447,7 @@ export const useChatStore = create<ChatState>()(
           set({
             currentSession: null,
             messages: [],
+            activeLeafId: null,
             isLoading: false
           })
         },
@@ -424,7 +475,7 @@ export const useChatStore = create<ChatState>()(
           })
         },
         
-        clearMessages: () => set({ messages: [] }),
+        clearMessages: () => set({ messages: [], activeLeafId: null }),
 
         loadChatFromMongoDB: async (chatId: string) => {
           try {
@@ -451,7 +502,8 @@ export const useChatStore = create<ChatState>()(
 
             set({
               currentSession: session,
-              messages: session.messages
+              messages: linkMessages(session.messages),
+              activeLeafId: session.metadata?.activeLeafId ?? null
             })
           } catch (error) {
             console.error('Error loading chat from MongoDB:', error)
@@ -572,6 +624,7 @@ export const useChatStore = create<ChatState>()(
                   role: message.role,
                   content: message.content,
                   type: message.type || 'text',
+                  parentId: message.parentId,
                   metadata: message.metadata || {},
                   attachments: message.attachments || []
                 })
@@ -597,6 +650,7 @@ export const useChatStore = create<ChatState>()(
           set({
             currentSession: null,
             messages: [],
+            activeLeafId: null,
             sessions: [],
             isLoading: false
           })
@@ -0,0 +1,328 @@
+// Resumable SSE: every streamed event gets a sequence number and is buffered in Redis,
+// so a client that loses its connection can reconnect with Last-Event-ID and replay what it missed.
+import { v4 as uuidv4 } from 'uuid'
+import { RedisChatCache } from '@/lib/redis'
+
+export interface StreamSessionInfo {
+  id: string
+  status: 'streaming' | 'complete' | 'error' | 'stopped'
+  chatId?: string
+  model?: string
+  lastSeq: number
+  error?: string // Set when the buffer lost events and the session can't be resumed
+  createdAt: number
+  updatedAt: number
+}
+
+// Storage the sessions need. RedisChatCache provides it in production; any object with these methods
+// (an in-memory map, or RedisChatCache pointed at a local Upstash-compatible server) works for tests.
+export interface StreamSessionStore {
+  setStreamingSession(sessionId: string, data: any, ttl?: number): Promise<void>
+  getStreamingSession(sessionId: string): Promise<unknown>
+  appendStreamEvents(sessionId: string, events: Array<{ seq: number; data: any }>, ttl?: number): Promise<void>
+  getStreamEvents(sessionId: string, afterSeq?: number): Promise<unknown[]> // Events with seq > afterSeq, in seq order
+}
+
+const SESSION_TTL = 1800
+// Events are written to Redis in batches rather than one request per token
+const FLUSH_BATCH_SIZE = 20
+const FLUSH_INTERVAL_MS = 250
+
+const encoder = new TextEncoder()
+
+// Upstash deserializes JSON itself; plain Redis clients hand back strings
+function fromStore<T>(value: unknown): T | null {
+  if (value == null) return null
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T
+}
+
+export function formatSSEEvent(sessionId: string, seq: number, data: any): string {
+  return `id: ${sessionId}:${seq}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// Last-Event-ID values look like '<sessionId>:<seq>'
+export function parseLastEventId(value?: string | null): { sessionId: string; seq: number } | null {
+  if (!value) return null
+  const separator = value.lastIndexOf(':')
+  if (separator <= 0) return null
+  const seq = Number(value.slice(separator + 1))
+  if (!Number.isInteger(seq) || seq < 0) return null
+  return { sessionId: value.slice(0, separator), seq }
+}
+
+// Parse the `data:` payloads of an SSE byte stream, e.g. the one returned by Orchestrator.processMessageStream
+export async function* readSSEEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const blocks = buffer.split('\n\n')
+      buffer = blocks.pop() || ''
+      for (const block of blocks) {
+        const data = block.split('\n').find(line => line.startsWith('data: '))
+        if (!data) continue
+        try {
+          yield JSON.parse(data.slice(6))
+        } catch {
+          // Skip malformed events
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Sessions generating in this server process, so a stop request can abort them
+const activeSessions = new Map<string, StreamSession>()
+
+export class StreamSession {
+  readonly id: string
+  private abortController = new AbortController()
+  private info: StreamSessionInfo
+  private store: StreamSessionStore
+  private persistent: boolean
+  private pending: Array<{ seq: number; data: any }> = []
+  private writes: Promise<void> = Promise.resolve()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private controller: ReadableStreamDefaultController<Uint8Array> | null = null
+
+  private constructor(info: StreamSessionInfo, store: StreamSessionStore, persistent: boolean) {
+    this.id = info.id
+    this.info = info
+    this.store = store
+    this.persistent = persistent
+  }
+
+  // Start a session; if Redis is unreachable the response still streams, it just can't be resumed
+  static async create(details: { chatId?: string; model?: string } = {}, store: StreamSessionStore = RedisChatCache): Promise<StreamSession> {
+    const now = Date.now()
+    const info: StreamSessionInfo = { id: uuidv4(), status: 'streaming', ...details, lastSeq: 0, createdAt: now, updatedAt: now }
+    let session: StreamSession
+    try {
+      await store.setStreamingSession(info.id, info, SESSION_TTL)
+      session = new StreamSession(info, store, true)
+    } catch (error) {
+      console.error('Failed to create streaming session, stream will not be resumable:', error)
+      session = new StreamSession(info, store, false)
+    }
+    activeSessions.set(session.id, session)
+    return session
+  }
+
+  // Stop a session generating in this process; false if it already finished or runs elsewhere
+  static cancel(sessionId: string): boolean {
+    const session = activeSessions.get(sessionId)
+    if (!session) return false
+    session.stop()
+    return true
+  }
+
+  static async load(sessionId: string, store: StreamSessionStore = RedisChatCache): Promise<StreamSessionInfo | null> {
+    return fromStore<StreamSessionInfo>(await store.getStreamingSession(sessionId))
+  }
+
+  get resumable(): boolean {
+    return this.persistent
+  }
+
+  // Request-scoped signal for the orchestrator; aborted only by stop(), not by a client disconnect
+  get signal(): AbortSignal {
+    return this.abortController.signal
+  }
+
+  get stopped(): boolean {
+    return this.abortController.signal.aborted
+  }
+
+  stop() {
+    if (this.stopped) return
+    console.log(`🛑 Generation stopped for stream ${this.id} after ${this.info.lastSeq} events`)
+    this.abortController.abort()
+  }
+
+  attach(controller: ReadableStreamDefaultController<Uint8Array>) {
+    this.controller = controller
+  }
+
+  // The client went away; keep buffering so it can resume
+  detach() {
+    if (this.controller) console.log(`🔌 Client disconnected from stream ${this.id}, buffering for resume`)
+    this.controller = null
+  }
+
+  // Number the event, forward it to the client if still connected, and queue it for Redis
+  send(data: any): number {
+    const seq = ++this.info.lastSeq
+    if (this.controller) {
+      try {
+        this.controller.enqueue(encoder.encode(formatSSEEvent(this.id, seq, data)))
+      } catch {
+        this.detach()
+      }
+    }
+
+    if (this.persistent) {
+      this.pending.push({ seq, data })
+      if (this.pending.length >= FLUSH_BATCH_SIZE) this.flush()
+      else if (!this.flushTimer) this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS)
+    }
+    return seq
+  }
+
+  // Writes are chained so batches land in sequence order
+  private flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    const batch = this.pending
+    this.pending = []
+    if (batch.length) {
+      this.writes = this.writes
+        .then(() => this.persistent ? this.store.appendStreamEvents(this.id, batch, SESSION_TTL) : undefined)
+        .catch(error => this.abandonBuffer(error))
+    }
+    return this.writes
+  }
+
+  // A batch that didn't reach the store is a hole no resuming client can fill, so stop buffering and mark the session
+  // failed; a resume then reports the loss instead of replaying around it. The live response keeps streaming.
+  private async abandonBuffer(error: unknown) {
+    if (!this.persistent) return
+    console.error(`Failed to buffer stream ${this.id}, it can no longer be resumed:`, error)
+    this.persistent = false
+    this.pending = []
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    this.info = { ...this.info, status: 'error', error: 'Stream events were lost and cannot be replayed', updatedAt: Date.now() }
+    try {
+      await this.store.setStreamingSession(this.id, this.info, SESSION_TTL)
+    } catch (statusError) {
+      console.error(`Failed to mark stream ${this.id} as failed:`, statusError)
+    }
+  }
+
+  // Flush the buffer, record the final status for resuming clients, and close the live response
+  async complete(status: 'complete' | 'error' | 'stopped' = 'complete') {
+    activeSessions.delete(this.id)
+    if (this.persistent) await this.flush()
+    // The flush may have failed and abandoned the buffer, which records its own status
+    if (this.persistent) {
+      this.info = { ...this.info, status, updatedAt: Date.now() }
+      try {
+        await this.store.setStreamingSession(this.id, this.info, SESSION_TTL)
+      } catch (error) {
+        console.error(`Failed to finish streaming session ${this.id}:`, error)
+      }
+    }
+
+    try {
+      this.controller?.close()
+    } catch {}
+    this.controller = null
+  }
+}
+
+// Replay a session's events after `afterSeq`, then follow it until the generation finishes
+export function createReplayStream(
+  sessionId: string,
+  afterSeq: number,
+  store: StreamSessionStore = RedisChatCache,
+  options: { pollMs?: number; idleTimeoutMs?: number } = {}
+): ReadableStream<Uint8Array> {
+  const pollMs = options.pollMs ?? 500
+  const idleTimeoutMs = options.idleTimeoutMs ?? 60000
+  let cancelled = false
+
+  return new ReadableStream({
+    async start(controller) {
+      let seq = afterSeq
+      let lastActivity = Date.now()
+      try {
+        while (!cancelled) {
+          // Read the status before the events so nothing written in between is missed
+          const info = await StreamSession.load(sessionId, store)
+          const events = (await store.getStreamEvents(sessionId, seq)).map(event => fromStore<{ seq: number; data: any }>(event)!)
+          let gap = false
+          for (const event of events) {
+            if (event.seq <= seq) continue
+            // Events are numbered without gaps; a missing one means a lost write, and the rest would read wrong
+            if (event.seq !== seq + 1) {
+              gap = true
+              break
+            }
+            controller.enqueue(encoder.encode(formatSSEEvent(sessionId, event.seq, event.data)))
+            seq = event.seq
+          }
+          if (events.length) lastActivity = Date.now()
+
+          const lost = gap ? 'Stream events were lost and cannot be replayed' : info?.error
+          if (lost) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'error', error: lost })}\n\n`))
+            break
+          }
+          if (!info || info.status !== 'streaming') break
+          if (Date.now() - lastActivity > idleTimeoutMs) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'error', error: 'Stream session stalled' })}\n\n`))
+            break
+          }
+          await new Promise(resolve => setTimeout(resolve, pollMs))
+        }
+      } catch (error) {
+        console.error(`Failed to replay stream ${sessionId}:`, error)
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'error', error: 'Failed to resume stream' })}\n\n`))
+      }
+      if (!cancelled) controller.close()
+    },
+    cancel() {
+      cancelled = true
+    }
+  })
+}
+
+// DELETE handler body shared by the streaming routes: the stop button aborts the session's generation
+export async function cancelStreamSession(request: Request): Promise<Response> {
+  const sessionId = new URL(request.url).searchParams.get('session')
+  if (!sessionId) {
+    return Response.json({ error: 'A session id is required' }, { status: 400 })
+  }
+
+  const cancelled = StreamSession.cancel(sessionId)
+  if (!cancelled) {
+    console.log(`🛑 Stop requested for stream ${sessionId}, but it is not generating here`)
+  }
+  return Response.json({ sessionId, cancelled }, { status: cancelled ? 200 : 404 })
+}
+
+// GET handler body shared by the streaming routes: resume from ?session= or the Last-Event-ID header
+export async function resumeStreamSession(request: Request, store: StreamSessionStore = RedisChatCache): Promise<Response> {
+  const url = new URL(request.url)
+  const lastEventId = parseLastEventId(request.headers.get('last-event-id') || url.searchParams.get('lastEventId'))
+  const sessionId = url.searchParams.get('session') || lastEventId?.sessionId
+  if (!sessionId) {
+    return Response.json({ error: 'A session id or Last-Event-ID header is required' }, { status: 400 })
+  }
+
+  const info = await StreamSession.load(sessionId, store)
+  if (!info) {
+    return Response.json({ error: 'Stream session not found or expired' }, { status: 404 })
+  }
+
+  const afterSeq = lastEventId?.sessionId === sessionId ? lastEventId.seq : 0
+  console.log(`🔁 Resuming stream ${sessionId} after event ${afterSeq} (${info.status})`)
+  return new Response(createReplayStream(sessionId, afterSeq, store), {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Stream-Session': sessionId,
+    },
+  })
+}
@@ -0,0 +1,27 @@
+// Browser-side Supabase client (anon key, so RLS applies). lib/supabase.ts holds the service role key and stays on the server.
+// There is no sign-in screen in this app: a session exists when the user signed in with Supabase Auth elsewhere on the same
+// origin, e.g. an embedding app calling supabase.auth.signInWithPassword(). Without one, requests act as the single local user.
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+
+let client: SupabaseClient | null | undefined
+
+export function getBrowserSupabase(): SupabaseClient | null {
+  if (client === undefined) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    client = url && anonKey ? createClient(url, anonKey) : null
+  }
+  return client
+}
+
+// `Authorization` for requests to routes that act per user (chat, memories; see lib/auth.ts): the signed-in user's access
+// token, refreshed by supabase-js when it is about to expire. Empty when nobody is signed in.
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  try {
+    const { data } = await getBrowserSupabase()?.auth.getSession() ?? { data: { session: null } }
+    return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {}
+  } catch (error) {
+    console.error('Error reading Supabase session:', error)
+    return {}
+  }
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { MessageSearchResult } from '@/types'
 
 // Supabase configuration - Server-side client with service role for admin operations
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
@@ -44,38 +45,197 @@ export interface SupabaseMessage {
   content: string
   type: 'text' | 'file' | 'image'
   timestamp: number
+  parentId?: string | null // Message tree link, see lib/message-tree
   metadata?: Record<string, any>
   attachments?: any[]
+  deleted?: boolean
+  embedding?: number[]
+}
+
+// Row in the messages table (database/supabase-schema.sql)
+export interface SupabaseMessageRow {
+  id: string
+  conversation_id: string
+  parent_id: string | null
+  role: SupabaseMessage['role']
+  content: string
+  type: SupabaseMessage['type']
+  timestamp: number
+  metadata: Record<string, any>
+  attachments: any[]
+  embedding?: number[] | string | null // pgvector columns come back as '[0.1,0.2,...]' strings
+  deleted: boolean
+  deleted_at?: string | null
+}
+
+// Both chat services store messages here; ChatService still hands out ISO string timestamps
+type StorableMessage = Omit<SupabaseMessage, 'timestamp'> & { timestamp: number | string }
+
+const CONVERSATION_COLUMNS = 'id, title, model, metadata, created_at, updated_at'
+// Everything but the embedding, which only search and the embedding job read
+const MESSAGE_COLUMNS = 'id, conversation_id, parent_id, role, content, type, timestamp, metadata, attachments, deleted, deleted_at'
+
+function toTimestamp(value: number | string | undefined): number {
+  const time = typeof value === 'number' ? value : Date.parse(value || '')
+  return Number.isFinite(time) ? time : Date.now()
+}
+
+function parseEmbedding(value: number[] | string): number[] {
+  return typeof value === 'string' ? JSON.parse(value) : value
+}
+
+function toMessageRow(conversationId: string, message: StorableMessage): Omit<SupabaseMessageRow, 'deleted_at'> {
+  return {
+    id: message.id,
+    conversation_id: conversationId,
+    parent_id: message.parentId ?? null,
+    role: message.role,
+    content: message.content,
+    type: message.type || 'text',
+    timestamp: toTimestamp(message.timestamp),
+    metadata: message.metadata || {},
+    attachments: message.attachments || [],
+    embedding: message.embedding ?? null,
+    deleted: !!message.deleted
+  }
+}
+
+function fromMessageRow(row: SupabaseMessageRow): SupabaseMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    type: row.type,
+    timestamp: Number(row.timestamp),
+    parentId: row.parent_id,
+    metadata: row.metadata || {},
+    attachments: row.attachments || [],
+    ...(row.embedding ? { embedding: parseEmbedding(row.embedding) } : {}),
+    ...(row.deleted ? { deleted: true } : {})
+  }
+}
+
+// URLs of the files a message owns: its attachments and files written by the code runner agent
+export function getMessageFileUrls(message: { attachments?: any[] | null; metadata?: Record<string, any> | null }): string[] {
+  const agentData = [message.metadata?.agentData, ...(message.metadata?.agentResults || []).map((result: any) => result?.data)]
+  return [
+    ...(message.attachments || []).map((attachment: any) => attachment?.url),
+    ...agentData.flatMap(data => Array.isArray(data?.files) ? data.files.map((file: any) => file?.url) : []),
+  ].filter(Boolean)
 }
 
 // Optimized database operations
 export class SupabaseChatStorage {
   // Create new conversation with initial messages
-  static async createConversation(conversation: Omit<SupabaseConversation, 'created_at' | 'updated_at'>) {
+  static async createConversation(conversation: Omit<SupabaseConversation, 'created_at' | 'updated_at'>): Promise<SupabaseConversation> {
+    const { messages, ...fields } = conversation
     const { data, error } = await supabase
       .from('conversations')
       .insert([{
-        ...conversation,
+        ...fields,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       }])
-      .select()
+      .select(CONVERSATION_COLUMNS)
       .single()
 
     if (error) throw error
-    return data
+    const saved = await this.insertMessages(conversation.id, messages)
+    return { ...data, messages: saved }
   }
 
-  // Get conversation with all messages
-  static async getConversation(id: string) {
+  // Get conversation with all messages, soft-deleted ones included and flagged
+  static async getConversation(id: string): Promise<SupabaseConversation> {
     const { data, error } = await supabase
       .from('conversations')
-      .select('*')
+      .select(CONVERSATION_COLUMNS)
       .eq('id', id)
       .single()
 
     if (error) throw error
-    return data
+    return { ...data, messages: await this.getMessages(id) }
+  }
+
+  // Messages of a conversation in the order they were written
+  static async getMessages(conversationId: string): Promise<SupabaseMessage[]> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('conversation_id', conversationId)
+      .order('timestamp', { ascending: true })
+      .order('seq', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(row => fromMessageRow(row as SupabaseMessageRow))
+  }
+
+  // One message, deleted or not; null if the conversation has no such message
+  static async getMessage(conversationId: string, messageId: string): Promise<SupabaseMessage | null> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('conversation_id', conversationId)
+      .eq('id', messageId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? fromMessageRow(data as SupabaseMessageRow) : null
+  }
+
+  // URLs of every file uploaded to a conversation: message attachments, files written by the code runner agent, plus
+  // indexed documents whose message was never saved (the upload happens before the answer). Read before deleting; the
+  // chunk rows cascade away.
+  static async getFileUrls(conversationId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('attachments, metadata')
+      .eq('conversation_id', conversationId)
+
+    if (error) throw error
+    const urls: string[] = (data || []).flatMap(row => getMessageFileUrls(row))
+
+    const { data: chunks, error: chunkError } = await supabase
+      .from('document_chunks')
+      .select('file_url')
+      .eq('conversation_id', conversationId)
+
+    // Databases without migration 005 have no document_chunks table
+    if (chunkError) console.warn('⚠️ Could not list document files:', chunkError.message)
+    urls.push(...(chunks || []).map(chunk => chunk.file_url))
+
+    return [...new Set(urls)]
+  }
+
+  // Insert message rows. Ids already stored are skipped, so a retried save neither duplicates nor clobbers edits.
+  // Messages without a parentId continue from the latest stored message, as linkMessages does for old arrays.
+  static async insertMessages<T extends StorableMessage>(conversationId: string, messages: T[]): Promise<T[]> {
+    if (!messages.length) return []
+
+    let previousId: string | null = null
+    if (messages.some(message => message.parentId === undefined)) {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id')
+        .eq('conversation_id', conversationId)
+        .order('seq', { ascending: false })
+        .limit(1)
+
+      if (error) throw error
+      previousId = data?.[0]?.id ?? null
+    }
+
+    const linked = messages.map(message => {
+      const parentId = message.parentId !== undefined ? message.parentId : previousId
+      previousId = message.id
+      return { ...message, parentId }
+    })
+
+    const { error } = await supabase
+      .from('messages')
+      .upsert(linked.map(message => toMessageRow(conversationId, message)), { onConflict: 'conversation_id,id', ignoreDuplicates: true })
+
+    if (error) throw error
+    return linked
   }
 
   // Get conversation list (optimized - no messages)
@@ -89,33 +249,140 @@ export class SupabaseChatStorage {
     return data || []
   }
 
-  // Append messages to existing conversation
+  // Full-text search over message content, fused with vector similarity when a query embedding is given
+  static async searchMessages(
+    query: string,
+    options: { embedding?: number[]; limit?: number } = {}
+  ): Promise<MessageSearchResult[]> {
+    const { data, error } = await supabase.rpc('search_messages', {
+      search_query: query,
+      query_embedding: options.embedding?.length ? JSON.stringify(options.embedding) : null,
+      match_count: options.limit ?? 20
+    })
+
+    if (error) throw error
+    return (data || []).map((row: any) => ({
+      conversationId: row.conversation_id,
+      conversationTitle: row.conversation_title,
+      messageId: row.message_id,
+      role: row.role,
+      snippet: row.snippet,
+      timestamp: Number(row.message_timestamp),
+      textRank: row.text_rank,
+      similarity: row.similarity,
+      score: row.score
+    }))
+  }
+
+  // Append messages to existing conversation (one row each, nothing else is read or rewritten)
   static async appendMessages(conversationId: string, newMessages: SupabaseMessage[]) {
-    // First get current conversation
-    const { data: conversation, error: fetchError } = await supabase
-      .from('conversations')
-      .select('messages')
-      .eq('id', conversationId)
-      .single()
+    const saved = await this.insertMessages(conversationId, newMessages)
+    await this.touchConversation(conversationId)
+    return saved
+  }
 
-    if (fetchError) throw fetchError
+  // Update fields of one message; false if the conversation has no such message
+  static async updateMessage(
+    conversationId: string,
+    messageId: string,
+    updates: Partial<Pick<SupabaseMessage, 'content' | 'metadata' | 'attachments' | 'deleted' | 'embedding'>>
+  ): Promise<boolean> {
+    const row: Record<string, any> = {}
+    if (updates.content !== undefined) {
+      row.content = updates.content
+      // Edited text needs a new vector; the embedding job picks up rows without one
+      if (updates.embedding === undefined) {
+        row.embedding = null
+        row.embedding_model = null
+      }
+    }
+    if (updates.metadata !== undefined) row.metadata = updates.metadata
+    if (updates.attachments !== undefined) row.attachments = updates.attachments
+    if (updates.embedding !== undefined) {
+      row.embedding = updates.embedding
+      row.embedding_model = null // Supplied by the client; kept until the content changes
+    }
+    if (updates.deleted !== undefined) {
+      row.deleted = updates.deleted
+      row.deleted_at = updates.deleted ? new Date().toISOString() : null
+    }
 
-    // Append new messages
-    const updatedMessages = [...(conversation.messages || []), ...newMessages]
+    const { data, error } = await supabase
+      .from('messages')
+      .update(row)
+      .eq('conversation_id', conversationId)
+      .eq('id', messageId)
+      .select('id')
 
-    // Update conversation
+    if (error) throw error
+    if (!data?.length) return false
+
+    await this.touchConversation(conversationId)
+    return true
+  }
+
+  // Messages with text but no vector from this embedding model (new, edited, or embedded by another model)
+  static async getMessagesToEmbed(
+    model: string,
+    options: { conversationId?: string; limit?: number } = {}
+  ): Promise<Array<{ conversationId: string; messageId: string; content: string; updatedAt: string }>> {
+    let query = supabase
+      .from('messages')
+      .select('id, conversation_id, content, updated_at')
+      .eq('deleted', false)
+      .neq('content', '')
+      .or(`embedding.is.null,embedding_model.neq.${JSON.stringify(model)}`)
+
+    if (options.conversationId) query = query.eq('conversation_id', options.conversationId)
+
+    const { data, error } = await query
+      .order('seq', { ascending: true })
+      .limit(options.limit ?? 100)
+
+    if (error) throw error
+    return (data || []).map(row => ({
+      conversationId: row.conversation_id,
+      messageId: row.id,
+      content: row.content,
+      updatedAt: row.updated_at
+    }))
+  }
+
+  // Store a vector unless the message was edited after it was read; false if nothing was written
+  static async saveEmbedding(
+    message: { conversationId: string; messageId: string; updatedAt: string },
+    embedding: number[],
+    model: string
+  ): Promise<boolean> {
     const { data, error } = await supabase
-      .from('conversations')
+      .from('messages')
       .update({
-        messages: updatedMessages,
-        updated_at: new Date().toISOString()
+        embedding: JSON.stringify(embedding),
+        embedding_model: model,
+        embedded_at: new Date().toISOString()
       })
+      .eq('conversation_id', message.conversationId)
+      .eq('id', message.messageId)
+      .eq('updated_at', message.updatedAt)
+      .select('id')
+
+    if (error) throw error
+    return !!data?.length
+  }
+
+  // Soft delete: the row stays (replies still point at it) but is flagged deleted
+  static async softDeleteMessage(conversationId: string, messageId: string): Promise<boolean> {
+    return this.updateMessage(conversationId, messageId, { deleted: true })
+  }
+
+  // Bump updated_at so the conversation list sorts by latest activity
+  private static async touchConversation(conversationId: string) {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ updated_at: new Date().toISOString() })
       .eq('id', conversationId)
-      .select()
-      .single()
 
     if (error) throw error
-    return data
   }
 
   // Delete conversation
@@ -140,23 +407,7 @@ export class SupabaseChatStorage {
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
-      .select()
-      .single()
-
-    if (error) throw error
-    return data
-  }
-
-  // Update conversation messages (for message updates/deletes)
-  static async updateConversationMessages(id: string, messages: SupabaseMessage[]) {
-    const { data, error } = await supabase
-      .from('conversations')
-      .update({
-        messages,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
+      .select(CONVERSATION_COLUMNS)
       .single()
 
     if (error) throw error
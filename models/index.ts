@@ -1,22 +1,134 @@
 import OpenAI from 'openai'
 import Anthropic from '@anthropic-ai/sdk'
-import { GoogleGenAI } from '@google/genai'
-import { AIModel, AIResponse } from '@/types'
+import { FunctionCallingConfigMode, GoogleGenAI } from '@google/genai'
+import { AIModel, AIResponse, ModelPrompt, PromptImage, ToolCall, ToolDefinition, ToolGenerationOptions } from '@/types'
 import config from '@/lib/config'
 
-// Dynamic OpenAI Model - can handle any OpenAI model ID
+// Build an OpenAI-style message array: system prompt, prior turns, then the current user turn
+function toChatMessages(input: string | ModelPrompt) {
+  if (typeof input === 'string') return [{ role: 'user', content: input }]
+  return [
+    { role: 'system', content: input.system },
+    ...(input.history || []).map(turn => ({ role: turn.role, content: turn.content })),
+    { role: 'user', content: toChatUserContent(input.user, input.images) }
+  ]
+}
+
+// Attached images turn the user content into text and image_url parts (also accepted by Mistral's Pixtral models)
+function toChatUserContent(text: string, images: PromptImage[] = []) {
+  if (!images.length) return text
+  return [
+    { type: 'text', text },
+    ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+  ]
+}
+
+// Anthropic image blocks go before the text that asks about them
+function toAnthropicUserContent(text: string, images: PromptImage[] = []) {
+  if (!images.length) return text
+  return [
+    ...images.map(image => ({ type: 'image' as const, source: { type: 'base64' as const, media_type: image.mimeType as any, data: image.data } })),
+    { type: 'text' as const, text }
+  ]
+}
+
+// OpenAI-style function tools (also accepted by Mistral and Groq)
+function toChatTools(tools: ToolDefinition[]) {
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  }))
+}
+
+// Earlier tool rounds as OpenAI-style messages: the assistant's tool_calls followed by one tool message per result
+function toChatToolMessages(input: string | ModelPrompt) {
+  if (typeof input === 'string') return []
+  return (input.toolExchanges || []).flatMap(exchange => [
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: exchange.calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    },
+    ...exchange.results.map(result => ({ role: 'tool', tool_call_id: result.callId, content: result.content }))
+  ])
+}
+
+// Tool arguments arrive as a JSON string (OpenAI, Groq) or an object (Mistral); malformed JSON becomes {}
+function parseToolArguments(raw: unknown): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw as Record<string, any>
+  if (typeof raw !== 'string' || !raw.trim()) return {}
+  try {
+    return JSON.parse(raw)
+  } catch (e) {
+    return {}
+  }
+}
+
+function toChatToolCalls(toolCalls: any[] | undefined): ToolCall[] {
+  return (toolCalls || []).flatMap(call => call.type && call.type !== 'function' ? [] : [{
+    id: call.id,
+    name: call.function.name,
+    arguments: parseToolArguments(call.function.arguments)
+  }])
+}
+
+// Anthropic takes alternating user/assistant turns; the system text is merged into the current turn
+function toAnthropicMessages(input: string | ModelPrompt) {
+  const useInput: ModelPrompt = typeof input === 'string' ? { system: '', user: input, history: [] } : input
+  const combinedUser = useInput.system ? `${useInput.system}\n\nUSER: ${useInput.user}` : useInput.user
+  return [
+    ...(useInput.history || []).map(turn => ({ role: turn.role, content: turn.content })),
+    { role: 'user' as const, content: toAnthropicUserContent(combinedUser, useInput.images) }
+  ]
+}
+
+// Gemini calls the assistant role 'model'; the system text is prepended to the current turn
+function toGeminiContents(input: string | ModelPrompt) {
+  if (typeof input === 'string') return [{ role: 'user', parts: [{ text: input }] }]
+  return [
+    ...(input.history || []).map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] })),
+    {
+      role: 'user',
+      parts: [
+        { text: `${input.system}\n\n${input.user}`.trim() },
+        ...(input.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))
+      ]
+    }
+  ]
+}
+
+// Connection settings for OpenAI-compatible servers; defaults to the OpenAI API
+export interface OpenAICompatibleOptions {
+  provider?: string // Provider name reported in metadata and errors
+  name?: string // Name the model is selected by, when it differs from the API model id
+  apiKey?: string
+  baseURL?: string
+  requireApiKey?: boolean // Self-hosted servers usually run without a key
+}
+
+// Dynamic OpenAI Model - can handle any OpenAI model ID, or any model on an OpenAI-compatible server
 export class DynamicOpenAIModel implements AIModel {
   name: string
-  provider = 'OpenAI'
+  provider: string
   type = 'text' as const
   private client: OpenAI
   private modelId: string
+  private hasApiKey: boolean
 
-  constructor(modelId: string) {
+  constructor(modelId: string, options: OpenAICompatibleOptions = {}) {
+    const apiKey = options.apiKey ?? config.openai.apiKey
     this.modelId = modelId
-    this.name = modelId
+    this.name = options.name || modelId
+    this.provider = options.provider || 'OpenAI'
+    this.hasApiKey = !!apiKey || options.requireApiKey === false
     this.client = new OpenAI({
-      apiKey: config.openai.apiKey,
+      // The SDK insists on a key; keyless servers ignore the placeholder
+      apiKey: apiKey || 'not-needed',
+      baseURL: options.baseURL || config.openai.baseURL,
     })
   }
 
@@ -36,25 +148,23 @@ export class DynamicOpenAIModel implements AIModel {
     return { max_tokens: tokens }
   }
 
-  async generate(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number; stream?: boolean }): Promise<AIResponse> {
+  async generate(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; stream?: boolean; signal?: AbortSignal }): Promise<AIResponse> {
     try {
-      if (!config.openai.apiKey) {
-        throw new Error('OpenAI API key not configured')
+      if (!this.hasApiKey) {
+        throw new Error(`${this.provider} API key not configured`)
       }
 
       const client = this.client
       const tokenParams = this.getTokenParams(options?.maxTokens)
 
-      const messages = typeof input === 'string'
-        ? [{ role: 'user', content: input }]
-        : [ { role: 'system', content: input.system }, { role: 'user', content: input.user } ]
+      const messages = toChatMessages(input)
       const completion = await client.chat.completions.create({
         model: this.modelId,
         messages: messages as any,
         temperature: options?.temperature || 0.7,
         ...tokenParams,
         stream: options?.stream || false,
-      })
+      }, { signal: options?.signal })
 
       if ('choices' in completion) {
         const content = completion.choices[0]?.message?.content || ''
@@ -71,31 +181,74 @@ export class DynamicOpenAIModel implements AIModel {
         }
       }
 
-      throw new Error('Invalid response from OpenAI')
+      throw new Error(`Invalid response from ${this.provider}`)
     } catch (error) {
       console.error(`${this.modelId} generation error:`, error)
-      throw error
+      throw this.normalizeError(error)
     }
   }
 
-  async generateStream(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<ReadableStream> {
-    if (!config.openai.apiKey) {
-      throw new Error('OpenAI API key not configured')
+  async generateWithTools(input: string | ModelPrompt, tools: ToolDefinition[], options?: ToolGenerationOptions): Promise<AIResponse> {
+    try {
+      if (!this.hasApiKey) {
+        throw new Error(`${this.provider} API key not configured`)
+      }
+
+      const completion = await this.client.chat.completions.create({
+        model: this.modelId,
+        messages: [...toChatMessages(input), ...toChatToolMessages(input)] as any,
+        tools: toChatTools(tools) as any,
+        tool_choice: options?.toolChoice || 'auto',
+        temperature: options?.temperature ?? 0.7,
+        ...this.getTokenParams(options?.maxTokens),
+      }, { signal: options?.signal })
+
+      const message = completion.choices[0]?.message
+      return {
+        id: completion.id,
+        content: message?.content || '',
+        type: 'text',
+        toolCalls: toChatToolCalls(message?.tool_calls),
+        metadata: {
+          model: this.name,
+          provider: this.provider,
+          tokens: completion.usage?.total_tokens,
+          duration: Date.now()
+        }
+      }
+    } catch (error) {
+      console.error(`${this.modelId} tool generation error:`, error)
+      throw this.normalizeError(error)
+    }
+  }
+
+  // Report SDK errors in the same '<Provider> API error: <status> <message>' form as the fetch-based providers
+  private normalizeError(error: unknown) {
+    if (error instanceof OpenAI.APIError) {
+      return new Error(`${this.provider} API error: ${error.message}`)
+    }
+    return error
+  }
+
+  async generateStream(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<ReadableStream> {
+    if (!this.hasApiKey) {
+      throw new Error(`${this.provider} API key not configured`)
     }
 
     const tokenParams = this.getTokenParams(options?.maxTokens)
 
-    const messages = typeof input === 'string'
-      ? [{ role: 'user', content: input }]
-      : [ { role: 'system', content: input.system }, { role: 'user', content: input.user } ]
+    const messages = toChatMessages(input)
     const stream = await this.client.chat.completions.create({
       model: this.modelId,
       messages: messages as any,
       temperature: options?.temperature || 0.7,
       ...tokenParams,
       stream: true,
+    }, { signal: options?.signal }).catch(error => {
+      throw this.normalizeError(error)
     })
 
+    const normalizeError = (error: unknown) => this.normalizeError(error)
     return new ReadableStream({
       async start(controller) {
         try {
@@ -110,13 +263,25 @@ export class DynamicOpenAIModel implements AIModel {
           }
           controller.close()
         } catch (error) {
-          controller.error(error)
+          controller.error(normalizeError(error))
         }
       }
     })
   }
 }
 
+// Dynamic Groq Model - Groq serves its models through an OpenAI-compatible API
+export class DynamicGroqModel extends DynamicOpenAIModel {
+  constructor(modelId: string, name: string = modelId) {
+    super(modelId, {
+      provider: 'Groq',
+      name,
+      apiKey: config.groq.apiKey,
+      baseURL: config.groq.baseURL,
+    })
+  }
+}
+
 // Dynamic Mistral Model - can handle any Mistral model ID
 export class DynamicMistralModel implements AIModel {
   name: string
@@ -129,15 +294,13 @@ export class DynamicMistralModel implements AIModel {
     this.name = modelId
   }
 
-  async generate(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number; stream?: boolean }): Promise<AIResponse> {
+  async generate(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; stream?: boolean; signal?: AbortSignal }): Promise<AIResponse> {
     try {
       if (!config.mistral.apiKey) {
         throw new Error('Mistral API key not configured')
       }
 
-      const bodyPayload = typeof input === 'string'
-        ? { model: this.modelId, messages: [{ role: 'user', content: input }], temperature: options?.temperature || 0.7, max_tokens: options?.maxTokens || 4000, stream: options?.stream || false }
-        : { model: this.modelId, messages: [ { role: 'system', content: input.system }, { role: 'user', content: input.user } ], temperature: options?.temperature || 0.7, max_tokens: options?.maxTokens || 4000, stream: options?.stream || false }
+      const bodyPayload = { model: this.modelId, messages: toChatMessages(input), temperature: options?.temperature || 0.7, max_tokens: options?.maxTokens || 4000, stream: options?.stream || false }
       const response = await fetch(`${config.mistral.baseURL}/chat/completions`, {
         method: 'POST',
         headers: {
@@ -145,6 +308,7 @@ export class DynamicMistralModel implements AIModel {
           'Authorization': `Bearer ${config.mistral.apiKey}`,
         },
         body: JSON.stringify(bodyPayload),
+        signal: options?.signal,
       })
 
       if (!response.ok) {
@@ -170,7 +334,55 @@ export class DynamicMistralModel implements AIModel {
     }
   }
 
-  async generateStream(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<ReadableStream> {
+  async generateWithTools(input: string | ModelPrompt, tools: ToolDefinition[], options?: ToolGenerationOptions): Promise<AIResponse> {
+    try {
+      if (!config.mistral.apiKey) {
+        throw new Error('Mistral API key not configured')
+      }
+
+      const response = await fetch(`${config.mistral.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.mistral.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.modelId,
+          messages: [...toChatMessages(input), ...toChatToolMessages(input)],
+          tools: toChatTools(tools),
+          tool_choice: options?.toolChoice || 'auto',
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens || 4000,
+        }),
+        signal: options?.signal,
+      })
+
+      if (!response.ok) {
+        throw new Error(`Mistral API error: ${response.status} ${response.statusText}`)
+      }
+
+      const completion = await response.json()
+      const message = completion.choices[0]?.message
+
+      return {
+        id: completion.id || `mistral-${Date.now()}`,
+        content: message?.content || '',
+        type: 'text',
+        toolCalls: toChatToolCalls(message?.tool_calls),
+        metadata: {
+          model: this.name,
+          provider: this.provider,
+          tokens: completion.usage?.total_tokens,
+          duration: Date.now()
+        }
+      }
+    } catch (error) {
+      console.error(`${this.modelId} tool generation error:`, error)
+      throw error
+    }
+  }
+
+  async generateStream(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<ReadableStream> {
     if (!config.mistral.apiKey) {
       throw new Error('Mistral API key not configured')
     }
@@ -181,9 +393,8 @@ export class DynamicMistralModel implements AIModel {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${config.mistral.apiKey}`,
       },
-      body: JSON.stringify(typeof input === 'string'
-        ? { model: this.modelId, messages: [{ role: 'user', content: input }], temperature: options?.temperature || 0.7, max_tokens: options?.maxTokens || 4000, stream: true }
-        : { model: this.modelId, messages: [ { role: 'system', content: input.system }, { role: 'user', content: input.user } ], temperature: options?.temperature || 0.7, max_tokens: options?.maxTokens || 4000, stream: true }),
+      body: JSON.stringify({ model: this.modelId, messages: toChatMessages(input), temperature: options?.temperature || 0.7, max_tokens: options?.maxTokens || 4000, stream: true }),
+      signal: options?.signal,
     })
 
     if (!response.ok) {
@@ -254,22 +465,20 @@ export class GPT4Model implements AIModel {
     })
   }
 
-  async generate(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number; stream?: boolean }): Promise<AIResponse> {
+  async generate(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; stream?: boolean; signal?: AbortSignal }): Promise<AIResponse> {
     try {
       if (!config.openai.apiKey) {
         throw new Error('OpenAI API key not configured')
       }
 
-      const messages = typeof input === 'string'
-        ? [{ role: 'user', content: input }]
-        : [ { role: 'system', content: input.system }, { role: 'user', content: input.user } ]
+      const messages = toChatMessages(input)
       const completion = await this.client.chat.completions.create({
         model: 'gpt-4',
         messages: messages as any,
         temperature: options?.temperature || 0.7,
         max_tokens: options?.maxTokens || 4000,
         stream: options?.stream || false,
-      })
+      }, { signal: options?.signal })
 
       if ('choices' in completion) {
         const content = completion.choices[0]?.message?.content || ''
@@ -293,21 +502,19 @@ export class GPT4Model implements AIModel {
     }
   }
 
-  async generateStream(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<ReadableStream> {
+  async generateStream(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<ReadableStream> {
     if (!config.openai.apiKey) {
       throw new Error('OpenAI API key not configured')
     }
 
-    const messages = typeof input === 'string'
-      ? [{ role: 'user', content: input }]
-      : [ { role: 'system', content: input.system }, { role: 'user', content: input.user } ]
+    const messages = toChatMessages(input)
     const stream = await this.client.chat.completions.create({
       model: 'gpt-4',
       messages: messages as any,
       temperature: options?.temperature || 0.7,
       max_tokens: options?.maxTokens || 4000,
       stream: true,
-    })
+    }, { signal: options?.signal })
 
     return new ReadableStream({
       async start(controller) {
@@ -343,20 +550,18 @@ export class ClaudeModel implements AIModel {
     })
   }
 
-  async generate(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<AIResponse> {
+  async generate(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<AIResponse> {
     try {
       if (!config.anthropic.apiKey) {
         throw new Error('Anthropic API key not configured')
       }
 
-      const useInput = typeof input === 'string' ? { system: '', user: input } : input
-      const combinedUser = useInput.system ? `${useInput.system}\n\nUSER: ${useInput.user}` : useInput.user
       const message = await this.client.messages.create({
         model: 'claude-3-sonnet-20240229',
         max_tokens: options?.maxTokens || 4000,
         temperature: options?.temperature || 0.7,
-        messages: [{ role: 'user', content: combinedUser }],
-      })
+        messages: toAnthropicMessages(input),
+      }, { signal: options?.signal })
 
       const content = message.content[0]?.type === 'text' ? message.content[0].text : ''
 
@@ -377,20 +582,18 @@ export class ClaudeModel implements AIModel {
     }
   }
 
-  async generateStream(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<ReadableStream> {
+  async generateStream(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<ReadableStream> {
     if (!config.anthropic.apiKey) {
       throw new Error('Anthropic API key not configured')
     }
 
-    const useInput = typeof input === 'string' ? { system: '', user: input } : input
-    const combinedUser = useInput.system ? `${useInput.system}\n\nUSER: ${useInput.user}` : useInput.user
     const stream = await this.client.messages.create({
       model: 'claude-3-sonnet-20240229',
       max_tokens: options?.maxTokens || 4000,
       temperature: options?.temperature || 0.7,
-      messages: [{ role: 'user', content: combinedUser }],
+      messages: toAnthropicMessages(input),
       stream: true,
-    })
+    }, { signal: options?.signal })
 
     return new ReadableStream({
       async start(controller) {
@@ -413,6 +616,222 @@ export class ClaudeModel implements AIModel {
   }
 }
 
+// Dynamic Anthropic Model - can handle any Claude model ID through the Messages API
+export class DynamicAnthropicModel implements AIModel {
+  name: string
+  provider = 'Anthropic'
+  type = 'text' as const
+  private modelId: string
+  private apiKey: string
+  private baseURL: string
+  private version: string
+
+  constructor(modelId: string, options: { apiKey?: string; baseURL?: string; version?: string } = {}) {
+    this.modelId = modelId
+    this.name = modelId
+    this.apiKey = options.apiKey ?? config.anthropic.apiKey
+    this.baseURL = (options.baseURL || config.anthropic.baseURL).replace(/\/$/, '')
+    this.version = options.version || config.anthropic.version
+  }
+
+  // Messages API body: the system prompt goes in its own field, prior turns precede the current user turn
+  private buildBody(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }, stream = false) {
+    const useInput: ModelPrompt = typeof input === 'string' ? { system: '', user: input, history: [] } : input
+    return {
+      model: this.modelId,
+      max_tokens: options?.maxTokens || 4000,
+      temperature: options?.temperature || 0.7,
+      ...(useInput.system ? { system: useInput.system } : {}),
+      messages: [
+        ...(useInput.history || []).map(turn => ({ role: turn.role, content: turn.content })),
+        { role: 'user', content: toAnthropicUserContent(useInput.user, useInput.images) },
+        ...this.toToolMessages(useInput.toolExchanges || [])
+      ],
+      stream
+    }
+  }
+
+  // Earlier tool rounds: the assistant's tool_use blocks, answered by a user turn of tool_result blocks
+  private toToolMessages(exchanges: NonNullable<ModelPrompt['toolExchanges']>) {
+    return exchanges.flatMap(exchange => [
+      {
+        role: 'assistant',
+        content: exchange.assistant || exchange.calls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+      },
+      {
+        role: 'user',
+        content: exchange.results.map(result => ({
+          type: 'tool_result',
+          tool_use_id: result.callId,
+          content: result.content,
+          ...(result.isError ? { is_error: true } : {})
+        }))
+      }
+    ])
+  }
+
+  private async request(body: object, signal?: AbortSignal): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error('Anthropic API key not configured')
+    }
+
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': this.version,
+      },
+      body: JSON.stringify(body),
+      signal,
+    })
+
+    if (!response.ok) {
+      // Error bodies look like { type: 'error', error: { type, message } }
+      const detail = await response.json().catch(() => null)
+      throw new Error(`Anthropic API error: ${response.status} ${detail?.error?.message || response.statusText}`)
+    }
+
+    return response
+  }
+
+  async generate(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<AIResponse> {
+    try {
+      const response = await this.request(this.buildBody(input, options), options?.signal)
+      const message = await response.json()
+
+      const content = (message.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('')
+
+      return {
+        id: message.id || `anthropic-${Date.now()}`,
+        content,
+        type: 'text',
+        metadata: {
+          model: this.name,
+          provider: this.provider,
+          tokens: (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0),
+          stopReason: message.stop_reason,
+          duration: Date.now()
+        }
+      }
+    } catch (error) {
+      console.error(`${this.modelId} generation error:`, error)
+      throw error
+    }
+  }
+
+  async generateWithTools(input: string | ModelPrompt, tools: ToolDefinition[], options?: ToolGenerationOptions): Promise<AIResponse> {
+    try {
+      const response = await this.request({
+        ...this.buildBody(input, options),
+        temperature: options?.temperature ?? 0.7,
+        tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+        tool_choice: { type: options?.toolChoice || 'auto' }
+      }, options?.signal)
+      const message = await response.json()
+      const blocks: any[] = message.content || []
+
+      return {
+        id: message.id || `anthropic-${Date.now()}`,
+        content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+        type: 'text',
+        toolCalls: blocks
+          .filter(block => block.type === 'tool_use')
+          .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} })),
+        metadata: {
+          model: this.name,
+          provider: this.provider,
+          tokens: (message.usage?.input_tokens || 0) + (message.usage?.output_tokens || 0),
+          stopReason: message.stop_reason,
+          // Replayed as-is so any thinking blocks stay attached to their tool calls
+          assistantMessage: blocks,
+          duration: Date.now()
+        }
+      }
+    } catch (error) {
+      console.error(`${this.modelId} tool generation error:`, error)
+      throw error
+    }
+  }
+
+  async generateStream(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<ReadableStream> {
+    const response = await this.request(this.buildBody(input, options, true), options?.signal)
+
+    return new ReadableStream({
+      async start(controller) {
+        const emit = (content: string) => {
+          controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ 
+            type: 'content',
+            content 
+          })}\n\n`))
+        }
+
+        try {
+          const reader = response.body?.getReader()
+          if (!reader) {
+            throw new Error('No response body')
+          }
+
+          const decoder = new TextDecoder()
+          let buffer = ''
+
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+
+            buffer += decoder.decode(value, { stream: true })
+
+            // SSE events are separated by a blank line; keep any partial event for the next chunk
+            const events = buffer.split(/\r?\n\r?\n/)
+            buffer = events.pop() || ''
+
+            for (const rawEvent of events) {
+              const dataLines = rawEvent.split(/\r?\n/).filter(line => line.startsWith('data:'))
+              if (!dataLines.length) continue
+
+              let event: any
+              try {
+                event = JSON.parse(dataLines.map(line => line.slice(5).trimStart()).join('\n'))
+              } catch (e) {
+                // Skip invalid JSON
+                continue
+              }
+
+              switch (event.type) {
+                case 'content_block_start':
+                  if (event.content_block?.type === 'text' && event.content_block.text) {
+                    emit(event.content_block.text)
+                  }
+                  break
+                case 'content_block_delta':
+                  if (event.delta?.type === 'text_delta' && event.delta.text) {
+                    emit(event.delta.text)
+                  }
+                  break
+                case 'message_stop':
+                  controller.close()
+                  return
+                case 'error':
+                  throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown error'}`)
+                default:
+                  // message_start, content_block_stop, message_delta and ping carry no text
+                  break
+              }
+            }
+          }
+
+          controller.close()
+        } catch (error) {
+          controller.error(error)
+        }
+      }
+    })
+  }
+}
+
 // Google Gemini Models
 export class GeminiModel implements AIModel {
   name = 'Gemini-Pro'
@@ -426,21 +845,15 @@ export class GeminiModel implements AIModel {
     })
   }
 
-  async generate(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<AIResponse> {
+  async generate(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<AIResponse> {
     try {
       if (!config.google.apiKey) {
         throw new Error('Google AI API key not configured')
       }
 
-      let contents: any
-      if (typeof input === 'string') {
-        contents = [{ role: 'user', parts: [{ text: input }] }]
-      } else {
-        // Gemini supports systemInstruction in newer API, but fallback by prepending system text
-        const merged = `${input.system}\n\n${input.user}`.trim()
-        contents = [{ role: 'user', parts: [{ text: merged }] }]
-      }
-      const response = await this.client.models.generateContent({ model: 'gemini-2.5-flash', contents })
+      // Gemini supports systemInstruction in newer API, but fallback by prepending system text
+      const contents = toGeminiContents(input)
+      const response = await this.client.models.generateContent({ model: 'gemini-2.5-flash', contents, config: { abortSignal: options?.signal } })
 
       const content = response.text || ''
 
@@ -461,7 +874,7 @@ export class GeminiModel implements AIModel {
     }
   }
 
-  async generateStream(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<ReadableStream> {
+  async generateStream(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<ReadableStream> {
     if (!config.google.apiKey) {
       throw new Error('Google AI API key not configured')
     }
@@ -472,10 +885,8 @@ export class GeminiModel implements AIModel {
       async start(controller) {
         try {
           // Get the full response first
-          let contents: any
-          if (typeof input === 'string') contents = [{ role: 'user', parts: [{ text: input }] }]
-          else contents = [{ role: 'user', parts: [{ text: `${input.system}\n\n${input.user}`.trim() }] }]
-          const response = await client.models.generateContent({ model: 'gemini-2.5-flash', contents })
+          const contents = toGeminiContents(input)
+          const response = await client.models.generateContent({ model: 'gemini-2.5-flash', contents, config: { abortSignal: options?.signal } })
           
           const content = response.text || ''
           
@@ -483,6 +894,8 @@ export class GeminiModel implements AIModel {
           const words = content.split(' ')
           
           for (let i = 0; i < words.length; i++) {
+            // The simulated stream has no request left to abort, so stop emitting instead
+            options?.signal?.throwIfAborted()
             const chunk = (i > 0 ? ' ' : '') + words[i]
             
             // Send only the new chunk as SSE data
@@ -520,16 +933,14 @@ export class DynamicGoogleModel implements AIModel {
     })
   }
 
-  async generate(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<AIResponse> {
+  async generate(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<AIResponse> {
     try {
       if (!config.google.apiKey) {
         throw new Error('Google AI API key not configured')
       }
 
-  let contents: any
-  if (typeof input === 'string') contents = [{ role: 'user', parts: [{ text: input }] }]
-  else contents = [{ role: 'user', parts: [{ text: `${input.system}\n\n${input.user}`.trim() }] }]
-  const response = await this.client.models.generateContent({ model: this.modelId, contents })
+      const contents = toGeminiContents(input)
+      const response = await this.client.models.generateContent({ model: this.modelId, contents, config: { abortSignal: options?.signal } })
 
       const content = response.text || ''
 
@@ -550,7 +961,79 @@ export class DynamicGoogleModel implements AIModel {
     }
   }
 
-  async generateStream(input: string | { system: string; user: string }, options?: { temperature?: number; maxTokens?: number }): Promise<ReadableStream> {
+  async generateWithTools(input: string | ModelPrompt, tools: ToolDefinition[], options?: ToolGenerationOptions): Promise<AIResponse> {
+    try {
+      if (!config.google.apiKey) {
+        throw new Error('Google AI API key not configured')
+      }
+
+      // Earlier tool rounds: the model's functionCall turn, answered by a user turn of functionResponse parts
+      const exchanges = typeof input === 'string' ? [] : input.toolExchanges || []
+      const contents = [
+        ...toGeminiContents(input),
+        ...exchanges.flatMap(exchange => [
+          (exchange.assistant as any) || {
+            role: 'model',
+            parts: exchange.calls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.arguments } }))
+          },
+          {
+            role: 'user',
+            parts: exchange.results.map(result => ({
+              functionResponse: {
+                id: result.callId,
+                name: result.name,
+                response: result.isError ? { error: result.content } : { output: result.content }
+              }
+            }))
+          }
+        ])
+      ]
+
+      const response = await this.client.models.generateContent({
+        model: this.modelId,
+        contents,
+        config: {
+          abortSignal: options?.signal,
+          tools: [{
+            functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters }))
+          }],
+          toolConfig: {
+            functionCallingConfig: { mode: options?.toolChoice === 'none' ? FunctionCallingConfigMode.NONE : FunctionCallingConfigMode.AUTO }
+          },
+          temperature: options?.temperature ?? 0.7,
+          maxOutputTokens: options?.maxTokens || 4000,
+        }
+      })
+
+      // Read the parts directly; response.text warns when the turn also holds function calls
+      const candidate = response.candidates?.[0]?.content
+      const parts = candidate?.parts || []
+
+      return {
+        id: `google-${Date.now()}`,
+        content: parts.filter(part => part.text && !part.thought).map(part => part.text).join(''),
+        type: 'text',
+        toolCalls: parts.flatMap((part, index) => part.functionCall?.name ? [{
+          id: part.functionCall.id || `${part.functionCall.name}-${index}`,
+          name: part.functionCall.name,
+          arguments: part.functionCall.args || {}
+        }] : []),
+        metadata: {
+          model: this.name,
+          provider: this.provider,
+          tokens: response.usageMetadata?.totalTokenCount || 0,
+          // Replayed as-is so Gemini gets its thought signatures back
+          assistantMessage: candidate,
+          duration: Date.now()
+        }
+      }
+    } catch (error) {
+      console.error('Google tool generation error:', error)
+      throw error
+    }
+  }
+
+  async generateStream(input: string | ModelPrompt, options?: { temperature?: number; maxTokens?: number; signal?: AbortSignal }): Promise<ReadableStream> {
     if (!config.google.apiKey) {
       throw new Error('Google AI API key not configured')
     }
@@ -562,10 +1045,8 @@ export class DynamicGoogleModel implements AIModel {
       async start(controller) {
         try {
           // Get the full response first
-          let contents: any
-          if (typeof input === 'string') contents = [{ role: 'user', parts: [{ text: input }] }]
-          else contents = [{ role: 'user', parts: [{ text: `${input.system}\n\n${input.user}`.trim() }] }]
-          const response = await client.models.generateContent({ model: modelId, contents })
+          const contents = toGeminiContents(input)
+          const response = await client.models.generateContent({ model: modelId, contents, config: { abortSignal: options?.signal } })
           
           const content = response.text || ''
           
@@ -573,6 +1054,8 @@ export class DynamicGoogleModel implements AIModel {
           const words = content.split(' ')
           
           for (let i = 0; i < words.length; i++) {
+            // The simulated stream has no request left to abort, so stop emitting instead
+            options?.signal?.throwIfAborted()
             const chunk = (i > 0 ? ' ' : '') + words[i]
             
             // Send only the new chunk as SSE data
@@ -600,8 +1083,12 @@ export class DallE3Model implements AIModel {
   provider = 'OpenAI'
   type = 'image' as const
   private client: OpenAI
+  private modelId: string
 
-  constructor() {
+  // Other DALL·E ids (e.g. 'dall-e-2') are passed to the API as they are and registered under their own name
+  constructor(modelId: string = 'dall-e-3') {
+    this.modelId = modelId
+    if (modelId !== 'dall-e-3') this.name = modelId
     this.client = new OpenAI({
       apiKey: config.openai.apiKey,
     })
@@ -614,11 +1101,12 @@ export class DallE3Model implements AIModel {
       }
 
       const response = await this.client.images.generate({
-        model: 'dall-e-3',
+        model: this.modelId,
         prompt: input,
         n: 1,
         size: options?.size || '1024x1024',
-        quality: options?.quality || 'standard',
+        // Only dall-e-3 takes a quality setting
+        ...(this.modelId === 'dall-e-3' ? { quality: options?.quality || 'standard' } : {}),
       })
 
       const imageUrl = response.data?.[0]?.url
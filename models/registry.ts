@@ -0,0 +1,353 @@
+import OpenAI from 'openai'
+import { Mistral } from '@mistralai/mistralai'
+import { AIModel, ModelCapabilities, ModelInfo } from '@/types'
+import { PROVIDERS, ProviderDescriptor, parseNamespacedModelId, resolveModelCapabilities, toNamespacedModelId } from '@/lib/providers'
+import { GPT4Model, ClaudeModel, DallE3Model, GeminiModel, DynamicOpenAIModel, DynamicMistralModel, DynamicGoogleModel, DynamicAnthropicModel, DynamicGroqModel } from '@/models'
+import config from '@/lib/config'
+
+// Provider adapter: catalogue entry plus how to build and list its models
+export interface ProviderAdapter extends ProviderDescriptor {
+  createModel(modelId: string): AIModel
+  listModels(): Promise<ModelInfo[]>
+}
+
+function descriptor(id: string): ProviderDescriptor {
+  const found = PROVIDERS.find(p => p.id === id)
+  if (!found) throw new Error(`Unknown provider descriptor: ${id}`)
+  return found
+}
+
+// OpenAI lists every model on the account; sort them into text / image / voice buckets
+async function listOpenAIModels(): Promise<ModelInfo[]> {
+  if (!config.openai.apiKey) {
+    throw new Error('OpenAI API key not configured')
+  }
+
+  const openai = new OpenAI({ apiKey: config.openai.apiKey })
+  const response = await openai.models.list()
+
+  const categorize = (modelId: string): 'text' | 'image' | 'voice' | null => {
+    const id = modelId.toLowerCase()
+    if (id.includes('tts') || id.includes('whisper') || id.includes('audio') || id.includes('transcribe')) return 'voice'
+    if (id.includes('dall-e') || id.includes('image')) return 'image'
+    // Real-time models are for audio sessions, not chat
+    if (id.includes('gpt') && !id.includes('realtime')) return 'text'
+    return null
+  }
+
+  const categoryOrder = { text: 0, image: 1, voice: 2 }
+  const models: Array<ModelInfo & { category: 'text' | 'image' | 'voice' }> = []
+  for (const model of response.data) {
+    const category = categorize(model.id)
+    if (!category) continue
+    models.push({
+      name: model.id,
+      provider: 'OpenAI',
+      category,
+      id: model.id,
+      created: model.created,
+      owned_by: model.owned_by
+    })
+  }
+
+  // Sort by category first, then by name
+  return models.sort((a, b) => {
+    if (a.category !== b.category) return categoryOrder[a.category] - categoryOrder[b.category]
+    return a.name.localeCompare(b.name)
+  })
+}
+
+// Anthropic's /v1/models endpoint is paginated with has_more / last_id
+export async function listAnthropicModels(options: { apiKey?: string; baseURL?: string; version?: string } = {}): Promise<ModelInfo[]> {
+  const apiKey = options.apiKey ?? config.anthropic.apiKey
+  if (!apiKey) {
+    throw new Error('Anthropic API key not configured')
+  }
+
+  const baseURL = (options.baseURL || config.anthropic.baseURL).replace(/\/$/, '')
+  const models: ModelInfo[] = []
+  let afterId: string | undefined
+
+  do {
+    const query = new URLSearchParams({ limit: '100', ...(afterId ? { after_id: afterId } : {}) })
+    const response = await fetch(`${baseURL}/v1/models?${query}`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': options.version || config.anthropic.version,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.status} ${response.statusText}`)
+    }
+
+    const page = await response.json()
+    for (const model of page.data || []) {
+      models.push({
+        id: model.id,
+        name: model.id,
+        provider: 'Anthropic',
+        category: 'text',
+        created: model.created_at ? Math.floor(Date.parse(model.created_at) / 1000) : undefined
+      })
+    }
+    afterId = page.has_more ? page.last_id : undefined
+  } while (afterId)
+
+  return models
+}
+
+function categorizeMistralModel(modelId: string): 'text' | 'image' | 'voice' {
+  const id = modelId.toLowerCase()
+  if (id.includes('voxtral')) return 'voice'
+  if (id.includes('pixtral')) return 'image'
+  // All other Mistral models are text models
+  return 'text'
+}
+
+async function listMistralModels(): Promise<ModelInfo[]> {
+  if (!config.mistral.apiKey) {
+    throw new Error('Mistral API key not configured')
+  }
+
+  const client = new Mistral({ apiKey: config.mistral.apiKey })
+  const response = await client.models.list()
+  if (!response.data) {
+    throw new Error('No models data received from Mistral API')
+  }
+
+  return response.data.map(model => ({
+    id: model.id,
+    name: model.id,
+    category: categorizeMistralModel(model.id),
+    provider: 'Mistral'
+  }))
+}
+
+// Any OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio) lists its models at GET {baseURL}/models
+export async function listOpenAICompatibleModels(options: { provider: string; baseURL: string; apiKey?: string }): Promise<ModelInfo[]> {
+  const baseURL = options.baseURL.replace(/\/$/, '')
+  const response = await fetch(`${baseURL}/models`, {
+    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+  })
+
+  if (!response.ok) {
+    throw new Error(`${options.provider} API error: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  return (data.data || []).map((model: { id: string; created?: number; owned_by?: string }) => ({
+    id: model.id,
+    name: model.id,
+    provider: options.provider,
+    category: 'text' as const,
+    created: model.created,
+    owned_by: model.owned_by
+  }))
+}
+
+// Groq's catalogue mixes chat models with speech ones (whisper, tts); retired models are flagged inactive
+async function listGroqModels(): Promise<ModelInfo[]> {
+  if (!config.groq.apiKey) {
+    throw new Error('Groq API key not configured')
+  }
+
+  const response = await fetch(`${config.groq.baseURL.replace(/\/$/, '')}/models`, {
+    headers: { Authorization: `Bearer ${config.groq.apiKey}` },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Groq API error: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  const models: ModelInfo[] = []
+  for (const model of data.data || []) {
+    if (model.active === false) continue
+    const id = model.id.toLowerCase()
+    models.push({
+      id: toNamespacedModelId('groq', model.id),
+      name: toNamespacedModelId('groq', model.id),
+      provider: 'Groq',
+      category: id.includes('whisper') || id.includes('tts') ? 'voice' : 'text',
+      created: model.created,
+      owned_by: model.owned_by
+    })
+  }
+  return models.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+function createLocalModel(modelId: string): AIModel {
+  return new DynamicOpenAIModel(parseNamespacedModelId(modelId).modelId, {
+    provider: 'Local',
+    name: modelId,
+    apiKey: config.local.apiKey,
+    baseURL: config.local.baseURL,
+    requireApiKey: false
+  })
+}
+
+// Local model ids are namespaced so names like 'mistral:7b' don't route to the Mistral API
+async function listLocalModels(): Promise<ModelInfo[]> {
+  const models = await listOpenAICompatibleModels({ provider: 'Local', baseURL: config.local.baseURL, apiKey: config.local.apiKey })
+  return models.map(model => ({ ...model, id: toNamespacedModelId('local', model.name), name: toNamespacedModelId('local', model.name) }))
+}
+
+export const BUILTIN_ADAPTERS: ProviderAdapter[] = [
+  {
+    ...descriptor('openai'),
+    createModel: (modelId) => /^dall-e/i.test(modelId) ? new DallE3Model(modelId.toLowerCase()) : new DynamicOpenAIModel(modelId),
+    listModels: listOpenAIModels
+  },
+  {
+    ...descriptor('anthropic'),
+    createModel: (modelId) => new DynamicAnthropicModel(modelId),
+    listModels: () => listAnthropicModels()
+  },
+  {
+    ...descriptor('google'),
+    createModel: (modelId) => new DynamicGoogleModel(modelId),
+    // Google models follow the official documentation list
+    listModels: async () => descriptor('google').defaultModels
+  },
+  {
+    ...descriptor('mistral'),
+    createModel: (modelId) => new DynamicMistralModel(modelId),
+    listModels: listMistralModels
+  },
+  {
+    ...descriptor('groq'),
+    createModel: (modelId) => new DynamicGroqModel(parseNamespacedModelId(modelId).modelId, modelId),
+    listModels: listGroqModels
+  },
+  {
+    ...descriptor('local'),
+    // Models pinned in LOCAL_LLM_MODELS stand in when the server can't be reached
+    defaultModels: config.local.models.map(model => ({ name: toNamespacedModelId('local', model), provider: 'Local', category: 'text' as const })),
+    createModel: createLocalModel,
+    listModels: listLocalModels
+  }
+]
+
+// Models built from request ids are kept for reuse, up to this many; the least recently used one goes first
+const MAX_CACHED_MODELS = 32
+
+export class ProviderRegistry {
+  private adapters: ProviderAdapter[] = []
+  private models: Map<string, AIModel> = new Map()
+  // Insertion order doubles as recency: a hit is moved to the end, and the first key is evicted
+  private resolved: Map<string, AIModel> = new Map()
+
+  constructor(adapters: ProviderAdapter[] = []) {
+    adapters.forEach(adapter => this.register(adapter))
+  }
+
+  register(adapter: ProviderAdapter) {
+    this.adapters = [...this.adapters.filter(a => a.id !== adapter.id), adapter]
+  }
+
+  // Pin a ready-made model instance under a name (used for legacy display names like 'GPT-4')
+  registerModel(name: string, model: AIModel) {
+    this.models.set(name, model)
+  }
+
+  getAdapter(provider: string): ProviderAdapter | undefined {
+    const key = provider.toLowerCase()
+    return this.adapters.find(a => a.id === key || a.name.toLowerCase() === key)
+  }
+
+  getAdapters(): ProviderAdapter[] {
+    return [...this.adapters]
+  }
+
+  // Find the adapter named by the model's namespace, or whose declared model ids cover it
+  findAdapterForModel(modelId: string): ProviderAdapter | undefined {
+    const { namespace } = parseNamespacedModelId(modelId)
+    return this.adapters.find(a => a.id === namespace) || this.adapters.find(a => a.modelPatterns.some(pattern => pattern.test(modelId)))
+  }
+
+  // Resolve a model id to a runnable model. Ids come from clients, so built models live in a bounded cache
+  // rather than next to the pinned ones.
+  resolveModel(modelId: string): AIModel | undefined {
+    const pinned = this.models.get(modelId)
+    if (pinned) return pinned
+
+    const cached = this.resolved.get(modelId)
+    if (cached) {
+      this.resolved.delete(modelId)
+      this.resolved.set(modelId, cached)
+      return cached
+    }
+
+    const adapter = this.findAdapterForModel(modelId)
+    if (!adapter) return undefined
+
+    const model = adapter.createModel(modelId)
+    this.resolved.set(modelId, model)
+    if (this.resolved.size > MAX_CACHED_MODELS) {
+      this.resolved.delete(this.resolved.keys().next().value!)
+    }
+    return model
+  }
+
+  // Model-level capabilities win over the provider defaults; vision support is looked up by model name
+  getCapabilities(model: AIModel): ModelCapabilities | undefined {
+    if (model.capabilities) return model.capabilities
+    const adapter = this.getAdapter(model.provider)
+    return adapter && resolveModelCapabilities(adapter, model.name)
+  }
+
+  supportsVision(model: AIModel): boolean {
+    return !!this.getCapabilities(model)?.vision
+  }
+
+  supportsStreaming(model: AIModel): boolean {
+    const capabilities = this.getCapabilities(model)
+    return (capabilities?.streaming ?? true) && typeof (model as any).generateStream === 'function'
+  }
+
+  supportsTools(model: AIModel): boolean {
+    return !!this.getCapabilities(model)?.tools && typeof model.generateWithTools === 'function'
+  }
+
+  // Live model list for a provider, falling back to its default catalogue when listing fails
+  async listModels(provider: string): Promise<ModelInfo[]> {
+    const adapter = this.getAdapter(provider)
+    if (!adapter) return []
+
+    try {
+      return await adapter.listModels()
+    } catch (error) {
+      console.error(`Failed to list ${adapter.name} models, using fallback catalogue:`, error)
+      return adapter.defaultModels
+    }
+  }
+
+  // Pinned names plus each provider's default catalogue; ids clients happened to request are not listed
+  getModelNames(): string[] {
+    const names = new Set(this.models.keys())
+    this.adapters.forEach(adapter => adapter.defaultModels.forEach(model => names.add(model.id || model.name)))
+    return Array.from(names)
+  }
+}
+
+function createDefaultRegistry() {
+  const registry = new ProviderRegistry(BUILTIN_ADAPTERS)
+
+  const gpt4 = new GPT4Model()
+  const claude = new ClaudeModel()
+  const dalle = new DallE3Model()
+  const gemini = new GeminiModel()
+
+  registry.registerModel(gpt4.name, gpt4)
+  registry.registerModel(claude.name, claude)
+  registry.registerModel(dalle.name, dalle)
+  registry.registerModel(gemini.name, gemini)
+
+  // Add legacy mappings for backward compatibility
+  registry.registerModel('DALL-E-3', dalle)
+
+  return registry
+}
+
+export const providerRegistry = createDefaultRegistry()
@@ -0,0 +1,92 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ChatMessage } from '@/types'
+import { ChainRecorder } from '@/app/orchestrator/chain'
+import { INTERNET, createFakeAgent, createFakeOrchestrator } from './fake-orchestrator'
+
+let orchestratorModule: typeof import('@/app/orchestrator')
+let governanceModule: typeof import('@/lib/governance')
+
+before(async () => {
+  // Audit entries are persisted in the background; an unreachable Supabase only logs
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:1',
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test',
+    SUPABASE_SERVICE_ROLE_KEY: 'test',
+  })
+  orchestratorModule = await import('@/app/orchestrator')
+  governanceModule = await import('@/lib/governance')
+})
+
+const message = (content: string): ChatMessage => ({ id: 'm1', role: 'user', content, type: 'text', timestamp: 0 })
+const search = (id: string, query: string) => ({ id, name: 'web_search', arguments: { query } })
+
+test('each tool round is one chain step deeper, and the loop stops at maxChainDepth', async () => {
+  const agent = createFakeAgent('Search', { tool: 'web_search' })
+  const { orchestrator, calls } = createFakeOrchestrator(orchestratorModule, governanceModule, {
+    agents: [agent.agent],
+    toolRounds: [[search('c1', 'GDP of Norway')], [search('c2', 'population of Norway')], [search('c3', 'never runs')]],
+    config: { maxChainDepth: 2 },
+  })
+
+  const reply = await orchestrator.processMessage(message('GDP per person in Norway?'), undefined, INTERNET)
+  const chain = reply.metadata?.chain
+
+  assert.equal(calls.plans.length, 2)
+  assert.deepEqual(agent.inputs, [{ query: 'GDP of Norway' }, { query: 'population of Norway' }])
+  assert.deepEqual(chain?.steps.map((step: any) => step.depth), [1, 2])
+  assert.equal(chain?.depth, 2)
+  assert.equal(chain?.stopReason, 'max_depth')
+  // The answer still gets what the finished steps found
+  assert.equal(calls.answers.length, 1)
+})
+
+test('the chain deadline stops the loop and the answer lists the unfinished step', async () => {
+  const slow = createFakeAgent('Search', { tool: 'web_search', delayMs: 500 })
+  const { orchestrator, calls } = createFakeOrchestrator(orchestratorModule, governanceModule, {
+    agents: [slow.agent],
+    toolRounds: [[search('c1', 'slow query')], [search('c2', 'next query')]],
+    config: { timeout: 100, agentTimeout: 1000 },
+  })
+
+  const reply = await orchestrator.processMessage(message('search something slow'), undefined, INTERNET)
+  const chain = reply.metadata?.chain
+
+  assert.equal(chain?.stopReason, 'timeout')
+  assert.deepEqual(chain?.steps.map((step: any) => step.status), ['timeout'])
+  assert.match(chain?.steps[0].error || '', /chain timeout/)
+  assert.match(calls.answers[0].user, /UNAVAILABLE SOURCES:\n- Search: Search did not finish before the chain timeout/)
+})
+
+test('ChainRecorder records agent timeouts, errors and skipped steps instead of throwing', async () => {
+  const slow = createFakeAgent('Slow', { delayMs: 200 })
+  const broken = createFakeAgent('Broken', { error: new Error('upstream 503') })
+  const fast = createFakeAgent('Fast')
+
+  const chain = new ChainRecorder(1000, {}, 50)
+  const steps = await chain.runAll([{ agent: slow.agent, input: 'a' }, { agent: broken.agent, input: 'b' }, { agent: fast.agent, input: 'c' }], 1)
+
+  assert.deepEqual(steps.map(step => step.status), ['timeout', 'error', 'success'])
+  assert.equal(steps[0].error, 'Slow did not finish within 50ms')
+  assert.equal(steps[1].error, 'upstream 503')
+  assert.deepEqual(chain.runs.map(run => run.agent.name), ['Fast'])
+
+  const expired = new ChainRecorder(0)
+  assert.equal((await expired.run(fast.agent, 'd', 2)).status, 'timeout')
+  assert.deepEqual(fast.inputs, ['c'])
+  assert.equal(expired.finish('timeout').chain.depth, 2)
+})
+
+test('a stopped request cancels running agents and skips the steps after them', async () => {
+  const controller = new AbortController()
+  const slow = createFakeAgent('Slow', { delayMs: 1000 })
+  const next = createFakeAgent('Next')
+  const chain = new ChainRecorder(5000, {}, 5000, controller.signal)
+
+  const running = chain.run(slow.agent, 'a', 1)
+  controller.abort()
+  assert.equal((await running).status, 'cancelled')
+  assert.equal((await chain.run(next.agent, 'b', 2)).status, 'cancelled')
+  assert.deepEqual(next.inputs, [])
+  assert.equal(chain.finish('cancelled').runs.length, 0)
+})
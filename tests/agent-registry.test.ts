@@ -0,0 +1,76 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ChatMessage } from '@/types'
+import { AgentRegistry } from '@/agents/registry'
+import { createFakeAgent } from './fake-orchestrator'
+
+let orchestratorModule: typeof import('@/app/orchestrator')
+let governanceModule: typeof import('@/lib/governance')
+
+before(async () => {
+  // Audit entries are persisted in the background; an unreachable Supabase only logs
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:1',
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test',
+    SUPABASE_SERVICE_ROLE_KEY: 'test',
+  })
+  orchestratorModule = await import('@/app/orchestrator')
+  governanceModule = await import('@/lib/governance')
+})
+
+test('agents are registered, replaced and removed by name', () => {
+  const registry = new AgentRegistry([], {})
+  const first = createFakeAgent('Stocks').agent
+  const second = createFakeAgent('Stocks').agent
+
+  registry.register(first)
+  registry.register(second)
+  assert.deepEqual(registry.getAll(), [second])
+  assert.equal(registry.get('Stocks'), second)
+
+  assert.equal(registry.unregister('Stocks'), true)
+  assert.equal(registry.unregister('Stocks'), false)
+  assert.deepEqual(registry.getAll(), [])
+})
+
+test('agents missing required config are listed but stay disabled', () => {
+  const settings = { stocks: { apiKey: '' }, tickers: { enabled: true } }
+  const stocks = { ...createFakeAgent('Stocks').agent, requiredConfig: ['stocks.apiKey'] }
+  const tickers = { ...createFakeAgent('Ticker Lookup').agent, requiredConfig: ['tickers.enabled'], mention: 'ticker' }
+  const registry = new AgentRegistry([stocks, tickers], settings)
+
+  assert.deepEqual(registry.getEnabled().map(agent => agent.name), ['Ticker Lookup'])
+  assert.deepEqual(registry.describe().map(info => [info.name, info.mention, info.enabled, info.missingConfig]), [
+    ['Stocks', 'stocks', false, ['stocks.apiKey']],
+    ['Ticker Lookup', 'ticker', true, []],
+  ])
+
+  // Mentions use the handle, match whole words only and never reach a disabled agent
+  assert.equal(registry.findByMention('price of @ticker NHY'), tickers)
+  assert.equal(registry.findByMention('price of @tickers NHY'), undefined)
+  assert.equal(registry.findByMention('@stocks NHY'), undefined)
+
+  settings.stocks.apiKey = 'key'
+  assert.equal(registry.findByMention('@stocks NHY'), stocks)
+})
+
+test('the orchestrator sees agents registered after it was created', async () => {
+  const registry = new AgentRegistry([], {})
+  const model = { name: 'fake', provider: 'openai', type: 'text', generate: async () => ({ id: 'r', content: 'answer', type: 'text' }) }
+  const models = { resolveModel: () => model, supportsStreaming: () => false, supportsTools: () => false, getCapabilities: () => ({}) }
+  const orchestrator = new orchestratorModule.Orchestrator(
+    { defaultModel: 'fake', timeout: 5000, agentTimeout: 5000, maxChainDepth: 1, enableAutoAgents: true } as any,
+    new governanceModule.AIGovernance({}, null),
+    models as any,
+    registry
+  )
+  const message: ChatMessage = { id: 'm1', role: 'user', content: '@stocks NHY', type: 'text', timestamp: 0 }
+
+  assert.equal((await orchestrator.processMessage(message)).metadata?.agent, undefined)
+
+  const stocks = createFakeAgent('Stocks')
+  registry.register(stocks.agent)
+  assert.equal((await orchestrator.processMessage(message)).metadata?.agent, 'Stocks')
+  assert.deepEqual(stocks.inputs, ['@stocks NHY'])
+  assert.deepEqual(orchestrator.getAvailableAgents().map(info => info.name), ['Stocks'])
+})
@@ -0,0 +1,131 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { DynamicAnthropicModel } from '@/models'
+import { listAnthropicModels } from '@/models/registry'
+import { readStreamContent, sendJson, startMockServer } from './mock-server'
+
+const options = { apiKey: 'test-key', version: '2023-06-01' }
+
+test('generate sends the system prompt in its own field and prior turns before the user turn', async () => {
+  const server = await startMockServer((_request, res) => sendJson(res, 200, {
+    id: 'msg_1',
+    content: [{ type: 'text', text: 'Paris' }, { type: 'text', text: '.' }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 12, output_tokens: 3 },
+  }))
+  try {
+    const model = new DynamicAnthropicModel('claude-sonnet-4-5', { ...options, baseURL: server.baseURL })
+    const response = await model.generate({
+      system: 'Answer briefly.',
+      user: 'And its capital?',
+      history: [
+        { role: 'user', content: 'Which country has the Loire?' },
+        { role: 'assistant', content: 'France.' },
+      ],
+    }, { temperature: 0.2, maxTokens: 100 })
+
+    const [request] = server.requests
+    assert.equal(request.method, 'POST')
+    assert.equal(request.url, '/v1/messages')
+    assert.equal(request.headers['x-api-key'], 'test-key')
+    assert.equal(request.headers['anthropic-version'], '2023-06-01')
+    assert.equal(request.body.model, 'claude-sonnet-4-5')
+    assert.equal(request.body.system, 'Answer briefly.')
+    assert.equal(request.body.max_tokens, 100)
+    assert.deepEqual(request.body.messages, [
+      { role: 'user', content: 'Which country has the Loire?' },
+      { role: 'assistant', content: 'France.' },
+      { role: 'user', content: 'And its capital?' },
+    ])
+    assert.equal(response.content, 'Paris.')
+    assert.equal(response.metadata?.tokens, 15)
+  } finally {
+    await server.close()
+  }
+})
+
+test('generate leaves out the system field for a plain string prompt', async () => {
+  const server = await startMockServer((_request, res) => sendJson(res, 200, { id: 'msg_2', content: [{ type: 'text', text: 'Hi' }] }))
+  try {
+    const model = new DynamicAnthropicModel('claude-haiku-4-5', { ...options, baseURL: server.baseURL })
+    await model.generate('Hello')
+
+    const [request] = server.requests
+    assert.equal('system' in request.body, false)
+    assert.deepEqual(request.body.messages, [{ role: 'user', content: 'Hello' }])
+  } finally {
+    await server.close()
+  }
+})
+
+test('generate reports the API error message', async () => {
+  const server = await startMockServer((_request, res) => sendJson(res, 400, { type: 'error', error: { type: 'invalid_request_error', message: 'max_tokens is too large' } }))
+  try {
+    const model = new DynamicAnthropicModel('claude-sonnet-4-5', { ...options, baseURL: server.baseURL })
+    await assert.rejects(model.generate('Hello'), /Anthropic API error: 400 max_tokens is too large/)
+  } finally {
+    await server.close()
+  }
+})
+
+test('generateStream turns Anthropic SSE events into content events, including events split across chunks', async () => {
+  const events = [
+    { type: 'message_start', message: { id: 'msg_3' } },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'ping' },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Bonjour' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' le monde' } },
+    { type: 'content_block_stop', index: 0 },
+    { type: 'message_delta', delta: { stop_reason: 'end_turn' } },
+    { type: 'message_stop' },
+  ]
+  const body = events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('')
+  const server = await startMockServer((_request, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+    // Cut mid-event so the parser has to carry the partial event over to the next chunk
+    const cut = body.indexOf('Bonjour') + 3
+    res.write(body.slice(0, cut))
+    setTimeout(() => res.end(body.slice(cut)), 10)
+  })
+  try {
+    const model = new DynamicAnthropicModel('claude-sonnet-4-5', { ...options, baseURL: server.baseURL })
+    const stream = await model.generateStream({ system: 'Reply in French.', user: 'Say hello world' })
+
+    assert.equal(await readStreamContent(stream), 'Bonjour le monde')
+    const [request] = server.requests
+    assert.equal(request.body.stream, true)
+    assert.equal(request.body.system, 'Reply in French.')
+  } finally {
+    await server.close()
+  }
+})
+
+test('generateStream fails the stream on an SSE error event', async () => {
+  const server = await startMockServer((_request, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+    res.end(`event: error\ndata: ${JSON.stringify({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })}\n\n`)
+  })
+  try {
+    const model = new DynamicAnthropicModel('claude-sonnet-4-5', { ...options, baseURL: server.baseURL })
+    const stream = await model.generateStream('Hello')
+    await assert.rejects(readStreamContent(stream), /Anthropic stream error: Overloaded/)
+  } finally {
+    await server.close()
+  }
+})
+
+test('listAnthropicModels follows pagination', async () => {
+  const server = await startMockServer((request, res) => {
+    const afterId = new URL(request.url, 'http://localhost').searchParams.get('after_id')
+    sendJson(res, 200, afterId
+      ? { data: [{ id: 'claude-haiku-4-5', created_at: '2025-10-01T00:00:00Z' }], has_more: false, last_id: 'claude-haiku-4-5' }
+      : { data: [{ id: 'claude-sonnet-4-5', created_at: '2025-09-29T00:00:00Z' }], has_more: true, last_id: 'claude-sonnet-4-5' })
+  })
+  try {
+    const models = await listAnthropicModels({ ...options, baseURL: server.baseURL })
+    assert.deepEqual(models.map(model => model.id), ['claude-sonnet-4-5', 'claude-haiku-4-5'])
+    assert.equal(server.requests.length, 2)
+  } finally {
+    await server.close()
+  }
+})
@@ -0,0 +1,101 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ConversationTurn, ModelPrompt } from '@/types'
+import { MockServer, sendJson, startMockServer } from './mock-server'
+import { RedisStandIn, startRedisStandIn } from './redis-stand-in'
+
+let supabase: MockServer
+let redis: RedisStandIn
+// Loaded after the stand-ins are up, since the chat store creates its clients on import
+let ContextManager: typeof import('@/lib/context-manager').ContextManager
+let getContextWindow: typeof import('@/lib/context-window').getContextWindow
+
+before(async () => {
+  // Answers merge_conversation_metadata the way the SQL function does for an existing conversation
+  supabase = await startMockServer((request, res) => sendJson(res, 200, request.url.startsWith('/rest/v1/rpc/') ? true : []))
+  redis = await startRedisStandIn()
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test',
+    SUPABASE_SERVICE_ROLE_KEY: 'test',
+    UPSTASH_REDIS_REST_URL: redis.baseURL,
+    UPSTASH_REDIS_REST_TOKEN: 'test-token',
+  })
+  ContextManager = (await import('@/lib/context-manager')).ContextManager
+  getContextWindow = (await import('@/lib/context-window')).getContextWindow
+})
+
+after(async () => {
+  await supabase.close()
+  await redis.close()
+})
+
+const turn = (role: 'user' | 'assistant', content: string, id: string): ConversationTurn => ({ id, role, content })
+
+function summarizer(answer: (prompt: ModelPrompt, options: any) => Promise<string>) {
+  const calls: Array<{ prompt: ModelPrompt; options: any }> = []
+  const model = {
+    name: 'gpt-4o',
+    provider: 'openai',
+    type: 'text',
+    generate: async (prompt: ModelPrompt, options: any) => {
+      calls.push({ prompt, options })
+      return { id: 's1', content: await answer(prompt, options), type: 'text' }
+    },
+  }
+  return { model: model as any, calls }
+}
+
+test('a summary without a covered id skips its turn count of normalized turns', async () => {
+  const { model, calls } = summarizer(async () => 'unused')
+  // The first three user turns normalize into one, so the summary's two turns end at 'd'
+  const turns = [
+    turn('user', 'a', '1'), turn('user', 'b', '2'), turn('user', 'c', '3'), turn('assistant', 'd', '4'),
+    turn('user', 'e', '5'), turn('assistant', 'f', '6'),
+  ]
+  const summary = { text: '- User asked a, b and c', turnCount: 2, updatedAt: '2026-01-01T00:00:00.000Z' }
+
+  const window = await ContextManager.build(model, { turns, summary }, 1000)
+
+  assert.deepEqual(window.history.map(item => item.content), ['e', 'f'])
+  assert.equal(calls.length, 0)
+})
+
+test('overflowing turns are folded into a summary that is merged into the conversation metadata', async () => {
+  supabase.requests.length = 0
+  const { model, calls } = summarizer(async () => '- The user is planning a trip to [person_1]')
+  const turns = [turn('user', 'Plan my trip', '1'), turn('assistant', 'Where to?', '2'), turn('user', 'Lisbon', '3'), turn('assistant', 'Noted.', '4')]
+
+  // Leave no room for history, so every turn has to be folded
+  const window = await ContextManager.build(model, { conversationId: 'c1', turns }, getContextWindow('gpt-4o'), {
+    restore: text => text.replace('[person_1]', 'Lisbon'),
+  })
+
+  assert.equal(calls.length, 1)
+  assert.deepEqual(window.history, [])
+  assert.equal(window.summary?.coveredThroughId, '4')
+  assert.equal(window.summary?.turnCount, 4)
+
+  // One atomic merge; the current metadata is never read back first
+  assert.deepEqual(supabase.requests.map(request => `${request.method} ${request.url}`), ['POST /rest/v1/rpc/merge_conversation_metadata'])
+  const body = supabase.requests[0].body
+  assert.equal(body.target_conversation_id, 'c1')
+  assert.equal(body.patch.contextSummary.text, '- The user is planning a trip to Lisbon')
+})
+
+test('stopping the request cancels the summary instead of saving a fallback', async () => {
+  supabase.requests.length = 0
+  const controller = new AbortController()
+  const { model, calls } = summarizer((_prompt, options) => new Promise((_resolve, reject) => {
+    options.signal.addEventListener('abort', () => reject(options.signal.reason))
+    controller.abort()
+  }))
+  const turns = [turn('user', 'Plan my trip', '1'), turn('assistant', 'Where to?', '2')]
+
+  await assert.rejects(
+    ContextManager.build(model, { conversationId: 'c1', turns }, getContextWindow('gpt-4o'), { signal: controller.signal }),
+    { name: 'AbortError' }
+  )
+  assert.equal(calls[0].options.signal, controller.signal)
+  assert.equal(supabase.requests.length, 0)
+})
@@ -0,0 +1,131 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ChatMessage, ConversationTurn, ModelPrompt } from '@/types'
+import { countTokens, getContextWindow, normalizeTurns, splitHistoryByBudget } from '@/lib/context-window'
+import { DynamicOpenAIModel } from '@/models'
+import { sendJson, startMockServer } from './mock-server'
+
+let orchestratorModule: typeof import('@/app/orchestrator')
+let governanceModule: typeof import('@/lib/governance')
+
+before(async () => {
+  // The orchestrator imports the chat store; nothing here reaches it
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:1',
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test',
+    SUPABASE_SERVICE_ROLE_KEY: 'test',
+  })
+  orchestratorModule = await import('@/app/orchestrator')
+  governanceModule = await import('@/lib/governance')
+})
+
+const turn = (role: 'user' | 'assistant', content: string, id?: string): ConversationTurn => ({ role, content, ...(id ? { id } : {}) })
+
+test('normalizeTurns drops empty turns, merges repeated roles and trims to user ... assistant', () => {
+  const turns = normalizeTurns([
+    turn('assistant', 'Welcome!'),
+    turn('user', 'Hi', 'u1'),
+    turn('user', '  ', 'u2'),
+    turn('user', 'Are you there?', 'u3'),
+    turn('assistant', 'Yes.', 'a1'),
+    turn('user', 'Unanswered', 'u4'),
+  ])
+
+  assert.deepEqual(turns, [
+    { id: 'u3', role: 'user', content: 'Hi\n\nAre you there?' },
+    { id: 'a1', role: 'assistant', content: 'Yes.' },
+  ])
+})
+
+test('token counts follow the provider tokenizer and context windows follow the model id', () => {
+  assert.equal(countTokens('a'.repeat(40), 'openai'), 14)
+  assert.equal(countTokens('a'.repeat(35), 'anthropic'), 15)
+  // Wide scripts count one token per character whatever the provider
+  assert.equal(countTokens('你好世界', 'openai'), 8)
+  assert.equal(countTokens('', 'openai'), 0)
+
+  assert.equal(getContextWindow('gpt-4o-mini'), 128000)
+  assert.equal(getContextWindow('GPT-4'), 8192)
+  assert.equal(getContextWindow('claude-sonnet-4-20250514'), 200000)
+  assert.equal(getContextWindow('some-unknown-model'), 8192)
+})
+
+test('splitHistoryByBudget keeps the newest turns that fit and opens them on a user turn', () => {
+  // Each turn costs 10 tokens with the OpenAI profile (24 characters + 4 overhead, rounded up)
+  const history = ['u1', 'a1', 'u2', 'a2', 'u3', 'a3'].map(id => turn(id.startsWith('u') ? 'user' : 'assistant', `${id} ${'x'.repeat(21)}`, id))
+
+  const fits = splitHistoryByBudget(history, { budget: 60, provider: 'openai' })
+  assert.deepEqual(fits.overflow, [])
+  assert.equal(fits.recent.length, 6)
+
+  // 30 tokens would fit a2, u3 and a3, but the window cannot start on an assistant turn
+  const tight = splitHistoryByBudget(history, { budget: 35, provider: 'openai' })
+  assert.deepEqual(tight.overflow.map(item => item.id), ['u1', 'a1', 'u2', 'a2'])
+  assert.deepEqual(tight.recent.map(item => item.id), ['u3', 'a3'])
+
+  assert.deepEqual(splitHistoryByBudget(history, { budget: 5, provider: 'openai' }).recent, [])
+})
+
+test('OpenAI-compatible models send the system prompt, prior turns and the user turn as separate messages', async () => {
+  const server = await startMockServer((_request, res) => sendJson(res, 200, {
+    id: 'chatcmpl-1',
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Lyon.' }, finish_reason: 'stop' }],
+    usage: { total_tokens: 20 },
+  }))
+  try {
+    const model = new DynamicOpenAIModel('gpt-4o-mini', { apiKey: 'test', baseURL: `${server.baseURL}/v1` })
+    const response = await model.generate({
+      system: 'Be brief.',
+      user: 'And the third largest?',
+      history: [turn('user', 'Largest city in France?'), turn('assistant', 'Paris.')],
+    })
+
+    assert.equal(response.content, 'Lyon.')
+    assert.deepEqual(server.requests[0].body.messages, [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Largest city in France?' },
+      { role: 'assistant', content: 'Paris.' },
+      { role: 'user', content: 'And the third largest?' },
+    ])
+  } finally {
+    await server.close()
+  }
+})
+
+test('processMessage and processMessageStream pass the conversation to the model as history', async () => {
+  const prompts: ModelPrompt[] = []
+  const model = {
+    name: 'gpt-4o',
+    provider: 'openai',
+    type: 'text',
+    generate: async (prompt: ModelPrompt) => {
+      prompts.push(prompt)
+      return { id: 'r1', content: 'ok', type: 'text' }
+    },
+  }
+  const registry = { resolveModel: () => model, supportsStreaming: () => false, supportsTools: () => false, getCapabilities: () => ({}) }
+  const agents = { getEnabled: () => [], findByMention: () => null }
+  const orchestrator = new orchestratorModule.Orchestrator(
+    { defaultModel: 'gpt-4o', timeout: 5000, agentTimeout: 5000, maxChainDepth: 1, enableAutoAgents: false } as any,
+    new governanceModule.AIGovernance({}, null),
+    registry as any,
+    agents as any
+  )
+  const message: ChatMessage = { id: 'm3', role: 'user', content: 'What about tomorrow?', type: 'text', timestamp: 0 }
+  const context = { turns: [turn('user', 'Weather in Oslo today?', 'm1'), turn('assistant', 'Cold and clear.', 'm2')] }
+
+  await orchestrator.processMessage(message, undefined, {}, context)
+  const streamed = await orchestrator.processMessageStream(message, undefined, {}, context)
+  for await (const _ of streamed.stream as any) {
+    // Drain the stream so the model is called
+  }
+
+  assert.equal(prompts.length, 2)
+  for (const prompt of prompts) {
+    assert.deepEqual(prompt.history, [
+      { id: 'm1', role: 'user', content: 'Weather in Oslo today?' },
+      { id: 'm2', role: 'assistant', content: 'Cold and clear.' },
+    ])
+    assert.equal(prompt.user.includes('What about tomorrow?'), true)
+  }
+})
@@ -0,0 +1,116 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { chunkPages, extractDocumentText } from '@/lib/document-extract'
+import type { DocumentChunkMatch } from '@/types'
+
+let DocumentService: typeof import('@/lib/documents').DocumentService
+
+before(async () => {
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: 'http://127.0.0.1:9',
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+  })
+  DocumentService = (await import('@/lib/documents')).DocumentService
+})
+
+const sentences = (count: number, page = 1) =>
+  Array.from({ length: count }, (_, i) => `Sentence ${i + 1} of page ${page} says something about trains.`).join(' ')
+
+const chunk = (fileName: string, chunkIndex: number, page: number | null, content = `excerpt ${chunkIndex}`): DocumentChunkMatch => ({
+  id: `${fileName}-${chunkIndex}`,
+  attachmentId: `att-${fileName}`,
+  fileName,
+  url: `https://files.example/${fileName}`,
+  page,
+  chunkIndex,
+  content,
+  score: 0.5,
+})
+
+test('chunks stay within the size, end on a sentence and overlap the next chunk', () => {
+  const text = sentences(40)
+  const chunks = chunkPages([{ page: 1, text }], { size: 400, overlap: 100 })
+
+  assert.ok(chunks.length > 1)
+  assert.deepEqual(chunks.map(item => item.index), chunks.map((_, i) => i))
+  for (const [i, item] of chunks.entries()) {
+    assert.ok(item.content.length <= 400)
+    if (i < chunks.length - 1) assert.match(item.content, /\.$/)
+    // The next chunk repeats the end of this one, starting from a whole word
+    const next = chunks[i + 1]
+    if (next) {
+      assert.ok(item.content.includes(next.content.slice(0, 20)), `chunk ${i + 1} should start inside chunk ${i}`)
+      assert.equal(text[text.indexOf(next.content) - 1], ' ')
+    }
+  }
+  // Nothing is lost between chunks
+  assert.ok(chunks.at(-1)!.content.endsWith('Sentence 40 of page 1 says something about trains.'))
+})
+
+test('chunks never cross pages and keep the page they came from', () => {
+  const chunks = chunkPages([
+    { page: 1, text: sentences(10, 1) },
+    { page: 2, text: '   \n\n  ' },
+    { page: 3, text: 'Short last page.' },
+  ], { size: 300, overlap: 50 })
+
+  assert.deepEqual([...new Set(chunks.map(item => item.page))], [1, 3])
+  assert.ok(chunks.filter(item => item.page === 1).every(item => item.content.includes('page 1')))
+  assert.deepEqual(chunks.at(-1), { index: chunks.length - 1, page: 3, content: 'Short last page.' })
+})
+
+test('chunk options are clamped: at least 200 characters, overlap at most half a chunk', () => {
+  const text = 'word '.repeat(400).trim()
+  const chunks = chunkPages([{ page: null, text }], { size: 10, overlap: 1000 })
+
+  assert.ok(chunks.every(item => item.content.length <= 200))
+  assert.ok(chunks.some(item => item.content.length > 150))
+  // Overlap of half a chunk: each chunk starts roughly 100 characters after the previous one
+  assert.ok(chunks.length >= text.length / 100 - 1)
+  assert.ok(chunks.every(item => item.page === null))
+})
+
+test('CSV rows become "column: value" lines, with quoted delimiters, quotes and newlines kept in their cell', async () => {
+  const csv = 'name,notes,city\r\n"Doe, Jane","Said ""hi""\nthen left",Oslo\r\n,,\nBob,,"Bergen"\n'
+  const [page] = await extractDocumentText(Buffer.from(csv), { name: 'people.csv' })
+
+  assert.equal(page.page, null)
+  assert.equal(page.text, [
+    'name: Doe, Jane; notes: Said "hi"\nthen left; city: Oslo',
+    'name: Bob; notes: ; city: Bergen',
+  ].join('\n'))
+})
+
+test('TSV files split on tabs and unnamed columns get a position', async () => {
+  const [page] = await extractDocumentText(Buffer.from('a\tb\n1\t2\t3'), { name: 'table.TSV' })
+  assert.equal(page.text, 'a: 1; b: 2; column 3: 3')
+})
+
+test('excerpts go into the prompt in document order, each under the label to cite', () => {
+  assert.equal(DocumentService.formatForPrompt([]), '')
+
+  const prompt = DocumentService.formatForPrompt([
+    chunk('report.pdf', 4, 2, 'Revenue grew'),
+    chunk('notes.txt', 0, null, 'Call Anna'),
+    chunk('report.pdf', 1, 1, 'Summary'),
+  ])
+  const labels = [...prompt.matchAll(/^\[(.+)\]$/gm)].map(match => match[1])
+  assert.deepEqual(labels, ['notes.txt', 'report.pdf, p. 1', 'report.pdf, p. 2'])
+  assert.ok(prompt.includes('[report.pdf, p. 1]\nSummary\n\n---\n\n[report.pdf, p. 2]\nRevenue grew'))
+  assert.ok(prompt.includes('e.g. [notes.txt]'))
+})
+
+test('citations list each file page once and link PDFs to the page', () => {
+  assert.deepEqual(DocumentService.toCitations([
+    chunk('report.pdf', 4, 2),
+    chunk('report.pdf', 5, 2),
+    chunk('report.pdf', 1, 1),
+    chunk('notes.txt', 0, null),
+    chunk('notes.txt', 1, null),
+  ]), [
+    { fileName: 'report.pdf', page: 2, url: 'https://files.example/report.pdf#page=2' },
+    { fileName: 'report.pdf', page: 1, url: 'https://files.example/report.pdf#page=1' },
+    { fileName: 'notes.txt', page: null, url: 'https://files.example/notes.txt' },
+  ])
+})
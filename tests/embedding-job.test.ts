@@ -0,0 +1,130 @@
+import { after, before, beforeEach, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { SupabaseStandIn, startSupabaseStandIn } from './supabase-stand-in'
+
+let supabase: SupabaseStandIn
+let EmbeddingJob: typeof import('@/lib/embedding-job').EmbeddingJob
+let SupabaseChatStorage: typeof import('@/lib/supabase').SupabaseChatStorage
+let embeddings: typeof import('@/lib/embeddings')
+let embeddingsRoute: typeof import('@/app/api/embeddings/route')
+
+before(async () => {
+  supabase = await startSupabaseStandIn()
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+    EMBEDDING_PROVIDER: 'local',
+    EMBEDDING_BATCH_SIZE: '2',
+    GOVERNANCE_ADMIN_TOKEN: 'admin-secret',
+  })
+  EmbeddingJob = (await import('@/lib/embedding-job')).EmbeddingJob
+  SupabaseChatStorage = (await import('@/lib/supabase')).SupabaseChatStorage
+  embeddings = await import('@/lib/embeddings')
+  embeddingsRoute = await import('@/app/api/embeddings/route')
+})
+
+after(async () => {
+  await supabase.close()
+})
+
+beforeEach(() => {
+  supabase.tables.clear()
+})
+
+function addMessages(conversationId: string, contents: string[], fields: Record<string, any> = {}) {
+  supabase.rows('messages').push(...contents.map((content, index) => ({
+    id: `${conversationId}-${index + 1}`,
+    conversation_id: conversationId,
+    seq: supabase.rows('messages').length + index + 1,
+    content,
+    deleted: false,
+    embedding: null,
+    embedding_model: null,
+    updated_at: new Date(1000 + index).toISOString(),
+    ...fields,
+  })))
+}
+
+const row = (id: string) => supabase.rows('messages').find(message => message.id === id)!
+const embeddedIds = () => supabase.rows('messages').filter(message => message.embedding_model === 'local:hash-256').map(message => message.id)
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the embedding job')
+    await new Promise(resolve => setTimeout(resolve, 50))
+  }
+}
+
+test('queued conversations are embedded in the background, each once', async () => {
+  addMessages('chat-a', ['Trains to Oslo', 'The night train leaves at 23:00', 'Book a sleeper'])
+  addMessages('chat-b', ['Unrelated chat'])
+
+  EmbeddingJob.enqueue('chat-a')
+  EmbeddingJob.enqueue('chat-a')
+  await waitFor(() => embeddedIds().length === 3)
+
+  const [expected] = await new embeddings.LocalEmbeddingProvider().embed(['Trains to Oslo'])
+  assert.deepEqual(JSON.parse(row('chat-a-1').embedding), expected)
+  assert.ok(row('chat-a-1').embedded_at)
+  // Only the queued conversation: two batches of two, the second one short
+  assert.equal(row('chat-b-1').embedding, null)
+  const reads = supabase.requests.filter(request => request.method === 'GET' && request.url.includes('conversation_id=eq.chat-a'))
+  assert.equal(reads.length, 2)
+})
+
+test('a backfill covers every conversation up to its limit and skips what needs no vector', async () => {
+  addMessages('chat-a', ['one', 'two', 'three'])
+  addMessages('chat-b', ['four'])
+  addMessages('chat-c', ['', 'deleted'])
+  row('chat-c-2').deleted = true
+  // Embedded with another model: redone. With this one: left alone.
+  addMessages('chat-d', ['old model'], { embedding: '[1]', embedding_model: 'openai:text-embedding-3-small' })
+  addMessages('chat-e', ['current'], { embedding: '[1]', embedding_model: 'local:hash-256' })
+
+  assert.equal(await EmbeddingJob.run({ limit: 3 }), 3)
+  assert.deepEqual(embeddedIds(), ['chat-a-1', 'chat-a-2', 'chat-a-3', 'chat-e-1'])
+
+  assert.equal(await EmbeddingJob.run(), 2)
+  assert.deepEqual(embeddedIds().sort(), ['chat-a-1', 'chat-a-2', 'chat-a-3', 'chat-b-1', 'chat-d-1', 'chat-e-1'])
+  assert.equal(row('chat-e-1').embedding, '[1]')
+  assert.equal(row('chat-c-1').embedding, null)
+  assert.equal(row('chat-c-2').embedding, null)
+
+  assert.equal(await EmbeddingJob.run(), 0)
+})
+
+test('a vector is not saved over a message edited while it was being embedded', async () => {
+  addMessages('chat-a', ['before the edit'])
+  const [message] = await SupabaseChatStorage.getMessagesToEmbed('local:hash-256')
+
+  row('chat-a-1').updated_at = new Date(5000).toISOString()
+  assert.equal(await SupabaseChatStorage.saveEmbedding(message, [1, 0], 'local:hash-256'), false)
+  assert.equal(row('chat-a-1').embedding, null)
+
+  // A batch whose every row changed stops the run instead of fetching the same rows again
+  const editing = new embeddings.LocalEmbeddingProvider()
+  const embed = editing.embed.bind(editing)
+  editing.embed = async (texts) => {
+    row('chat-a-1').updated_at = new Date(Date.now()).toISOString()
+    return embed(texts)
+  }
+  assert.equal(await EmbeddingJob.run({ provider: editing }), 0)
+  assert.equal(row('chat-a-1').embedding, null)
+})
+
+test('the backfill endpoint needs the admin token', async () => {
+  addMessages('chat-a', ['one'])
+  const post = (headers: Record<string, string>) =>
+    embeddingsRoute.POST(new NextRequest('http://localhost/api/embeddings', { method: 'POST', headers, body: JSON.stringify({ limit: 10 }) }))
+
+  assert.equal((await post({})).status, 401)
+  assert.equal((await post({ authorization: 'Bearer wrong' })).status, 401)
+  assert.equal(row('chat-a-1').embedding, null)
+
+  const response = await post({ authorization: 'Bearer admin-secret' })
+  assert.equal(response.status, 200)
+  assert.deepEqual(await response.json(), { model: 'local:hash-256', embedded: 1, done: true })
+})
@@ -0,0 +1,48 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { MockServer, sendJson, startMockServer } from './mock-server'
+
+let server: MockServer
+let embeddings: typeof import('@/lib/embeddings')
+let config: typeof import('@/lib/config').default
+
+before(async () => {
+  // Both providers answer in the OpenAI embeddings shape
+  server = await startMockServer((request, res) => sendJson(res, 200, {
+    data: request.body.input.map((_: string, index: number) => ({ index, embedding: [1, 0] })),
+  }))
+  embeddings = await import('@/lib/embeddings')
+  config = (await import('@/lib/config')).default
+  config.openai.baseURL = `${server.baseURL}/v1`
+  config.mistral.baseURL = `${server.baseURL}/v1`
+})
+
+after(async () => {
+  await server.close()
+})
+
+const texts = ['Mail bob@example.com or call +44 20 7946 0958', 'Card 4111 1111 1111 1111, nothing else']
+
+test('remote embedding providers get personal data masked', async () => {
+  for (const provider of [new embeddings.OpenAIEmbeddingProvider(), new embeddings.MistralEmbeddingProvider()]) {
+    server.requests.length = 0
+    assert.equal((await provider.embed(texts)).length, 2)
+    assert.deepEqual(server.requests[0].body.input, ['Mail [email] or call [phone]', 'Card [credit_card], nothing else'])
+  }
+})
+
+test('embedding inputs follow the redaction settings', async () => {
+  const provider = new embeddings.OpenAIEmbeddingProvider()
+  const saved = { ...config.governance }
+  try {
+    config.governance.redactKinds = ['email']
+    await provider.embed(texts.slice(0, 1))
+    assert.deepEqual(server.requests.at(-1)!.body.input, ['Mail [email] or call +44 20 7946 0958'])
+
+    config.governance.redactPii = false
+    await provider.embed(texts.slice(0, 1))
+    assert.deepEqual(server.requests.at(-1)!.body.input, texts.slice(0, 1))
+  } finally {
+    Object.assign(config.governance, saved)
+  }
+})
@@ -0,0 +1,79 @@
+// Builds an Orchestrator around a scripted model and in-memory agents, for tests of agent selection and chaining.
+// Import it after setting the Supabase env (see `before` in the tests), since the orchestrator loads the chat store.
+import type { Agent, AgentResponse, ModelPrompt, ToolCall, ToolDefinition } from '@/types'
+
+export interface FakeModelCalls {
+  plans: ModelPrompt[] // Prompts sent to generateWithTools, one per tool round
+  answers: ModelPrompt[] // Prompts sent to generate for the final answer
+}
+
+// Tool rounds answer with the next scripted calls; a round past the script, or an empty one, ends the loop
+export function createFakeOrchestrator(
+  orchestratorModule: typeof import('@/app/orchestrator'),
+  governanceModule: typeof import('@/lib/governance'),
+  options: { agents: Agent[]; toolRounds?: Array<ToolCall[] | Error>; config?: Record<string, any> }
+) {
+  const calls: FakeModelCalls = { plans: [], answers: [] }
+  const rounds = [...(options.toolRounds || [])]
+  const model = {
+    name: 'fake',
+    provider: 'openai',
+    type: 'text',
+    generate: async (prompt: ModelPrompt) => {
+      calls.answers.push(structuredClone(prompt))
+      return { id: 'answer', content: 'answer', type: 'text' }
+    },
+    generateWithTools: async (prompt: ModelPrompt, _tools: ToolDefinition[], settings?: { signal?: AbortSignal }) => {
+      calls.plans.push(structuredClone(prompt))
+      settings?.signal?.throwIfAborted()
+      const round = rounds.shift()
+      if (round instanceof Error) throw round
+      return { id: `plan-${calls.plans.length}`, content: round?.length ? '' : 'DONE', type: 'text', toolCalls: round || [] }
+    },
+  }
+  const registry = {
+    resolveModel: () => model,
+    supportsStreaming: () => false,
+    supportsTools: () => options.toolRounds !== undefined,
+    getCapabilities: () => ({}),
+  }
+  const agents = { getEnabled: () => options.agents, findByMention: () => null }
+  const orchestrator = new orchestratorModule.Orchestrator(
+    { defaultModel: 'fake', timeout: 5000, agentTimeout: 5000, maxChainDepth: 3, enableAutoAgents: true, ...options.config } as any,
+    // Without the built-in rules the request's mode alone decides internet access (see INTERNET)
+    new governanceModule.AIGovernance({ enableGovernance: false }, null),
+    registry as any,
+    agents as any
+  )
+  return { orchestrator, calls }
+}
+
+// Agent that answers with fixed data after an optional delay, recording its inputs and when it ran
+export function createFakeAgent(name: string, options: { trigger?: RegExp; tool?: string; data?: any; delayMs?: number; error?: Error } = {}) {
+  const inputs: any[] = []
+  const spans: Array<{ start: number; end: number }> = []
+  const agent: Agent = {
+    name,
+    description: `${name} agent`,
+    trigger: options.trigger || new RegExp(`\\b${name}\\b`, 'i'),
+    ...(options.tool ? {
+      tool: { name: options.tool, description: `${name} lookup`, parameters: { type: 'object' as const, properties: { query: { type: 'string' } } } },
+    } : {}),
+    async run(input: any, runOptions?: { signal?: AbortSignal }): Promise<AgentResponse> {
+      inputs.push(input)
+      const start = Date.now()
+      if (options.delayMs) {
+        await new Promise((resolve, reject) => {
+          const timer = setTimeout(resolve, options.delayMs)
+          runOptions?.signal?.addEventListener('abort', () => { clearTimeout(timer); reject(runOptions.signal!.reason) })
+        })
+      }
+      spans.push({ start, end: Date.now() })
+      if (options.error) throw options.error
+      return { id: `${name}-1`, data: options.data ?? `${name.toUpperCase()} DATA`, type: 'text' }
+    },
+  }
+  return { agent, inputs, spans }
+}
+
+export const INTERNET = { governance: { mode: 'internet' } }
@@ -0,0 +1,75 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { MockServer, sendJson, startMockServer } from './mock-server'
+
+let supabaseAuth: MockServer
+let auth: typeof import('@/lib/auth')
+let policy: typeof import('@/lib/governance-policy')
+let policiesRoute: typeof import('@/app/api/governance/policies/route')
+let auditRoute: typeof import('@/app/api/governance/audit/route')
+
+before(async () => {
+  // Stands in for Supabase Auth, which checks access tokens at GET /auth/v1/user
+  supabaseAuth = await startMockServer((request, response) => {
+    if (request.url === '/auth/v1/user' && request.headers.authorization === 'Bearer good-token') {
+      return sendJson(response, 200, { id: 'user-123', aud: 'authenticated', email: 'alice@example.com' })
+    }
+    sendJson(response, 401, { code: 401, msg: 'invalid JWT' })
+  })
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabaseAuth.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+    GOVERNANCE_ADMIN_TOKEN: 'admin-secret',
+  })
+  auth = await import('@/lib/auth')
+  policy = await import('@/lib/governance-policy')
+  policiesRoute = await import('@/app/api/governance/policies/route')
+  auditRoute = await import('@/app/api/governance/audit/route')
+})
+
+after(async () => {
+  await supabaseAuth.close()
+})
+
+const request = (path: string, headers: Record<string, string> = {}, body?: object) =>
+  new NextRequest(`http://localhost${path}`, body ? { method: 'POST', headers, body: JSON.stringify(body) } : { headers })
+
+test('the user id comes from a verified access token, never from X-User-Id', async () => {
+  assert.equal(await auth.getRequestUserId(request('/api/chat', { authorization: 'Bearer good-token', 'x-user-id': 'admin' })), 'user-123')
+  assert.equal(await auth.getRequestUserId(request('/api/chat', { authorization: 'Bearer forged-token' })), null)
+  assert.equal(await auth.getRequestUserId(request('/api/chat', { 'x-user-id': 'admin' })), undefined)
+})
+
+test('the audit and policy endpoints need the admin token', async () => {
+  for (const headers of [{}, { authorization: 'Bearer good-token' }, { 'x-user-id': 'admin' }] as Record<string, string>[]) {
+    assert.equal((await auditRoute.GET(request('/api/governance/audit', headers))).status, 401)
+    assert.equal((await policiesRoute.GET(request('/api/governance/policies', headers))).status, 401)
+    assert.equal((await policiesRoute.POST(request('/api/governance/policies', headers, { message: 'hi' }))).status, 401)
+  }
+
+  const admin = { authorization: 'Bearer admin-secret' }
+  assert.equal((await auditRoute.GET(request('/api/governance/audit', admin))).status, 200)
+  assert.equal((await policiesRoute.GET(request('/api/governance/policies', admin))).status, 200)
+  const dryRun = await policiesRoute.POST(request('/api/governance/policies', admin, { message: 'weather in Paris' }))
+  assert.equal(dryRun.status, 200)
+  assert.equal(typeof (await dryRun.json()).decision.useInternet, 'boolean')
+})
+
+test('policy patterns that could backtrack without bound are rejected', () => {
+  const file = (pattern: string) => JSON.stringify({ policies: [{ id: 'p', when: { pattern }, then: { internet: false } }] })
+
+  assert.throws(() => policy.parsePolicies(file('(a+)+$'), 'json'), /nests quantifiers/)
+  assert.throws(() => policy.parsePolicies(file('^(\\w+\\s?)*$'), 'json'), /nests quantifiers/)
+  assert.throws(() => policy.parsePolicies(file('(a)\\1'), 'json'), /backreference/)
+  assert.throws(() => policy.parsePolicies(file('x'.repeat(policy.MAX_PATTERN_LENGTH + 1)), 'json'), /over 200 characters/)
+  assert.equal(policy.parsePolicies(file('\\bproject (atlas|falcon)\\b'), 'json').length, 1)
+})
+
+test('patterns only search the start of a long message', () => {
+  const input = { userId: 'default', mode: 'smart' as const }
+  const filler = 'a'.repeat(policy.MAX_PATTERN_INPUT)
+  assert.equal(policy.matchesCondition({ pattern: 'secret' }, { ...input, query: `secret ${filler}` }), true)
+  assert.equal(policy.matchesCondition({ pattern: 'secret' }, { ...input, query: `${filler} secret` }), false)
+})
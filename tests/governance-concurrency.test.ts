@@ -0,0 +1,143 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Agent, ChatMessage } from '@/types'
+import type { GovernanceContext, GovernanceRule } from '@/lib/governance'
+import { readStreamContent } from './mock-server'
+
+let governanceModule: typeof import('@/lib/governance')
+let orchestratorModule: typeof import('@/app/orchestrator')
+
+before(async () => {
+  // Audit entries are persisted in the background; an unreachable Supabase only logs
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:1',
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test',
+    SUPABASE_SERVICE_ROLE_KEY: 'test',
+  })
+  governanceModule = await import('@/lib/governance')
+  orchestratorModule = await import('@/app/orchestrator')
+})
+
+// Agent that holds its answer until released, so a second request can run while the first is mid-chain
+function createLookupAgent() {
+  const inputs: string[] = []
+  let release!: () => void
+  const released = new Promise<void>(resolve => { release = resolve })
+  let started!: () => void
+  const running = new Promise<void>(resolve => { started = resolve })
+  const agent: Agent = {
+    name: 'Lookup',
+    description: 'Looks things up online',
+    trigger: /\blookup\b/i,
+    async run(input: string) {
+      inputs.push(input)
+      started()
+      await released
+      return { id: 'lookup-1', data: 'LOOKUP RESULT', type: 'text', metadata: { source: 'lookup' } }
+    },
+  }
+  return { agent, inputs, running, release }
+}
+
+function setup(agent: Agent) {
+  const prompts: Array<{ user: string }> = []
+  const model = {
+    name: 'fake',
+    provider: 'openai',
+    generate: async (prompt: { user: string }) => {
+      prompts.push(prompt)
+      return { content: 'answer', type: 'text' }
+    },
+    generateStream: async (prompt: { user: string }) => {
+      prompts.push(prompt)
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({ type: 'content', content: 'answer' })}\n\n`))
+          controller.close()
+        },
+      })
+    },
+  }
+  const registry = { resolveModel: () => model, supportsStreaming: () => true, supportsTools: () => false, getCapabilities: () => ({}) }
+  const agents = { getEnabled: () => [agent], findByMention: () => null }
+
+  // Records the context each message was decided under
+  const seen = new Map<string, GovernanceContext>()
+  class RecordingGovernance extends governanceModule.AIGovernance {
+    decide(query: string, context: GovernanceContext, messageId?: string) {
+      seen.set(messageId!, context)
+      return super.decide(query, context, messageId)
+    }
+  }
+  const governance = new RecordingGovernance({}, null)
+  const orchestrator = new orchestratorModule.Orchestrator(
+    { defaultModel: 'fake', timeout: 5000, agentTimeout: 5000, maxChainDepth: 2, enableAutoAgents: true } as any,
+    governance,
+    registry as any,
+    agents as any
+  )
+  return { orchestrator, governance, prompts, seen }
+}
+
+function message(id: string, content: string): ChatMessage {
+  return { id, role: 'user', content, type: 'text', timestamp: 0 }
+}
+
+const rule = (name: string, useInternet: boolean): GovernanceRule => ({
+  name, description: name, priority: 1000, shouldUseInternet: () => useInternet,
+})
+
+test('overlapping requests with different modes each run under their own context', async () => {
+  const lookup = createLookupAgent()
+  const { orchestrator, prompts, seen } = setup(lookup.agent)
+
+  const online = orchestrator.processMessage(message('online', 'lookup the weather'), undefined, { governance: { mode: 'internet' } })
+  await lookup.running
+  // The second request starts and finishes while the first is waiting on its agent
+  const offline = await orchestrator.processMessage(message('offline', 'lookup the weather offline'), undefined, { governance: { mode: 'internal' } })
+  lookup.release()
+  const onlineResult = await online
+
+  assert.equal(seen.get('online')?.mode, 'internet')
+  assert.equal(seen.get('offline')?.mode, 'internal')
+  assert.deepEqual(lookup.inputs, ['lookup the weather'])
+  assert.ok(onlineResult.metadata?.chain)
+  assert.equal(offline.metadata?.chain, undefined)
+
+  const offlinePrompt = prompts.find(prompt => prompt.user.includes('offline'))!
+  const onlinePrompt = prompts.find(prompt => prompt !== offlinePrompt)!
+  assert.ok(onlinePrompt.user.includes('LOOKUP RESULT'))
+  assert.ok(!offlinePrompt.user.includes('LOOKUP RESULT'))
+})
+
+test('a streamed and a plain request with different rules keep their own rules', async () => {
+  const lookup = createLookupAgent()
+  const { orchestrator, governance, prompts, seen } = setup(lookup.agent)
+  const allowRules = Object.freeze([rule('Always online', true)])
+  const denyRules = Object.freeze([rule('Never online', false)])
+  const allow = Object.freeze({ ...governance.createContext({}, 'alice'), rules: allowRules })
+  const deny = Object.freeze({ ...governance.createContext({}, 'bob'), rules: denyRules })
+
+  const streamed = await orchestrator.processMessageStream(message('alice-1', 'lookup flights'), undefined, {}, { turns: [] }, undefined, allow)
+  const reading = readStreamContent(streamed.stream!)
+  await lookup.running
+  const plain = await orchestrator.processMessage(message('bob-1', 'lookup trains'), undefined, {}, { turns: [] }, undefined, deny)
+  lookup.release()
+  await reading
+
+  assert.equal(seen.get('alice-1')?.userId, 'alice')
+  assert.equal(seen.get('alice-1')?.rules, allowRules)
+  assert.equal(seen.get('bob-1')?.userId, 'bob')
+  assert.equal(seen.get('bob-1')?.rules, denyRules)
+  assert.deepEqual(lookup.inputs, ['lookup flights'])
+  assert.equal(plain.metadata?.chain, undefined)
+  assert.ok(prompts.find(prompt => prompt.user.includes('flights'))!.user.includes('LOOKUP RESULT'))
+  assert.ok(Object.isFrozen(seen.get('alice-1')) && Object.isFrozen(seen.get('bob-1')))
+})
+
+test('clients cannot switch governance off from their chat settings', () => {
+  const governance = new governanceModule.AIGovernance({}, null)
+  const settings = { governance: { mode: 'smart', enabled: false } } as any
+  assert.equal(governance.createContext(settings).enabled, true)
+  assert.equal(new governanceModule.AIGovernance({ enableGovernance: false }, null).createContext().enabled, false)
+})
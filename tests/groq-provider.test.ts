@@ -0,0 +1,73 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { MockServer, sendJson, startMockServer } from './mock-server'
+
+let server: MockServer
+let providers: typeof import('@/lib/providers')
+let registry: typeof import('@/models/registry').providerRegistry
+
+before(async () => {
+  // Stands in for Groq's OpenAI-compatible API
+  server = await startMockServer((request, res) => {
+    if (request.url === '/openai/v1/models') {
+      return sendJson(res, 200, {
+        object: 'list',
+        data: [
+          { id: 'llama-3.3-70b-versatile', active: true, created: 1, owned_by: 'Meta' },
+          { id: 'whisper-large-v3', active: true, created: 1, owned_by: 'OpenAI' },
+          { id: 'llama2-70b-4096', active: false, created: 1, owned_by: 'Meta' },
+          { id: 'openai/gpt-oss-120b', active: true, created: 1, owned_by: 'OpenAI' },
+        ],
+      })
+    }
+    sendJson(res, 200, {
+      id: 'chatcmpl-1',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Fast answer' }, finish_reason: 'stop' }],
+    })
+  })
+  Object.assign(process.env, { GROQ_API_KEY: 'gsk-test', GROQ_ENDPOINT: `${server.baseURL}/openai/v1` })
+  providers = await import('@/lib/providers')
+  registry = (await import('@/models/registry')).providerRegistry
+})
+
+after(async () => {
+  await server.close()
+})
+
+test('groq/ ids route to Groq even when the hosted model belongs to another vendor', () => {
+  assert.equal(providers.findProviderForModel('groq/openai/gpt-oss-120b')?.id, 'groq')
+  assert.equal(providers.findProviderForModel('groq/mixtral-8x7b-32768')?.id, 'groq')
+  assert.deepEqual(providers.parseNamespacedModelId('groq/openai/gpt-oss-120b'), { namespace: 'groq', modelId: 'openai/gpt-oss-120b' })
+  assert.equal(providers.getProviderDescriptor('Groq')?.id, 'groq')
+})
+
+test('Groq models stream and call tools but take no images', () => {
+  const model = registry.resolveModel('groq/llama-3.3-70b-versatile')!
+  assert.equal(model.provider, 'Groq')
+  assert.deepEqual(registry.getCapabilities(model), { streaming: true, systemPrompt: true, multiTurn: true, tools: true, vision: false })
+  assert.equal(registry.supportsStreaming(model), true)
+  assert.equal(registry.supportsTools(model), true)
+  assert.equal(registry.supportsVision(model), false)
+})
+
+test('the Groq listing drops retired models, namespaces ids and files speech models as voice', async () => {
+  const models = await registry.listModels('groq')
+
+  assert.equal(server.requests[0].headers.authorization, 'Bearer gsk-test')
+  assert.deepEqual(models.map(model => [model.id, model.category]), [
+    ['groq/llama-3.3-70b-versatile', 'text'],
+    ['groq/openai/gpt-oss-120b', 'text'],
+    ['groq/whisper-large-v3', 'voice'],
+  ])
+})
+
+test('Groq is called with the id it knows, without the namespace', async () => {
+  const model = registry.resolveModel('groq/openai/gpt-oss-120b')!
+  assert.equal(model.name, 'groq/openai/gpt-oss-120b')
+
+  const response = await model.generate('Hello')
+  assert.equal(response.content, 'Fast answer')
+  const chat = server.requests.find(request => request.url === '/openai/v1/chat/completions')!
+  assert.equal(chat.body.model, 'openai/gpt-oss-120b')
+  assert.equal(chat.headers.authorization, 'Bearer gsk-test')
+})
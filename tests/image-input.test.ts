@@ -0,0 +1,99 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { getImageInputError, getImageInputType } from '@/lib/providers'
+import { S3StandIn, startS3StandIn } from './s3-stand-in'
+import { SupabaseStandIn, startSupabaseStandIn } from './supabase-stand-in'
+
+let s3: S3StandIn
+let supabase: SupabaseStandIn
+// Loaded after the environment points at the stand-ins, since lib/config.ts reads it on import
+let loadPromptImages: typeof import('@/lib/image-input').loadPromptImages
+let chatRoute: typeof import('@/app/api/chat/route')
+
+before(async () => {
+  s3 = await startS3StandIn()
+  supabase = await startSupabaseStandIn()
+  Object.assign(process.env, {
+    STORAGE_PROVIDER: 'minio',
+    AWS_S3_BUCKET: 'uploads',
+    AWS_REGION: 'us-east-1',
+    AWS_ACCESS_KEY_ID: 'minioadmin',
+    AWS_SECRET_ACCESS_KEY: 'minioadmin',
+    S3_ENDPOINT: s3.baseURL,
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+  })
+  loadPromptImages = (await import('@/lib/image-input')).loadPromptImages
+  chatRoute = await import('@/app/api/chat/route')
+})
+
+after(async () => {
+  await s3.close()
+  await supabase.close()
+})
+
+const photo = { id: 'a1', name: 'cat.JPG', url: '/api/files/cat.jpg', type: '', size: 3 }
+
+test('images are recognised by MIME type or, failing that, by extension', () => {
+  assert.equal(getImageInputType({ name: 'scan', type: 'image/webp' }), 'image/webp')
+  assert.equal(getImageInputType({ name: 'cat.JPG' }), 'image/jpeg')
+  assert.equal(getImageInputType({ name: 'cat.jpeg', type: 'application/octet-stream' }), 'image/jpeg')
+  // Formats the vision APIs don't take, and documents, are not images to the model
+  assert.equal(getImageInputType({ name: 'logo.svg', type: 'image/svg+xml' }), null)
+  assert.equal(getImageInputType({ name: 'photo.heic', type: 'image/heic' }), null)
+  assert.equal(getImageInputType({ name: 'report.pdf', type: 'application/pdf' }), null)
+})
+
+test('vision models take images; text-only models explain what to do instead', () => {
+  for (const model of ['gpt-4o', 'gpt-4.1-mini', 'o3', 'claude-3-5-sonnet-20241022', 'claude-sonnet-4-20250514', 'gemini-1.5-pro', 'pixtral-large-latest', 'mistral-small-latest']) {
+    assert.equal(getImageInputError(model, [photo]), null, model)
+  }
+
+  assert.equal(
+    getImageInputError('gpt-3.5-turbo', [photo]),
+    "gpt-3.5-turbo can't read images, so it can't look at the image cat.JPG. Switch to a vision model such as gpt-4o, Claude, Gemini or Pixtral, or remove the image."
+  )
+  assert.match(getImageInputError('o3-mini', [photo, { name: 'b.png' }]) || '', /can't look at 2 images\./)
+  assert.ok(getImageInputError('groq/llama-3.3-70b-versatile', [photo]))
+  // Nothing is known about a self-hosted model's vision, so images are refused rather than silently dropped
+  assert.ok(getImageInputError('local/llava', [photo]))
+})
+
+test('only image attachments and known text-only models are gated', () => {
+  assert.equal(getImageInputError('gpt-3.5-turbo', []), null)
+  assert.equal(getImageInputError('gpt-3.5-turbo', [{ name: 'notes.txt', type: 'text/plain' }]), null)
+  // Unknown models are left to fail at the provider, if at all
+  assert.equal(getImageInputError('some-new-model', [photo]), null)
+  // The orchestrator passes the registry's capabilities, which win over the id patterns
+  assert.equal(getImageInputError('local/llava', [photo], { streaming: true, systemPrompt: true, multiTurn: true, tools: false, vision: true }), null)
+  assert.ok(getImageInputError('gpt-4o', [photo], { streaming: true, systemPrompt: true, multiTurn: true, tools: true, vision: false }))
+})
+
+test('attached images are read back from storage and base64-encoded; anything else is left out', async () => {
+  s3.objects.set('uploads/cat.jpg', { data: Buffer.from([0xff, 0xd8, 0xff]), contentType: 'image/jpeg' })
+  s3.objects.set('uploads/notes.txt', { data: Buffer.from('text'), contentType: 'text/plain' })
+
+  const images = await loadPromptImages([
+    photo,
+    { id: 'a2', name: 'notes.txt', url: '/api/files/notes.txt', type: 'text/plain', size: 4 },
+    // Still uploading, hosted elsewhere, or gone from the bucket
+    { id: 'a3', name: 'preview.png', url: 'blob:http://localhost/123', type: 'image/png', size: 1 },
+    { id: 'a4', name: 'remote.png', url: 'https://example.com/remote.png', type: 'image/png', size: 1 },
+    { id: 'a5', name: 'gone.png', url: '/api/files/gone.png', type: 'image/png', size: 1 },
+  ])
+  assert.deepEqual(images, [{ name: 'cat.JPG', mimeType: 'image/jpeg', data: '/9j/' }])
+  assert.deepEqual(await loadPromptImages(), [])
+})
+
+test('a chat request with an image for a text-only model is refused before anything runs', async () => {
+  const response = await chatRoute.POST(new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    body: JSON.stringify({ message: { content: 'What is in this picture?', attachments: [photo] }, model: 'gpt-3.5-turbo', chatId: 'chat-1' }),
+  }))
+
+  assert.equal(response.status, 400)
+  assert.match((await response.json()).error, /^gpt-3\.5-turbo can't read images/)
+  assert.equal(supabase.requests.length, 0)
+})
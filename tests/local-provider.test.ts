@@ -0,0 +1,80 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { MockServer, sendJson, startMockServer } from './mock-server'
+
+let server: MockServer
+let envConfig: typeof import('@/lib/env-config')
+let registry: typeof import('@/models/registry').providerRegistry
+let config: typeof import('@/lib/config').default
+
+const PROVIDER_KEYS = ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'GOOGLE_AI_API_KEY', 'MISTRAL_API_KEY', 'GROQ_API_KEY']
+
+before(async () => {
+  // Stands in for Ollama's OpenAI-compatible API
+  server = await startMockServer((request, res) => {
+    if (request.url === '/v1/models') {
+      return sendJson(res, 200, { object: 'list', data: [{ id: 'llama3.1:8b', object: 'model', created: 1, owned_by: 'library' }] })
+    }
+    sendJson(res, 200, {
+      id: 'chatcmpl-1',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hi from llama' }, finish_reason: 'stop' }],
+    })
+  })
+  PROVIDER_KEYS.forEach(key => delete process.env[key])
+  Object.assign(process.env, {
+    NEXTAUTH_URL: 'http://localhost:3000',
+    NEXTAUTH_SECRET: 'secret',
+    MONGODB_URI: 'mongodb://localhost:27017/test',
+    LOCAL_LLM_ENDPOINT: `${server.baseURL}/v1`,
+    LOCAL_LLM_MODELS: 'qwen2.5, mistral:7b',
+  })
+  envConfig = await import('@/lib/env-config')
+  registry = (await import('@/models/registry')).providerRegistry
+  config = (await import('@/lib/config')).default
+})
+
+after(async () => {
+  await server.close()
+})
+
+test('both config modules read the same local endpoint', () => {
+  assert.equal(config.local.baseURL, `${server.baseURL}/v1`)
+  assert.equal(envConfig.config.local.endpoint, config.local.baseURL)
+  assert.deepEqual(config.local.models, ['qwen2.5', 'mistral:7b'])
+})
+
+test('a local endpoint counts as an AI provider only when it is set explicitly', () => {
+  assert.doesNotThrow(() => envConfig.validateConfig())
+
+  const endpoint = process.env.LOCAL_LLM_ENDPOINT
+  delete process.env.LOCAL_LLM_ENDPOINT
+  try {
+    assert.throws(() => envConfig.validateConfig(), /At least one AI provider API key or LOCAL_LLM_ENDPOINT/)
+  } finally {
+    process.env.LOCAL_LLM_ENDPOINT = endpoint
+  }
+})
+
+test('local models are listed and resolved under the local/ namespace', async () => {
+  const models = await registry.listModels('local')
+  assert.deepEqual(models.map(model => model.id), ['local/llama3.1:8b'])
+
+  // 'local/mistral:7b' must reach the local server, not the Mistral API
+  const model = registry.resolveModel('local/mistral:7b')!
+  assert.equal(model.provider, 'Local')
+  const response = await model.generate('Hello')
+  assert.equal(response.content, 'Hi from llama')
+  const chat = server.requests.find(request => request.url === '/v1/chat/completions')!
+  assert.equal(chat.body.model, 'mistral:7b')
+})
+
+test('LOCAL_LLM_MODELS is the catalogue when the server cannot be listed', async () => {
+  const baseURL = config.local.baseURL
+  config.local.baseURL = 'http://127.0.0.1:1/v1'
+  try {
+    const models = await registry.listModels('local')
+    assert.deepEqual(models.map(model => model.name), ['local/qwen2.5', 'local/mistral:7b'])
+  } finally {
+    config.local.baseURL = baseURL
+  }
+})
@@ -0,0 +1,168 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import katex from 'katex'
+import { parseExpression, solveMath } from '@/lib/math-engine'
+import { MathAgent } from '@/agents/modules/math'
+
+// Fails on anything KaTeX can't typeset, which TextRender would otherwise show as a red error
+function assertRenders(latex: string, displayMode = true) {
+  assert.doesNotThrow(() => katex.renderToString(latex, { displayMode, throwOnError: true, strict: false }), latex)
+}
+
+const near = (actual: string, expected: number) => assert.ok(Math.abs(Number(actual) - expected) < 1e-9, `${actual} should be ${expected}`)
+
+test('quadratics: rational, repeated, surd and complex roots, with the working shown', () => {
+  const solution = solveMath('solve x^2 - 5x + 6 = 0')
+  assert.equal(solution.operation, 'solve')
+  assert.equal(solution.variable, 'x')
+  assert.deepEqual(solution.solutions, ['x = 2', 'x = 3'])
+  assert.equal(solution.result, 'x = 2 or x = 3')
+  assert.equal(solution.latex, 'x_{1} = 2,\\quad x_{2} = 3')
+  assert.deepEqual(solution.steps.map(step => step.description), [
+    'Equation', 'Collect like terms', 'Identify the coefficients', 'Compute the discriminant', 'Apply the quadratic formula', 'Solution',
+  ])
+  assert.equal(solution.steps[3].latex, '\\Delta = b^2 - 4ac = \\left(-5\\right)^2 - 4 \\cdot 1 \\cdot 6 = 1')
+
+  const repeated = solveMath('solve x^2 - 4x + 4 = 0')
+  assert.deepEqual(repeated.solutions, ['x = 2'])
+  assert.equal(repeated.value, 2)
+
+  // Irrational roots stay exact in the LaTeX
+  assert.equal(solveMath('solve x^2 - 2 = 0').latex, 'x_{1} = - \\sqrt{2},\\quad x_{2} = \\sqrt{2}')
+  assert.deepEqual(solveMath('x² + 2x + 5 = 0').solutions, ['x = -1 - 2i', 'x = -1 + 2i'])
+})
+
+test('cubics and higher: rational roots by synthetic division, the rest numerically', () => {
+  const factored = solveMath('solve x^3 - 6x^2 + 11x - 6 = 0')
+  assert.deepEqual(factored.solutions, ['x = 1', 'x = 2', 'x = 3'])
+  assert.ok(factored.steps.some(step => step.description.startsWith('Rational root theorem: $x = 1$ is a root')))
+
+  // No rational root: Durand-Kerner gives the real cube root and the complex pair
+  const cubeRoot = solveMath('solve x^3 - 2 = 0')
+  assert.equal(cubeRoot.solutions!.length, 3)
+  near(cubeRoot.solutions![2].slice(4), Math.cbrt(2))
+  assert.match(cubeRoot.solutions![0], /i$/)
+  assert.ok(cubeRoot.steps.some(step => step.description.includes('Durand-Kerner')))
+
+  // x = 0 roots are factored out first
+  assert.deepEqual(solveMath('solve x^3 - x = 0').solutions, ['x = 0', 'x = -1', 'x = 1'])
+})
+
+test('solve falls back to bisection for non-polynomial equations and reports degenerate ones', () => {
+  const periodic = solveMath('solve sin(x) = 0.5')
+  assert.equal(periodic.solutions!.length, 8)
+  near(periodic.solutions![4].slice(4), Math.PI / 6)
+  near(periodic.solutions![5].slice(4), 5 * Math.PI / 6)
+  assert.match(periodic.latex, /\\approx/)
+  assert.ok(periodic.steps.some(step => /^Found \d+ roots; showing the 8 closest/.test(step.description)))
+
+  const mixed = solveMath('2^x = x + 3')
+  assert.equal(mixed.solutions!.length, 2)
+  mixed.solutions!.forEach(root => {
+    const x = Number(root.slice(4))
+    assert.ok(Math.abs(2 ** x - x - 3) < 1e-6)
+  })
+
+  // A root of the numerator that zeroes the denominator is discarded
+  const rational = solveMath('solve (x^2 - 1)/(x - 1) = 0')
+  assert.deepEqual(rational.solutions, ['x = -1'])
+  assert.ok(rational.steps.some(step => step.description.startsWith('Discard $x = 1$')))
+
+  assert.equal(solveMath('x + 1 = x').result, 'No solution')
+  assert.equal(solveMath('solve 3 = 3').result, 'Every x is a solution')
+  assert.equal(solveMath('solve a*x + b = c for x').result, 'x = (c - b) / a')
+  assert.throws(() => solveMath('solve a*x^2 + b = 0 for x'), /Only equations linear in x/)
+})
+
+test('linear systems are solved with Cramer\'s rule', () => {
+  const system = solveMath('2x + y = 5, x - y = 1')
+  assert.deepEqual(system.solutions, ['x = 2', 'y = 1'])
+  assert.ok(system.steps.some(step => step.latex === '\\det(A) = -3'))
+
+  assert.equal(solveMath('x + y = 1, 2x + 2y = 2').result, 'No unique solution')
+  assert.throws(() => solveMath('x + y = 1, x - z = 2'), /as many equations as unknowns/)
+  assert.throws(() => solveMath('x * y = 1, x - y = 2'), /Only systems of linear equations/)
+})
+
+test('derivatives, with the variable taken from the wording', () => {
+  const product = solveMath('derivative of sin(x) * x^2')
+  assert.equal(product.operation, 'derivative')
+  assert.equal(product.result, 'cos(x) * x ^ 2 + 2 * sin(x) * x')
+
+  assert.deepEqual([solveMath('d/dt t^3').variable, solveMath('d/dt t^3').result], ['t', '3 * t ^ 2'])
+  assert.equal(solveMath('derivative of x*y with respect to y').result, 'x')
+  assert.equal(solveMath('x^3', { operation: 'derivative' }).result, '3 * x ^ 2')
+})
+
+test('integrals: antiderivatives, definite integrals and a numeric fallback', () => {
+  const definite = solveMath('integral of x^2 from 0 to 3')
+  assert.equal(definite.value, 9)
+  assert.deepEqual(definite.steps.map(step => step.description), [
+    'Integrate with respect to $x$',
+    'Power rule: $\\int x^n\\,dx = \\frac{x^{n+1}}{n+1}$',
+    'Fundamental theorem of calculus: evaluate the antiderivative at the bounds',
+  ])
+
+  assert.equal(solveMath('integrate x*e^x dx').result, 'exp(x) * (x - 1) + C')
+  assert.equal(solveMath('integral of 1/x dx').result, 'log(abs(x)) + C')
+
+  // No elementary antiderivative: Simpson's rule over the bounds
+  near(solveMath('integral of e^(x^2) from 0 to 1').result, 1.46265174591)
+})
+
+test('units, matrices, determinants and variables evaluate to exact values', () => {
+  assert.equal(solveMath('5 km + 300 m to m').result, '5300 m')
+  assert.equal(solveMath('10 km/h to m/s').result, '2.77777777778 m / s')
+  assert.equal(solveMath('sin(30 deg)').value, 0.5)
+
+  assert.equal(solveMath('det([1, 2; 3, 4])').value, -2)
+  const product = solveMath('[1, 2; 3, 4] * [5; 6]')
+  assert.equal(product.result, '[[17], [39]]')
+  assert.equal(product.latex, '\\begin{bmatrix}17\\\\39\\end{bmatrix}')
+  assert.equal(solveMath('inv([1, 2; 3, 4])').result, '[[-2, 1], [1.5, -0.5]]')
+  assert.equal(solveMath('sqrt(-4)').result, '2i')
+
+  assert.equal(solveMath('x^2 + y where x = 3, y = 4').value, 13)
+  assert.equal(solveMath('x = 3; y = 4; x*y').value, 12)
+  assert.equal(solveMath('simplify 2x + 3x - x^2/x').result, '4 * x')
+})
+
+test('the expression language is locked down and allocations are bounded', () => {
+  assert.throws(() => parseExpression('1'.repeat(1001)), /limited to 1000 characters/)
+  assert.throws(() => parseExpression('zeros(2000, 2000)'), /Matrix dimensions are limited to 1000/)
+  assert.throws(() => parseExpression('sum(1:5000)'), /Matrix dimensions are limited to 1000/)
+  assert.throws(() => parseExpression('range(0, 100000)'), /Matrix dimensions are limited to 1000/)
+  assert.doesNotThrow(() => parseExpression('ones(10)'))
+  assert.throws(() => parseExpression('f(x) = x'), /Assignments are not supported/)
+
+  for (const call of ['import({})', 'parse("x")', 'createUnit("foo")', 'compile("1")']) {
+    assert.throws(() => solveMath(call), /is not available in expressions/, call)
+  }
+})
+
+test('MathAgent steps are one string each, with display math TextRender can typeset', async () => {
+  const agent = new MathAgent()
+  for (const request of ['solve x^2 - 5x + 6 = 0', '2x + y = 5, x - y = 1', 'derivative of sin(x) * x^2', 'integral of x^2 from 0 to 3', 'solve sin(x) = 0.5', '[1, 2; 3, 4] * [5; 6]']) {
+    const { data } = await agent.run(request)
+    assert.ok(data.latex, request)
+    assertRenders(data.latex)
+    assert.ok(Array.isArray(data.steps) && data.steps.length, request)
+    for (const step of data.steps as string[]) {
+      // "Description:\n$$latex$$" or just the description
+      const [, description, display] = step.match(/^([^]*?)(?::\n\$\$([^]*)\$\$)?$/)!
+      if (display !== undefined) assertRenders(display)
+      for (const [, inline] of description.matchAll(/\$([^$]+)\$/g)) assertRenders(inline, false)
+    }
+  }
+
+  const { data } = await agent.run({ expression: '15% of 200' })
+  assert.deepEqual([data.result, data.formatted], [30, '30'])
+  assert.equal((await agent.run({ expression: 'x^2', operation: 'derivative' })).data.formatted, '2 * x')
+})
+
+test('MathAgent reports what went wrong instead of throwing', async () => {
+  const response = await new MathAgent().run('@math zeros(5000)')
+  assert.equal(response.metadata?.source, 'math_fallback')
+  assert.equal(response.data.error, 'Cannot calculate this expression')
+  assert.equal(response.data.message, 'Matrix dimensions are limited to 1000')
+})
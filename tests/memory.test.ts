@@ -0,0 +1,169 @@
+import { after, before, beforeEach, mock, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { SupabaseStandIn, startSupabaseStandIn } from './supabase-stand-in'
+
+let supabase: SupabaseStandIn
+let memory: typeof import('@/lib/memory')
+let memoryRoute: typeof import('@/app/api/memories/[id]/route')
+
+// The ranking of match_memories() (database/migrations/008_memory_search.sql) over the stand-in's rows
+function matchMemories(args: Record<string, any>, standIn: SupabaseStandIn) {
+  const words = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').split(/\s+/).filter(word => word.length > 2)
+  const queryWords = new Set(words(args.query_text || ''))
+  const query: number[] | null = args.query_embedding ? JSON.parse(args.query_embedding) : null
+
+  return standIn.rows('memories')
+    .filter(row => row.user_id === args.target_user_id)
+    .map(row => {
+      const comparable = query && row.embedding && row.embedding_model === args.query_embedding_model && row.embedding.length === query.length
+      const similarity = comparable ? row.embedding.reduce((sum: number, value: number, index: number) => sum + value * query[index], 0) : null
+      const memoryWords = words(row.content).filter(word => word !== 'the' && word !== 'user')
+      const overlap = memoryWords.length ? memoryWords.filter(word => queryWords.has(word)).length / memoryWords.length : null
+      return { ...row, similarity, score: similarity ?? overlap ?? 0 }
+    })
+    .filter(row => row.score >= args.min_score)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, args.match_count)
+}
+
+before(async () => {
+  // Bursts of "🧠 Remembered" lines on stdout corrupt Node 20's test runner protocol
+  mock.method(console, 'log', () => {})
+  supabase = await startSupabaseStandIn()
+  supabase.rpc.match_memories = matchMemories
+  supabase.users.set('alice-token', { id: 'alice', aud: 'authenticated' })
+  supabase.users.set('bob-token', { id: 'bob', aud: 'authenticated' })
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+    EMBEDDING_PROVIDER: 'local',
+  })
+  memory = await import('@/lib/memory')
+  memoryRoute = await import('@/app/api/memories/[id]/route')
+})
+
+after(async () => {
+  await supabase.close()
+})
+
+beforeEach(() => {
+  supabase.tables.clear()
+})
+
+const contents = (memories: Array<{ content: string }>) => memories.map(item => item.content)
+const stored = (userId: string) => supabase.rows('memories').filter(row => row.user_id === userId).map(row => row.content)
+
+test('memories are written about the user in the third person', () => {
+  assert.equal(memory.toThirdPerson('I am vegetarian.'), 'The user is vegetarian')
+  assert.equal(memory.toThirdPerson("I'm based in Lyon and I prefer trains"), 'The user is based in Lyon and the user prefers trains')
+  assert.equal(memory.toThirdPerson('my sister calls me Jo'), "The user's sister calls the user Jo")
+  assert.equal(memory.toThirdPerson("I've got a dog, I'd rather walk"), 'The user has got a dog, the user would rather walk')
+  assert.equal(memory.toThirdPerson('I work on myself!'), 'The user works on themselves')
+})
+
+test('explicit requests and statements about the user become memories, questions do not', () => {
+  assert.deepEqual(memory.MemoryService.extractCandidates('Remember that I prefer metric units'), [
+    { content: 'The user prefers metric units', kind: 'preference', source: 'explicit' },
+  ])
+  assert.deepEqual(memory.MemoryService.extractCandidates("Please note: my cat's name is Miso"), [
+    { content: "The user's cat's name is Miso", kind: 'fact', source: 'explicit' },
+  ])
+  assert.deepEqual(memory.MemoryService.extractCandidates('I am a data engineer. I live in Lyon! Can you suggest a book?'), [
+    { content: 'The user is a data engineer', kind: 'fact', source: 'automatic' },
+    { content: 'The user lives in Lyon', kind: 'fact', source: 'automatic' },
+  ])
+  assert.deepEqual(memory.MemoryService.extractCandidates('Do I live in Lyon?'), [])
+  assert.deepEqual(memory.MemoryService.extractCandidates('If I were vegan, what would I eat'), [])
+  assert.deepEqual(memory.MemoryService.extractCandidates('```\nI live in Lyon\n```'), [])
+  assert.deepEqual(memory.MemoryService.extractCandidates('Forget that I live in Lyon'), [])
+})
+
+test('a statement already remembered, in other words or not, is not stored twice', async () => {
+  await memory.MemoryService.captureFromMessage('I live in Lyon. I live in Lyon!', {}, 'alice')
+  await memory.MemoryService.captureFromMessage('Remember that I live in Lyon', { conversationId: 'chat-1', messageId: 'm2' }, 'alice')
+  assert.deepEqual(stored('alice'), ['The user lives in Lyon'])
+
+  // Another user's memories are never compared
+  await memory.MemoryService.captureFromMessage('I live in Lyon', {}, 'bob')
+  assert.deepEqual(stored('bob'), ['The user lives in Lyon'])
+})
+
+test('with many memories only the ones relevant to the message are retrieved, best first', async () => {
+  const facts = [
+    'The user is vegetarian', 'The user lives in Lyon', 'The user plays the cello', 'The user has two cats',
+    'The user prefers metric units', 'The user is a data engineer', 'The user runs marathons', 'The user speaks Italian',
+    'The user drives an old Volvo', 'The user collects stamps',
+  ]
+  for (const content of facts) await memory.MemoryService.create({ content }, 'alice')
+  await memory.MemoryService.create({ content: 'The user is vegan' }, 'bob')
+
+  const relevant = await memory.MemoryService.retrieve('Which vegetarian restaurants are there in Lyon?', { userId: 'alice' })
+  assert.deepEqual(contents(relevant).slice(0, 2).sort(), ['The user is vegetarian', 'The user lives in Lyon'])
+  assert.ok(relevant.length < facts.length)
+  assert.ok(!contents(relevant).includes('The user is vegan'))
+
+  // Ranked in the database: the query vector goes along, the rows do not come back
+  const call = supabase.requests.filter(request => request.url === '/rest/v1/rpc/match_memories').at(-1)!
+  assert.equal(call.body.target_user_id, 'alice')
+  assert.equal(call.body.query_embedding_model, 'local:hash-256')
+  assert.equal(call.body.match_count, 8)
+  assert.equal(call.body.min_score, 0.15)
+  assert.equal(supabase.requests.some(request => request.method === 'GET' && request.url.includes('embedding')), false)
+
+  // While there are few, all of them go into the prompt
+  assert.deepEqual(contents(await memory.MemoryService.retrieve('anything', { userId: 'bob' })), ['The user is vegan'])
+  assert.deepEqual(await memory.MemoryService.retrieve('anything', { userId: 'nobody' }), [])
+})
+
+test('memories without a vector from the current model are ranked by shared words', async () => {
+  for (let i = 0; i < 9; i++) await memory.MemoryService.create({ content: `The user owns bicycle number ${i}` }, 'alice')
+  await memory.MemoryService.create({ content: 'The user sails on weekends' }, 'alice')
+  supabase.rows('memories').forEach(row => Object.assign(row, { embedding: [1], embedding_model: 'openai:text-embedding-3-small' }))
+
+  assert.deepEqual(contents(await memory.MemoryService.retrieve('Where can I go sailing on weekends', { userId: 'alice' })), ['The user sails on weekends'])
+})
+
+test('"forget that…" removes the memories it refers to, and only the user\'s own', async () => {
+  for (const content of ['The user lives in Lyon', 'The user lives in Lyon with a cat', 'The user works in Paris']) {
+    await memory.MemoryService.create({ content }, 'alice')
+  }
+  await memory.MemoryService.create({ content: 'The user lives in Lyon' }, 'bob')
+
+  const forgotten = await memory.MemoryService.forgetFromMessage('Please forget that I live in Lyon', 'alice')
+  assert.deepEqual(contents(forgotten).sort(), ['The user lives in Lyon', 'The user lives in Lyon with a cat'])
+  assert.deepEqual(stored('alice'), ['The user works in Paris'])
+  assert.deepEqual(stored('bob'), ['The user lives in Lyon'])
+
+  assert.deepEqual(await memory.MemoryService.forgetFromMessage('I live in Lyon', 'alice'), [])
+  assert.deepEqual(await memory.MemoryService.forgetFromMessage('Forget that I own a boat', 'alice'), [])
+  assert.deepEqual(stored('alice'), ['The user works in Paris'])
+})
+
+test('chat context stores and recalls memories for the verified user', async () => {
+  const context = await memory.MemoryService.attachToContext({ conversationId: 'chat-1', turns: [] }, { id: 'm1', content: 'Remember that I prefer the train' }, 'alice')
+  assert.deepEqual(contents(context.memories || []), ['The user prefers the train'])
+  assert.deepEqual(stored('alice'), ['The user prefers the train'])
+  assert.equal(supabase.rows('memories')[0].message_id, 'm1')
+
+  const forgotten = await memory.MemoryService.attachToContext({ conversationId: 'chat-1', turns: [] }, { content: 'Forget that I prefer the train' }, 'alice')
+  assert.equal(forgotten.memories, undefined)
+  assert.deepEqual(stored('alice'), [])
+})
+
+test('a memory can only be edited or deleted by its owner', async () => {
+  const own = await memory.MemoryService.create({ content: 'The user is vegetarian' }, 'alice')
+  const request = (token: string, method: string, body?: object) =>
+    new NextRequest(`http://localhost/api/memories/${own.id}`, { method, headers: { authorization: `Bearer ${token}` }, ...(body ? { body: JSON.stringify(body) } : {}) })
+  const params = { params: Promise.resolve({ id: own.id }) }
+
+  assert.equal((await memoryRoute.PATCH(request('bob-token', 'PATCH', { content: 'The user eats meat' }), params)).status, 404)
+  assert.equal((await memoryRoute.DELETE(request('bob-token', 'DELETE'), params)).status, 404)
+  assert.equal((await memoryRoute.DELETE(request('forged-token', 'DELETE'), params)).status, 401)
+  assert.deepEqual(stored('alice'), ['The user is vegetarian'])
+
+  assert.equal((await memoryRoute.PATCH(request('alice-token', 'PATCH', { kind: 'preference' }), params)).status, 200)
+  assert.equal((await memoryRoute.DELETE(request('alice-token', 'DELETE'), params)).status, 200)
+  assert.deepEqual(stored('alice'), [])
+})
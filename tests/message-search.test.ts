@@ -0,0 +1,104 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { HIGHLIGHT_END, HIGHLIGHT_START, splitSnippet } from '@/lib/search'
+import { SupabaseStandIn, startSupabaseStandIn } from './supabase-stand-in'
+
+let supabase: SupabaseStandIn
+let searchRoute: typeof import('@/app/api/search/route')
+let LocalEmbeddingProvider: typeof import('@/lib/embeddings').LocalEmbeddingProvider
+
+// search_messages() fuses the two rankings in SQL: 1/(k + full-text position) + 1/(k + vector position)
+const ROWS = [
+  { conversation_id: 'c1', conversation_title: 'Trip', message_id: 'm1', role: 'user', snippet: `Trains to ${HIGHLIGHT_START}Oslo${HIGHLIGHT_END}`, message_timestamp: '1700000000000', text_rank: 0.4, similarity: 0.9, score: 1 / 51 + 1 / 51 },
+  { conversation_id: 'c2', conversation_title: 'Notes', message_id: 'm7', role: 'assistant', snippet: 'Norway capital', message_timestamp: '1700000000500', text_rank: null, similarity: 0.7, score: 1 / 52 },
+]
+
+before(async () => {
+  supabase = await startSupabaseStandIn()
+  supabase.rpc.search_messages = () => ROWS
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+    EMBEDDING_PROVIDER: 'local',
+  })
+  searchRoute = await import('@/app/api/search/route')
+  LocalEmbeddingProvider = (await import('@/lib/embeddings')).LocalEmbeddingProvider
+})
+
+after(async () => {
+  await supabase.close()
+})
+
+const rpcCalls = () => supabase.requests.filter(request => request.url === '/rest/v1/rpc/search_messages')
+
+test('a query is embedded with the configured model and searched in both rankings at once', async () => {
+  const response = await searchRoute.GET(new NextRequest('http://localhost/api/search?q=%20Oslo%20&limit=500'))
+  assert.equal(response.status, 200)
+
+  const [call] = rpcCalls().slice(-1)
+  const [expected] = await new LocalEmbeddingProvider().embed(['Oslo'])
+  assert.equal(call.body.search_query, 'Oslo')
+  assert.deepEqual(JSON.parse(call.body.query_embedding), expected)
+  // Capped at 50 however many are asked for
+  assert.equal(call.body.match_count, 50)
+
+  const { results, count } = await response.json()
+  assert.equal(count, 2)
+  assert.deepEqual(results[0], {
+    conversationId: 'c1',
+    conversationTitle: 'Trip',
+    messageId: 'm1',
+    role: 'user',
+    snippet: `Trains to ${HIGHLIGHT_START}Oslo${HIGHLIGHT_END}`,
+    timestamp: 1700000000000,
+    textRank: 0.4,
+    similarity: 0.9,
+    score: 1 / 51 + 1 / 51,
+  })
+  // Found by meaning only
+  assert.equal(results[1].textRank, null)
+})
+
+test('a caller-supplied embedding replaces the query embedding, and one is enough to search', async () => {
+  const response = await searchRoute.POST(new NextRequest('http://localhost/api/search', {
+    method: 'POST',
+    body: JSON.stringify({ embedding: [0.6, 0.8], limit: 0 }),
+  }))
+  assert.equal(response.status, 200)
+
+  const [call] = rpcCalls().slice(-1)
+  assert.deepEqual(call.body, { search_query: '', query_embedding: '[0.6,0.8]', match_count: 20 })
+})
+
+test('requests without a query or embedding, or with a broken body, are rejected', async () => {
+  const before = rpcCalls().length
+  assert.equal((await searchRoute.GET(new NextRequest('http://localhost/api/search?q=%20%20'))).status, 400)
+  assert.equal((await searchRoute.POST(new NextRequest('http://localhost/api/search', { method: 'POST', body: JSON.stringify({ embedding: ['x'] }) }))).status, 400)
+  assert.equal((await searchRoute.POST(new NextRequest('http://localhost/api/search', { method: 'POST', body: '{' }))).status, 400)
+  assert.equal(rpcCalls().length, before)
+})
+
+test('a database error is reported as a failed search', async () => {
+  const saved = supabase.rpc.search_messages
+  delete supabase.rpc.search_messages
+  try {
+    const response = await searchRoute.GET(new NextRequest('http://localhost/api/search?q=Oslo'))
+    assert.equal(response.status, 500)
+    assert.deepEqual(await response.json(), { error: 'Failed to search messages' })
+  } finally {
+    supabase.rpc.search_messages = saved
+  }
+})
+
+test('snippets split into plain and highlighted parts', () => {
+  assert.deepEqual(splitSnippet(`Trains to ${HIGHLIGHT_START}Oslo${HIGHLIGHT_END} … and ${HIGHLIGHT_START}Bergen${HIGHLIGHT_END}`), [
+    { text: 'Trains to ', highlight: false },
+    { text: 'Oslo', highlight: true },
+    { text: ' … and ', highlight: false },
+    { text: 'Bergen', highlight: true },
+  ])
+  // Message text is never parsed as markup
+  assert.deepEqual(splitSnippet('<b>bold</b>'), [{ text: '<b>bold</b>', highlight: false }])
+})
@@ -0,0 +1,106 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getActivePath, getBranchInfo, getLatestLeaf, linkMessages } from '@/lib/message-tree'
+import { RedisStandIn, startRedisStandIn } from './redis-stand-in'
+import { SupabaseStandIn, startSupabaseStandIn } from './supabase-stand-in'
+
+let redis: RedisStandIn
+let supabase: SupabaseStandIn
+let ChatService: typeof import('@/lib/chat-service').ChatService
+
+before(async () => {
+  redis = await startRedisStandIn()
+  supabase = await startSupabaseStandIn()
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+    UPSTASH_REDIS_REST_URL: redis.baseURL,
+    UPSTASH_REDIS_REST_TOKEN: 'test-token',
+  })
+  ChatService = (await import('@/lib/chat-service')).ChatService
+})
+
+after(async () => {
+  await Promise.all([redis.close(), supabase.close()])
+})
+
+// u1 ─ a1 ─ u2 ─ a2        the first question, answered, then a follow-up
+//         └ u2b ─ a2b       the follow-up edited, which forked the thread
+const tree = [
+  { id: 'u1', parentId: null },
+  { id: 'a1', parentId: 'u1' },
+  { id: 'u2', parentId: 'a1' },
+  { id: 'a2', parentId: 'u2' },
+  { id: 'u2b', parentId: 'a1' },
+  { id: 'a2b', parentId: 'u2b' },
+]
+const ids = (messages: Array<{ id: string }>) => messages.map(message => message.id)
+
+test('a flat list saved before branching becomes a single chain', () => {
+  const linked = linkMessages([{ id: 'a' }, { id: 'b' }, { id: 'c', parentId: 'a' }])
+  assert.deepEqual(linked.map(message => message.parentId), [null, 'a', 'a'])
+  // Already linked lists are returned as they are
+  assert.equal(linkMessages(tree), tree)
+})
+
+test('the active path runs from the root to the chosen leaf', () => {
+  assert.deepEqual(ids(getActivePath(tree, 'a2')), ['u1', 'a1', 'u2', 'a2'])
+  assert.deepEqual(ids(getActivePath(tree, 'u2')), ['u1', 'a1', 'u2'])
+  // No leaf, or one that is gone, shows the branch with the newest message
+  assert.deepEqual(ids(getActivePath(tree)), ['u1', 'a1', 'u2b', 'a2b'])
+  assert.deepEqual(ids(getActivePath(tree, 'deleted')), ['u1', 'a1', 'u2b', 'a2b'])
+  assert.deepEqual(getActivePath([]), [])
+})
+
+test('a parent cycle ends the path instead of looping', () => {
+  const looped = [{ id: 'x', parentId: 'y' }, { id: 'y', parentId: 'x' }]
+  assert.deepEqual(ids(getActivePath(looped, 'x')), ['y', 'x'])
+})
+
+test('switching to a sibling follows its newest continuation', () => {
+  assert.equal(getLatestLeaf(tree, 'u2'), 'a2')
+  assert.equal(getLatestLeaf(tree, 'a1'), 'a2b')
+  assert.equal(getLatestLeaf(tree, 'a2b'), 'a2b')
+})
+
+test('branch info counts the siblings under the same parent, oldest first', () => {
+  assert.deepEqual(getBranchInfo(tree, tree[4]), { index: 1, count: 2, siblingIds: ['u2', 'u2b'] })
+  assert.deepEqual(getBranchInfo(tree, tree[0]), { index: 0, count: 1, siblingIds: ['u1'] })
+  // A message not stored yet still reads as 1/1
+  assert.deepEqual(getBranchInfo([], { id: 'new', parentId: 'a1' }), { index: 0, count: 1, siblingIds: [] })
+})
+
+test('model context holds only the branch the new message continues', async () => {
+  supabase.rows('conversations').push({
+    id: 'chat-tree',
+    title: 'Branches',
+    model: 'GPT-4',
+    metadata: { activeLeafId: 'a2', contextSummary: { text: 'Earlier talk', coveredThroughId: 'u2b', turnCount: 3 } },
+  })
+  supabase.rows('messages').push(...tree.map((message, index) => ({
+    id: message.id,
+    conversation_id: 'chat-tree',
+    parent_id: message.parentId,
+    role: message.id.startsWith('u') ? 'user' : 'assistant',
+    content: `${message.id} text`,
+    type: 'text',
+    timestamp: 1000 + index,
+    metadata: {},
+    attachments: [],
+    deleted: false,
+  })))
+
+  // Replying under a2b: the edited branch, whose summary applies
+  const edited = await ChatService.getConversationContext('chat-tree', 'u3', 'a2b')
+  assert.deepEqual(edited.turns.map(turn => turn.id), ['u1', 'a1', 'u2b', 'a2b'])
+  assert.equal(edited.summary?.text, 'Earlier talk')
+
+  // No parent given: the branch the user last had open, where that summary does not apply
+  const open = await ChatService.getConversationContext('chat-tree', 'u3')
+  assert.deepEqual(open.turns.map(turn => turn.content), ['u1 text', 'a1 text', 'u2 text', 'a2 text'])
+  assert.equal(open.summary, undefined)
+
+  // A new root message has no history at all
+  assert.deepEqual((await ChatService.getConversationContext('chat-tree', 'u3', null)).turns, [])
+})
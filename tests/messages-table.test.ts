@@ -0,0 +1,62 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { SupabaseStandIn, startSupabaseStandIn } from './supabase-stand-in'
+
+let supabase: SupabaseStandIn
+let SupabaseChatStorage: typeof import('@/lib/supabase').SupabaseChatStorage
+
+before(async () => {
+  supabase = await startSupabaseStandIn()
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+  })
+  SupabaseChatStorage = (await import('@/lib/supabase')).SupabaseChatStorage
+})
+
+after(async () => {
+  await supabase.close()
+})
+
+const message = (id: string, content: string, parentId?: string | null) =>
+  ({ id, role: 'user' as const, content, type: 'text' as const, timestamp: 1000, ...(parentId !== undefined ? { parentId } : {}) })
+
+test('a retried save neither duplicates messages nor overwrites their later edits', async () => {
+  await SupabaseChatStorage.insertMessages('chat-a', [message('m1', 'first', null), message('m2', 'second', 'm1')])
+  await SupabaseChatStorage.updateMessage('chat-a', 'm1', { content: 'first, edited' })
+
+  // The client saving the same exchange again, e.g. after the server saved a stopped answer
+  await SupabaseChatStorage.insertMessages('chat-a', [message('m1', 'first', null), message('m2', 'second', 'm1'), message('m3', 'third', 'm2')])
+
+  const stored = await SupabaseChatStorage.getMessages('chat-a')
+  assert.deepEqual(stored.map(row => [row.id, row.content]), [['m1', 'first, edited'], ['m2', 'second'], ['m3', 'third']])
+
+  const upsert = supabase.requests.filter(request => request.method === 'POST' && request.url.startsWith('/rest/v1/messages')).at(-1)!
+  assert.match(upsert.url, /on_conflict=conversation_id%2Cid/)
+  assert.match(String(upsert.headers.prefer), /resolution=ignore-duplicates/)
+})
+
+test('message ids only need to be unique within their conversation', async () => {
+  await SupabaseChatStorage.insertMessages('chat-b', [message('m1', 'other chat', null)])
+
+  assert.deepEqual((await SupabaseChatStorage.getMessages('chat-b')).map(row => row.content), ['other chat'])
+  assert.equal((await SupabaseChatStorage.getMessage('chat-a', 'm1'))?.content, 'first, edited')
+})
+
+test('messages without a parent continue from the latest stored message', async () => {
+  const saved = await SupabaseChatStorage.insertMessages('chat-a', [message('m4', 'fourth'), message('m5', 'fifth')])
+
+  assert.deepEqual(saved.map(row => row.parentId), ['m3', 'm4'])
+  assert.equal((await SupabaseChatStorage.getMessage('chat-a', 'm5'))?.parentId, 'm4')
+})
+
+test('soft deletes keep the row and flag it, and unknown ids report false', async () => {
+  assert.equal(await SupabaseChatStorage.updateMessage('chat-a', 'm2', { deleted: true }), true)
+  assert.equal(await SupabaseChatStorage.updateMessage('chat-a', 'missing', { deleted: true }), false)
+
+  const deleted = supabase.rows('messages').find(row => row.conversation_id === 'chat-a' && row.id === 'm2')!
+  assert.equal(deleted.deleted, true)
+  assert.ok(deleted.deleted_at)
+  assert.equal((await SupabaseChatStorage.getMessage('chat-a', 'm2'))?.deleted, true)
+})
@@ -0,0 +1,65 @@
+// Local HTTP stand-in for provider APIs: records every request and answers with the handler's response
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+
+export interface RecordedRequest {
+  method: string
+  url: string
+  headers: IncomingMessage['headers']
+  body: any // Parsed JSON, or null for other bodies
+  rawBody: Buffer
+}
+
+export interface MockServer {
+  baseURL: string
+  requests: RecordedRequest[]
+  close: () => Promise<void>
+}
+
+export async function startMockServer(handler: (request: RecordedRequest, response: ServerResponse) => void): Promise<MockServer> {
+  const requests: RecordedRequest[] = []
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+    const rawBody = Buffer.concat(chunks)
+    let body = null
+    try {
+      body = rawBody.length ? JSON.parse(rawBody.toString('utf8')) : null
+    } catch {}
+    const request = { method: req.method || 'GET', url: req.url || '/', headers: req.headers, body, rawBody }
+    requests.push(request)
+    handler(request, res)
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    baseURL: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+// Collect the text of the `content` events an SSE stream (as produced by generateStream) carries
+export async function readStreamContent(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    text += decoder.decode(value, { stream: true })
+  }
+  return text
+    .split('\n\n')
+    .filter(block => block.startsWith('data: '))
+    .map(block => JSON.parse(block.slice(6)))
+    .filter(event => event.type === 'content')
+    .map(event => event.content)
+    .join('')
+}
@@ -0,0 +1,80 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ChatMessage } from '@/types'
+import { INTERNET, createFakeAgent, createFakeOrchestrator } from './fake-orchestrator'
+
+let orchestratorModule: typeof import('@/app/orchestrator')
+let governanceModule: typeof import('@/lib/governance')
+
+before(async () => {
+  // Audit entries are persisted in the background; an unreachable Supabase only logs
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:1',
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test',
+    SUPABASE_SERVICE_ROLE_KEY: 'test',
+  })
+  orchestratorModule = await import('@/app/orchestrator')
+  governanceModule = await import('@/lib/governance')
+})
+
+const message = (content: string): ChatMessage => ({ id: 'm1', role: 'user', content, type: 'text', timestamp: 0 })
+const overlap = (a: { start: number; end: number }, b: { start: number; end: number }) => a.start < b.end && b.start < a.end
+
+function keywordAgents() {
+  return {
+    weather: createFakeAgent('Weather', { trigger: /\bweather\b/i, delayMs: 100 }),
+    time: createFakeAgent('World Time', { trigger: /\btime\b/i, delayMs: 100 }),
+    search: createFakeAgent('Internet Search', { trigger: /\b(latest|news)\b/i }),
+  }
+}
+
+test('every agent the message calls for runs at once and the answer sees all their results', async () => {
+  const { weather, time, search } = keywordAgents()
+  const { orchestrator, calls } = createFakeOrchestrator(orchestratorModule, governanceModule, { agents: [search.agent, weather.agent, time.agent] })
+
+  const reply = await orchestrator.processMessage(message('weather in Tokyo and the time there'), undefined, INTERNET)
+
+  assert.equal(weather.inputs.length, 1)
+  assert.equal(time.inputs.length, 1)
+  assert.ok(overlap(weather.spans[0], time.spans[0]))
+  // Nothing is left to look up once the weather and time triggers are taken out
+  assert.equal(search.inputs.length, 0)
+
+  assert.deepEqual(reply.metadata?.agentResults, [
+    { agent: 'Weather', data: 'WEATHER DATA' },
+    { agent: 'World Time', data: 'WORLD TIME DATA' },
+  ])
+  assert.deepEqual(reply.metadata?.chain?.steps.map((step: any) => [step.agent, step.depth]), [['Weather', 1], ['World Time', 1]])
+  const prompt = calls.answers[0].user
+  assert.ok(prompt.includes('CURRENT WEATHER RESULTS') && prompt.includes('CURRENT WORLD TIME RESULTS'))
+})
+
+test('search joins the specialised agents when the rest of the message is a lookup of its own', async () => {
+  const { weather, time, search } = keywordAgents()
+  const { orchestrator } = createFakeOrchestrator(orchestratorModule, governanceModule, { agents: [search.agent, weather.agent, time.agent] })
+
+  const reply = await orchestrator.processMessage(message('weather in Tokyo and the latest news on the Olympics'), undefined, INTERNET)
+
+  assert.equal(time.inputs.length, 0)
+  // Results arrive in the order the agents finish
+  assert.deepEqual(reply.metadata?.agentResults?.map((result: any) => result.agent).sort(), ['Internet Search', 'Weather'])
+})
+
+test('tool calls of one round run in parallel and a failing one keeps the others', async () => {
+  const weather = createFakeAgent('Weather', { tool: 'get_weather', delayMs: 100 })
+  const time = createFakeAgent('World Time', { tool: 'get_time', delayMs: 100, error: new Error('time service down') })
+  const { orchestrator, calls } = createFakeOrchestrator(orchestratorModule, governanceModule, {
+    agents: [weather.agent, time.agent],
+    toolRounds: [[
+      { id: 'c1', name: 'get_weather', arguments: { city: 'Tokyo' } },
+      { id: 'c2', name: 'get_time', arguments: { city: 'Tokyo' } },
+    ]],
+  })
+
+  const reply = await orchestrator.processMessage(message('Weather and time in Tokyo?'), undefined, INTERNET)
+
+  assert.ok(overlap(weather.spans[0], time.spans[0]))
+  assert.deepEqual(reply.metadata?.chain?.steps.map((step: any) => [step.agent, step.status]), [['Weather', 'success'], ['World Time', 'error']])
+  assert.deepEqual(calls.plans[1].toolExchanges![0].results.map(result => result.isError), [false, true])
+  assert.match(calls.answers[0].user, /UNAVAILABLE SOURCES:\n- World Time: time service down/)
+})
@@ -0,0 +1,51 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { AIModel } from '@/types'
+import { ProviderAdapter, ProviderRegistry } from '@/models/registry'
+
+function fakeAdapter(): ProviderAdapter & { created: string[] } {
+  const created: string[] = []
+  return {
+    id: 'fake',
+    name: 'Fake',
+    modelPatterns: [/^fake-/],
+    capabilities: { streaming: false, systemPrompt: true, multiTurn: true, tools: false, vision: false },
+    defaultModels: [{ id: 'fake-small', name: 'fake-small', provider: 'Fake', category: 'text' }],
+    created,
+    createModel(modelId: string): AIModel {
+      created.push(modelId)
+      return { name: modelId, provider: 'Fake', type: 'text', generate: async () => ({ id: 'r', content: '', type: 'text' }) } as AIModel
+    },
+    listModels: async () => [],
+  } as any
+}
+
+test('models built from request ids are reused but only a bounded number are kept', () => {
+  const adapter = fakeAdapter()
+  const registry = new ProviderRegistry([adapter])
+
+  const first = registry.resolveModel('fake-0')
+  assert.equal(registry.resolveModel('fake-0'), first)
+  assert.equal(adapter.created.length, 1)
+
+  for (let i = 1; i <= 100; i++) registry.resolveModel(`fake-${i}`)
+  assert.notEqual(registry.resolveModel('fake-0'), first)
+  assert.equal(adapter.created.filter(id => id === 'fake-0').length, 2)
+
+  // A recently used model survives the ids requested after it
+  const recent = registry.resolveModel('fake-100')
+  for (let i = 101; i <= 110; i++) registry.resolveModel(`fake-${i}`)
+  assert.equal(registry.resolveModel('fake-100'), recent)
+})
+
+test('listed model names come from pinned models and catalogues, not from requested ids', () => {
+  const registry = new ProviderRegistry([fakeAdapter()])
+  const pinned = { name: 'Fake Pinned', provider: 'Fake', type: 'text' } as AIModel
+  registry.registerModel('Fake Pinned', pinned)
+
+  for (let i = 0; i < 10; i++) registry.resolveModel(`fake-made-up-${i}`)
+
+  assert.deepEqual(registry.getModelNames(), ['Fake Pinned', 'fake-small'])
+  assert.equal(registry.resolveModel('Fake Pinned'), pinned)
+  assert.equal(registry.resolveModel('unknown-model'), undefined)
+})
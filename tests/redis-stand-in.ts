@@ -0,0 +1,97 @@
+// In-memory stand-in for the Upstash Redis REST API, covering the commands the app uses for stream sessions.
+// Point UPSTASH_REDIS_REST_URL at `baseURL` before lib/redis.ts is imported.
+import { ServerResponse } from 'http'
+import { MockServer, sendJson, startMockServer } from './mock-server'
+
+type Entry = { kind: 'string'; value: string } | { kind: 'zset'; value: Map<string, number> }
+
+export interface RedisStandIn extends MockServer {
+  data: Map<string, Entry>
+  failNext: (command: string) => void // The next call of this command answers with an error
+}
+
+function encode(value: unknown, base64: boolean): unknown {
+  if (!base64) return value
+  if (typeof value === 'string') return value === 'OK' ? value : Buffer.from(value, 'utf8').toString('base64')
+  if (Array.isArray(value)) return value.map(item => encode(item, base64))
+  return value
+}
+
+function scoreBound(value: string): { score: number; exclusive: boolean } {
+  if (value === '-inf') return { score: -Infinity, exclusive: false }
+  if (value === '+inf') return { score: Infinity, exclusive: false }
+  return value.startsWith('(') ? { score: Number(value.slice(1)), exclusive: true } : { score: Number(value), exclusive: false }
+}
+
+export async function startRedisStandIn(): Promise<RedisStandIn> {
+  const data = new Map<string, Entry>()
+  const failures = new Set<string>()
+
+  const run = (args: Array<string | number>): unknown => {
+    const [name, ...rest] = args.map(String)
+    const command = name.toLowerCase()
+    if (failures.delete(command)) throw new Error(`ERR ${command} failed (injected)`)
+    const key = rest[0]
+
+    switch (command) {
+      case 'set':
+        data.set(key, { kind: 'string', value: rest[1] })
+        return 'OK'
+      case 'setex':
+        data.set(key, { kind: 'string', value: rest[2] })
+        return 'OK'
+      case 'get': {
+        const entry = data.get(key)
+        return entry?.kind === 'string' ? entry.value : null
+      }
+      case 'del':
+        return rest.filter(name => data.delete(name)).length
+      case 'expire':
+        return data.has(key) ? 1 : 0
+      case 'zadd': {
+        const entry = data.get(key)
+        if (entry && entry.kind !== 'zset') throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value')
+        const set = entry?.value || new Map<string, number>()
+        let added = 0
+        for (let i = 1; i < rest.length; i += 2) {
+          if (!set.has(rest[i + 1])) added++
+          set.set(rest[i + 1], Number(rest[i]))
+        }
+        data.set(key, { kind: 'zset', value: set })
+        return added
+      }
+      case 'zrange': {
+        const entry = data.get(key)
+        if (!entry) return []
+        if (entry.kind !== 'zset' || !rest.some(arg => arg.toLowerCase() === 'byscore')) throw new Error('ERR only ZRANGE BYSCORE is supported')
+        const min = scoreBound(rest[1])
+        const max = scoreBound(rest[2])
+        return [...entry.value]
+          .filter(([, score]) => (min.exclusive ? score > min.score : score >= min.score) && (max.exclusive ? score < max.score : score <= max.score))
+          .sort((a, b) => a[1] - b[1])
+          .map(([member]) => member)
+      }
+      default:
+        throw new Error(`ERR unknown command '${command}'`)
+    }
+  }
+
+  const answer = (args: Array<string | number>, base64: boolean) => {
+    try {
+      return { result: encode(run(args), base64) }
+    } catch (error) {
+      return { error: (error as Error).message }
+    }
+  }
+
+  const server = await startMockServer((request, res: ServerResponse) => {
+    const base64 = request.headers['upstash-encoding'] === 'base64'
+    if (request.url.startsWith('/pipeline') || request.url.startsWith('/multi-exec')) {
+      return sendJson(res, 200, (request.body as Array<Array<string | number>>).map(args => answer(args, base64)) as any)
+    }
+    const reply = answer(request.body, base64)
+    sendJson(res, 'error' in reply ? 400 : 200, reply)
+  })
+
+  return { ...server, data, failNext: command => failures.add(command.toLowerCase()) }
+}
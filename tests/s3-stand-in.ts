@@ -0,0 +1,59 @@
+// MinIO-style stand-in for S3: path-style object PUT, GET, HEAD and DELETE on http://host/<bucket>/<key>.
+// Requests must carry a SigV4 Authorization header or a presigned query string, as MinIO requires.
+import { MockServer, RecordedRequest, startMockServer } from './mock-server'
+
+export interface S3StandIn extends MockServer {
+  objects: Map<string, { data: Buffer; contentType?: string }> // '<bucket>/<key>' -> object
+}
+
+// aws-chunked bodies (streamed uploads with checksums) wrap the data in "<hex size>;...\r\n<data>\r\n" frames
+function decodeBody(request: RecordedRequest): Buffer {
+  if (!String(request.headers['content-encoding'] || '').includes('aws-chunked')) return request.rawBody
+  const parts: Buffer[] = []
+  let offset = 0
+  while (offset < request.rawBody.length) {
+    const lineEnd = request.rawBody.indexOf('\r\n', offset)
+    const size = parseInt(request.rawBody.subarray(offset, lineEnd).toString('ascii').split(';')[0], 16)
+    if (!size) break
+    parts.push(request.rawBody.subarray(lineEnd + 2, lineEnd + 2 + size))
+    offset = lineEnd + 2 + size + 2
+  }
+  return Buffer.concat(parts)
+}
+
+export async function startS3StandIn(): Promise<S3StandIn> {
+  const objects = new Map<string, { data: Buffer; contentType?: string }>()
+  const server = await startMockServer((request, res) => {
+    const url = new URL(request.url, 'http://localhost')
+    const signed = String(request.headers.authorization || '').startsWith('AWS4-HMAC-SHA256') || url.searchParams.has('X-Amz-Signature')
+    if (!signed) {
+      res.writeHead(403, { 'Content-Type': 'application/xml' })
+      return res.end('<Error><Code>AccessDenied</Code></Error>')
+    }
+
+    const path = decodeURIComponent(url.pathname.slice(1))
+    const object = objects.get(path)
+    switch (request.method) {
+      case 'PUT':
+        objects.set(path, { data: decodeBody(request), contentType: request.headers['content-type'] })
+        res.writeHead(200, { ETag: '"stand-in"' })
+        return res.end()
+      case 'GET':
+      case 'HEAD':
+        if (!object) {
+          res.writeHead(404, { 'Content-Type': 'application/xml' })
+          return res.end(request.method === 'GET' ? '<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>' : undefined)
+        }
+        res.writeHead(200, { 'Content-Type': object.contentType || 'application/octet-stream', 'Content-Length': object.data.length })
+        return res.end(request.method === 'GET' ? object.data : undefined)
+      case 'DELETE':
+        objects.delete(path)
+        res.writeHead(204)
+        return res.end()
+      default:
+        res.writeHead(405)
+        res.end()
+    }
+  })
+  return { ...server, objects }
+}
@@ -0,0 +1,45 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawnSync } from 'child_process'
+import { access, mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+let sandbox: typeof import('@/lib/sandbox')
+let settings: typeof import('@/lib/config').default.codeRunner
+
+// The isolation checks need bubblewrap on the host; without it only the refusal can be tested
+const hasBwrap = spawnSync('bwrap', ['--version']).status === 0
+
+before(async () => {
+  sandbox = await import('@/lib/sandbox')
+  settings = (await import('@/lib/config')).default.codeRunner
+})
+
+test('the process backend refuses to run snippets when bubblewrap is missing', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'sandbox-test-'))
+  const marker = join(dir, 'ran')
+  try {
+    const backend = sandbox.createSandbox({ ...settings, backend: 'process', bwrapCommand: join(dir, 'no-bwrap') })
+    await assert.rejects(
+      backend.run('javascript', `require('fs').writeFileSync(${JSON.stringify(marker)}, 'x')`),
+      /bubblewrap/
+    )
+    await assert.rejects(access(marker))
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+})
+
+test('process snippets only see system directories and their own working directory', { skip: !hasBwrap && 'bwrap is not installed' }, async () => {
+  const backend = sandbox.createSandbox({ ...settings, backend: 'process' })
+  const result = await backend.run('python', [
+    'import os',
+    `print(os.path.exists(${JSON.stringify(process.cwd())}), os.path.exists('/etc/passwd'), len([pid for pid in os.listdir('/proc') if pid.isdigit()]) < 5)`,
+    "open('out.txt', 'w').write('ok')",
+  ].join('\n'))
+
+  assert.equal(result.status, 'ok', result.stderr)
+  assert.equal(result.stdout.trim(), 'False False True')
+  assert.deepEqual(result.files.map(file => file.path), ['out.txt'])
+})
@@ -0,0 +1,84 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { S3StandIn, startS3StandIn } from './s3-stand-in'
+
+let s3: S3StandIn
+// Loaded after the environment points at the stand-in, since lib/config.ts reads it on import
+let storage: typeof import('@/lib/storage')
+
+before(async () => {
+  s3 = await startS3StandIn()
+  Object.assign(process.env, {
+    STORAGE_PROVIDER: 'minio',
+    AWS_S3_BUCKET: 'uploads',
+    AWS_REGION: 'us-east-1',
+    AWS_ACCESS_KEY_ID: 'minioadmin',
+    AWS_SECRET_ACCESS_KEY: 'minioadmin',
+    S3_ENDPOINT: s3.baseURL,
+  })
+  storage = await import('@/lib/storage')
+})
+
+after(async () => {
+  await s3.close()
+})
+
+test('the S3 driver stores, reads and deletes objects in a path-style bucket', async () => {
+  const driver = storage.getStorage()
+  assert.equal(driver.id, 's3')
+
+  await driver.put('report.csv', Buffer.from('a,b\n1,2\n'), 'text/csv')
+  assert.equal(s3.objects.get('uploads/report.csv')?.data.toString(), 'a,b\n1,2\n')
+  assert.equal(s3.objects.get('uploads/report.csv')?.contentType, 'text/csv')
+  assert.equal((await driver.get('report.csv')).toString(), 'a,b\n1,2\n')
+  assert.equal(driver.url('report.csv'), '/api/files/report.csv')
+
+  await driver.delete('report.csv')
+  assert.equal(s3.objects.has('uploads/report.csv'), false)
+  // Deleting a missing object is not an error
+  await driver.delete('report.csv')
+})
+
+test('signed S3 links download the object and carry the requested expiry', async () => {
+  const driver = storage.getStorage()
+  await driver.put('photo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'image/png')
+
+  const link = new URL(await driver.signedUrl('photo.png', 60))
+  assert.equal(link.origin, s3.baseURL)
+  assert.equal(link.pathname, '/uploads/photo.png')
+  assert.equal(link.searchParams.get('X-Amz-Expires'), '60')
+
+  const response = await fetch(link)
+  assert.equal(response.status, 200)
+  assert.deepEqual([...new Uint8Array(await response.arrayBuffer())], [0x89, 0x50, 0x4e, 0x47])
+})
+
+test('deleteStoredFiles removes the objects behind upload URLs and ignores other links', async () => {
+  const driver = storage.getStorage()
+  await driver.put('a.txt', Buffer.from('a'))
+  await driver.put('b.txt', Buffer.from('b'))
+
+  await storage.deleteStoredFiles(['/api/files/a.txt', '/api/files/b.txt?download=1', 'blob:http://localhost/123', 'https://example.com/c.txt'])
+  assert.equal(s3.objects.has('uploads/a.txt'), false)
+  assert.equal(s3.objects.has('uploads/b.txt'), false)
+})
+
+test('the local driver keeps files under its root and rejects keys that leave it', async () => {
+  const root = await mkdtemp(join(tmpdir(), 'uploads-'))
+  try {
+    const driver = new storage.LocalStorageDriver(root)
+    await driver.put('notes.txt', Buffer.from('hello'))
+    assert.equal((await driver.get('notes.txt')).toString(), 'hello')
+    assert.equal(driver.url('notes.txt'), '/uploads/notes.txt')
+
+    await assert.rejects(driver.put('../escape.txt', Buffer.from('x')), /Invalid storage key/)
+    await driver.delete('notes.txt')
+    await driver.delete('notes.txt')
+    await assert.rejects(driver.get('notes.txt'), { code: 'ENOENT' })
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
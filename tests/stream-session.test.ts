@@ -0,0 +1,81 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { RedisStandIn, startRedisStandIn } from './redis-stand-in'
+
+let redis: RedisStandIn
+// Loaded after the stand-in is up, since lib/redis.ts creates its client on import
+let RedisChatCache: typeof import('@/lib/redis').RedisChatCache
+let streamSession: typeof import('@/lib/stream-session')
+
+const settle = (ms = 50) => new Promise(resolve => setTimeout(resolve, ms))
+
+before(async () => {
+  redis = await startRedisStandIn()
+  process.env.UPSTASH_REDIS_REST_URL = redis.baseURL
+  process.env.UPSTASH_REDIS_REST_TOKEN = 'test-token'
+  RedisChatCache = (await import('@/lib/redis')).RedisChatCache
+  streamSession = await import('@/lib/stream-session')
+})
+
+after(async () => {
+  await redis.close()
+})
+
+async function replay(sessionId: string, afterSeq: number): Promise<Array<{ type: string; [key: string]: any }>> {
+  const events = []
+  for await (const event of streamSession.readSSEEvents(streamSession.createReplayStream(sessionId, afterSeq, RedisChatCache, { pollMs: 10 }))) {
+    events.push(event)
+  }
+  return events
+}
+
+test('getStreamEvents returns the events after a sequence number, in order', async () => {
+  await RedisChatCache.appendStreamEvents('direct', [{ seq: 1, data: 'a' }, { seq: 2, data: 'b' }])
+  await RedisChatCache.appendStreamEvents('direct', [{ seq: 3, data: 'c' }])
+
+  const events = await RedisChatCache.getStreamEvents('direct', 1) as Array<{ seq: number; data: string }>
+  assert.deepEqual(events.map(event => event.seq), [2, 3])
+  assert.deepEqual(events.map(event => event.data), ['b', 'c'])
+})
+
+test('a resumed stream replays exactly the events after Last-Event-ID', async () => {
+  const session = await streamSession.StreamSession.create({ model: 'test' }, RedisChatCache)
+  for (let i = 1; i <= 30; i++) session.send({ type: 'content', content: `t${i}` })
+  await session.complete()
+
+  const events = await replay(session.id, 25)
+  assert.deepEqual(events.map(event => event.content), ['t26', 't27', 't28', 't29', 't30'])
+  assert.equal((await streamSession.StreamSession.load(session.id, RedisChatCache))?.status, 'complete')
+})
+
+test('a failed batch write fails the session instead of shifting later events', async () => {
+  const session = await streamSession.StreamSession.create({ model: 'test' }, RedisChatCache)
+  for (let i = 1; i <= 20; i++) session.send({ type: 'content', content: `t${i}` })
+  await settle()
+
+  redis.failNext('zadd')
+  for (let i = 21; i <= 40; i++) session.send({ type: 'content', content: `t${i}` })
+  await settle()
+  for (let i = 41; i <= 45; i++) session.send({ type: 'content', content: `t${i}` })
+  await session.complete()
+
+  assert.equal(session.resumable, false)
+  const info = await streamSession.StreamSession.load(session.id, RedisChatCache)
+  assert.equal(info?.status, 'error')
+
+  // Everything stored before the failure replays; then the client is told the rest is gone
+  const events = await replay(session.id, 15)
+  assert.deepEqual(events.slice(0, -1).map(event => event.content), ['t16', 't17', 't18', 't19', 't20'])
+  assert.equal(events[events.length - 1].type, 'error')
+  assert.match(events[events.length - 1].error, /lost/)
+})
+
+test('replay stops at a gap in the stored sequence numbers', async () => {
+  const session = await streamSession.StreamSession.create({ model: 'test' }, RedisChatCache)
+  await RedisChatCache.appendStreamEvents(session.id, [{ seq: 1, data: { type: 'content', content: 'a' } }, { seq: 3, data: { type: 'content', content: 'c' } }])
+  await session.complete()
+
+  const events = await replay(session.id, 0)
+  assert.deepEqual(events.map(event => event.type), ['content', 'error'])
+  assert.equal(events[0].content, 'a')
+})
@@ -0,0 +1,99 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { MockServer, startMockServer } from './mock-server'
+import { RedisStandIn, startRedisStandIn } from './redis-stand-in'
+import { SupabaseStandIn, startSupabaseStandIn } from './supabase-stand-in'
+
+let llm: MockServer
+let redis: RedisStandIn
+let supabase: SupabaseStandIn
+let streamRoute: typeof import('@/app/api/chat/stream/route')
+// Chunks the local model has written, and whether the provider connection was dropped
+const provider = { chunks: 0, closed: false }
+
+const PROVIDER_KEYS = ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'GOOGLE_AI_API_KEY', 'MISTRAL_API_KEY', 'GROQ_API_KEY']
+
+before(async () => {
+  // Stands in for a local OpenAI-compatible server that streams one token every 20ms for as long as it is read
+  llm = await startMockServer((request, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+    const timer = setInterval(() => {
+      provider.chunks++
+      if (provider.chunks > 500) {
+        res.end('data: [DONE]\n\n')
+        return clearInterval(timer)
+      }
+      res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: `t${provider.chunks} ` } }] })}\n\n`)
+    }, 20)
+    res.on('close', () => {
+      provider.closed = true
+      clearInterval(timer)
+    })
+  })
+  redis = await startRedisStandIn()
+  supabase = await startSupabaseStandIn()
+  PROVIDER_KEYS.forEach(key => delete process.env[key])
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+    UPSTASH_REDIS_REST_URL: redis.baseURL,
+    UPSTASH_REDIS_REST_TOKEN: 'test-token',
+    LOCAL_LLM_ENDPOINT: `${llm.baseURL}/v1`,
+  })
+  streamRoute = await import('@/app/api/chat/stream/route')
+})
+
+after(async () => {
+  await Promise.all([llm.close(), redis.close(), supabase.close()])
+})
+
+test('stopping a stream aborts the provider request and saves the answer so far as stopped', async () => {
+  supabase.rows('conversations').push({ id: 'chat-1', title: 'Story', metadata: { memoryEnabled: false } })
+
+  const response = await streamRoute.POST(new NextRequest('http://localhost/api/chat/stream', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({
+      message: { id: 'user-1', content: 'Tell me a long story', parentId: null },
+      assistantMessageId: 'assistant-1',
+      model: 'local/llama3.1:8b',
+      chatId: 'chat-1',
+      settings: { governance: { mode: 'internal' } },
+    }),
+  }))
+  assert.equal(response.status, 200)
+  const sessionId = response.headers.get('X-Stream-Session')
+
+  const events: Array<{ type: string; [key: string]: any }> = []
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let stopping: Promise<Response> | undefined
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true })
+    const blocks = buffer.split('\n\n')
+    buffer = blocks.pop() || ''
+    for (const block of blocks) {
+      const data = block.split('\n').find(line => line.startsWith('data: '))
+      if (data) events.push(JSON.parse(data.slice(6)))
+    }
+    // Stop once a few tokens have arrived, as the stop button does
+    if (!stopping && events.filter(event => event.type === 'content').length >= 3) {
+      stopping = streamRoute.DELETE(new NextRequest(`http://localhost/api/chat/stream?session=${sessionId}`, { method: 'DELETE' }))
+    }
+  }
+  assert.equal((await stopping)?.status, 200)
+
+  const streamed = events.filter(event => event.type === 'content').map(event => event.content).join('')
+  assert.equal(events.at(-1)?.type, 'stopped')
+  assert.ok(provider.closed)
+  assert.ok(provider.chunks < 100, `the provider kept streaming (${provider.chunks} chunks)`)
+
+  // The server saved the exchange itself; the client's own save with the same ids is ignored
+  const messages = supabase.rows('messages')
+  assert.deepEqual(messages.map(row => [row.id, row.role, row.parent_id]), [['user-1', 'user', null], ['assistant-1', 'assistant', 'user-1']])
+  assert.equal(messages[1].content, streamed)
+  assert.equal(messages[1].metadata.stopped, true)
+  assert.equal(messages[1].metadata.streaming, false)
+})
@@ -0,0 +1,215 @@
+// In-memory stand-in for the Supabase REST (PostgREST) and Auth APIs, covering the queries lib/ makes.
+// Point NEXT_PUBLIC_SUPABASE_URL at `baseURL` before lib/supabase.ts is imported.
+import { randomUUID } from 'crypto'
+import { ServerResponse } from 'http'
+import { MockServer, RecordedRequest, sendJson, startMockServer } from './mock-server'
+
+type Row = Record<string, any>
+
+export interface SupabaseStandIn extends MockServer {
+  tables: Map<string, Row[]>
+  rows: (table: string) => Row[] // Live rows of a table, created empty on first use
+  rpc: Record<string, (args: Record<string, any>, standIn: SupabaseStandIn) => unknown> // Postgres functions by name
+  users: Map<string, Row> // Supabase Auth users by access token
+}
+
+const CONTROL_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns'])
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\"/g, '"') : value
+}
+
+// Split on commas outside parentheses and quotes, as in or=(a.eq.1,b.in.(2,3))
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quoted = false
+  let current = ''
+  for (const char of value) {
+    if (char === '"') quoted = !quoted
+    if (!quoted && char === '(') depth++
+    if (!quoted && char === ')') depth--
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  return current ? [...parts, current] : parts
+}
+
+function compare(a: any, b: string): number {
+  const left = typeof a === 'number' ? a : String(a)
+  const right = typeof a === 'number' ? Number(b) : b
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+// One PostgREST operator applied to a cell, e.g. ('eq', 'abc') or ('in', '(a,b)')
+function test(cell: any, operator: string, value: string): boolean {
+  if (operator.startsWith('not.')) return !test(cell, operator.slice(4), value)
+  switch (operator) {
+    case 'eq': return cell != null && String(cell) === unquote(value)
+    case 'neq': return cell != null && String(cell) !== unquote(value)
+    case 'is': return value === 'null' ? cell == null : String(cell) === value
+    case 'in': return splitTopLevel(value.slice(1, -1)).map(unquote).includes(String(cell))
+    case 'gt': return cell != null && compare(cell, value) > 0
+    case 'gte': return cell != null && compare(cell, value) >= 0
+    case 'lt': return cell != null && compare(cell, value) < 0
+    case 'lte': return cell != null && compare(cell, value) <= 0
+    default: throw new Error(`Unsupported filter operator: ${operator}`)
+  }
+}
+
+// 'embedding.is.null' -> column, operator, value
+function parseCondition(condition: string): { column: string; operator: string; value: string } {
+  const [column, ...rest] = condition.split('.')
+  const negated = rest[0] === 'not'
+  const operator = negated ? `not.${rest[1]}` : rest[0]
+  return { column, operator, value: rest.slice(negated ? 2 : 1).join('.') }
+}
+
+function matches(row: Row, params: URLSearchParams): boolean {
+  for (const [key, raw] of params) {
+    if (CONTROL_PARAMS.has(key)) continue
+    if (key === 'or') {
+      const conditions = splitTopLevel(raw.slice(1, -1)).map(parseCondition)
+      if (!conditions.some(({ column, operator, value }) => test(row[column], operator, value))) return false
+      continue
+    }
+    const dot = raw.indexOf('.')
+    const negated = raw.startsWith('not.')
+    const operator = negated ? `not.${raw.slice(4, raw.indexOf('.', 4))}` : raw.slice(0, dot)
+    const value = raw.slice(operator.length + 1)
+    if (!test(row[key], operator, value)) return false
+  }
+  return true
+}
+
+function sortRows(rows: Row[], order: string | null): Row[] {
+  if (!order) return rows
+  const keys = order.split(',').map(part => {
+    const [column, direction] = part.split('.')
+    return { column, descending: direction === 'desc' }
+  })
+  return [...rows].sort((a, b) => {
+    for (const { column, descending } of keys) {
+      if (a[column] === b[column]) continue
+      const result = a[column] == null ? 1 : b[column] == null ? -1 : a[column] < b[column] ? -1 : 1
+      return descending ? -result : result
+    }
+    return 0
+  })
+}
+
+export async function startSupabaseStandIn(): Promise<SupabaseStandIn> {
+  const tables = new Map<string, Row[]>()
+  const rows = (table: string) => {
+    if (!tables.has(table)) tables.set(table, [])
+    return tables.get(table)!
+  }
+  let seq = 0
+  const now = () => new Date(Date.now() + seq).toISOString()
+
+  // Rows read back by the client: a single object for .single(), otherwise the array
+  const reply = (request: RecordedRequest, res: ServerResponse, status: number, result: Row[], total?: number) => {
+    const prefer = String(request.headers.prefer || '')
+    const wantsObject = String(request.headers.accept || '').includes('vnd.pgrst.object')
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (prefer.includes('count=')) headers['Content-Range'] = `0-${Math.max(result.length - 1, 0)}/${total ?? result.length}`
+
+    if (request.method !== 'GET' && request.method !== 'HEAD' && !prefer.includes('return=representation')) {
+      res.writeHead(status === 200 ? 204 : status, headers)
+      return res.end()
+    }
+    if (wantsObject && result.length !== 1) {
+      return sendJson(res, 406, { code: 'PGRST116', details: `The result contains ${result.length} rows`, hint: null, message: 'JSON object requested, multiple (or no) rows returned' })
+    }
+    res.writeHead(status, headers)
+    res.end(request.method === 'HEAD' ? undefined : JSON.stringify(wantsObject ? result[0] : result))
+  }
+
+  const standIn: SupabaseStandIn = {
+    ...(await startMockServer((request, res) => {
+      try {
+        handle(request, res)
+      } catch (error) {
+        sendJson(res, 400, { code: 'PGRST100', message: (error as Error).message, details: null, hint: null })
+      }
+    })),
+    tables,
+    rows,
+    rpc: {},
+    users: new Map(),
+  }
+
+  function handle(request: RecordedRequest, res: ServerResponse) {
+    const url = new URL(request.url, 'http://stand-in')
+
+    if (url.pathname === '/auth/v1/user') {
+      const token = String(request.headers.authorization || '').replace(/^Bearer\s+/i, '')
+      const user = standIn.users.get(token)
+      return user ? sendJson(res, 200, user) : sendJson(res, 401, { code: 401, msg: 'invalid JWT' })
+    }
+
+    const rpc = url.pathname.match(/^\/rest\/v1\/rpc\/(\w+)$/)
+    if (rpc) {
+      const fn = standIn.rpc[rpc[1]]
+      if (!fn) return sendJson(res, 404, { code: 'PGRST202', message: `Could not find the function public.${rpc[1]}`, details: null, hint: null })
+      return sendJson(res, 200, fn(request.body || {}, standIn) ?? null)
+    }
+
+    const table = url.pathname.match(/^\/rest\/v1\/(\w+)$/)?.[1]
+    if (!table) return sendJson(res, 404, { message: `No stand-in route for ${url.pathname}` })
+    const params = url.searchParams
+    const stored = rows(table)
+
+    switch (request.method) {
+      case 'GET':
+      case 'HEAD': {
+        const found = sortRows(stored.filter(row => matches(row, params)), params.get('order'))
+        const offset = Number(params.get('offset') || 0)
+        const limit = params.has('limit') ? Number(params.get('limit')) : undefined
+        return reply(request, res, 200, found.slice(offset, limit === undefined ? undefined : offset + limit).map(row => ({ ...row })), found.length)
+      }
+      case 'POST': {
+        const prefer = String(request.headers.prefer || '')
+        const conflictColumns = (params.get('on_conflict') || 'id').split(',')
+        const written: Row[] = []
+        for (const input of [request.body].flat()) {
+          const existing = stored.find(row => conflictColumns.every(column => row[column] === input[column] && input[column] !== undefined))
+          if (existing) {
+            if (prefer.includes('resolution=ignore-duplicates')) continue
+            if (!prefer.includes('resolution=merge-duplicates')) {
+              return sendJson(res, 409, { code: '23505', message: `duplicate key value violates unique constraint "${table}_pkey"`, details: null, hint: null })
+            }
+            Object.assign(existing, input, { updated_at: input.updated_at ?? now() })
+            written.push({ ...existing })
+            continue
+          }
+          seq++
+          // Tables without a client-side id default to gen_random_uuid()
+          const row = { id: randomUUID(), seq, created_at: now(), updated_at: now(), ...input }
+          stored.push(row)
+          written.push({ ...row })
+        }
+        return reply(request, res, 201, written)
+      }
+      case 'PATCH': {
+        seq++
+        const updated = stored.filter(row => matches(row, params))
+        updated.forEach(row => Object.assign(row, { updated_at: now() }, request.body))
+        return reply(request, res, 200, updated.map(row => ({ ...row })))
+      }
+      case 'DELETE': {
+        const removed = stored.filter(row => matches(row, params))
+        tables.set(table, stored.filter(row => !removed.includes(row)))
+        return reply(request, res, 200, removed)
+      }
+      default:
+        return sendJson(res, 405, { message: `Unsupported method ${request.method}` })
+    }
+  }
+
+  return standIn
+}
@@ -0,0 +1,84 @@
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ChatMessage } from '@/types'
+import { INTERNET, createFakeAgent, createFakeOrchestrator } from './fake-orchestrator'
+
+let orchestratorModule: typeof import('@/app/orchestrator')
+let governanceModule: typeof import('@/lib/governance')
+
+before(async () => {
+  // Audit entries are persisted in the background; an unreachable Supabase only logs
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:1',
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test',
+    SUPABASE_SERVICE_ROLE_KEY: 'test',
+  })
+  orchestratorModule = await import('@/app/orchestrator')
+  governanceModule = await import('@/lib/governance')
+})
+
+const message = (content: string): ChatMessage => ({ id: 'm1', role: 'user', content, type: 'text', timestamp: 0 })
+
+test('tool calls run their agents and the results go back to the model as tool results', async () => {
+  const weather = createFakeAgent('Weather', { tool: 'get_weather', data: { city: 'Oslo', temperature: -3 } })
+  const { orchestrator, calls } = createFakeOrchestrator(orchestratorModule, governanceModule, {
+    agents: [weather.agent],
+    toolRounds: [[
+      { id: 'call-1', name: 'get_weather', arguments: { city: 'Oslo' } },
+      { id: 'call-2', name: 'get_stock_price', arguments: { symbol: 'NHY' } },
+    ]],
+  })
+
+  const reply = await orchestrator.processMessage(message('How cold is it in Oslo?'), undefined, INTERNET)
+
+  assert.deepEqual(weather.inputs, [{ city: 'Oslo' }])
+  // The second round sees what the first one returned, including the call no agent could serve
+  assert.equal(calls.plans.length, 2)
+  const [exchange] = calls.plans[1].toolExchanges!
+  assert.deepEqual(exchange.results, [
+    { callId: 'call-1', name: 'get_weather', content: JSON.stringify({ city: 'Oslo', temperature: -3 }), isError: false },
+    { callId: 'call-2', name: 'get_stock_price', content: JSON.stringify({ error: 'Unknown tool: get_stock_price' }), isError: true },
+  ])
+
+  assert.ok(calls.answers[0].user.includes('CURRENT WEATHER RESULTS'))
+  assert.equal(reply.metadata?.agent, 'Weather')
+  assert.deepEqual(reply.metadata?.chain?.steps.map((step: any) => [step.tool, step.status]), [['get_weather', 'success']])
+  assert.equal(reply.metadata?.chain?.stopReason, 'complete')
+})
+
+test('a model that calls no tool answers without agents, even when a keyword matches', async () => {
+  const weather = createFakeAgent('Weather', { tool: 'get_weather' })
+  const { orchestrator, calls } = createFakeOrchestrator(orchestratorModule, governanceModule, { agents: [weather.agent], toolRounds: [] })
+
+  const reply = await orchestrator.processMessage(message('Explain how weather forecasts are made'), undefined, INTERNET)
+
+  assert.equal(calls.plans.length, 1)
+  assert.deepEqual(weather.inputs, [])
+  assert.equal(reply.metadata?.chain, undefined)
+})
+
+test('keyword detection takes over when tool calling fails or the model has no tools', async () => {
+  const failing = createFakeAgent('Weather', { tool: 'get_weather' })
+  const broken = createFakeOrchestrator(orchestratorModule, governanceModule, { agents: [failing.agent], toolRounds: [new Error('tools unsupported')] })
+  await broken.orchestrator.processMessage(message('weather in Oslo'), undefined, INTERNET)
+  assert.deepEqual(failing.inputs, ['weather in Oslo'])
+
+  const plain = createFakeAgent('Weather', { tool: 'get_weather' })
+  const noTools = createFakeOrchestrator(orchestratorModule, governanceModule, { agents: [plain.agent] })
+  await noTools.orchestrator.processMessage(message('weather in Oslo'), undefined, INTERNET)
+  assert.deepEqual(plain.inputs, ['weather in Oslo'])
+  assert.equal(noTools.calls.plans.length, 0)
+})
+
+test('tools are only offered when governance allows internet access', async () => {
+  const weather = createFakeAgent('Weather', { tool: 'get_weather' })
+  const { orchestrator, calls } = createFakeOrchestrator(orchestratorModule, governanceModule, {
+    agents: [weather.agent],
+    toolRounds: [[{ id: 'call-1', name: 'get_weather', arguments: { city: 'Oslo' } }]],
+  })
+
+  await orchestrator.processMessage(message('weather in Oslo'), undefined, { governance: { mode: 'internal' } })
+
+  assert.equal(calls.plans.length, 0)
+  assert.deepEqual(weather.inputs, [])
+})
@@ -0,0 +1,100 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { NextRequest } from 'next/server'
+import { MockServer, startMockServer } from './mock-server'
+import { RedisStandIn, startRedisStandIn } from './redis-stand-in'
+import { SupabaseStandIn, startSupabaseStandIn } from './supabase-stand-in'
+
+let llm: MockServer
+let redis: RedisStandIn
+let supabase: SupabaseStandIn
+let policyDir: string
+let streamRoute: typeof import('@/app/api/chat/stream/route')
+let GovernanceAudit: typeof import('@/lib/governance-audit').GovernanceAudit
+
+const PROVIDER_KEYS = ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'GOOGLE_AI_API_KEY', 'MISTRAL_API_KEY', 'GROQ_API_KEY']
+
+before(async () => {
+  // Stands in for a local OpenAI-compatible server that answers every request with one short chunk
+  llm = await startMockServer((request, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+    res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: 'It is 4.' } }] })}\n\n`)
+    res.end('data: [DONE]\n\n')
+  })
+  redis = await startRedisStandIn()
+  supabase = await startSupabaseStandIn()
+  supabase.users.set('alice-token', { id: 'alice', aud: 'authenticated' })
+  supabase.users.set('bob-token', { id: 'bob', aud: 'authenticated' })
+
+  policyDir = await mkdtemp(join(tmpdir(), 'policies-'))
+  const policyFile = join(policyDir, 'policies.json')
+  await writeFile(policyFile, JSON.stringify({
+    version: 1,
+    policies: [{ id: 'alice-no-math', description: 'Alice answers without the calculator', when: { user: ['alice'] }, then: { deny_agents: ['Math Calculator'] } }],
+  }))
+
+  PROVIDER_KEYS.forEach(key => delete process.env[key])
+  Object.assign(process.env, {
+    NEXT_PUBLIC_SUPABASE_URL: supabase.baseURL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon',
+    SUPABASE_SERVICE_ROLE_KEY: 'service',
+    UPSTASH_REDIS_REST_URL: redis.baseURL,
+    UPSTASH_REDIS_REST_TOKEN: 'test-token',
+    LOCAL_LLM_ENDPOINT: `${llm.baseURL}/v1`,
+    GOVERNANCE_POLICY_FILE: policyFile,
+    GOVERNANCE_AUDIT_LOG: 'memory',
+  })
+  streamRoute = await import('@/app/api/chat/stream/route')
+  GovernanceAudit = (await import('@/lib/governance-audit')).GovernanceAudit
+})
+
+after(async () => {
+  await Promise.all([llm.close(), redis.close(), supabase.close()])
+  await rm(policyDir, { recursive: true, force: true })
+})
+
+async function ask(content: string, headers: Record<string, string> = {}): Promise<{ status: number; events: Array<{ type: string; [key: string]: any }> }> {
+  const response = await streamRoute.POST(new NextRequest('http://localhost/api/chat/stream', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify({ message: { id: `q-${Date.now()}`, content }, model: 'local/llama3.1:8b', settings: { governance: { mode: 'internal' } } }),
+  }))
+  if (!response.body || response.status !== 200) return { status: response.status, events: [] }
+  const text = await new Response(response.body).text()
+  const events = text.split('\n\n')
+    .map(block => block.split('\n').find(line => line.startsWith('data: ')))
+    .filter((line): line is string => !!line)
+    .map(line => JSON.parse(line.slice(6)))
+  return { status: response.status, events }
+}
+
+const agentNames = (events: Array<{ type: string; [key: string]: any }>) =>
+  (events.find(event => event.type === 'agents')?.metadata.chain?.steps || []).map((step: any) => step.agent)
+
+test('a policy for one user applies to that user\'s verified token only', async () => {
+  const bob = await ask('@math 2 + 2', { authorization: 'Bearer bob-token' })
+  assert.equal(bob.status, 200)
+  assert.deepEqual(agentNames(bob.events), ['Math Calculator'])
+
+  const alice = await ask('@math 2 + 2', { authorization: 'Bearer alice-token' })
+  assert.equal(alice.status, 200)
+  assert.deepEqual(agentNames(alice.events), [])
+  assert.equal(alice.events.at(-1)?.type, 'done')
+
+  const [aliceDecision, bobDecision] = await GovernanceAudit.list({ limit: 2 })
+  assert.deepEqual([aliceDecision.userId, aliceDecision.matchedPolicies, aliceDecision.deniedAgents], ['alice', ['alice-no-math'], ['Math Calculator']])
+  assert.deepEqual([bobDecision.userId, bobDecision.matchedPolicies], ['bob', []])
+})
+
+test('the user can\'t be claimed without a valid token', async () => {
+  // Ids in other headers are ignored: this is the default user, whom the policy doesn't cover
+  const claimed = await ask('@math 2 + 2', { 'x-user-id': 'alice' })
+  assert.deepEqual(agentNames(claimed.events), ['Math Calculator'])
+  assert.equal((await GovernanceAudit.list({ limit: 1 }))[0].userId, 'default')
+
+  const forged = await ask('@math 2 + 2', { authorization: 'Bearer forged-token' })
+  assert.equal(forged.status, 401)
+})
@@ -3,7 +3,31 @@ export interface AIModel {
   name: string
   provider: string
   type: 'text' | 'image' | 'video' | 'code'
+  capabilities?: ModelCapabilities // Overrides the provider defaults for this model
   generate(input: any, options?: object): Promise<AIResponse>
+  generateWithTools?(input: string | ModelPrompt, tools: ToolDefinition[], options?: ToolGenerationOptions): Promise<AIResponse>
+}
+
+// What a provider or model supports
+export interface ModelCapabilities {
+  streaming: boolean
+  systemPrompt: boolean
+  multiTurn: boolean
+  tools: boolean
+  vision: boolean
+}
+
+// Wire format a provider streams responses in ('simulated' = full response replayed in chunks)
+export type StreamingFormat = 'openai-sse' | 'anthropic-sse' | 'simulated' | 'none'
+
+// Model catalogue entry shown in the model pickers
+export interface ModelInfo {
+  name: string
+  provider: string
+  category?: 'text' | 'image' | 'voice'
+  id?: string
+  created?: number
+  owned_by?: string
 }
 
 // AI Response Interface
@@ -19,6 +43,88 @@ export interface AIResponse {
     [key: string]: any
   }
   streaming?: boolean
+  toolCalls?: ToolCall[] // Tools the model asked to run instead of (or before) answering
+}
+
+// JSON-schema tool definition an agent publishes for native tool calling
+export interface ToolDefinition {
+  name: string // snake_case function name, e.g. web_search
+  description: string
+  parameters: {
+    type: 'object'
+    properties: Record<string, any>
+    required?: string[]
+  }
+}
+
+// A tool invocation parsed from a model response
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: Record<string, any>
+}
+
+export interface ToolResult {
+  callId: string
+  name: string
+  content: string // JSON-encoded agent data
+  isError?: boolean
+}
+
+// One round of the tool loop: the calls a model made and what the agents returned
+export interface ToolExchange {
+  calls: ToolCall[]
+  results: ToolResult[]
+  assistant?: unknown // Provider-native assistant turn that made the calls, replayed verbatim on the next round
+}
+
+// Prior conversation turn forwarded to models as multi-turn context
+export interface ConversationTurn {
+  id?: string // Source message id, used to track which turns a summary already covers
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// Running summary of turns that no longer fit a model's context window
+export interface ContextSummary {
+  text: string
+  coveredThroughId?: string // Last message folded into the summary
+  turnCount: number // Number of turns folded so far
+  updatedAt: string
+}
+
+// Conversation state handed to the orchestrator alongside the new message
+export interface ConversationContext {
+  conversationId?: string
+  turns: ConversationTurn[]
+  summary?: ContextSummary
+  memoryEnabled?: boolean // Per-chat switch stored in conversation metadata; memory is on unless false
+  memories?: UserMemory[] // Memories relevant to the new message, added to the system prompt
+  documents?: DocumentChunkMatch[] // Excerpts of the conversation's uploaded files that match the new message
+}
+
+// Prompt bundle accepted by text models (system prompt, prior turns, current user turn)
+export interface ModelPrompt {
+  system: string
+  user: string
+  history?: ConversationTurn[]
+  toolExchanges?: ToolExchange[] // Tool rounds that follow the current user turn
+  images?: PromptImage[] // Images attached to the current user turn (vision models only)
+}
+
+// Base64-encoded image sent alongside the user turn
+export interface PromptImage {
+  name: string
+  mimeType: string
+  data: string
+}
+
+// Options for a tool-enabled generation round
+export interface ToolGenerationOptions {
+  temperature?: number
+  maxTokens?: number
+  toolChoice?: 'auto' | 'none'
+  signal?: AbortSignal // Aborts the provider request when the user stops generation
 }
 
 // Agent Interface
@@ -26,7 +132,26 @@ export interface Agent {
   name: string
   description: string
   trigger: string | RegExp
-  run(input: any): Promise<AgentResponse>
+  mention?: string // Handle for explicit calls, e.g. 'search' for @search; defaults to the name without spaces
+  requiredConfig?: string[] // lib/config paths the agent needs, e.g. 'serper.apiKey'; the agent is disabled while any is empty
+  tool?: ToolDefinition // Lets tool-capable models call the agent directly
+  run(input: any, options?: AgentRunOptions): Promise<AgentResponse> // Raw message text, or the tool call arguments
+}
+
+export interface AgentRunOptions {
+  signal?: AbortSignal // Aborted when the user stops generation; agents pass it on to their HTTP calls
+}
+
+// Registered agent as listed by /api/agents
+export interface AgentInfo {
+  name: string
+  description: string
+  mention: string
+  trigger: string
+  tool?: string
+  requiredConfig: string[]
+  missingConfig: string[]
+  enabled: boolean
 }
 
 // Agent Response Interface
@@ -51,9 +176,16 @@ export interface ChatMessage {
   pending?: boolean // True while message is being saved to MongoDB
   deleted?: boolean // Soft delete flag
   embedding?: number[] // For vector search / semantic memory
+  parentId?: string | null // Previous message in this branch (see lib/message-tree); null for the first message
   metadata?: {
     model?: string
     agent?: string
+    agentData?: any
+    editedFrom?: string // User message this edit forked from; the original and its replies stay as a sibling branch
+    agentResults?: Array<{ agent: string; data: any }> // Every agent's data when several ran
+    chain?: AgentChain // Agent steps that fed this answer
+    documentCitations?: DocumentCitation[] // Uploaded files whose excerpts were in the prompt
+    redaction?: RedactionReport // Personal data replaced with placeholders before the prompt left the server
     tokens?: number
     // Legacy dual-response support (deprecated)
     concise?: string // short direct answer extracted
@@ -100,6 +232,58 @@ export interface ChatSession {
   }
 }
 
+// One message matched by /api/search
+export interface MessageSearchResult {
+  conversationId: string
+  conversationTitle: string
+  messageId: string
+  role: ChatMessage['role']
+  snippet: string // Matched terms are wrapped in the markers from lib/search
+  timestamp: number
+  textRank: number | null // Full-text rank; null when only the embedding matched
+  similarity: number | null // Cosine similarity to the query embedding, if one was given
+  score: number
+}
+
+// Durable fact or preference about the user, carried across conversations (lib/memory.ts)
+export interface UserMemory {
+  id: string
+  content: string
+  kind: 'fact' | 'preference'
+  source: 'explicit' | 'automatic' | 'manual' // "remember that…" instruction, picked up from a message, or added by hand
+  conversationId: string | null // Provenance: where the memory was said
+  messageId: string | null
+  createdAt: string
+  updatedAt: string
+  lastUsedAt: string | null
+}
+
+// Excerpt of an uploaded file retrieved for a message (lib/documents.ts)
+// What PII redaction masked for one response; values are never included
+export interface RedactionReport {
+  total: number // Distinct values masked
+  kinds: Record<string, number> // e.g. { email: 2, phone: 1 }
+  placeholders: Array<{ placeholder: string; kind: string }> // e.g. { placeholder: '[EMAIL_1]', kind: 'email' }
+}
+
+export interface DocumentChunkMatch {
+  id: string
+  attachmentId: string
+  fileName: string
+  url: string
+  page: number | null // 1-based PDF page; null for formats without pages
+  chunkIndex: number
+  content: string
+  score: number
+}
+
+// Where an excerpt given to the model came from; kept on the answer so its citations can link to the file
+export interface DocumentCitation {
+  fileName: string
+  url: string // Links straight to the page for PDFs
+  page: number | null
+}
+
 // MongoDB Chat Document Interface
 export interface ChatDocument {
   _id?: string
@@ -152,9 +336,28 @@ export interface ModelProvider {
 }
 
 // Orchestrator Configuration
+// One agent invocation in a multi-step chain, stored on the assistant message so the UI can show how an answer was reached
+export interface AgentChainStep {
+  depth: number // Chain round, starting at 1; agents called in the same round share a depth
+  agent: string
+  tool?: string // Tool name when the model chose the agent through tool calling
+  input: any // Tool arguments, or the raw message for @mentions and keyword matches
+  status: 'success' | 'error' | 'timeout' | 'cancelled'
+  durationMs: number
+  error?: string
+}
+
+export interface AgentChain {
+  steps: AgentChainStep[]
+  depth: number // Deepest round reached
+  stopReason: 'complete' | 'max_depth' | 'timeout' | 'cancelled'
+  durationMs: number
+}
+
 export interface OrchestratorConfig {
   defaultModel: string
   enableAutoAgents: boolean
-  maxChainDepth: number
-  timeout: number
+  maxChainDepth: number // Most agent rounds a model may chain before answering
+  timeout: number // Budget in ms for the whole agent chain
+  agentTimeout?: number // Budget in ms for each agent run; defaults to timeout
 }